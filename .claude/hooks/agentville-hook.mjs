@@ -0,0 +1,633 @@
+#!/usr/bin/env node
+// ── AgentVille Hook ──────────────────────────────────────
+// Claude Code runs this on every hook event with a JSON payload
+// on stdin. We turn it into heartbeats for the bridge so the
+// session shows up as a villager. Zero dependencies, and it never
+// fails the hook: errors and an unreachable bridge are ignored.
+//
+// While the bridge is down, failing or refusing the token,
+// heartbeats go to a local spool file and are replayed (with their original timestamps) through
+// /api/batch on the next run that reaches the bridge. Each carries an
+// id, so the bridge skips what it already took from a batch whose
+// answer never arrived.
+//
+// Before a tool runs, the hook also asks the bridge whether the
+// call needs approval from the village (e.g. `rm -rf`) and, if so,
+// waits for the verdict and hands it to Claude Code.
+//
+// At the end of each turn it reads the new `usage` entries of the
+// session transcript and reports the real token counts.
+//
+// Run as `agentville-hook.mjs post-commit` from a git post-commit
+// hook (bin/connect.sh --git-hook), it reports the commit just made.
+//
+// Env:  AGENTVILLE_URL    bridge URL (default http://localhost:4242)
+//       AGENTVILLE_TOKEN  shared token, when the bridge requires one
+//       AGENTVILLE_SPOOL  spool file (default ~/.claude/data/agentville-spool.jsonl)
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { execFileSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+
+const BRIDGE_URL = process.env.AGENTVILLE_URL || 'http://localhost:4242';
+const SPOOL_PATH = process.env.AGENTVILLE_SPOOL
+  || path.join(os.homedir(), '.claude', 'data', 'agentville-spool.jsonl');
+const REQUEST_TIMEOUT = 2000; // hooks run inline with the agent — never hold it up
+const BATCH_TIMEOUT = 5000;
+// Just under the PreToolUse hook timeout (150s) the connect scripts
+// set; the bridge settles approvals before this
+const APPROVAL_TIMEOUT = 145_000;
+const MAX_SPOOL_BYTES = 10 * 1024 * 1024; // stop spooling past this; the bridge has been down for ages
+const MAX_DETAIL = 60;
+const MAX_MESSAGE = 280; // Task prompt/result excerpt carried by the village messenger
+// Tail of a test command's output: runners print their summary last
+const MAX_TEST_OUTPUT = 8 * 1024;
+// Head of a git command's output: the commit line and stats come first
+const MAX_GIT_OUTPUT = 4 * 1024;
+// Where the hook got to in each transcript, next to the spool
+const CURSOR_DIR = path.join(path.dirname(SPOOL_PATH), 'agentville-transcripts');
+const MAX_TRANSCRIPT_READ = 8 * 1024 * 1024; // per run; the rest is read at the next Stop
+const CURSOR_MAX_AGE = 30 * 24 * 3600_000;
+
+// ── Classification ───────────────────────────────────────
+
+const TOOL_ACTIVITY = {
+  Task: 'planning',
+  TodoWrite: 'planning',
+  EnterPlanMode: 'planning',
+  ExitPlanMode: 'planning',
+  AskUserQuestion: 'planning',
+  Edit: 'coding',
+  MultiEdit: 'coding',
+  Write: 'coding',
+  NotebookEdit: 'coding',
+  Read: 'researching',
+  Glob: 'researching',
+  Grep: 'researching',
+  LS: 'researching',
+  WebFetch: 'researching',
+  WebSearch: 'researching',
+};
+
+// Same operations the bridge's git parser reads (server/gitParser.mjs)
+const GIT_COMMAND = /\bgit\b[^|;&]*\b(commit|push|checkout|switch|merge|cherry-pick|rebase)\b/;
+
+const TEST_COMMAND = /\b(test|tests|jest|vitest|pytest|mocha|rspec|phpunit|playwright|cypress)\b|\b(cargo|go|npm|pnpm|yarn|bun|deno|mix|dotnet) (run )?test\b/;
+
+/**
+ * Map a tool call to an ActivityType.
+ */
+export function classifyTool(toolName, toolInput = {}) {
+  if (toolName === 'Bash') {
+    return TEST_COMMAND.test(toolInput.command || '') ? 'testing' : 'coding';
+  }
+  if (TOOL_ACTIVITY[toolName]) return TOOL_ACTIVITY[toolName];
+  if (toolName?.startsWith('mcp__')) return 'researching';
+  return 'coding';
+}
+
+function truncate(text, max = MAX_DETAIL) {
+  const oneLine = String(text).replace(/\s+/g, ' ').trim();
+  return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine;
+}
+
+/**
+ * Short human-readable description of a tool call (shown in the speech bubble).
+ */
+export function extractDetail(toolName, toolInput = {}) {
+  const file = toolInput.file_path || toolInput.notebook_path;
+  if (file) return path.basename(file);
+  if (toolName === 'Bash' && toolInput.command) return truncate(toolInput.command);
+  if (toolInput.pattern) return truncate(toolInput.pattern);
+  if (toolInput.url) {
+    try {
+      return new URL(toolInput.url).hostname;
+    } catch {
+      return truncate(toolInput.url);
+    }
+  }
+  if (toolInput.query) return truncate(toolInput.query);
+  if (toolInput.description) return truncate(toolInput.description);
+  if (toolName === 'TodoWrite') return 'todos';
+  return toolName || '';
+}
+
+/**
+ * Size of a tool payload in bytes, as the bridge's token estimate expects.
+ */
+export function byteSize(value) {
+  if (value == null) return 0;
+  return Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+// Tool input fields the bridge's classification rules look at.
+// Everything else (file contents, edit strings) stays local.
+const CLASSIFIER_FIELDS = ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'url', 'query', 'description'];
+const MAX_FIELD = 500;
+
+/**
+ * The parts of a tool input worth sending for server-side classification.
+ */
+export function slimToolInput(toolInput = {}) {
+  const slim = {};
+  for (const key of CLASSIFIER_FIELDS) {
+    if (typeof toolInput[key] === 'string') slim[key] = toolInput[key].slice(0, MAX_FIELD);
+  }
+  return slim;
+}
+
+// Same slug the bridge derives from an agent name
+export function agentIdFor(name) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * Text a Task call returned: a plain string, content blocks
+ * ({ content: [{ type: 'text', text }] }) or { result }.
+ */
+function taskResultText(response) {
+  if (typeof response === 'string') return response;
+  if (!response || typeof response !== 'object') return '';
+  if (Array.isArray(response.content)) {
+    return response.content.map(block => (typeof block?.text === 'string' ? block.text : '')).join(' ');
+  }
+  return typeof response.result === 'string' ? response.result : '';
+}
+
+// What a Bash call printed: { stdout, stderr } or a string
+function bashOutput(response) {
+  if (typeof response === 'string') return response;
+  return [response?.stdout, response?.stderr].filter(part => typeof part === 'string' && part).join('\n');
+}
+
+/**
+ * Tail of what a Bash call printed, where test runners put their summary.
+ */
+export function testOutputTail(response, max = MAX_TEST_OUTPUT) {
+  const text = bashOutput(response);
+  return text.length > max ? text.slice(-max) : text;
+}
+
+/**
+ * Head of what a Bash call printed, where git reports commits.
+ */
+export function gitOutputHead(response, max = MAX_GIT_OUTPUT) {
+  return bashOutput(response).slice(0, max);
+}
+
+function taskPrompt(toolInput = {}) {
+  return truncate(toolInput.prompt || toolInput.description || '', MAX_MESSAGE);
+}
+
+// ── Hook event → bridge requests ─────────────────────────
+
+function sendersFor(input) {
+  const project = path.basename(input.cwd || process.cwd());
+  const mainAgent = `Claude (${project})`;
+  const subAgent = `${mainAgent} ${input.agent_type || 'agent'}`;
+  // Tool calls made inside a sub-agent carry its type
+  const sender = input.agent_type ? { agent: subAgent, parentAgent: mainAgent } : { agent: mainAgent };
+  return { project, mainAgent, subAgent, sender };
+}
+
+/**
+ * Requests to send to the bridge for one hook payload, as
+ * [{ path, body }]. Unknown events produce none.
+ */
+export function buildRequests(input) {
+  const { project, mainAgent, subAgent, sender } = sendersFor(input);
+  const heartbeat = (fields) => ({ path: '/api/heartbeat', body: { ...sender, project, ...fields } });
+  // The sub-agent a Task call starts — SubagentStart later reports the
+  // same type (Claude Code defaults to general-purpose)
+  const taskAgent = input.tool_name === 'Task'
+    ? `${mainAgent} ${input.tool_input?.subagent_type || 'general-purpose'}`
+    : null;
+
+  switch (input.hook_event_name) {
+    case 'SessionStart':
+      return [heartbeat({ activity: 'planning', detail: 'starting', busy: true })];
+
+    case 'UserPromptSubmit':
+      return [heartbeat({ activity: 'planning', detail: 'new prompt', busy: true, inputBytes: byteSize(input.prompt) })];
+
+    case 'PreToolUse':
+      // The bridge classifies `tool` with its rules; activity/detail are
+      // the fallback for bridges without them
+      return [heartbeat({
+        tool: input.tool_name,
+        toolInput: slimToolInput(input.tool_input),
+        activity: classifyTool(input.tool_name, input.tool_input),
+        detail: extractDetail(input.tool_name, input.tool_input),
+        busy: true,
+        inputBytes: byteSize(input.tool_input),
+        ...(input.tool_name === 'AskUserQuestion' ? { waiting: true } : {}),
+        // The bridge turns this into a messenger flying to the sub-agent
+        ...(taskAgent ? { message: { to: taskAgent, kind: 'prompt', text: taskPrompt(input.tool_input) } } : {}),
+      })];
+
+    case 'PostToolUse': {
+      // No activity — the bridge keeps the current one and just counts bytes.
+      // A finished Task carries the sub-agent's result back to its parent
+      // (SubagentStop itself doesn't include it). A test command sends
+      // the end of its output, for the bridge to read the summary, and
+      // a git command the start, where commits and pushes are reported.
+      const result = taskAgent ? truncate(taskResultText(input.tool_response), MAX_MESSAGE) : '';
+      const command = input.tool_name === 'Bash' ? slimToolInput(input.tool_input).command || '' : '';
+      const testOutput = command && TEST_COMMAND.test(command) ? testOutputTail(input.tool_response) : '';
+      const gitOutput = command && GIT_COMMAND.test(command) ? gitOutputHead(input.tool_response) : '';
+      return [heartbeat({
+        outputBytes: byteSize(input.tool_response),
+        ...(result ? { message: { from: taskAgent, kind: 'result', text: result } } : {}),
+        ...(testOutput ? { testCommand: command, testOutput } : {}),
+        ...(gitOutput ? { gitCommand: command, gitOutput } : {}),
+      })];
+    }
+
+    case 'Notification':
+      return [heartbeat({ waiting: true, detail: truncate(input.message || 'needs input') })];
+
+    case 'Stop':
+      return [heartbeat({ activity: 'idle', busy: false })];
+
+    case 'SessionEnd':
+      return [{ path: '/api/event', body: { type: 'agent:despawn', agentId: agentIdFor(mainAgent) } }];
+
+    case 'SubagentStart':
+      return [{
+        path: '/api/heartbeat',
+        body: {
+          agent: subAgent,
+          parentAgent: mainAgent,
+          project,
+          newSpawn: true, // re-activating a roster dwarf still counts for the parent
+          activity: 'planning',
+          detail: 'starting',
+          busy: true,
+        },
+      }];
+
+    case 'SubagentStop':
+      return [{ path: '/api/event', body: { type: 'agent:despawn', agentId: agentIdFor(subAgent) } }];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * The approval check for a PreToolUse payload, as { path, body },
+ * or null for other events.
+ */
+export function buildApprovalRequest(input) {
+  if (input.hook_event_name !== 'PreToolUse') return null;
+  const { project, sender } = sendersFor(input);
+  return {
+    path: '/api/approval',
+    body: { ...sender, project, tool: input.tool_name, toolInput: slimToolInput(input.tool_input) },
+  };
+}
+
+/**
+ * PreToolUse hook output for a bridge verdict, or null to leave the
+ * call to Claude Code's usual permission flow.
+ */
+export function approvalOutput(verdict) {
+  if (!['allow', 'deny', 'ask'].includes(verdict?.decision)) return null;
+  return JSON.stringify({
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      permissionDecision: verdict.decision,
+      permissionDecisionReason: verdict.reason || 'AgentVille approval',
+    },
+  });
+}
+
+// ── Transcript usage ─────────────────────────────────────
+// Claude Code writes every model response to the session transcript
+// (JSONL) with its `usage`. On Stop the hook reads the lines added
+// since its last read — kept in a small cursor file per transcript —
+// and on SubagentStop the sub-agent's own transcript.
+
+const USAGE_FIELDS = {
+  inputTokens: 'input_tokens',
+  outputTokens: 'output_tokens',
+  cacheReadTokens: 'cache_read_input_tokens',
+  cacheCreationTokens: 'cache_creation_input_tokens',
+};
+
+/**
+ * Token usage in transcript lines, as { inputTokens, outputTokens,
+ * cacheReadTokens, cacheCreationTokens, model }.
+ *
+ * A response is written as one line per content block, each repeating
+ * its usage, so every message id counts once at its highest values.
+ * `last` ({ id, counted }) carries the last message across reads and
+ * is updated. Only lines with the given `sidechain` flag count: in the
+ * main transcript, sub-agent turns are counted from their own.
+ */
+export function sumUsage(lines, last = { id: null, counted: {} }, { sidechain = false } = {}) {
+  const totals = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, model: null };
+  for (const line of lines) {
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const message = entry?.message;
+    if (entry?.type !== 'assistant' || !message?.usage || !!entry.isSidechain !== sidechain) continue;
+
+    const counted = message.id && message.id === last.id ? last.counted : {};
+    const next = {};
+    for (const [field, key] of Object.entries(USAGE_FIELDS)) {
+      const value = Number(message.usage[key]) || 0;
+      totals[field] += Math.max(0, value - (counted[field] || 0));
+      next[field] = Math.max(value, counted[field] || 0);
+    }
+    last.id = message.id || null;
+    last.counted = next;
+    if (message.model && message.model !== '<synthetic>') totals.model = message.model;
+  }
+  return totals;
+}
+
+/**
+ * Usage in the part of a transcript not read yet, or null if there's
+ * none. Only complete lines are read; the cursor moves past them.
+ */
+export function readTranscriptUsage(transcriptPath, { cursorDir = CURSOR_DIR, sidechain = false } = {}) {
+  const cursorPath = path.join(cursorDir, `${path.basename(transcriptPath)}.cursor.json`);
+  const fresh = { offset: 0, last: { id: null, counted: {} } };
+  let cursor = fresh;
+  try {
+    cursor = { ...fresh, ...JSON.parse(fs.readFileSync(cursorPath, 'utf-8')) };
+  } catch {
+    // First read of this transcript
+  }
+
+  let text;
+  try {
+    const fd = fs.openSync(transcriptPath, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size < cursor.offset) cursor = fresh; // rewritten
+      const length = Math.min(size - cursor.offset, MAX_TRANSCRIPT_READ);
+      if (length <= 0) return null;
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, cursor.offset);
+      text = buffer.toString('utf-8');
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return null;
+  }
+
+  const end = text.lastIndexOf('\n');
+  if (end === -1) return null;
+  const complete = text.slice(0, end);
+  cursor.offset += Buffer.byteLength(complete) + 1;
+  const usage = sumUsage(complete.split('\n'), cursor.last, { sidechain });
+
+  try {
+    fs.mkdirSync(cursorDir, { recursive: true });
+    fs.writeFileSync(cursorPath, JSON.stringify(cursor));
+  } catch {
+    // Can't keep the cursor — the next read starts over, so report nothing
+    return null;
+  }
+  const counts = Object.keys(USAGE_FIELDS).some(field => usage[field] > 0);
+  return counts ? usage : null;
+}
+
+// Cursors of sessions nobody has touched in a month
+function pruneCursors(cursorDir) {
+  try {
+    for (const name of fs.readdirSync(cursorDir)) {
+      const file = path.join(cursorDir, name);
+      if (Date.now() - fs.statSync(file).mtimeMs > CURSOR_MAX_AGE) fs.rmSync(file, { force: true });
+    }
+  } catch {
+    // No cursors yet
+  }
+}
+
+/**
+ * Heartbeats with the real token counts for a Stop, SessionEnd or
+ * SubagentStop payload, as [{ path, body }]; none if nothing new was
+ * used. They go before the payload's own requests, so the sub-agent
+ * gets its tokens before it despawns.
+ */
+export function buildUsageRequests(input, { cursorDir = CURSOR_DIR } = {}) {
+  const { project, mainAgent, subAgent, sender } = sendersFor(input);
+  let usage = null;
+  let agent = sender;
+  switch (input.hook_event_name) {
+    case 'Stop':
+    case 'SessionEnd':
+      if (input.hook_event_name === 'SessionEnd') pruneCursors(cursorDir);
+      if (input.transcript_path) usage = readTranscriptUsage(input.transcript_path, { cursorDir });
+      break;
+    case 'SubagentStop':
+      agent = { agent: subAgent, parentAgent: mainAgent };
+      if (input.agent_transcript_path) {
+        usage = readTranscriptUsage(input.agent_transcript_path, { cursorDir, sidechain: true });
+      }
+      break;
+  }
+  if (!usage) return [];
+  const { model, ...counts } = usage;
+  return [{ path: '/api/heartbeat', body: { ...agent, project, ...counts, ...(model ? { model } : {}) } }];
+}
+
+// ── Post-commit ──────────────────────────────────────────
+// The git hook bin/connect.sh installs with --git-hook runs us after
+// every commit in the project, by an agent or by hand. The commit is
+// credited to the project's main agent without spawning it.
+
+function git(cwd, args) {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'], timeout: REQUEST_TIMEOUT });
+}
+
+/**
+ * The commit HEAD points at, as { sha, branch, message, files,
+ * insertions, deletions }, or null outside a repository.
+ */
+export function readLastCommit(cwd = process.cwd()) {
+  try {
+    const [sha, message, ...rest] = git(cwd, ['log', '-1', '--format=%H%n%s', '--shortstat']).split('\n');
+    const branch = git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']).trim();
+    const stat = /(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?/.exec(rest.join('\n'));
+    return {
+      sha: sha.trim(),
+      branch: branch === 'HEAD' ? null : branch,
+      message: truncate(message || '', 200),
+      files: Number(stat?.[1] || 0),
+      insertions: Number(stat?.[2] || 0),
+      deletions: Number(stat?.[3] || 0),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The /api/commit request for a commit made in `cwd`, as [{ path, body }].
+ */
+export function buildCommitRequests(cwd, commit) {
+  if (!commit?.sha) return [];
+  const { project, mainAgent } = sendersFor({ cwd });
+  return [{ path: '/api/commit', body: { agent: mainAgent, project, ...commit } }];
+}
+
+// ── Transport ────────────────────────────────────────────
+
+// Resolves false when the request should be spooled and sent again
+// later: the bridge is down, failed (5xx) or refused the token (401,
+// e.g. AGENTVILLE_TOKEN missing or stale). Other 4xx answers would
+// fail again on replay, so they count as handled.
+async function post(urlPath, body, { url, token, timeout }) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  try {
+    const res = await fetch(`${url}${urlPath}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeout),
+    });
+    return res.ok || (res.status >= 400 && res.status < 500 && res.status !== 401);
+  } catch {
+    return false; // bridge not running — stay silent
+  }
+}
+
+/**
+ * POST one request to the bridge. Resolves false if it should be
+ * retried later (bridge down, 5xx or 401).
+ */
+export function send(request, { url = BRIDGE_URL, token = process.env.AGENTVILLE_TOKEN } = {}) {
+  return post(request.path, request.body, { url, token, timeout: REQUEST_TIMEOUT });
+}
+
+/**
+ * Ask the bridge for a verdict and wait for it. Resolves null if the
+ * bridge couldn't be reached or didn't answer in time.
+ */
+export async function askApproval(request, { url = BRIDGE_URL, token = process.env.AGENTVILLE_TOKEN, timeout = APPROVAL_TIMEOUT } = {}) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  try {
+    const res = await fetch(`${url}${request.path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request.body),
+      signal: AbortSignal.timeout(timeout),
+    });
+    return res.ok ? await res.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+// ── Offline spool ────────────────────────────────────────
+
+/**
+ * Append requests ({ id, path, body, timestamp }) to the spool.
+ */
+export function appendSpool(requests, spoolPath = SPOOL_PATH) {
+  try {
+    if (fs.statSync(spoolPath).size > MAX_SPOOL_BYTES) return;
+  } catch {
+    // No spool yet
+  }
+  try {
+    fs.mkdirSync(path.dirname(spoolPath), { recursive: true });
+    fs.appendFileSync(spoolPath, requests.map(r => JSON.stringify(r) + '\n').join(''));
+  } catch {
+    // Can't write the spool either — drop it
+  }
+}
+
+/**
+ * Replay the spool through /api/batch. Resolves false if the bridge
+ * couldn't take them (the entries stay spooled); true otherwise,
+ * including when there was nothing to send.
+ */
+export async function flushSpool({ url = BRIDGE_URL, token = process.env.AGENTVILLE_TOKEN, spoolPath = SPOOL_PATH } = {}) {
+  // Claim the file first so concurrent hooks don't send it twice
+  const claimed = `${spoolPath}.${process.pid}.claimed`;
+  try {
+    fs.renameSync(spoolPath, claimed);
+  } catch {
+    return true;
+  }
+
+  const text = fs.readFileSync(claimed, 'utf-8');
+  const entries = [];
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Torn write — skip the line
+    }
+  }
+
+  const ok = entries.length === 0 || await post('/api/batch', { entries }, { url, token, timeout: BATCH_TIMEOUT });
+  if (!ok) appendSpool(entries, spoolPath);
+  fs.rmSync(claimed, { force: true });
+  return ok;
+}
+
+async function readStdin() {
+  let data = '';
+  for await (const chunk of process.stdin) data += chunk;
+  return data;
+}
+
+async function main() {
+  let input = null;
+  let requests;
+  if (process.argv[2] === 'post-commit') {
+    requests = buildCommitRequests(process.cwd(), readLastCommit());
+  } else {
+    try {
+      input = JSON.parse(await readStdin());
+    } catch {
+      return;
+    }
+    requests = [...buildUsageRequests(input), ...buildRequests(input)];
+  }
+  requests = requests.map(r => ({ ...r, id: randomUUID(), timestamp: Date.now() }));
+  if (requests.length === 0) return;
+
+  // Older spooled heartbeats go first so the bridge sees them in order
+  if (!(await flushSpool())) {
+    appendSpool(requests);
+    return;
+  }
+  let reached = true;
+  for (const request of requests) {
+    if (!(await send(request))) {
+      appendSpool([request]);
+      reached = false;
+    }
+  }
+
+  const approval = reached && input && buildApprovalRequest(input);
+  if (approval) {
+    const output = approvalOutput(await askApproval(approval));
+    if (output) fs.writeSync(1, output);
+  }
+}
+
+// Run only when executed directly (tests import the functions above).
+// Nothing else goes to stdout: Claude Code feeds some hooks' output
+// to the model, and reads PreToolUse output as the permission decision.
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().finally(() => process.exit(0));
+}
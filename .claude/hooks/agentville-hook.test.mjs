@@ -0,0 +1,582 @@
+/**
+ * Tests for the Claude Code hook (classification, payloads, transport).
+ * Run: node --test .claude/hooks/agentville-hook.test.mjs
+ */
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { spawn, execFileSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import {
+  classifyTool, extractDetail, slimToolInput, byteSize, agentIdFor, buildRequests, send,
+  appendSpool, flushSpool, buildApprovalRequest, approvalOutput,
+  sumUsage, readTranscriptUsage, buildUsageRequests, testOutputTail,
+  gitOutputHead, readLastCommit, buildCommitRequests,
+} from './agentville-hook.mjs';
+
+const HOOK_PATH = fileURLToPath(new URL('./agentville-hook.mjs', import.meta.url));
+const CWD = '/home/dev/AgentVille';
+const TMP = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-hook-'));
+
+after(() => fs.rmSync(TMP, { recursive: true, force: true }));
+
+function readSpool(spoolPath) {
+  return fs.readFileSync(spoolPath, 'utf-8').trim().split('\n').map(l => JSON.parse(l));
+}
+
+// Run the hook script with a payload on stdin; resolves { code, stdout }
+async function runHook(payload, env) {
+  const child = spawn('node', [HOOK_PATH], {
+    env: { ...process.env, AGENTVILLE_TOKEN: '', ...env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  let stdout = '';
+  child.stdout.on('data', (d) => (stdout += d));
+  child.stdin.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  const code = await new Promise(r => child.once('exit', r));
+  return { code, stdout };
+}
+
+describe('classifyTool', () => {
+  it('should map tools to activities', () => {
+    assert.equal(classifyTool('Task'), 'planning');
+    assert.equal(classifyTool('TodoWrite'), 'planning');
+    assert.equal(classifyTool('Edit'), 'coding');
+    assert.equal(classifyTool('Write'), 'coding');
+    assert.equal(classifyTool('Read'), 'researching');
+    assert.equal(classifyTool('Grep'), 'researching');
+    assert.equal(classifyTool('WebSearch'), 'researching');
+  });
+
+  it('should classify test commands as testing', () => {
+    for (const command of ['npm test', 'npx vitest run', 'pytest -x', 'go test ./...', 'cargo test', 'node --test server/*.test.mjs']) {
+      assert.equal(classifyTool('Bash', { command }), 'testing', command);
+    }
+  });
+
+  it('should classify other commands as coding', () => {
+    assert.equal(classifyTool('Bash', { command: 'npm install' }), 'coding');
+    assert.equal(classifyTool('Bash', {}), 'coding');
+  });
+
+  it('should treat MCP tools as research and unknown tools as coding', () => {
+    assert.equal(classifyTool('mcp__github__get_issue'), 'researching');
+    assert.equal(classifyTool('SomethingNew'), 'coding');
+  });
+});
+
+describe('extractDetail', () => {
+  it('should use the file name for file tools', () => {
+    assert.equal(extractDetail('Edit', { file_path: '/repo/src/App.tsx' }), 'App.tsx');
+    assert.equal(extractDetail('NotebookEdit', { notebook_path: '/repo/a.ipynb' }), 'a.ipynb');
+  });
+
+  it('should collapse and truncate long commands', () => {
+    const detail = extractDetail('Bash', { command: `echo ${'x'.repeat(100)}\nls` });
+    assert.equal(detail.length, 60);
+    assert.ok(detail.endsWith('…'));
+    assert.ok(!detail.includes('\n'));
+  });
+
+  it('should use the pattern, hostname, query or description', () => {
+    assert.equal(extractDetail('Grep', { pattern: 'TODO' }), 'TODO');
+    assert.equal(extractDetail('WebFetch', { url: 'https://nodejs.org/api/test.html' }), 'nodejs.org');
+    assert.equal(extractDetail('WebSearch', { query: 'node test runner' }), 'node test runner');
+    assert.equal(extractDetail('Task', { description: 'Find callers' }), 'Find callers');
+  });
+
+  it('should fall back to the tool name', () => {
+    assert.equal(extractDetail('TodoWrite', { todos: [] }), 'todos');
+    assert.equal(extractDetail('ExitPlanMode', {}), 'ExitPlanMode');
+  });
+});
+
+describe('slimToolInput', () => {
+  it('should keep only the fields classification rules use', () => {
+    assert.deepEqual(
+      slimToolInput({ file_path: '/a/b.ts', old_string: 'x', new_string: 'y', content: 'big' }),
+      { file_path: '/a/b.ts' },
+    );
+  });
+
+  it('should cap long values', () => {
+    assert.equal(slimToolInput({ command: 'x'.repeat(2000) }).command.length, 500);
+  });
+});
+
+describe('byteSize', () => {
+  it('should measure strings and JSON payloads in bytes', () => {
+    assert.equal(byteSize('héllo'), 6);
+    assert.equal(byteSize({ a: 1 }), 7);
+    assert.equal(byteSize(undefined), 0);
+  });
+});
+
+describe('testOutputTail', () => {
+  it('should keep the end of long output', () => {
+    assert.equal(testOutputTail(`${'x'.repeat(100)}summary`, 10), 'xxxsummary');
+  });
+
+  it('should read strings and skip missing streams', () => {
+    assert.equal(testOutputTail('plain'), 'plain');
+    assert.equal(testOutputTail({ stdout: '', stderr: 'only stderr' }), 'only stderr');
+    assert.equal(testOutputTail(null), '');
+  });
+});
+
+describe('gitOutputHead', () => {
+  it('should keep the start of long output', () => {
+    assert.equal(gitOutputHead(`[main abc1234] x${'y'.repeat(100)}`, 16), '[main abc1234] x');
+  });
+});
+
+describe('post-commit', () => {
+  it('should read the last commit of a repository', () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-git-'));
+    const run = (...args) => execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+    run('init', '-q', '-b', 'feat/cart');
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'one\ntwo\n');
+    fs.writeFileSync(path.join(repo, 'b.txt'), 'three\n');
+    run('add', '-A');
+    run('-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', 'commit', '-qm', 'Add the cart');
+
+    const commit = readLastCommit(repo);
+    assert.match(commit.sha, /^[0-9a-f]{40}$/);
+    assert.deepEqual({ ...commit, sha: '' }, {
+      sha: '', branch: 'feat/cart', message: 'Add the cart', files: 2, insertions: 3, deletions: 0,
+    });
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should read nothing outside a repository', () => {
+    assert.equal(readLastCommit(os.tmpdir()), null);
+  });
+
+  it('should credit the commit to the project\'s main agent', () => {
+    const commit = { sha: 'abc1234', branch: 'main', message: 'x', files: 1, insertions: 1, deletions: 0 };
+    assert.deepEqual(buildCommitRequests(CWD, commit), [{
+      path: '/api/commit',
+      body: { agent: 'Claude (AgentVille)', project: 'AgentVille', ...commit },
+    }]);
+    assert.deepEqual(buildCommitRequests(CWD, null), []);
+  });
+});
+
+describe('buildRequests', () => {
+  const base = { session_id: 's1', cwd: CWD };
+
+  it('should send a planning heartbeat on SessionStart', () => {
+    assert.deepEqual(buildRequests({ ...base, hook_event_name: 'SessionStart' }), [{
+      path: '/api/heartbeat',
+      body: { agent: 'Claude (AgentVille)', project: 'AgentVille', activity: 'planning', detail: 'starting', busy: true },
+    }]);
+  });
+
+  it('should send activity, detail and input bytes on PreToolUse', () => {
+    const toolInput = { file_path: '/repo/README.md' };
+    const [req] = buildRequests({ ...base, hook_event_name: 'PreToolUse', tool_name: 'Read', tool_input: toolInput });
+    assert.deepEqual(req.body, {
+      agent: 'Claude (AgentVille)', project: 'AgentVille',
+      tool: 'Read', toolInput: { file_path: '/repo/README.md' },
+      activity: 'researching', detail: 'README.md', busy: true, inputBytes: byteSize(toolInput),
+    });
+  });
+
+  it('should mark AskUserQuestion as waiting', () => {
+    const [req] = buildRequests({ ...base, hook_event_name: 'PreToolUse', tool_name: 'AskUserQuestion', tool_input: {} });
+    assert.equal(req.body.waiting, true);
+  });
+
+  it('should send only output bytes on PostToolUse', () => {
+    const [req] = buildRequests({ ...base, hook_event_name: 'PostToolUse', tool_name: 'Read', tool_response: 'abc' });
+    assert.equal(req.body.activity, undefined);
+    assert.equal(req.body.outputBytes, 3);
+  });
+
+  it('should attribute tool calls inside a sub-agent to it', () => {
+    const [req] = buildRequests({ ...base, hook_event_name: 'PreToolUse', agent_type: 'Explore', tool_name: 'Grep', tool_input: {} });
+    assert.equal(req.body.agent, 'Claude (AgentVille) Explore');
+    assert.equal(req.body.parentAgent, 'Claude (AgentVille)');
+  });
+
+  it('should send the Task prompt to the sub-agent it starts', () => {
+    const prompt = `Find every caller of  renameAgent\n${'and explain each one. '.repeat(20)}`;
+    const [req] = buildRequests({
+      ...base, hook_event_name: 'PreToolUse', tool_name: 'Task',
+      tool_input: { description: 'Find callers', prompt, subagent_type: 'Explore' },
+    });
+    assert.equal(req.body.message.to, 'Claude (AgentVille) Explore');
+    assert.equal(req.body.message.kind, 'prompt');
+    assert.ok(req.body.message.text.startsWith('Find every caller of renameAgent and explain'));
+    assert.equal(req.body.message.text.length, 280);
+    assert.ok(req.body.message.text.endsWith('…'));
+  });
+
+  it('should send the Task result back from the sub-agent', () => {
+    const [req] = buildRequests({
+      ...base, hook_event_name: 'PostToolUse', tool_name: 'Task',
+      tool_input: { prompt: 'Plan it' },
+      tool_response: { content: [{ type: 'text', text: 'Three steps:' }, { type: 'text', text: 'split, test, ship' }] },
+    });
+    assert.deepEqual(req.body.message, {
+      from: 'Claude (AgentVille) general-purpose', kind: 'result', text: 'Three steps: split, test, ship',
+    });
+  });
+
+  it('should not send a message for other tools or empty results', () => {
+    const [read] = buildRequests({ ...base, hook_event_name: 'PostToolUse', tool_name: 'Read', tool_response: 'abc' });
+    assert.equal(read.body.message, undefined);
+    const [task] = buildRequests({ ...base, hook_event_name: 'PostToolUse', tool_name: 'Task', tool_response: {} });
+    assert.equal(task.body.message, undefined);
+  });
+
+  it('should send the end of a test command\'s output', () => {
+    const [req] = buildRequests({
+      ...base, hook_event_name: 'PostToolUse', tool_name: 'Bash',
+      tool_input: { command: 'npx vitest run' },
+      tool_response: { stdout: 'Tests  3 passed (3)', stderr: 'warning: slow', interrupted: false },
+    });
+    assert.equal(req.body.testCommand, 'npx vitest run');
+    assert.equal(req.body.testOutput, 'Tests  3 passed (3)\nwarning: slow');
+  });
+
+  it('should send the start of a git command\'s output', () => {
+    const [req] = buildRequests({
+      ...base, hook_event_name: 'PostToolUse', tool_name: 'Bash',
+      tool_input: { command: 'git commit -qm "Fix cart" && git push' },
+      tool_response: { stdout: '[main 5c2f495] Fix cart\n 1 file changed, 2 insertions(+)', stderr: 'To origin' },
+    });
+    assert.equal(req.body.gitCommand, 'git commit -qm "Fix cart" && git push');
+    assert.equal(req.body.gitOutput, '[main 5c2f495] Fix cart\n 1 file changed, 2 insertions(+)\nTo origin');
+    assert.equal(req.body.testOutput, undefined);
+  });
+
+  it('should not send the output of other commands', () => {
+    const [req] = buildRequests({
+      ...base, hook_event_name: 'PostToolUse', tool_name: 'Bash',
+      tool_input: { command: 'ls -la' }, tool_response: { stdout: 'total 0' },
+    });
+    assert.equal(req.body.testOutput, undefined);
+    assert.equal(req.body.testCommand, undefined);
+    assert.equal(req.body.gitOutput, undefined);
+  });
+
+  it('should flag waiting on Notification and go idle on Stop', () => {
+    const [notify] = buildRequests({ ...base, hook_event_name: 'Notification', message: 'Claude needs your permission' });
+    assert.equal(notify.body.waiting, true);
+    assert.equal(notify.body.detail, 'Claude needs your permission');
+
+    const [stop] = buildRequests({ ...base, hook_event_name: 'Stop' });
+    assert.equal(stop.body.activity, 'idle');
+    assert.equal(stop.body.busy, false);
+  });
+
+  it('should despawn the main agent on SessionEnd', () => {
+    assert.deepEqual(buildRequests({ ...base, hook_event_name: 'SessionEnd', reason: 'exit' }), [{
+      path: '/api/event',
+      body: { type: 'agent:despawn', agentId: agentIdFor('Claude (AgentVille)') },
+    }]);
+  });
+
+  it('should spawn and despawn sub-agents', () => {
+    const [start] = buildRequests({ ...base, hook_event_name: 'SubagentStart', agent_id: 'x', agent_type: 'Plan' });
+    assert.equal(start.path, '/api/heartbeat');
+    assert.equal(start.body.agent, 'Claude (AgentVille) Plan');
+    assert.equal(start.body.parentAgent, 'Claude (AgentVille)');
+    assert.equal(start.body.newSpawn, true);
+
+    const [stop] = buildRequests({ ...base, hook_event_name: 'SubagentStop', agent_id: 'x', agent_type: 'Plan' });
+    assert.deepEqual(stop, {
+      path: '/api/event',
+      body: { type: 'agent:despawn', agentId: 'claude-agentville-plan' },
+    });
+  });
+
+  it('should ignore unknown events', () => {
+    assert.deepEqual(buildRequests({ ...base, hook_event_name: 'PreCompact' }), []);
+  });
+});
+
+// ── Approvals ────────────────────────────────────────────
+
+// ── Transcript usage ─────────────────────────────────────
+
+// A transcript line for one content block of a model response
+function assistantLine(id, usage, extra = {}) {
+  return JSON.stringify({
+    type: 'assistant',
+    message: { id, model: 'claude-sonnet-4-5', usage },
+    ...extra,
+  });
+}
+
+describe('sumUsage', () => {
+  it('should count each response once, at its highest values', () => {
+    const usage = sumUsage([
+      assistantLine('msg_1', { input_tokens: 10, output_tokens: 2, cache_read_input_tokens: 5000 }),
+      assistantLine('msg_1', { input_tokens: 10, output_tokens: 180, cache_read_input_tokens: 5000 }),
+      JSON.stringify({ type: 'user', message: { content: 'ok' } }),
+      assistantLine('msg_2', { input_tokens: 4, output_tokens: 20, cache_creation_input_tokens: 300 }),
+    ]);
+    assert.deepEqual(usage, {
+      inputTokens: 14, outputTokens: 200, cacheReadTokens: 5000, cacheCreationTokens: 300, model: 'claude-sonnet-4-5',
+    });
+  });
+
+  it('should carry the last response across reads', () => {
+    const last = { id: null, counted: {} };
+    sumUsage([assistantLine('msg_1', { input_tokens: 10, output_tokens: 2 })], last);
+    const rest = sumUsage([assistantLine('msg_1', { input_tokens: 10, output_tokens: 50 })], last);
+    assert.equal(rest.inputTokens, 0);
+    assert.equal(rest.outputTokens, 48);
+  });
+
+  it('should keep sub-agent turns apart and skip synthetic messages', () => {
+    const lines = [
+      assistantLine('msg_1', { input_tokens: 10 }),
+      assistantLine('msg_2', { input_tokens: 99 }, { isSidechain: true }),
+      JSON.stringify({ type: 'assistant', message: { id: 'msg_3', model: '<synthetic>', usage: { input_tokens: 0 } } }),
+      'not json',
+    ];
+    assert.equal(sumUsage(lines).inputTokens, 10);
+    assert.equal(sumUsage(lines).model, 'claude-sonnet-4-5');
+    assert.equal(sumUsage(lines, undefined, { sidechain: true }).inputTokens, 99);
+  });
+});
+
+describe('readTranscriptUsage', () => {
+  it('should read only what was added since the last read', () => {
+    const cursorDir = path.join(TMP, 'cursors-incremental');
+    const transcript = path.join(TMP, 'session-1.jsonl');
+    fs.writeFileSync(transcript, assistantLine('msg_1', { input_tokens: 100, output_tokens: 10 }) + '\n');
+    assert.equal(readTranscriptUsage(transcript, { cursorDir }).inputTokens, 100);
+    assert.equal(readTranscriptUsage(transcript, { cursorDir }), null);
+
+    // A line still being written waits for the next read
+    const next = assistantLine('msg_2', { input_tokens: 7, output_tokens: 3 });
+    fs.appendFileSync(transcript, next.slice(0, 20));
+    assert.equal(readTranscriptUsage(transcript, { cursorDir }), null);
+    fs.appendFileSync(transcript, next.slice(20) + '\n');
+    assert.equal(readTranscriptUsage(transcript, { cursorDir }).outputTokens, 3);
+  });
+
+  it('should return null for a missing transcript', () => {
+    assert.equal(readTranscriptUsage(path.join(TMP, 'nope.jsonl'), { cursorDir: path.join(TMP, 'cursors-missing') }), null);
+  });
+});
+
+describe('buildUsageRequests', () => {
+  const base = { session_id: 's1', cwd: CWD };
+
+  it('should report the main agent\'s tokens on Stop', () => {
+    const cursorDir = path.join(TMP, 'cursors-stop');
+    const transcript = path.join(TMP, 'session-stop.jsonl');
+    fs.writeFileSync(transcript, assistantLine('msg_1', { input_tokens: 3, output_tokens: 40, cache_read_input_tokens: 900 }) + '\n');
+    assert.deepEqual(buildUsageRequests({ ...base, hook_event_name: 'Stop', transcript_path: transcript }, { cursorDir }), [{
+      path: '/api/heartbeat',
+      body: {
+        agent: 'Claude (AgentVille)', project: 'AgentVille',
+        inputTokens: 3, outputTokens: 40, cacheReadTokens: 900, cacheCreationTokens: 0, model: 'claude-sonnet-4-5',
+      },
+    }]);
+    assert.deepEqual(buildUsageRequests({ ...base, hook_event_name: 'Stop', transcript_path: transcript }, { cursorDir }), []);
+  });
+
+  it('should report a sub-agent\'s tokens from its own transcript on SubagentStop', () => {
+    const transcript = path.join(TMP, 'agent-abc.jsonl');
+    fs.writeFileSync(transcript, assistantLine('msg_9', { input_tokens: 50, output_tokens: 5 }, { isSidechain: true }) + '\n');
+    const [req] = buildUsageRequests(
+      { ...base, hook_event_name: 'SubagentStop', agent_type: 'Explore', agent_transcript_path: transcript },
+      { cursorDir: path.join(TMP, 'cursors-sub') },
+    );
+    assert.equal(req.body.agent, 'Claude (AgentVille) Explore');
+    assert.equal(req.body.parentAgent, 'Claude (AgentVille)');
+    assert.equal(req.body.inputTokens, 50);
+  });
+
+  it('should send nothing for other events', () => {
+    assert.deepEqual(buildUsageRequests({ ...base, hook_event_name: 'PostToolUse', transcript_path: '/x.jsonl' }), []);
+  });
+});
+
+describe('buildApprovalRequest', () => {
+  it('should ask about PreToolUse calls with the slimmed input', () => {
+    const request = buildApprovalRequest({
+      hook_event_name: 'PreToolUse', cwd: CWD, agent_type: 'Plan',
+      tool_name: 'Bash', tool_input: { command: 'rm -rf build', timeout: 1000 },
+    });
+    assert.deepEqual(request, {
+      path: '/api/approval',
+      body: {
+        agent: 'Claude (AgentVille) Plan',
+        parentAgent: 'Claude (AgentVille)',
+        project: 'AgentVille',
+        tool: 'Bash',
+        toolInput: { command: 'rm -rf build' },
+      },
+    });
+  });
+
+  it('should skip other events', () => {
+    assert.equal(buildApprovalRequest({ hook_event_name: 'PostToolUse', cwd: CWD }), null);
+  });
+});
+
+describe('approvalOutput', () => {
+  it('should turn a verdict into a PreToolUse permission decision', () => {
+    assert.deepEqual(JSON.parse(approvalOutput({ decision: 'deny', reason: 'Denied from the village' })), {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: 'Denied from the village',
+      },
+    });
+  });
+
+  it('should stay silent without a verdict', () => {
+    assert.equal(approvalOutput({ decision: 'none' }), null);
+    assert.equal(approvalOutput({ decision: 'cancelled' }), null);
+    assert.equal(approvalOutput(null), null);
+  });
+});
+
+// ── Transport ────────────────────────────────────────────
+
+describe('send and spool', () => {
+  let server;
+  let url;
+  const received = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        received.push({ path: req.url, headers: req.headers, body: JSON.parse(body) });
+        // A stale token, a failing bridge, and a request it can't use
+        if (req.headers.authorization === 'Bearer wrong') res.statusCode = 401;
+        if (req.url === '/api/unavailable') res.statusCode = 503;
+        if (req.url === '/api/invalid') res.statusCode = 400;
+        const rm = req.url === '/api/approval' && JSON.parse(body).toolInput.command?.startsWith('rm ');
+        res.end(rm ? '{"decision":"deny","reason":"Denied from the village"}' : '{"ok":true}');
+      });
+    });
+    await new Promise(r => server.listen(0, r));
+    url = `http://localhost:${server.address().port}`;
+  });
+
+  after(() => server.close());
+
+  it('should POST the body with the bearer token', async () => {
+    const ok = await send({ path: '/api/heartbeat', body: { agent: 'a' } }, { url, token: 'secret' });
+    assert.equal(ok, true);
+    const last = received[received.length - 1];
+    assert.equal(last.path, '/api/heartbeat');
+    assert.equal(last.headers.authorization, 'Bearer secret');
+    assert.deepEqual(last.body, { agent: 'a' });
+  });
+
+  it('should report failure instead of throwing when the bridge is down', async () => {
+    assert.equal(await send({ path: '/api/heartbeat', body: {} }, { url: 'http://localhost:1' }), false);
+  });
+
+  it('should only count 2xx answers as delivered', async () => {
+    assert.equal(await send({ path: '/api/heartbeat', body: {} }, { url, token: 'wrong' }), false);
+    assert.equal(await send({ path: '/api/unavailable', body: {} }, { url }), false);
+    // Sending it again wouldn't help
+    assert.equal(await send({ path: '/api/invalid', body: {} }, { url }), true);
+  });
+
+  it('should run end-to-end from stdin without writing to stdout', async () => {
+    const before = received.length;
+    const spool = path.join(TMP, 'e2e.jsonl');
+    const { code, stdout } = await runHook({ hook_event_name: 'Stop', cwd: CWD }, { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: spool });
+
+    assert.equal(code, 0);
+    assert.equal(stdout, '');
+    assert.equal(received.length, before + 1);
+    assert.equal(received[received.length - 1].body.activity, 'idle');
+    assert.equal(fs.existsSync(spool), false);
+  });
+
+  it('should print the verdict for a tool call that needed approval', async () => {
+    const spool = path.join(TMP, 'approval.jsonl');
+    const payload = { hook_event_name: 'PreToolUse', cwd: CWD, tool_name: 'Bash' };
+    const denied = await runHook({ ...payload, tool_input: { command: 'rm -rf /' } }, { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: spool });
+    const allowed = await runHook({ ...payload, tool_input: { command: 'ls' } }, { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: spool });
+
+    assert.equal(JSON.parse(denied.stdout).hookSpecificOutput.permissionDecision, 'deny');
+    assert.equal(received[received.length - 1].path, '/api/approval');
+    assert.equal(allowed.stdout, '');
+  });
+
+  it('should exit cleanly on invalid input', async () => {
+    const { code } = await runHook('not json', { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: path.join(TMP, 'invalid.jsonl') });
+    assert.equal(code, 0);
+  });
+
+  // ── Offline spool ──────────────────────────────────────
+
+  it('should spool heartbeats when the bridge is down', async () => {
+    const spool = path.join(TMP, 'down.jsonl');
+    const start = Date.now();
+    const { code } = await runHook(
+      { hook_event_name: 'PreToolUse', cwd: CWD, tool_name: 'Edit', tool_input: { file_path: '/a/b.ts' } },
+      { AGENTVILLE_URL: 'http://localhost:1', AGENTVILLE_SPOOL: spool },
+    );
+
+    assert.equal(code, 0);
+    const [entry] = readSpool(spool);
+    assert.equal(entry.path, '/api/heartbeat');
+    assert.equal(entry.body.activity, 'coding');
+    assert.ok(entry.timestamp >= start && entry.timestamp <= Date.now());
+    assert.match(entry.id, /^[0-9a-f-]{36}$/);
+  });
+
+  it('should spool heartbeats the bridge refused for a bad token', async () => {
+    const spool = path.join(TMP, 'refused.jsonl');
+    const { code } = await runHook(
+      { hook_event_name: 'Stop', cwd: CWD },
+      { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: spool, AGENTVILLE_TOKEN: 'wrong' },
+    );
+
+    assert.equal(code, 0);
+    const [entry] = readSpool(spool);
+    assert.equal(entry.path, '/api/heartbeat');
+    assert.equal(entry.body.activity, 'idle');
+  });
+
+  it('should replay the spool before the next heartbeat once the bridge is back', async () => {
+    const spool = path.join(TMP, 'back.jsonl');
+    appendSpool([{ path: '/api/heartbeat', body: { agent: 'old' }, timestamp: 1000 }], spool);
+    const before = received.length;
+
+    await runHook({ hook_event_name: 'Stop', cwd: CWD }, { AGENTVILLE_URL: url, AGENTVILLE_SPOOL: spool });
+
+    const [batch, live] = received.slice(before);
+    assert.equal(batch.path, '/api/batch');
+    assert.deepEqual(batch.body.entries, [{ path: '/api/heartbeat', body: { agent: 'old' }, timestamp: 1000 }]);
+    assert.equal(live.path, '/api/heartbeat');
+    assert.equal(fs.existsSync(spool), false);
+  });
+
+  it('should keep the spool when a flush fails', async () => {
+    const spool = path.join(TMP, 'keep.jsonl');
+    const entries = [
+      { path: '/api/heartbeat', body: { agent: 'a' }, timestamp: 1 },
+      { path: '/api/event', body: { type: 'agent:despawn', agentId: 'a' }, timestamp: 2 },
+    ];
+    appendSpool(entries, spool);
+
+    assert.equal(await flushSpool({ url: 'http://localhost:1', spoolPath: spool }), false);
+    assert.deepEqual(readSpool(spool), entries);
+    assert.deepEqual(fs.readdirSync(TMP).filter(f => f.includes('claimed')), []);
+  });
+
+  it('should report success when there is nothing to flush', async () => {
+    assert.equal(await flushSpool({ url: 'http://localhost:1', spoolPath: path.join(TMP, 'none.jsonl') }), true);
+  });
+});
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+// AgentVille — follow another agent CLI's log and ship new lines to the
+// bridge (POST /api/ingest/<source>), for CLIs without hooks.
+//
+// Usage:  node bin/agentville-tail.mjs aider /path/to/project/.aider.analytics.jsonl
+//         node bin/agentville-tail.mjs codex ~/.codex/sessions
+//
+// Given a directory, follows the newest *.jsonl under it and switches
+// when a newer one appears (Codex writes one rollout per session).
+// Starts at the end of existing files: only new activity is sent.
+//
+// Env:  AGENTVILLE_URL    bridge URL (default http://localhost:4242)
+//       AGENTVILLE_TOKEN  shared token, when the bridge requires one
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+const BRIDGE_URL = process.env.AGENTVILLE_URL || 'http://localhost:4242';
+const POLL_INTERVAL = 1000;
+const MAX_CHUNK = 1024 * 1024;
+
+const [source, target] = process.argv.slice(2);
+if (!source || !target) {
+  console.error('Usage: agentville-tail.mjs <aider|codex|gemini> <log file or directory>');
+  process.exit(1);
+}
+
+function newestLog(dir) {
+  let newest = null;
+  const walk = (current) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.name.endsWith('.jsonl')) {
+        const mtime = fs.statSync(full).mtimeMs;
+        if (!newest || mtime > newest.mtime) newest = { file: full, mtime };
+      }
+    }
+  };
+  walk(dir);
+  return newest?.file || null;
+}
+
+async function ship(file, lines) {
+  const params = new URLSearchParams({ session: file, project: path.basename(path.dirname(file)) });
+  const headers = { 'Content-Type': 'application/x-ndjson' };
+  if (process.env.AGENTVILLE_TOKEN) headers.Authorization = `Bearer ${process.env.AGENTVILLE_TOKEN}`;
+  try {
+    const res = await fetch(`${BRIDGE_URL}/api/ingest/${source}?${params}`, {
+      method: 'POST',
+      headers,
+      body: lines.join('\n'),
+    });
+    if (!res.ok) console.error(`  Bridge answered ${res.status} for ${lines.length} line(s)`);
+  } catch {
+    // Bridge not running — these lines are lost, keep following
+  }
+}
+
+// Codex only writes the working directory on a rollout's first line
+function firstLine(file) {
+  const head = fs.readFileSync(file, 'utf8').slice(0, MAX_CHUNK);
+  const end = head.indexOf('\n');
+  return end === -1 ? null : head.slice(0, end);
+}
+
+const isDir = fs.statSync(target).isDirectory();
+let current = null;
+let offset = 0;
+let partial = '';
+
+async function poll() {
+  const file = isDir ? newestLog(target) : target;
+  if (!file || !fs.existsSync(file)) return;
+
+  if (file !== current) {
+    const attaching = current === null;
+    current = file;
+    partial = '';
+    // Existing file: skip its history. A file that appeared later: read it all.
+    offset = attaching ? fs.statSync(file).size : 0;
+    console.log(`  Following ${file}`);
+    if (attaching && offset > 0 && source === 'codex') {
+      const line = firstLine(file);
+      if (line) await ship(file, [line]);
+    }
+  }
+
+  const size = fs.statSync(file).size;
+  if (size < offset) offset = 0; // truncated or rotated
+  if (size === offset) return;
+
+  const length = Math.min(size - offset, MAX_CHUNK);
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(file, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, length, offset);
+  } finally {
+    fs.closeSync(fd);
+  }
+  offset += length;
+
+  const lines = (partial + buffer.toString('utf8')).split('\n');
+  partial = lines.pop();
+  const complete = lines.filter(line => line.trim());
+  if (complete.length > 0) await ship(file, complete);
+}
+
+console.log(`\n  AgentVille — tailing ${source} logs into ${BRIDGE_URL}\n`);
+
+let polling = false;
+setInterval(async () => {
+  if (polling) return;
+  polling = true;
+  try {
+    await poll();
+  } catch (err) {
+    console.error(`  ${err.message}`);
+  } finally {
+    polling = false;
+  }
+}, POLL_INTERVAL);
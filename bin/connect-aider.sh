@@ -0,0 +1,39 @@
+#!/bin/bash
+# AgentVille — connect Aider in a project.
+#
+# Usage:  npm run connect -- aider /path/to/your/project
+#
+# Aider has no hooks: this turns on its local analytics log in
+# .aider.conf.yml, which bin/agentville-tail.mjs ships to the bridge
+# (POST /api/ingest/aider).
+
+set -e
+
+AGENTVILLE_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+
+TARGET="${1:-.}"
+TARGET="$(cd "$TARGET" 2>/dev/null && pwd)" || { echo "Error: directory '$1' not found."; exit 1; }
+CONFIG="$TARGET/.aider.conf.yml"
+LOG="$TARGET/.aider.analytics.jsonl"
+TOKEN=$(node "$AGENTVILLE_DIR/server/auth.mjs")
+
+echo ""
+echo "  AgentVille — connecting Aider"
+echo "  Target: $TARGET"
+echo ""
+
+if [ -f "$CONFIG" ] && grep -q '^analytics-log:' "$CONFIG"; then
+  LOG=$(grep '^analytics-log:' "$CONFIG" | sed 's/^analytics-log: *//')
+  case "$LOG" in /*) ;; *) LOG="$TARGET/$LOG" ;; esac
+  echo "  $CONFIG already logs analytics to $LOG"
+else
+  echo "analytics-log: .aider.analytics.jsonl" >> "$CONFIG"
+  touch "$LOG"
+  echo "  Added analytics-log to $CONFIG"
+fi
+
+echo ""
+echo "  Keep this running next to Aider:"
+echo ""
+echo "    AGENTVILLE_TOKEN=$TOKEN node $AGENTVILLE_DIR/bin/agentville-tail.mjs aider $LOG"
+echo ""
@@ -0,0 +1,44 @@
+#!/bin/bash
+# AgentVille — connect Codex CLI.
+#
+# Usage:  npm run connect -- codex
+#
+# Sets Codex's `notify` program in ~/.codex/config.toml to post each
+# completed turn to the bridge (POST /api/ingest/codex). Tool calls are
+# only in the session logs: follow them with bin/agentville-tail.mjs.
+
+set -e
+
+AGENTVILLE_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+CODEX_HOME="${CODEX_HOME:-$HOME/.codex}"
+CONFIG="$CODEX_HOME/config.toml"
+TOKEN=$(node "$AGENTVILLE_DIR/server/auth.mjs")
+BRIDGE_URL="${AGENTVILLE_URL:-http://localhost:4242}"
+
+echo ""
+echo "  AgentVille — connecting Codex CLI"
+echo "  Config: $CONFIG"
+echo ""
+
+mkdir -p "$CODEX_HOME"
+touch "$CONFIG"
+
+# Codex appends the JSON payload as the last argument ($1 of the script)
+NOTIFY_CMD="curl -s -o /dev/null --max-time 2 -X POST -H \"Content-Type: application/json\" -H \"Authorization: Bearer $TOKEN\" --data-binary \"\$1\" $BRIDGE_URL/api/ingest/codex || true"
+NOTIFY="notify = [\"bash\", \"-c\", '$NOTIFY_CMD', \"agentville\"]"
+
+if grep -q '^notify *=' "$CONFIG"; then
+  echo "  Warning: $CONFIG already sets notify. To keep turn updates, replace it with:"
+  echo ""
+  echo "    $NOTIFY"
+else
+  # notify is a top-level key: it must come before any [table]
+  { echo "$NOTIFY"; echo ""; cat "$CONFIG"; } > "$CONFIG.agentville" && mv "$CONFIG.agentville" "$CONFIG"
+  echo "  Added notify to $CONFIG"
+fi
+
+echo ""
+echo "  To see tool calls as they happen, keep this running next to Codex:"
+echo ""
+echo "    AGENTVILLE_TOKEN=$TOKEN node $AGENTVILLE_DIR/bin/agentville-tail.mjs codex $CODEX_HOME/sessions"
+echo ""
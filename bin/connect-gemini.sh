@@ -0,0 +1,59 @@
+#!/bin/bash
+# AgentVille — connect Gemini CLI in a project.
+#
+# Usage:  npm run connect -- gemini /path/to/your/project
+#
+# Adds hooks to .gemini/settings.json that post each hook payload to
+# the bridge (POST /api/ingest/gemini).
+
+set -e
+
+AGENTVILLE_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+
+TARGET="${1:-.}"
+TARGET="$(cd "$TARGET" 2>/dev/null && pwd)" || { echo "Error: directory '$1' not found."; exit 1; }
+
+echo ""
+echo "  AgentVille — connecting Gemini CLI"
+echo "  Target: $TARGET"
+echo ""
+
+mkdir -p "$TARGET/.gemini"
+SETTINGS="$TARGET/.gemini/settings.json"
+TOKEN=$(node "$AGENTVILLE_DIR/server/auth.mjs")
+BRIDGE_URL="${AGENTVILLE_URL:-http://localhost:4242}"
+# Gemini CLI reads the hook's stdout, so curl must print nothing
+HOOK_CMD="curl -s -o /dev/null --max-time 2 -X POST -H 'Content-Type: application/json' -H 'Authorization: Bearer $TOKEN' --data-binary @- $BRIDGE_URL/api/ingest/gemini || true"
+HOOK='[{ "matcher": "*", "hooks": [{ "type": "command", "command": "'"$HOOK_CMD"'", "timeout": 5000 }] }]'
+HOOK_CONFIG=$(cat <<ENDJSON
+{
+  "hooks": {
+    "SessionStart": $HOOK,
+    "BeforeAgent": $HOOK,
+    "BeforeTool": $HOOK,
+    "AfterTool": $HOOK,
+    "Notification": $HOOK,
+    "AfterAgent": $HOOK,
+    "SessionEnd": $HOOK
+  }
+}
+ENDJSON
+)
+
+if [ -f "$SETTINGS" ]; then
+  if command -v jq &>/dev/null; then
+    EXISTING=$(cat "$SETTINGS")
+    echo "$EXISTING" | jq --argjson new "$HOOK_CONFIG" '. * $new' > "$SETTINGS"
+    echo "  Updated existing $SETTINGS"
+  else
+    echo "  Warning: $SETTINGS already exists and jq is not installed."
+    echo "  Please manually add the hook config. See README.md."
+  fi
+else
+  echo "$HOOK_CONFIG" > "$SETTINGS"
+  echo "  Created $SETTINGS"
+fi
+
+echo ""
+echo "  Done! Start a new Gemini CLI session in your project."
+echo ""
@@ -9,9 +9,9 @@
 set -e
 
 AGENTVILLE_DIR="$(cd "$(dirname "$0")/.." && pwd)"
-HOOK_SRC="$AGENTVILLE_DIR/.claude/hooks/agentville-hook.sh"
+HOOK_SRC="$AGENTVILLE_DIR/.claude/hooks/agentville-hook.mjs"
 GLOBAL_HOOKS_DIR="$HOME/.claude/hooks"
-GLOBAL_HOOK="$GLOBAL_HOOKS_DIR/agentville-hook.sh"
+GLOBAL_HOOK="$GLOBAL_HOOKS_DIR/agentville-hook.mjs"
 GLOBAL_SETTINGS="$HOME/.claude/settings.json"
 
 # ── Uninstall mode ───────────────────────────────────────
@@ -66,12 +66,15 @@ chmod +x "$GLOBAL_HOOK"
 echo "  Copied hook to $GLOBAL_HOOK"
 
 # 4. Configure global settings.json
-HOOK_CMD="$GLOBAL_HOOK"
+# The hook sends the bridge's shared token (only checked when the bridge
+# runs with AGENTVILLE_AUTH=1)
+TOKEN=$(node "$AGENTVILLE_DIR/server/auth.mjs")
+HOOK_CMD="AGENTVILLE_TOKEN=$TOKEN node $GLOBAL_HOOK"
 HOOK_CONFIG=$(cat <<ENDJSON
 {
   "hooks": {
     "PreToolUse": [
-      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 150 }] }
     ],
     "PostToolUse": [
       { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
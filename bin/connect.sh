@@ -3,14 +3,33 @@
 #
 # Usage:  npm run connect /path/to/your/project
 #    or:  ./bin/connect.sh /path/to/your/project
+#
+# Other agent CLIs:  npm run connect -- gemini|codex|aider [/path/to/your/project]
+#
+# --git-hook  also install a git post-commit hook that reports every
+#             commit in the project to the village
 
 set -e
 
 AGENTVILLE_DIR="$(cd "$(dirname "$0")/.." && pwd)"
-HOOK_SRC="$AGENTVILLE_DIR/.claude/hooks/agentville-hook.sh"
+HOOK_SRC="$AGENTVILLE_DIR/.claude/hooks/agentville-hook.mjs"
+
+case "$1" in
+  gemini|codex|aider) exec bash "$AGENTVILLE_DIR/bin/connect-$1.sh" "${@:2}" ;;
+  claude) shift ;;
+esac
+
+GIT_HOOK=false
+ARGS=()
+for arg in "$@"; do
+  case "$arg" in
+    --git-hook) GIT_HOOK=true ;;
+    *) ARGS+=("$arg") ;;
+  esac
+done
 
-TARGET="${1:-.}"
-TARGET="$(cd "$TARGET" 2>/dev/null && pwd)" || { echo "Error: directory '$1' not found."; exit 1; }
+TARGET="${ARGS[0]:-.}"
+TARGET="$(cd "$TARGET" 2>/dev/null && pwd)" || { echo "Error: directory '${ARGS[0]}' not found."; exit 1; }
 
 echo ""
 echo "  AgentVille — connecting project"
@@ -21,44 +40,51 @@ echo ""
 mkdir -p "$TARGET/.claude/hooks"
 
 # 2. Copy hook script (skip if same file)
-if [ "$(realpath "$HOOK_SRC" 2>/dev/null)" != "$(realpath "$TARGET/.claude/hooks/agentville-hook.sh" 2>/dev/null)" ]; then
-  cp "$HOOK_SRC" "$TARGET/.claude/hooks/agentville-hook.sh"
+if [ "$(realpath "$HOOK_SRC" 2>/dev/null)" != "$(realpath "$TARGET/.claude/hooks/agentville-hook.mjs" 2>/dev/null)" ]; then
+  cp "$HOOK_SRC" "$TARGET/.claude/hooks/agentville-hook.mjs"
 fi
-chmod +x "$TARGET/.claude/hooks/agentville-hook.sh"
+chmod +x "$TARGET/.claude/hooks/agentville-hook.mjs"
 
 # 3. Create or merge settings.local.json
 SETTINGS="$TARGET/.claude/settings.local.json"
-HOOK_CONFIG='{
+# The hook sends the bridge's shared token (only checked when the bridge
+# runs with AGENTVILLE_AUTH=1)
+TOKEN=$(node "$AGENTVILLE_DIR/server/auth.mjs")
+HOOK_CMD="AGENTVILLE_TOKEN=$TOKEN node \\\"\$CLAUDE_PROJECT_DIR\\\"/.claude/hooks/agentville-hook.mjs"
+HOOK_CONFIG=$(cat <<ENDJSON
+{
   "hooks": {
     "PreToolUse": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 150 }] }
     ],
     "PostToolUse": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "SubagentStart": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "SubagentStop": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "SessionStart": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "SessionEnd": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "Stop": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "UserPromptSubmit": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ],
     "Notification": [
-      { "hooks": [{ "type": "command", "command": "\"$CLAUDE_PROJECT_DIR\"/.claude/hooks/agentville-hook.sh", "timeout": 5 }] }
+      { "hooks": [{ "type": "command", "command": "$HOOK_CMD", "timeout": 5 }] }
     ]
   }
-}'
+}
+ENDJSON
+)
 
 if [ -f "$SETTINGS" ]; then
   # Merge: if jq is available, deep merge; otherwise warn
@@ -75,7 +101,29 @@ else
   echo "  Created $SETTINGS"
 fi
 
-echo "  Copied hook to .claude/hooks/agentville-hook.sh"
+echo "  Copied hook to .claude/hooks/agentville-hook.mjs"
+
+# 4. Optional git post-commit hook (--git-hook), next to any existing one
+if [ "$GIT_HOOK" = true ]; then
+  HOOKS_DIR=$(git -C "$TARGET" rev-parse --git-path hooks 2>/dev/null) || HOOKS_DIR=""
+  if [ -z "$HOOKS_DIR" ]; then
+    echo "  Skipped the git hook: $TARGET is not a git repository"
+  else
+    case "$HOOKS_DIR" in /*) ;; *) HOOKS_DIR="$TARGET/$HOOKS_DIR" ;; esac
+    POST_COMMIT="$HOOKS_DIR/post-commit"
+    mkdir -p "$HOOKS_DIR"
+    [ -f "$POST_COMMIT" ] || printf '#!/bin/sh\n' > "$POST_COMMIT"
+    if ! grep -q "agentville-hook.mjs" "$POST_COMMIT"; then
+      # In the background: never slow down or fail a commit
+      cat >> "$POST_COMMIT" <<ENDHOOK
+# AgentVille — report the commit to the village
+AGENTVILLE_TOKEN=$TOKEN node "\$(git rev-parse --show-toplevel)/.claude/hooks/agentville-hook.mjs" post-commit >/dev/null 2>&1 &
+ENDHOOK
+    fi
+    chmod +x "$POST_COMMIT"
+    echo "  Installed git post-commit hook in $POST_COMMIT"
+  fi
+fi
 echo ""
 echo "  Done! Start a new Claude Code session in your project."
 echo "  Every tool use will automatically show up in the village."
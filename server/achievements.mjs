@@ -0,0 +1,226 @@
+// ── Achievements ─────────────────────────────────────────
+// Declarative achievements, checked after every heartbeat. An agent
+// unlocks each one once; the unlock is stored on its profile with
+// the time it happened (see agentStore.mjs), so a dashboard that
+// missed the agent:achievement event still finds it on the profile
+// and in /api/achievements.
+//
+// Built-in achievements live in achievements.default.json. A
+// data/achievements.json ({ "achievements": [...] }) is merged on
+// top at startup: an entry with an existing id patches that
+// achievement ("enabled": false switches it off), a new id adds one.
+//
+// Achievement fields:
+//   id, name      required for new achievements
+//   icon          emoji shown in the gallery
+//   description   what it takes, in words
+//   condition     one of
+//     { "stat": "toolCalls", "atLeast": 100 }
+//         an all-time stat: toolCalls, xp, level, sessions,
+//         subAgentsSpawned or testsPassed
+//     { "session": "toolCalls", "atLeast": 20, "hours": [0, 5] }
+//         in one session: toolCalls, or buildings (how many different
+//         buildings the agent visited). `hours` counts only tool calls
+//         made from the first local hour up to the second, and may
+//         wrap past midnight ([22, 4])
+//     { "streak": "days", "atLeast": 3 }
+//         days in a row with tool calls, up to today
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+import { getEnrichedProfile, getAllProfiles, recordAchievement } from './agentStore.mjs';
+import { getTestTotals } from './testRunStore.mjs';
+import { getActiveDays, bucketStart, bucketLabel, DEFAULT_TIME_ZONE } from './analytics.mjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_ACHIEVEMENTS_PATH = path.join(__dirname, 'achievements.default.json');
+const USER_ACHIEVEMENTS_PATH = path.join(DATA_DIR, 'achievements.json');
+
+const CONDITIONS = {
+  stat: ['toolCalls', 'xp', 'level', 'sessions', 'subAgentsSpawned', 'testsPassed'],
+  session: ['toolCalls', 'buildings'],
+  streak: ['days'],
+};
+const DAY = 86400_000;
+
+function validHour(hour) {
+  return Number.isInteger(hour) && hour >= 0 && hour <= 24;
+}
+
+function checkCondition(id, condition) {
+  const kinds = Object.keys(CONDITIONS).filter(kind => condition?.[kind] !== undefined);
+  if (kinds.length !== 1) throw new Error(`achievement "${id}" needs a stat, session or streak condition`);
+  const [kind] = kinds;
+  if (!CONDITIONS[kind].includes(condition[kind])) {
+    throw new Error(`achievement "${id}": ${kind} must be one of ${CONDITIONS[kind].join(', ')}`);
+  }
+  if (!Number.isFinite(condition.atLeast) || condition.atLeast <= 0) {
+    throw new Error(`achievement "${id}" needs a positive atLeast`);
+  }
+  if (condition.hours !== undefined) {
+    const { hours } = condition;
+    if (condition.session !== 'toolCalls' || !Array.isArray(hours) || hours.length !== 2 || !hours.every(validHour)) {
+      throw new Error(`achievement "${id}": hours must be [from, to] on session tool calls`);
+    }
+  }
+}
+
+/**
+ * Merge user achievement entries into a list of achievements.
+ * Throws on entries that can't be checked.
+ */
+export function mergeAchievements(base, overrides = []) {
+  const achievements = base.map(a => ({ ...a }));
+
+  for (const entry of overrides) {
+    if (!entry || typeof entry.id !== 'string' || !entry.id) {
+      throw new Error('achievement needs an id');
+    }
+    const existing = achievements.find(a => a.id === entry.id);
+    if (existing) {
+      Object.assign(existing, entry);
+      continue;
+    }
+    if (typeof entry.name !== 'string' || !entry.condition) {
+      throw new Error(`achievement "${entry.id}" needs a name and a condition`);
+    }
+    achievements.push({ icon: '🏅', description: '', ...entry });
+  }
+
+  const enabled = achievements.filter(a => a.enabled !== false).map(({ enabled, ...a }) => a);
+  for (const a of enabled) checkCondition(a.id, a.condition);
+  return enabled;
+}
+
+/**
+ * Load the default achievements with the user's file (if any) on top.
+ * An invalid user file is reported and ignored.
+ */
+export function loadAchievements(userPath = USER_ACHIEVEMENTS_PATH) {
+  const defaults = JSON.parse(fs.readFileSync(DEFAULT_ACHIEVEMENTS_PATH, 'utf-8')).achievements;
+  if (!fs.existsSync(userPath)) return { achievements: defaults };
+
+  try {
+    const user = JSON.parse(fs.readFileSync(userPath, 'utf-8'));
+    const achievements = mergeAchievements(defaults, user.achievements);
+    console.log(`  🏆 Loaded ${achievements.length} achievements from ${userPath}`);
+    return { achievements };
+  } catch (err) {
+    console.log(`  ⚠ Ignoring ${userPath}: ${err.message}`);
+    return { achievements: defaults };
+  }
+}
+
+const { achievements } = loadAchievements();
+// How many days back a streak can need to look
+const longestStreak = Math.max(0, ...achievements.filter(a => a.condition.streak).map(a => a.condition.atLeast));
+
+/**
+ * The achievement definitions served at /api/achievements.
+ */
+export function getAchievements() {
+  return achievements;
+}
+
+/**
+ * Every unlock, newest first: [{ agentId, name, achievementId,
+ * unlockedAt }]. Filter: agent.
+ */
+export function getUnlocks({ agent } = {}) {
+  return getAllProfiles()
+    .filter(p => !agent || p.agentId === agent)
+    .flatMap(p => p.achievements.map(a => ({ agentId: p.agentId, name: p.name, achievementId: a.id, unlockedAt: a.unlockedAt })))
+    .sort((a, b) => b.unlockedAt - a.unlockedAt);
+}
+
+// ── Progress ─────────────────────────────────────────────
+// Per agent: what it did this session, plus the stats that would
+// otherwise cost a query per heartbeat (loaded the first time an
+// achievement needs them, then kept up to date)
+
+const trackers = new Map();
+
+function trackerFor(agentId) {
+  if (!trackers.has(agentId)) {
+    trackers.set(agentId, { buildings: new Set(), hours: new Array(24).fill(0), testsPassed: null, days: null });
+  }
+  return trackers.get(agentId);
+}
+
+/**
+ * Start counting a new session for an agent.
+ */
+export function startAchievementSession(agentId) {
+  const tracker = trackerFor(agentId);
+  tracker.buildings = new Set();
+  tracker.hours = new Array(24).fill(0);
+}
+
+function localHour(timestamp, timeZone) {
+  // "2026-03-08T23:00-05:00"
+  return Number(bucketLabel(timestamp, 'hour', timeZone).slice(11, 13));
+}
+
+function toolCallsBetween(hours, [from, to]) {
+  let count = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    const inside = from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+    if (inside) count += hours[hour];
+  }
+  return count;
+}
+
+function streakDays(days, now, timeZone, atLeast) {
+  let count = 0;
+  let day = bucketStart(now, 'day', timeZone);
+  while (count < atLeast && days.has(bucketLabel(day, 'day', timeZone))) {
+    count++;
+    day = bucketStart(day - 1, 'day', timeZone);
+  }
+  return count;
+}
+
+function progressOf(condition, agentId, profile, tracker, now, timeZone) {
+  if (condition.stat === 'testsPassed') {
+    tracker.testsPassed ??= getTestTotals({ by: 'agent', agent: agentId })[0]?.passed || 0;
+    return tracker.testsPassed;
+  }
+  if (condition.stat) return profile[condition.stat] || 0;
+  if (condition.session === 'buildings') return tracker.buildings.size;
+  if (condition.session) return toolCallsBetween(tracker.hours, condition.hours || [0, 24]);
+  tracker.days ??= new Set(getActiveDays(agentId, { from: now - (longestStreak + 1) * DAY, to: now, timeZone }));
+  return streakDays(tracker.days, now, timeZone, condition.atLeast);
+}
+
+/**
+ * Count what a heartbeat did ({ building, toolCall, testsPassed })
+ * and unlock the achievements the agent now qualifies for. Call it
+ * after the heartbeat is recorded in the stores. Returns the new
+ * unlocks: [{ ...achievement, unlockedAt }].
+ */
+export function checkAchievements(agentId, { building, toolCall = false, testsPassed = 0 } = {},
+  now = Date.now(), timeZone = DEFAULT_TIME_ZONE) {
+  const profile = getEnrichedProfile(agentId);
+  if (!profile) return [];
+  const tracker = trackerFor(agentId);
+  if (building) tracker.buildings.add(building);
+  if (toolCall) {
+    tracker.hours[localHour(now, timeZone)]++;
+    tracker.days?.add(bucketLabel(now, 'day', timeZone));
+  }
+  if (testsPassed && tracker.testsPassed !== null) tracker.testsPassed += testsPassed;
+
+  const unlocked = new Set(profile.achievements.map(a => a.id));
+  const unlocks = [];
+  for (const achievement of achievements) {
+    if (unlocked.has(achievement.id)) continue;
+    if (progressOf(achievement.condition, agentId, profile, tracker, now, timeZone) < achievement.condition.atLeast) continue;
+    if (recordAchievement(agentId, achievement.id, now)) unlocks.push({ ...achievement, unlockedAt: now });
+  }
+  return unlocks;
+}
+
+// Export for testing
+export { USER_ACHIEVEMENTS_PATH };
@@ -0,0 +1,136 @@
+/**
+ * Tests for achievements (definitions, conditions, persistent unlocks).
+ * Run: node --test server/achievements.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database and user achievements file
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-achievements-'));
+const {
+  mergeAchievements, loadAchievements, getAchievements, getUnlocks, checkAchievements, startAchievementSession,
+  USER_ACHIEVEMENTS_PATH,
+} = await import('./achievements.mjs');
+const { getProfile, recordToolUse, recordSubAgentSpawn, getEnrichedProfile } = await import('./agentStore.mjs');
+const { recordUsageEvent } = await import('./analytics.mjs');
+const { recordTestRun } = await import('./testRunStore.mjs');
+const { db } = await import('./db.mjs');
+
+const NY = 'America/New_York';
+const at = (iso) => Date.parse(iso);
+const ids = (unlocks) => unlocks.map(u => u.id);
+const base = [
+  { id: 'first-green', name: 'First Victory', icon: '⚔️', description: '', condition: { stat: 'testsPassed', atLeast: 1 } },
+  { id: 'night-owl', name: 'Night Owl', icon: '🦉', description: '', condition: { session: 'toolCalls', atLeast: 2, hours: [0, 5] } },
+];
+
+describe('mergeAchievements', () => {
+  it('should patch, switch off and add achievements', () => {
+    const merged = mergeAchievements(base, [
+      { id: 'first-green', name: 'Green at Last' },
+      { id: 'night-owl', enabled: false },
+      { id: 'marathon', name: 'Marathon', condition: { session: 'toolCalls', atLeast: 500 } },
+    ]);
+    assert.deepEqual(merged.map(a => [a.id, a.name]), [['first-green', 'Green at Last'], ['marathon', 'Marathon']]);
+    assert.equal(merged[1].icon, '🏅');
+    assert.ok(!('enabled' in merged[1]));
+  });
+
+  it('should reject conditions it cannot check', () => {
+    assert.throws(() => mergeAchievements(base, [{ name: 'No id' }]), /needs an id/);
+    assert.throws(() => mergeAchievements(base, [{ id: 'x', name: 'X' }]), /needs a name and a condition/);
+    assert.throws(() => mergeAchievements(base, [{ id: 'x', name: 'X', condition: { stat: 'karma', atLeast: 1 } }]), /stat must be one of/);
+    assert.throws(() => mergeAchievements(base, [{ id: 'x', name: 'X', condition: { streak: 'days' } }]), /positive atLeast/);
+    assert.throws(() => mergeAchievements(base, [{ id: 'x', name: 'X', condition: { stat: 'xp', streak: 'days', atLeast: 1 } }]), /stat, session or streak/);
+    assert.throws(() => mergeAchievements(base, [{ id: 'night-owl', condition: { session: 'buildings', atLeast: 2, hours: [0, 5] } }]), /hours/);
+  });
+});
+
+describe('loadAchievements', () => {
+  it('should use the defaults without a user file', () => {
+    const defined = getAchievements().map(a => a.id);
+    assert.ok(defined.includes('tool-calls-100'));
+    assert.ok(defined.includes('grand-tour'));
+  });
+
+  it('should ignore an invalid user file', () => {
+    fs.writeFileSync(USER_ACHIEVEMENTS_PATH, JSON.stringify({ achievements: [{ id: 'broken', name: 'Broken' }] }));
+    assert.deepEqual(loadAchievements().achievements, getAchievements());
+    fs.rmSync(USER_ACHIEVEMENTS_PATH);
+  });
+});
+
+describe('checkAchievements', () => {
+  const check = (agentId, progress, now) => checkAchievements(agentId, progress, now, NY);
+
+  it('should unlock all-time stats once and store them on the profile', () => {
+    const now = at('2026-03-11T12:00:00-04:00');
+    getProfile('smith', 'Thorin', null, 'forge', now);
+    for (let i = 0; i < 99; i++) recordToolUse('smith', now);
+    assert.deepEqual(ids(check('smith', {}, now)), []);
+    recordToolUse('smith', now);
+    assert.deepEqual(ids(check('smith', {}, now)), ['tool-calls-100']);
+    assert.deepEqual(ids(check('smith', {}, now + 1)), []);
+
+    assert.deepEqual(getEnrichedProfile('smith').achievements, [{ id: 'tool-calls-100', unlockedAt: now }]);
+    const rows = db.prepare("SELECT achievement_id, unlocked_at FROM achievements WHERE agent_id = 'smith'").all();
+    assert.deepEqual(rows.map(r => ({ ...r })), [{ achievement_id: 'tool-calls-100', unlocked_at: now }]);
+  });
+
+  it('should count tests passed and sub-agents spawned', () => {
+    const now = at('2026-03-11T12:00:00-04:00');
+    getProfile('tester', 'Balin', null, 'arena', now);
+    recordTestRun('tester', { runner: 'pytest', failed: 2 }, now);
+    assert.deepEqual(ids(check('tester', {}, now)), []);
+    recordTestRun('tester', { runner: 'pytest', passed: 3 }, now);
+    assert.deepEqual(ids(check('tester', { testsPassed: 3 }, now)), ['first-green']);
+
+    for (let i = 0; i < 10; i++) recordSubAgentSpawn('tester');
+    assert.deepEqual(ids(check('tester', {}, now)), ['sub-agents-10']);
+  });
+
+  it('should count buildings visited in one session', () => {
+    const now = at('2026-03-11T12:00:00-04:00');
+    getProfile('wanderer', 'Ori', null, 'roads', now);
+    for (const building of ['campfire', 'guild', 'forge', 'arena', 'library']) check('wanderer', { building }, now);
+    startAchievementSession('wanderer');
+    assert.deepEqual(ids(check('wanderer', { building: 'tower' }, now)), []);
+    for (const building of ['campfire', 'guild', 'forge', 'arena']) check('wanderer', { building }, now);
+    assert.deepEqual(ids(check('wanderer', { building: 'library' }, now)), ['grand-tour']);
+  });
+
+  it('should count night tool calls in local time', () => {
+    getProfile('owl', 'Dori', null, 'night', at('2026-03-11T23:00:00-04:00'));
+    for (let i = 0; i < 19; i++) check('owl', { toolCall: true }, at('2026-03-11T23:30:00-04:00'));
+    // 03:30 UTC, but still evening in New York
+    for (let i = 0; i < 19; i++) check('owl', { toolCall: true }, at('2026-03-12T03:30:00Z'));
+    assert.deepEqual(ids(check('owl', { toolCall: true }, at('2026-03-12T04:59:00-04:00'))), []);
+    for (let i = 0; i < 18; i++) check('owl', { toolCall: true }, at('2026-03-12T01:00:00-04:00'));
+    assert.deepEqual(ids(check('owl', { toolCall: true }, at('2026-03-12T02:00:00-04:00'))), ['night-owl']);
+  });
+
+  it('should count days in a row with tool calls', () => {
+    getProfile('regular', 'Nori', null, 'daily', at('2026-03-01T10:00:00-05:00'));
+    // A day, a day with no tool calls, then three in a row
+    for (const day of ['2026-03-05', '2026-03-07', '2026-03-08']) {
+      recordUsageEvent('regular', { activity: 'coding', toolCalls: 1 }, at(`${day}T10:00:00-05:00`));
+    }
+    recordUsageEvent('regular', { activity: 'coding', toolCalls: 0, outputBytes: 10 }, at('2026-03-06T10:00:00-05:00'));
+    const now = at('2026-03-09T23:00:00-04:00');
+    recordUsageEvent('regular', { activity: 'coding', toolCalls: 1 }, now);
+    assert.deepEqual(ids(check('regular', { toolCall: true }, now)), ['streak-3']);
+    // Four days in a row: already unlocked, and not yet a week
+    const next = at('2026-03-10T00:30:00-04:00');
+    assert.deepEqual(ids(check('regular', { toolCall: true }, next)), []);
+  });
+
+  it('should list unlocks newest first', () => {
+    assert.deepEqual(getUnlocks({ agent: 'smith' }).map(u => [u.name, u.achievementId]), [['Thorin', 'tool-calls-100']]);
+    const all = getUnlocks();
+    assert.ok(all.length >= 5);
+    assert.ok(all.every((u, i) => i === 0 || all[i - 1].unlockedAt >= u.unlockedAt));
+  });
+});
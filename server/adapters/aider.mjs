@@ -0,0 +1,79 @@
+// ── Aider adapter ────────────────────────────────────────
+// Aider has no hooks, but it can write its analytics events to a
+// local JSONL file (`analytics-log` in .aider.conf.yml, set up by
+// `connect.sh aider`). bin/agentville-tail.mjs ships the new lines:
+// { event, properties, time } with `time` in epoch seconds.
+//
+// The events don't name the project; the tailer passes the directory
+// the log lives in as the session's project.
+
+import { agentIdFor, heartbeat, rawEvent, truncate } from './common.mjs';
+
+export const source = 'aider';
+
+// In-chat commands (event `command_<name>`) → activity
+const COMMAND_ACTIVITY = {
+  test: 'testing',
+  lint: 'testing',
+  run: 'coding',
+  commit: 'coding',
+  undo: 'coding',
+  git: 'coding',
+  add: 'researching',
+  'read-only': 'researching',
+  drop: 'researching',
+  ls: 'researching',
+  map: 'researching',
+  web: 'researching',
+};
+
+/**
+ * Bridge requests for one analytics event.
+ */
+export function translate(record, session = {}) {
+  const project = session.project || 'aider';
+  const agent = `Aider (${project})`;
+  const props = record.properties || {};
+  const timestamp = Number.isFinite(record.time) ? Math.round(record.time * 1000) : undefined;
+  const beat = (fields) => heartbeat(source, agent, project, fields, timestamp);
+  const event = String(record.event || '');
+
+  if (event.startsWith('command_')) {
+    const command = event.slice('command_'.length);
+    return [beat({ activity: COMMAND_ACTIVITY[command] || 'planning', detail: `/${command}`, busy: true })];
+  }
+
+  switch (event) {
+    case 'launched':
+      return [beat({ activity: 'planning', detail: 'starting', busy: true })];
+
+    case 'cli session':
+      return [beat({ activity: 'planning', detail: truncate(props.main_model || 'starting'), busy: true })];
+
+    case 'message_send_starting':
+      return [beat({ activity: 'planning', detail: 'asking the model', busy: true })];
+
+    // The reply is in and its edits applied; back to waiting for the user
+    case 'message_send':
+      return [beat({
+        activity: 'idle',
+        busy: false,
+        inputTokens: props.prompt_tokens || 0,
+        outputTokens: props.completion_tokens || 0,
+        ...(props.main_model ? { model: props.main_model } : {}),
+      })];
+
+    case 'message_send_exception':
+      return [rawEvent({
+        type: 'agent:failure',
+        agentId: agentIdFor(agent),
+        detail: truncate(props.exception || 'model request failed'),
+      }, timestamp)];
+
+    case 'exit':
+      return [rawEvent({ type: 'agent:despawn', agentId: agentIdFor(agent) }, timestamp)];
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Tests for the Aider adapter, against a recorded analytics log.
+ * Run: node --test server/adapters/aider.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { translate } from './aider.mjs';
+
+const fixture = readFileSync(new URL('./fixtures/aider-analytics.jsonl', import.meta.url), 'utf8')
+  .trim().split('\n').map(line => JSON.parse(line));
+
+const session = { project: 'blog' };
+const [launched, cli, add, starting, sent, test, failed, exit] = fixture.map(record => translate(record, session));
+
+describe('Aider adapter', () => {
+  it('should name the agent after the session project', () => {
+    const [req] = launched;
+    assert.equal(req.body.agent, 'Aider (blog)');
+    assert.equal(req.body.source, 'aider');
+    assert.equal(req.timestamp, 1767610800 * 1000);
+  });
+
+  it('should show the model at the start of a session', () => {
+    assert.equal(cli[0].body.detail, 'anthropic/claude-sonnet-4');
+  });
+
+  it('should map chat commands to activities', () => {
+    assert.equal(add[0].body.activity, 'researching');
+    assert.equal(add[0].body.detail, '/add');
+    assert.equal(test[0].body.activity, 'testing');
+  });
+
+  it('should be busy while the model replies and report its tokens', () => {
+    assert.equal(starting[0].body.busy, true);
+    assert.equal(sent[0].body.activity, 'idle');
+    assert.equal(sent[0].body.inputTokens, 4100);
+    assert.equal(sent[0].body.outputTokens, 380);
+    assert.equal(sent[0].body.model, 'anthropic/claude-sonnet-4');
+  });
+
+  it('should report model errors as failures', () => {
+    assert.deepEqual(failed[0].body, {
+      type: 'agent:failure',
+      agentId: 'aider-blog-',
+      detail: 'RateLimitError: too many requests',
+    });
+  });
+
+  it('should despawn on exit', () => {
+    assert.equal(exit[0].path, '/api/event');
+    assert.equal(exit[0].body.type, 'agent:despawn');
+  });
+
+  it('should ignore events it has no use for', () => {
+    assert.deepEqual(translate({ event: 'repo', properties: {}, time: 1 }, session), []);
+  });
+});
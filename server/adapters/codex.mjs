@@ -0,0 +1,120 @@
+// ── Codex CLI adapter ────────────────────────────────────
+// Two kinds of payload:
+//
+//   notify      Codex runs its `notify` program with a JSON argument
+//               when a turn completes ({ type: 'agent-turn-complete',
+//               cwd, 'input-messages', 'last-assistant-message' }).
+//               `connect.sh codex` sets it up to post here.
+//   rollout     Lines of a session log (~/.codex/sessions/**/*.jsonl),
+//               shipped by bin/agentville-tail.mjs: session_meta,
+//               tool calls, their output and token counts.
+//
+// Only the first line of a rollout carries the working directory, so
+// it's kept on the tailer's session, as is the model from the latest
+// turn_context (token counts don't name it).
+
+import { byteSize, heartbeat, projectOf, toolCall } from './common.mjs';
+
+export const source = 'codex';
+
+// Files an apply_patch call touches ("*** Update File: src/app.ts")
+const PATCH_FILE = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/m;
+
+function parseArguments(args) {
+  if (typeof args !== 'string') return args || {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+// `shell` gets argv, usually ["bash", "-lc", "<script>"]
+function shellCommand(command) {
+  if (!Array.isArray(command)) return String(command ?? '');
+  const script = command.indexOf('-lc') !== -1 ? command[command.indexOf('-lc') + 1] : null;
+  return script ?? command.join(' ');
+}
+
+// Codex tool → Claude Code tool, with its input renamed to match
+function toolFor(name, input) {
+  switch (name) {
+    case 'shell':
+    case 'local_shell':
+      return ['Bash', { command: shellCommand(input.command) }];
+    case 'apply_patch': {
+      const patch = typeof input === 'string' ? input : input.input || input.patch || '';
+      return ['Edit', { file_path: PATCH_FILE.exec(patch)?.[1]?.trim() }];
+    }
+    case 'update_plan':
+      return ['TodoWrite', {}];
+    case 'view_image':
+      return ['Read', { file_path: input.path }];
+    default:
+      return [name || 'tool', typeof input === 'object' ? input : {}];
+  }
+}
+
+/**
+ * Bridge requests for one notify payload or rollout line. `session`
+ * is kept across lines of the same log.
+ */
+export function translate(payload, session = {}) {
+  if (payload.type === 'agent-turn-complete') {
+    const project = projectOf(payload.cwd, session.project);
+    return [heartbeat(source, `Codex (${project})`, project, {
+      activity: 'idle',
+      busy: false,
+      inputBytes: byteSize(payload['input-messages']),
+      outputBytes: byteSize(payload['last-assistant-message']),
+    })];
+  }
+
+  const item = payload.payload || {};
+  if (item.cwd && (payload.type === 'session_meta' || payload.type === 'turn_context')) session.cwd = item.cwd;
+  if (item.model && payload.type === 'turn_context') session.model = item.model;
+  const project = projectOf(session.cwd, session.project || 'codex');
+  const timestamp = payload.timestamp ? Date.parse(payload.timestamp) : undefined;
+  const beat = (fields) => heartbeat(source, `Codex (${project})`, project, fields, timestamp);
+
+  if (payload.type === 'session_meta') {
+    return [beat({ activity: 'planning', detail: 'starting', busy: true })];
+  }
+
+  if (payload.type === 'event_msg') {
+    if (item.type === 'user_message') {
+      return [beat({ activity: 'planning', detail: 'new prompt', busy: true, inputBytes: byteSize(item.message) })];
+    }
+    const usage = item.type === 'token_count' ? item.info?.last_token_usage : null;
+    if (usage && (usage.input_tokens || usage.output_tokens)) {
+      // Codex counts cached input within input_tokens
+      const cached = usage.cached_input_tokens || 0;
+      return [beat({
+        inputTokens: Math.max(0, (usage.input_tokens || 0) - cached),
+        outputTokens: usage.output_tokens || 0,
+        cacheReadTokens: cached,
+        ...(session.model ? { model: session.model } : {}),
+      })];
+    }
+    return [];
+  }
+
+  if (payload.type === 'response_item') {
+    switch (item.type) {
+      case 'function_call':
+      case 'custom_tool_call':
+      case 'local_shell_call': {
+        const input = item.type === 'custom_tool_call' ? item.input : parseArguments(item.arguments ?? item.action);
+        const [tool, toolInput] = toolFor(item.type === 'local_shell_call' ? 'local_shell' : item.name, input);
+        return [beat(toolCall(tool, toolInput, input))];
+      }
+      case 'web_search_call':
+        return [beat(toolCall('WebSearch', { query: item.action?.query }))];
+      case 'function_call_output':
+      case 'custom_tool_call_output':
+        return [beat({ outputBytes: byteSize(item.output) })];
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for the Codex CLI adapter, against a recorded rollout and a
+ * notify payload.
+ * Run: node --test server/adapters/codex.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { translate } from './codex.mjs';
+
+const read = (name) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+const rollout = read('codex-rollout.jsonl').trim().split('\n').map(line => JSON.parse(line));
+const notify = JSON.parse(read('codex-notify.json'));
+
+function translateRollout() {
+  const session = {};
+  return rollout.map(line => translate(line, session));
+}
+
+describe('Codex CLI adapter', () => {
+  it('should start the agent from session_meta', () => {
+    const [[req]] = translateRollout();
+    assert.equal(req.body.agent, 'Codex (api)');
+    assert.equal(req.body.source, 'codex');
+    assert.equal(req.body.activity, 'planning');
+    assert.equal(req.timestamp, Date.parse('2026-01-05T11:00:00.000Z'));
+  });
+
+  it('should remember the working directory across lines', () => {
+    const requests = translateRollout().flat();
+    assert.ok(requests.every(req => req.body.agent === 'Codex (api)'));
+  });
+
+  it('should map shell calls to Bash with the script', () => {
+    const [, , [req]] = translateRollout();
+    assert.equal(req.body.tool, 'Bash');
+    assert.equal(req.body.toolInput.command, "rg -n 'router' src");
+  });
+
+  it('should map apply_patch to an Edit of the patched file', () => {
+    const [, , , , [req]] = translateRollout();
+    assert.equal(req.body.tool, 'Edit');
+    assert.equal(req.body.toolInput.file_path, 'src/app.ts');
+    assert.equal(req.body.detail, 'app.ts');
+  });
+
+  it('should count tool output and report token usage', () => {
+    const [, , , [output], , [patchOutput], [tokens], message] = translateRollout();
+    assert.ok(output.body.outputBytes > 0);
+    assert.ok(patchOutput.body.outputBytes > 0);
+    assert.equal(tokens.body.inputTokens, 552);
+    assert.equal(tokens.body.cacheReadTokens, 2048);
+    assert.equal(tokens.body.outputTokens, 150);
+    assert.deepEqual(message, []);
+  });
+
+  it('should price token usage with the model of the latest turn', () => {
+    const session = {};
+    translate({ type: 'turn_context', payload: { cwd: '/work/api', model: 'gpt-5-codex' } }, session);
+    const [req] = translate(rollout[6], session);
+    assert.equal(req.body.model, 'gpt-5-codex');
+  });
+
+  it('should fall back to the session project without session_meta', () => {
+    const [req] = translate(rollout[2], { project: 'api-tail' });
+    assert.equal(req.body.agent, 'Codex (api-tail)');
+  });
+
+  it('should go idle when notified that a turn completed', () => {
+    const [req] = translate(notify);
+    assert.equal(req.body.agent, 'Codex (api)');
+    assert.equal(req.body.activity, 'idle');
+    assert.equal(req.body.busy, false);
+    assert.ok(req.body.inputBytes > 0);
+    assert.equal(req.body.outputBytes, 'Added GET /health.'.length);
+  });
+});
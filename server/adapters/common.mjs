@@ -0,0 +1,93 @@
+// ── Adapter helpers ──────────────────────────────────────
+// Shared by the per-CLI adapters: they all end up sending the
+// heartbeats the Claude Code hook sends, with the tool calls renamed
+// to Claude Code's tools so the classification rules apply as-is.
+
+import path from 'node:path';
+
+export { agentIdFor } from '../agentId.mjs';
+
+const MAX_DETAIL = 60;
+const MAX_FIELD = 500;
+
+// Tool input fields the classification rules look at (as in the hook)
+const CLASSIFIER_FIELDS = ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'url', 'query', 'description'];
+
+// Fallback activity for bridges whose rules don't know the tool
+const TOOL_ACTIVITY = {
+  Bash: 'coding',
+  Edit: 'coding',
+  Write: 'coding',
+  Read: 'researching',
+  LS: 'researching',
+  Glob: 'researching',
+  Grep: 'researching',
+  WebFetch: 'researching',
+  WebSearch: 'researching',
+  TodoWrite: 'planning',
+};
+
+export function truncate(text, max = MAX_DETAIL) {
+  const oneLine = String(text ?? '').replace(/\s+/g, ' ').trim();
+  return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine;
+}
+
+/**
+ * Size of a payload in bytes, as the bridge's token estimate expects.
+ */
+export function byteSize(value) {
+  if (value == null) return 0;
+  return Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+/**
+ * Project name for a working directory (its last path segment).
+ */
+export function projectOf(cwd, fallback = 'unknown') {
+  return cwd ? path.basename(String(cwd)) : fallback;
+}
+
+
+// Same short description the hook shows in the speech bubble
+function detailFor(tool, toolInput) {
+  if (toolInput.file_path) return path.basename(toolInput.file_path);
+  return truncate(toolInput.command || toolInput.pattern || toolInput.query || toolInput.url || toolInput.path || tool);
+}
+
+/**
+ * Heartbeat fields for a tool call already renamed to a Claude Code
+ * tool: the bridge classifies `tool`/`toolInput`, activity and detail
+ * are the fallback. `rawInput` is the CLI's own input, for the bytes.
+ */
+export function toolCall(tool, toolInput = {}, rawInput = toolInput) {
+  const slim = {};
+  for (const key of CLASSIFIER_FIELDS) {
+    if (typeof toolInput[key] === 'string') slim[key] = toolInput[key].slice(0, MAX_FIELD);
+  }
+  return {
+    tool,
+    toolInput: slim,
+    activity: TOOL_ACTIVITY[tool] || 'coding',
+    detail: detailFor(tool, slim),
+    busy: true,
+    inputBytes: byteSize(rawInput),
+  };
+}
+
+/**
+ * A heartbeat request for `agent`, tagged with the source CLI.
+ */
+export function heartbeat(source, agent, project, fields, timestamp) {
+  return {
+    path: '/api/heartbeat',
+    body: { agent, project, source, ...fields },
+    ...(Number.isFinite(timestamp) ? { timestamp } : {}),
+  };
+}
+
+/**
+ * A raw event request (despawn, failure).
+ */
+export function rawEvent(event, timestamp) {
+  return { path: '/api/event', body: event, ...(Number.isFinite(timestamp) ? { timestamp } : {}) };
+}
@@ -0,0 +1,63 @@
+// ── Gemini CLI adapter ───────────────────────────────────
+// Gemini CLI hooks pipe a JSON payload to a command, much like
+// Claude Code's: { session_id, cwd, hook_event_name, timestamp,
+// tool_name, tool_input, tool_response, ... }. `connect.sh gemini`
+// installs hooks that post it here as is.
+
+import { agentIdFor, byteSize, heartbeat, projectOf, rawEvent, toolCall, truncate } from './common.mjs';
+
+export const source = 'gemini';
+
+// Gemini CLI tool → Claude Code tool, with its input renamed to match
+const TOOLS = {
+  run_shell_command: (input) => ['Bash', { command: input.command, description: input.description }],
+  read_file: (input) => ['Read', { file_path: input.absolute_path || input.file_path }],
+  read_many_files: (input) => ['Read', { pattern: [].concat(input.paths || []).join(' ') }],
+  write_file: (input) => ['Write', { file_path: input.file_path }],
+  replace: (input) => ['Edit', { file_path: input.file_path }],
+  glob: (input) => ['Glob', { pattern: input.pattern, path: input.path }],
+  search_file_content: (input) => ['Grep', { pattern: input.pattern, path: input.path }],
+  list_directory: (input) => ['LS', { path: input.path }],
+  web_fetch: (input) => ['WebFetch', { url: /https?:\/\/\S+/.exec(input.prompt || '')?.[0] }],
+  google_web_search: (input) => ['WebSearch', { query: input.query }],
+  write_todos: () => ['TodoWrite', {}],
+};
+
+/**
+ * Bridge requests for one Gemini CLI hook payload.
+ */
+export function translate(payload) {
+  const project = projectOf(payload.cwd);
+  const agent = `Gemini (${project})`;
+  const timestamp = payload.timestamp ? Date.parse(payload.timestamp) : undefined;
+  const beat = (fields) => heartbeat(source, agent, project, fields, timestamp);
+
+  switch (payload.hook_event_name) {
+    case 'SessionStart':
+      return [beat({ activity: 'planning', detail: 'starting', busy: true })];
+
+    case 'BeforeAgent':
+      return [beat({ activity: 'planning', detail: 'new prompt', busy: true, inputBytes: byteSize(payload.prompt) })];
+
+    case 'BeforeTool': {
+      const input = payload.tool_input || {};
+      const [tool, toolInput] = TOOLS[payload.tool_name]?.(input) || [payload.tool_name || 'tool', input];
+      return [beat(toolCall(tool, toolInput, input))];
+    }
+
+    case 'AfterTool':
+      return [beat({ outputBytes: byteSize(payload.tool_response) })];
+
+    case 'Notification':
+      return [beat({ waiting: true, detail: truncate(payload.message || 'needs input') })];
+
+    case 'AfterAgent':
+      return [beat({ activity: 'idle', busy: false })];
+
+    case 'SessionEnd':
+      return [rawEvent({ type: 'agent:despawn', agentId: agentIdFor(agent) }, timestamp)];
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for the Gemini CLI adapter, against a recorded hook session.
+ * Run: node --test server/adapters/gemini.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { translate } from './gemini.mjs';
+
+const fixture = readFileSync(new URL('./fixtures/gemini-session.jsonl', import.meta.url), 'utf8')
+  .trim().split('\n').map(line => JSON.parse(line));
+
+const [start, prompt, read, afterRead, replace, shell, notification, afterAgent, end] = fixture.map(p => translate(p));
+
+describe('Gemini CLI adapter', () => {
+  it('should name the agent after the project and tag the source', () => {
+    const [req] = start;
+    assert.equal(req.path, '/api/heartbeat');
+    assert.equal(req.body.agent, 'Gemini (shop)');
+    assert.equal(req.body.project, 'shop');
+    assert.equal(req.body.source, 'gemini');
+    assert.equal(req.body.activity, 'planning');
+    assert.equal(req.timestamp, Date.parse('2026-01-05T10:00:00.000Z'));
+  });
+
+  it('should count the prompt as input', () => {
+    assert.equal(prompt[0].body.inputBytes, 'Fix the failing cart test'.length);
+  });
+
+  it('should rename tools to their Claude Code equivalents', () => {
+    assert.equal(read[0].body.tool, 'Read');
+    assert.deepEqual(read[0].body.toolInput, { file_path: '/home/dev/shop/src/cart.ts' });
+    assert.equal(read[0].body.detail, 'cart.ts');
+    assert.equal(replace[0].body.tool, 'Edit');
+    assert.equal(replace[0].body.activity, 'coding');
+    assert.equal(shell[0].body.tool, 'Bash');
+    assert.equal(shell[0].body.toolInput.command, 'npm test');
+    assert.equal(shell[0].body.detail, 'npm test');
+  });
+
+  it('should keep only the fields the classifier reads', () => {
+    assert.equal(replace[0].body.toolInput.old_string, undefined);
+    assert.ok(replace[0].body.inputBytes > 0);
+  });
+
+  it('should count tool responses as output', () => {
+    assert.ok(afterRead[0].body.outputBytes > 0);
+    assert.equal(afterRead[0].body.tool, undefined);
+  });
+
+  it('should flag notifications as waiting', () => {
+    assert.equal(notification[0].body.waiting, true);
+    assert.equal(notification[0].body.detail, 'Allow npm test?');
+  });
+
+  it('should go idle after the turn and despawn at session end', () => {
+    assert.equal(afterAgent[0].body.activity, 'idle');
+    assert.equal(afterAgent[0].body.busy, false);
+    assert.deepEqual(end, [{
+      path: '/api/event',
+      body: { type: 'agent:despawn', agentId: 'gemini-shop-' },
+      timestamp: Date.parse('2026-01-05T10:01:00.000Z'),
+    }]);
+  });
+
+  it('should pass unknown tools through and ignore unknown events', () => {
+    const [req] = translate({ cwd: '/w/x', hook_event_name: 'BeforeTool', tool_name: 'mcp__db__query', tool_input: { query: 'select 1' } });
+    assert.equal(req.body.tool, 'mcp__db__query');
+    assert.equal(req.body.toolInput.query, 'select 1');
+    assert.deepEqual(translate({ cwd: '/w/x', hook_event_name: 'PreCompress' }), []);
+  });
+});
@@ -0,0 +1,74 @@
+// ── Adapters ─────────────────────────────────────────────
+// Other coding-agent CLIs report through POST /api/ingest/:source.
+// Each adapter turns its CLI's native hook or log payload into the
+// requests the Claude Code hook would send ({ path, body, timestamp },
+// as in /api/batch), so those agents share the heartbeat lifecycle.
+//
+// An adapter exports `source` and `translate(record, session)`.
+// `session` is an object kept between requests with the same
+// `?session=` key (a log file being tailed), for state a CLI only
+// writes once, like the working directory.
+
+import * as aider from './aider.mjs';
+import * as codex from './codex.mjs';
+import * as gemini from './gemini.mjs';
+
+const ADAPTERS = new Map([aider, codex, gemini].map(adapter => [adapter.source, adapter]));
+
+const MAX_SESSIONS = 200;
+const sessions = new Map(); // `${source}:${key}` → session
+
+export const SOURCES = [...ADAPTERS.keys()];
+
+export function hasAdapter(source) {
+  return ADAPTERS.has(source);
+}
+
+function sessionFor(source, key, project) {
+  if (!key) return { project };
+  const id = `${source}:${key}`;
+  let session = sessions.get(id);
+  if (!session) {
+    session = {};
+    sessions.set(id, session);
+    if (sessions.size > MAX_SESSIONS) sessions.delete(sessions.keys().next().value);
+  }
+  if (project) session.project = project;
+  return session;
+}
+
+/**
+ * Records in a request body: one JSON value (an object, or an array
+ * of them) or JSON Lines. Throws on anything else.
+ */
+export function parseRecords(text) {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  try {
+    const value = JSON.parse(trimmed);
+    return Array.isArray(value) ? value : [value];
+  } catch (err) {
+    if (!trimmed.includes('\n')) throw err;
+    return trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+}
+
+/**
+ * Bridge requests for a source's records. Records the adapter can't
+ * read are skipped.
+ */
+export function translateRecords(source, records, { session: key, project } = {}) {
+  const adapter = ADAPTERS.get(source);
+  if (!adapter) throw new Error(`Unknown source: ${source}`);
+  const session = sessionFor(source, key, project);
+  const requests = [];
+  for (const record of records) {
+    if (!record || typeof record !== 'object') continue;
+    try {
+      requests.push(...adapter.translate(record, session));
+    } catch {
+      // Malformed record — skip it, keep the rest
+    }
+  }
+  return requests;
+}
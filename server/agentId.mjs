@@ -0,0 +1,11 @@
+// ── Agent IDs ────────────────────────────────────────────
+// An agent's id is a slug of the name it reports, so heartbeats
+// from the hook, OTLP spans and the adapters all land on the same
+// villager. The hook keeps its own copy, as it runs standalone.
+
+/**
+ * Agent id for an agent name ("Claude (shop)" → "claude-shop-").
+ */
+export function agentIdFor(name) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
@@ -1,13 +1,14 @@
 // ── Persistent Agent Store ───────────────────────────────
-// Saves agent profiles (name, stats, XP) to disk so they
-// survive bridge restarts and accumulate over time.
+// Saves agent profiles (name, stats, XP) and their full activity
+// history to SQLite (see db.mjs) so they survive bridge restarts
+// and accumulate over time.
 
-import fs from 'node:fs';
 import path from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+import { db, transaction, importLegacyJson } from './db.mjs';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const STORE_PATH = path.join(__dirname, 'data', 'agents.json');
+// Pre-SQLite store, imported once on first run
+const LEGACY_PATH = path.join(DATA_DIR, 'agents.json');
 
 // ── Level System ────────────────────────────────────────
 
@@ -45,25 +46,135 @@ export function calculateXP(profile) {
 }
 
 // ── Store ───────────────────────────────────────────────
+// Profiles are cached in memory (the bridge reads them on every
+// heartbeat) and written back to SQLite row by row: only agents
+// that changed since the last save, plus new activity rows.
+
+const MAX_RECENT = 20;
 
 let store = { agents: {} };
+const dirty = new Set();
+let pendingActivities = [];
+
+const upsertAgent = db.prepare(`
+  INSERT INTO agents (id, name, clan, parent_id, tool_calls, input_bytes, output_bytes,
+                      legacy_bytes, input_tokens, output_tokens, cache_read_tokens,
+                      cache_creation_tokens, model, cost, sessions, sub_agents_spawned,
+                      first_seen, last_seen)
+  VALUES (:id, :name, :clan, :parentId, :toolCalls, :inputBytes, :outputBytes,
+          :legacyBytes, :inputTokens, :outputTokens, :cacheReadTokens,
+          :cacheCreationTokens, :model, :cost, :sessions, :subAgentsSpawned,
+          :firstSeen, :lastSeen)
+  ON CONFLICT (id) DO UPDATE SET
+    name = excluded.name, clan = excluded.clan, parent_id = excluded.parent_id,
+    tool_calls = excluded.tool_calls, input_bytes = excluded.input_bytes,
+    output_bytes = excluded.output_bytes, legacy_bytes = excluded.legacy_bytes,
+    input_tokens = excluded.input_tokens, output_tokens = excluded.output_tokens,
+    cache_read_tokens = excluded.cache_read_tokens,
+    cache_creation_tokens = excluded.cache_creation_tokens, model = excluded.model,
+    cost = excluded.cost,
+    sessions = excluded.sessions, sub_agents_spawned = excluded.sub_agents_spawned,
+    first_seen = excluded.first_seen, last_seen = excluded.last_seen
+`);
+const insertActivity = db.prepare(
+  'INSERT INTO activities (agent_id, activity, detail, timestamp) VALUES (?, ?, ?, ?)',
+);
+const insertAchievement = db.prepare(
+  'INSERT OR IGNORE INTO achievements (agent_id, achievement_id, unlocked_at) VALUES (?, ?, ?)',
+);
+
+function writeAgent(id, profile) {
+  upsertAgent.run({
+    id,
+    name: profile.name ?? null,
+    clan: profile.clan || null,
+    parentId: profile.parentId || null,
+    toolCalls: profile.toolCalls || 0,
+    inputBytes: profile.totalInputBytes || 0,
+    outputBytes: profile.totalOutputBytes || 0,
+    legacyBytes: profile.totalBytes || 0,
+    inputTokens: profile.totalInputTokens || 0,
+    outputTokens: profile.totalOutputTokens || 0,
+    cacheReadTokens: profile.totalCacheReadTokens || 0,
+    cacheCreationTokens: profile.totalCacheCreationTokens || 0,
+    model: profile.model || null,
+    cost: profile.totalCost || 0,
+    sessions: profile.sessions || 0,
+    subAgentsSpawned: profile.subAgentsSpawned || 0,
+    firstSeen: profile.firstSeen ?? null,
+    lastSeen: profile.lastSeen ?? null,
+  });
+}
+
+// First run after the switch to SQLite: bring over agents.json
+importLegacyJson(LEGACY_PATH, (data) => {
+  const entries = Object.entries(data.agents || {});
+  for (const [id, profile] of entries) {
+    writeAgent(id, profile);
+    for (const a of profile.recentActivity || []) {
+      insertActivity.run(id, a.activity, a.detail ?? null, a.timestamp);
+    }
+  }
+  return entries.length;
+});
 
-// Load from disk on startup
+// Load profiles with their most recent activities
 try {
-  if (fs.existsSync(STORE_PATH)) {
-    store = JSON.parse(fs.readFileSync(STORE_PATH, 'utf-8'));
+  const recent = new Map();
+  const rows = db.prepare(`
+    SELECT agent_id, activity, detail, timestamp FROM (
+      SELECT *, ROW_NUMBER() OVER (PARTITION BY agent_id ORDER BY timestamp DESC, id DESC) AS n
+      FROM activities
+    ) WHERE n <= ${MAX_RECENT} ORDER BY timestamp, id
+  `).all();
+  for (const row of rows) {
+    if (!recent.has(row.agent_id)) recent.set(row.agent_id, []);
+    recent.get(row.agent_id).push({ activity: row.activity, detail: row.detail, timestamp: row.timestamp });
   }
-} catch {
-  console.log('  ⚠ Could not load agent store, starting fresh');
+  const unlocked = new Map();
+  for (const row of db.prepare('SELECT * FROM achievements ORDER BY unlocked_at').all()) {
+    if (!unlocked.has(row.agent_id)) unlocked.set(row.agent_id, []);
+    unlocked.get(row.agent_id).push({ id: row.achievement_id, unlockedAt: row.unlocked_at });
+  }
+
+  for (const row of db.prepare('SELECT * FROM agents').all()) {
+    store.agents[row.id] = {
+      name: row.name,
+      clan: row.clan,
+      toolCalls: row.tool_calls,
+      totalInputBytes: row.input_bytes,
+      totalOutputBytes: row.output_bytes,
+      ...(row.legacy_bytes ? { totalBytes: row.legacy_bytes } : {}),
+      totalInputTokens: row.input_tokens,
+      totalOutputTokens: row.output_tokens,
+      totalCacheReadTokens: row.cache_read_tokens,
+      totalCacheCreationTokens: row.cache_creation_tokens,
+      model: row.model,
+      totalCost: row.cost,
+      sessions: row.sessions,
+      subAgentsSpawned: row.sub_agents_spawned,
+      parentId: row.parent_id,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      recentActivity: recent.get(row.id) || [],
+      achievements: unlocked.get(row.id) || [],
+    };
+  }
+} catch (err) {
+  console.log(`  ⚠ Could not load agent store, starting fresh: ${err.message}`);
 }
 
 function save() {
+  if (!dirty.size && !pendingActivities.length) return;
   try {
-    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
-    // Atomic write: temp file → rename (prevents corruption on crash)
-    const tmpPath = STORE_PATH + '.tmp';
-    fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2));
-    fs.renameSync(tmpPath, STORE_PATH);
+    transaction(() => {
+      for (const id of dirty) {
+        if (store.agents[id]) writeAgent(id, store.agents[id]);
+      }
+      for (const a of pendingActivities) insertActivity.run(a.agentId, a.activity, a.detail ?? null, a.timestamp);
+    });
+    dirty.clear();
+    pendingActivities = [];
   } catch (err) {
     console.log(`  ⚠ Save failed: ${err.message}`);
   }
@@ -71,7 +182,8 @@ function save() {
 
 // Debounce saves (max once per 5s)
 let saveTimer = null;
-function debouncedSave() {
+function debouncedSave(agentId) {
+  if (agentId) dirty.add(agentId);
   if (saveTimer) return;
   saveTimer = setTimeout(() => {
     save();
@@ -82,8 +194,11 @@ function debouncedSave() {
 /**
  * Get or create a persistent agent profile.
  * Returns { name, toolCalls, totalBytes, sessions, firstSeen, lastSeen, xp, level }
+ *
+ * The record* functions below take an optional `timestamp` so that
+ * replayed (spooled) heartbeats keep the time they really happened.
  */
-export function getProfile(agentId, dwarfName, parentId, clan) {
+export function getProfile(agentId, dwarfName, parentId, clan, timestamp = Date.now()) {
   if (!store.agents[agentId]) {
     store.agents[agentId] = {
       name: dwarfName,
@@ -91,14 +206,21 @@ export function getProfile(agentId, dwarfName, parentId, clan) {
       toolCalls: 0,
       totalInputBytes: 0,
       totalOutputBytes: 0,
+      totalInputTokens: 0,
+      totalOutputTokens: 0,
+      totalCacheReadTokens: 0,
+      totalCacheCreationTokens: 0,
+      model: null,
+      totalCost: 0,
       sessions: 0,
       subAgentsSpawned: 0,
       parentId: parentId || null,
-      firstSeen: Date.now(),
-      lastSeen: Date.now(),
+      firstSeen: timestamp,
+      lastSeen: timestamp,
       recentActivity: [],
+      achievements: [],
     };
-    debouncedSave();
+    debouncedSave(agentId);
   } else {
     let changed = false;
     if (parentId && !store.agents[agentId].parentId) {
@@ -109,7 +231,11 @@ export function getProfile(agentId, dwarfName, parentId, clan) {
       store.agents[agentId].clan = clan;
       changed = true;
     }
-    if (changed) debouncedSave();
+    if (timestamp < store.agents[agentId].firstSeen) {
+      store.agents[agentId].firstSeen = timestamp;
+      changed = true;
+    }
+    if (changed) debouncedSave(agentId);
   }
 
   const profile = store.agents[agentId];
@@ -117,6 +243,7 @@ export function getProfile(agentId, dwarfName, parentId, clan) {
   // Update name if it was assigned before store existed
   if (dwarfName && profile.name !== dwarfName) {
     profile.name = dwarfName;
+    debouncedSave(agentId);
   }
 
   return profile;
@@ -129,45 +256,93 @@ export function getStoredName(agentId) {
   return store.agents[agentId]?.name || null;
 }
 
+/**
+ * Give a known agent a new name (from the dashboard). Returns false
+ * for unknown agents. Stored names win over generated ones, so the
+ * name sticks across sessions.
+ */
+export function renameAgent(agentId, name) {
+  const profile = store.agents[agentId];
+  if (!profile) return false;
+  profile.name = name;
+  debouncedSave(agentId);
+  return true;
+}
+
 /**
  * Record a tool use (from PreToolUse heartbeat).
  */
-export function recordToolUse(agentId) {
+export function recordToolUse(agentId, timestamp = Date.now()) {
   const profile = store.agents[agentId];
   if (!profile) return;
   profile.toolCalls++;
-  profile.lastSeen = Date.now();
-  debouncedSave();
+  profile.lastSeen = Math.max(profile.lastSeen || 0, timestamp);
+  debouncedSave(agentId);
 }
 
 /**
  * Record bytes from PostToolUse.
  */
-export function recordBytes(agentId, inputBytes, outputBytes) {
+export function recordBytes(agentId, inputBytes, outputBytes, timestamp = Date.now()) {
   const profile = store.agents[agentId];
   if (!profile) return;
   profile.totalInputBytes = (profile.totalInputBytes || 0) + inputBytes;
   profile.totalOutputBytes = (profile.totalOutputBytes || 0) + outputBytes;
-  profile.lastSeen = Date.now();
-  debouncedSave();
+  profile.lastSeen = Math.max(profile.lastSeen || 0, timestamp);
+  debouncedSave(agentId);
 }
 
-const MAX_RECENT = 20;
+/**
+ * Record real token counts, for agents that report them (OTLP spans,
+ * Claude Code transcripts). Kept apart from the byte-based estimate.
+ * `usage` is { inputTokens, outputTokens, cacheReadTokens,
+ * cacheCreationTokens, model, cost }; missing counts are 0, and
+ * `model` replaces the last one seen. `cost` is priced by the caller
+ * (see pricing.mjs).
+ */
+export function recordTokens(agentId, usage, timestamp = Date.now()) {
+  const profile = store.agents[agentId];
+  if (!profile) return;
+  profile.totalInputTokens = (profile.totalInputTokens || 0) + (usage.inputTokens || 0);
+  profile.totalOutputTokens = (profile.totalOutputTokens || 0) + (usage.outputTokens || 0);
+  profile.totalCacheReadTokens = (profile.totalCacheReadTokens || 0) + (usage.cacheReadTokens || 0);
+  profile.totalCacheCreationTokens = (profile.totalCacheCreationTokens || 0) + (usage.cacheCreationTokens || 0);
+  profile.totalCost = (profile.totalCost || 0) + (usage.cost || 0);
+  if (usage.model) profile.model = usage.model;
+  profile.lastSeen = Math.max(profile.lastSeen || 0, timestamp);
+  debouncedSave(agentId);
+}
 
 /**
- * Record an activity change (persisted for history).
+ * Record an activity change. Every change is kept in the database;
+ * the profile carries the latest MAX_RECENT for the dashboard.
  */
-export function recordActivity(agentId, activity, detail) {
+export function recordActivity(agentId, activity, detail, timestamp = Date.now()) {
   const profile = store.agents[agentId];
   if (!profile) return;
   if (!profile.recentActivity) profile.recentActivity = [];
-  profile.recentActivity.push({ activity, detail, timestamp: Date.now() });
+  profile.recentActivity.push({ activity, detail, timestamp });
+  // Replayed entries can be older than what's already recorded
+  profile.recentActivity.sort((a, b) => a.timestamp - b.timestamp);
   if (profile.recentActivity.length > MAX_RECENT) {
     profile.recentActivity = profile.recentActivity.slice(-MAX_RECENT);
   }
+  pendingActivities.push({ agentId, activity, detail, timestamp });
   debouncedSave();
 }
 
+/**
+ * Full activity history of an agent within a time range, oldest first.
+ */
+export function getActivityHistory(agentId, from = 0, to = Date.now()) {
+  save(); // include changes still waiting for the debounce
+  return db.prepare(`
+    SELECT activity, detail, timestamp FROM activities
+    WHERE agent_id = ? AND timestamp BETWEEN ? AND ?
+    ORDER BY timestamp, id
+  `).all(agentId, from, to).map(row => ({ ...row }));
+}
+
 /**
  * Record that a parent agent spawned a sub-agent.
  */
@@ -175,17 +350,33 @@ export function recordSubAgentSpawn(parentAgentId) {
   const profile = store.agents[parentAgentId];
   if (!profile) return;
   profile.subAgentsSpawned = (profile.subAgentsSpawned || 0) + 1;
-  debouncedSave();
+  debouncedSave(parentAgentId);
+}
+
+/**
+ * Record that an agent unlocked an achievement (see achievements.mjs).
+ * Written straight away, since unlocks are rare and shouldn't be lost.
+ * Returns false for unknown agents and achievements already unlocked.
+ */
+export function recordAchievement(agentId, achievementId, timestamp = Date.now()) {
+  const profile = store.agents[agentId];
+  if (!profile) return false;
+  if (!profile.achievements) profile.achievements = [];
+  if (profile.achievements.some(a => a.id === achievementId)) return false;
+  insertAchievement.run(agentId, achievementId, timestamp);
+  profile.achievements.push({ id: achievementId, unlockedAt: timestamp });
+  return true;
 }
 
 /**
  * Increment session count (called on first heartbeat per agent per bridge run).
+ * The sessions themselves are tracked by sessionStore.mjs.
  */
 export function recordSession(agentId) {
   const profile = store.agents[agentId];
   if (!profile) return;
   profile.sessions++;
-  debouncedSave();
+  debouncedSave(agentId);
 }
 
 /**
@@ -204,7 +395,14 @@ export function getEnrichedProfile(agentId) {
     clan: profile.clan || null,
     totalInputBytes: (profile.totalInputBytes || 0) + (profile.totalBytes ? Math.ceil(profile.totalBytes / 2) : 0),
     totalOutputBytes: (profile.totalOutputBytes || 0) + (profile.totalBytes ? Math.floor(profile.totalBytes / 2) : 0),
+    totalInputTokens: profile.totalInputTokens || 0,
+    totalOutputTokens: profile.totalOutputTokens || 0,
+    totalCacheReadTokens: profile.totalCacheReadTokens || 0,
+    totalCacheCreationTokens: profile.totalCacheCreationTokens || 0,
+    model: profile.model || null,
+    totalCost: profile.totalCost || 0,
     recentActivity: profile.recentActivity || [],
+    achievements: profile.achievements || [],
     xp,
     level: level.level,
     title: level.title,
@@ -228,11 +426,18 @@ export function getAllProfiles() {
       toolCalls: profile.toolCalls,
       totalInputBytes: (profile.totalInputBytes || 0) + (profile.totalBytes ? Math.ceil(profile.totalBytes / 2) : 0),
       totalOutputBytes: (profile.totalOutputBytes || 0) + (profile.totalBytes ? Math.floor(profile.totalBytes / 2) : 0),
+      totalInputTokens: profile.totalInputTokens || 0,
+      totalOutputTokens: profile.totalOutputTokens || 0,
+      totalCacheReadTokens: profile.totalCacheReadTokens || 0,
+      totalCacheCreationTokens: profile.totalCacheCreationTokens || 0,
+      model: profile.model || null,
+      totalCost: profile.totalCost || 0,
       sessions: profile.sessions,
       subAgentsSpawned: profile.subAgentsSpawned || 0,
       parentId: profile.parentId || null,
       firstSeen: profile.firstSeen,
       lastSeen: profile.lastSeen,
+      achievements: profile.achievements || [],
       xp,
       level: level.level,
       title: level.title,
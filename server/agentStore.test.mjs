@@ -4,8 +4,13 @@
  */
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
-import {
+// Use a throwaway data dir so runs don't see each other's profiles
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-agents-'));
+const {
   getLevel,
   getNextLevel,
   calculateXP,
@@ -13,12 +18,13 @@ import {
   getStoredName,
   recordToolUse,
   recordBytes,
+  recordTokens,
   recordActivity,
   recordSession,
   recordSubAgentSpawn,
   getEnrichedProfile,
   getAllProfiles,
-} from './agentStore.mjs';
+} = await import('./agentStore.mjs');
 
 // ── Level System ────────────────────────────────────────
 
@@ -203,6 +209,13 @@ describe('getProfile', () => {
     const p = getProfile('test-rename', 'NewName');
     assert.equal(p.name, 'NewName');
   });
+  it('should use the given timestamp and move firstSeen back for replayed heartbeats', () => {
+    const p = getProfile('test-replayed', 'Latecomer', null, null, 5000);
+    assert.equal(p.firstSeen, 5000);
+    assert.equal(p.lastSeen, 5000);
+    getProfile('test-replayed', 'Latecomer', null, null, 1000);
+    assert.equal(p.firstSeen, 1000);
+  });
 });
 
 describe('getStoredName', () => {
@@ -235,6 +248,14 @@ describe('recordToolUse', () => {
     assert.ok(p.lastSeen >= before);
   });
 
+  it('should not move lastSeen backwards for replayed heartbeats', () => {
+    const p = getProfile('test-tool-replay', 'Replayer');
+    const latest = p.lastSeen;
+    recordToolUse('test-tool-replay', latest - 3600_000);
+    assert.equal(p.toolCalls, 1);
+    assert.equal(p.lastSeen, latest);
+  });
+
   it('should be a no-op for unknown agents', () => {
     // Should not throw
     recordToolUse('nonexistent-agent-xyz');
@@ -262,6 +283,45 @@ describe('recordBytes', () => {
   });
 });
 
+describe('recordTokens', () => {
+  it('should count tokens apart from bytes', () => {
+    const p = getProfile('test-tokens', 'TokenCounter');
+    recordTokens('test-tokens', { inputTokens: 1200, outputTokens: 300 });
+    recordTokens('test-tokens', { inputTokens: 800, outputTokens: 100 });
+    assert.equal(p.totalInputTokens, 2000);
+    assert.equal(p.totalOutputTokens, 400);
+    assert.equal(p.totalInputBytes, 0);
+    assert.equal(getEnrichedProfile('test-tokens').totalOutputTokens, 400);
+  });
+
+  it('should count cache tokens and keep the latest model', () => {
+    const p = getProfile('test-cache-tokens', 'CacheKeeper');
+    recordTokens('test-cache-tokens', { inputTokens: 10, cacheCreationTokens: 5000, model: 'claude-sonnet-4-5' });
+    recordTokens('test-cache-tokens', { inputTokens: 12, cacheReadTokens: 5000, model: 'claude-opus-4-1' });
+    recordTokens('test-cache-tokens', { outputTokens: 40 });
+    assert.equal(p.totalCacheReadTokens, 5000);
+    assert.equal(p.totalCacheCreationTokens, 5000);
+    assert.equal(p.totalInputTokens, 22);
+    assert.equal(getEnrichedProfile('test-cache-tokens').model, 'claude-opus-4-1');
+    const listed = getAllProfiles().find(x => x.agentId === 'test-cache-tokens');
+    assert.equal(listed.totalCacheReadTokens, 5000);
+  });
+
+  it('should add up the cost of the usage', () => {
+    const p = getProfile('test-cost', 'CoinCounter');
+    recordTokens('test-cost', { inputTokens: 1000, cost: 0.25 });
+    recordTokens('test-cost', { outputTokens: 1000, cost: 0.5 });
+    recordTokens('test-cost', { outputTokens: 10 });
+    assert.equal(p.totalCost, 0.75);
+    assert.equal(getEnrichedProfile('test-cost').totalCost, 0.75);
+    assert.equal(getAllProfiles().find(x => x.agentId === 'test-cost').totalCost, 0.75);
+  });
+
+  it('should be a no-op for unknown agents', () => {
+    recordTokens('nonexistent-agent-tokens', { inputTokens: 100, outputTokens: 200 });
+  });
+});
+
 describe('recordActivity', () => {
   it('should append activity to recentActivity', () => {
     const p = getProfile('test-activity', 'Activist');
@@ -291,6 +351,13 @@ describe('recordActivity', () => {
     assert.equal(p.recentActivity.length, 1);
   });
 
+  it('should keep entries in time order when replaying older ones', () => {
+    const p = getProfile('test-activity-replay', 'Rewinder');
+    recordActivity('test-activity-replay', 'coding', 'now.ts', 2000);
+    recordActivity('test-activity-replay', 'testing', 'earlier.ts', 1000);
+    assert.deepEqual(p.recentActivity.map(a => a.timestamp), [1000, 2000]);
+  });
+
   it('should be a no-op for unknown agents', () => {
     recordActivity('nonexistent-activity', 'coding', 'nope');
   });
@@ -0,0 +1,288 @@
+// ── Analytics ────────────────────────────────────────────
+// Tool calls, bytes, tokens and cost over time, for questions like
+// "how many tool calls did clan X make per hour last week, by
+// activity". Every heartbeat that did something is kept as a usage
+// event; /api/analytics adds them up per hour or day and per clan,
+// agent, activity or building.
+//
+// Buckets are hours and calendar days in a time zone (the bridge's
+// own unless asked otherwise), so a day around a DST change is 23 or
+// 25 hours long and an hour never straddles two local hours.
+
+import { db, transaction } from './db.mjs';
+
+export const GROUP_BY = ['clan', 'agent', 'activity', 'building'];
+export const BUCKETS = ['hour', 'day'];
+export const MAX_BUCKETS = 1000;
+export const DEFAULT_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const HOUR = 3600_000;
+// Every UTC offset in use is a multiple of 15 minutes
+const SLOT = 900_000;
+
+const GROUP_COLUMNS = { clan: 'clan', agent: 'agent_id', activity: 'activity', building: 'building' };
+
+// ── Store ───────────────────────────────────────────────
+// Heartbeats are frequent, so events are written in batches
+
+const insertEvent = db.prepare(`
+  INSERT INTO usage_events (agent_id, clan, activity, building, tool_calls, input_bytes, output_bytes,
+                            input_tokens, output_tokens, cost, timestamp)
+  VALUES (:agentId, :clan, :activity, :building, :toolCalls, :inputBytes, :outputBytes,
+          :inputTokens, :outputTokens, :cost, :timestamp)
+`);
+
+let pending = [];
+
+function save() {
+  if (!pending.length) return;
+  try {
+    transaction(() => {
+      for (const event of pending) insertEvent.run(event);
+    });
+    pending = [];
+  } catch (err) {
+    console.log(`  ⚠ Usage event save failed: ${err.message}`);
+  }
+}
+
+let saveTimer = null;
+function debouncedSave() {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    save();
+    saveTimer = null;
+  }, 5000);
+}
+
+/**
+ * Record what one heartbeat did: a tool call, bytes in and out,
+ * reported tokens and their cost. Heartbeats that did none of these
+ * aren't kept.
+ */
+export function recordUsageEvent(agentId, {
+  clan, activity, building, toolCalls = 0, inputBytes = 0, outputBytes = 0, inputTokens = 0, outputTokens = 0, cost = 0,
+}, timestamp = Date.now()) {
+  if (!toolCalls && !inputBytes && !outputBytes && !inputTokens && !outputTokens) return;
+  pending.push({
+    agentId,
+    clan: clan || null,
+    activity: activity || 'idle',
+    building: building || null,
+    toolCalls,
+    inputBytes,
+    outputBytes,
+    inputTokens,
+    outputTokens,
+    cost,
+    timestamp,
+  });
+  debouncedSave();
+}
+
+// ── Time buckets ─────────────────────────────────────────
+
+const formatters = new Map();
+
+// Wall-clock time of an instant in a time zone
+function partsIn(timestamp, timeZone) {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts = {};
+  for (const { type, value } of format.formatToParts(timestamp)) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  return parts;
+}
+
+// Minutes the zone is ahead of UTC at an instant
+function offsetAt(timestamp, timeZone) {
+  const p = partsIn(timestamp, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wall - Math.floor(timestamp / 1000) * 1000) / 60_000);
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone this runtime knows.
+ */
+export function isTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start (epoch ms) of the local hour or day a timestamp falls in.
+ */
+export function bucketStart(timestamp, bucket, timeZone = DEFAULT_TIME_ZONE) {
+  const p = partsIn(timestamp, timeZone);
+  if (bucket === 'hour') {
+    return Math.floor(timestamp / 1000) * 1000 - (p.minute * 60 + p.second) * 1000;
+  }
+  // Local midnight: the offset at midnight can differ from the one
+  // later that day, so correct once more with the offset found there
+  const midnight = Date.UTC(p.year, p.month - 1, p.day);
+  const guess = midnight - offsetAt(timestamp, timeZone) * 60_000;
+  return midnight - offsetAt(guess, timeZone) * 60_000;
+}
+
+function pad(n) {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * A bucket's local time: "2026-03-08" for a day, and for an hour
+ * "2026-11-01T01:00-04:00", with the offset that tells the two
+ * 01:00s of the night the clocks go back apart.
+ */
+export function bucketLabel(start, bucket, timeZone = DEFAULT_TIME_ZONE) {
+  const p = partsIn(start, timeZone);
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  if (bucket === 'day') return day;
+  const offset = offsetAt(start, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${day}T${pad(p.hour)}:${pad(p.minute)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Starts of every bucket that overlaps [from, to], oldest first.
+ */
+export function bucketStarts(from, to, bucket, timeZone = DEFAULT_TIME_ZONE) {
+  // A day is 23 to 25 hours long, so 36h on from its start is the next day
+  const step = bucket === 'hour' ? HOUR : 36 * HOUR;
+  const starts = [];
+  for (let start = bucketStart(from, bucket, timeZone); start <= to; start = bucketStart(start + step, bucket, timeZone)) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+/**
+ * Roughly how many buckets [from, to] spans, to refuse ranges too
+ * long for the bucket size before adding anything up.
+ */
+export function bucketCount(from, to, bucket) {
+  return Math.ceil((to - from + 1) / (bucket === 'hour' ? HOUR : 24 * HOUR));
+}
+
+// ── Aggregates ───────────────────────────────────────────
+
+function emptyTotals() {
+  return { toolCalls: 0, inputBytes: 0, outputBytes: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addTotals(totals, row) {
+  totals.toolCalls += row.tool_calls;
+  totals.inputBytes += row.input_bytes;
+  totals.outputBytes += row.output_bytes;
+  totals.inputTokens += row.input_tokens;
+  totals.outputTokens += row.output_tokens;
+  totals.cost += row.cost;
+}
+
+/**
+ * Usage in [from, to] per bucket and group:
+ *
+ *   { groups: [{ key, toolCalls, inputBytes, outputBytes, inputTokens,
+ *                outputTokens, cost }],
+ *     buckets: [{ start, label, groups: { [key]: totals } }] }
+ *
+ * Groups come most tool calls first, with '' for agents without a
+ * clan. Every bucket in the range is listed, with only the groups
+ * that did something in it. Filters: agent, clan.
+ */
+export function getAnalytics({
+  groupBy = 'clan', bucket = 'hour', from = 0, to = Date.now(), timeZone = DEFAULT_TIME_ZONE, agent, clan,
+} = {}) {
+  save(); // include events still waiting for the debounce
+  const column = GROUP_COLUMNS[groupBy] || GROUP_COLUMNS.clan;
+  const where = ['timestamp >= :from', 'timestamp <= :to'];
+  const params = { from, to };
+  if (agent) {
+    where.push('agent_id = :agent');
+    params.agent = agent;
+  }
+  if (clan) {
+    where.push('clan = :clan');
+    params.clan = clan;
+  }
+  // Add up per 15-minute slot in SQL; slots fall into buckets in any zone
+  const rows = db.prepare(`
+    SELECT COALESCE(${column}, '') AS key, timestamp / ${SLOT} AS slot,
+           SUM(tool_calls) AS tool_calls, SUM(input_bytes) AS input_bytes, SUM(output_bytes) AS output_bytes,
+           SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens, SUM(cost) AS cost
+    FROM usage_events WHERE ${where.join(' AND ')}
+    GROUP BY key, slot
+  `).all(params);
+
+  const buckets = bucketStarts(from, to, bucket, timeZone).map(start => ({
+    start,
+    label: bucketLabel(start, bucket, timeZone),
+    groups: {},
+  }));
+  const byStart = new Map(buckets.map(b => [b.start, b]));
+  const groups = new Map();
+
+  for (const row of rows) {
+    const target = byStart.get(bucketStart(row.slot * SLOT, bucket, timeZone));
+    if (!target) continue;
+    target.groups[row.key] ??= emptyTotals();
+    addTotals(target.groups[row.key], row);
+    if (!groups.has(row.key)) groups.set(row.key, { key: row.key, ...emptyTotals() });
+    addTotals(groups.get(row.key), row);
+  }
+
+  return {
+    groups: [...groups.values()].sort((a, b) => b.toolCalls - a.toolCalls || b.outputTokens - a.outputTokens),
+    buckets,
+  };
+}
+
+/**
+ * Usage totals per agent in [from, to], for leaderboards:
+ * [{ agentId, toolCalls, inputBytes, outputBytes, inputTokens,
+ *    outputTokens, cost }].
+ */
+export function getUsageByAgent({ from = 0, to = Date.now() } = {}) {
+  save();
+  return db.prepare(`
+    SELECT agent_id,
+           SUM(tool_calls) AS tool_calls, SUM(input_bytes) AS input_bytes, SUM(output_bytes) AS output_bytes,
+           SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens, SUM(cost) AS cost
+    FROM usage_events WHERE timestamp >= :from AND timestamp <= :to
+    GROUP BY agent_id
+  `).all({ from, to }).map(row => {
+    const totals = emptyTotals();
+    addTotals(totals, row);
+    return { agentId: row.agent_id, ...totals };
+  });
+}
+
+/**
+ * Local days ("2026-03-08") in [from, to] on which an agent made tool
+ * calls, oldest first. For streaks (see achievements.mjs).
+ */
+export function getActiveDays(agentId, { from = 0, to = Date.now(), timeZone = DEFAULT_TIME_ZONE } = {}) {
+  save();
+  const slots = db.prepare(`
+    SELECT DISTINCT timestamp / ${SLOT} AS slot FROM usage_events
+    WHERE agent_id = :agentId AND tool_calls > 0 AND timestamp >= :from AND timestamp <= :to
+    ORDER BY slot
+  `).all({ agentId, from, to });
+  return [...new Set(slots.map(row => bucketLabel(row.slot * SLOT, 'day', timeZone)))];
+}
+
+// Save on process exit
+process.on('exit', save);
+process.on('SIGINT', () => { save(); process.exit(); });
+process.on('SIGTERM', () => { save(); process.exit(); });
@@ -0,0 +1,130 @@
+/**
+ * Tests for usage analytics: time buckets and aggregates.
+ * Run: node --test server/analytics.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-analytics-'));
+const {
+  recordUsageEvent, getAnalytics, bucketStart, bucketLabel, bucketStarts, bucketCount, isTimeZone,
+} = await import('./analytics.mjs');
+
+const NY = 'America/New_York';
+const at = (iso) => Date.parse(iso);
+const labels = (from, to, bucket, tz) => bucketStarts(at(from), at(to), bucket, tz).map(s => bucketLabel(s, bucket, tz));
+
+describe('bucketStart', () => {
+  it('should put times just before and after local midnight in different days', () => {
+    assert.equal(bucketStart(at('2026-03-07T23:59:00-05:00'), 'day', NY), at('2026-03-07T00:00:00-05:00'));
+    assert.equal(bucketStart(at('2026-03-08T00:01:00-05:00'), 'day', NY), at('2026-03-08T00:00:00-05:00'));
+    // 20:00 UTC is already the next day in Tokyo
+    assert.equal(bucketStart(at('2026-01-01T20:00:00Z'), 'day', 'Asia/Tokyo'), at('2026-01-02T00:00:00+09:00'));
+    assert.equal(bucketStart(at('2026-01-01T20:00:00Z'), 'day', 'UTC'), at('2026-01-01T00:00:00Z'));
+  });
+
+  it('should start a day at local midnight on both DST changes', () => {
+    // Clocks go forward at 02:00 on March 8 and back at 02:00 on November 1
+    assert.equal(bucketStart(at('2026-03-08T22:00:00-04:00'), 'day', NY), at('2026-03-08T00:00:00-05:00'));
+    assert.equal(bucketStart(at('2026-11-01T22:00:00-05:00'), 'day', NY), at('2026-11-01T00:00:00-04:00'));
+  });
+
+  it('should follow zones half an hour off UTC', () => {
+    assert.equal(bucketStart(at('2026-01-01T00:10:00Z'), 'hour', 'Asia/Kolkata'), at('2025-12-31T23:30:00Z'));
+    assert.equal(bucketLabel(at('2025-12-31T23:30:00Z'), 'hour', 'Asia/Kolkata'), '2026-01-01T05:00+05:30');
+  });
+});
+
+describe('bucketStarts', () => {
+  it('should make the days around DST changes 23 and 25 hours long', () => {
+    const spring = bucketStarts(at('2026-03-07T12:00:00-05:00'), at('2026-03-09T12:00:00-04:00'), 'day', NY);
+    assert.deepEqual(spring.map(s => bucketLabel(s, 'day', NY)), ['2026-03-07', '2026-03-08', '2026-03-09']);
+    assert.equal(spring[2] - spring[1], 23 * 3600_000);
+
+    const fall = bucketStarts(at('2026-11-01T00:00:00-04:00'), at('2026-11-02T00:00:00-05:00'), 'day', NY);
+    assert.equal(fall.length, 2);
+    assert.equal(fall[1] - fall[0], 25 * 3600_000);
+  });
+
+  it('should skip the hour that never happens and repeat the one that happens twice', () => {
+    assert.deepEqual(labels('2026-03-08T01:00:00-05:00', '2026-03-08T04:00:00-04:00', 'hour', NY), [
+      '2026-03-08T01:00-05:00', '2026-03-08T03:00-04:00', '2026-03-08T04:00-04:00',
+    ]);
+    assert.deepEqual(labels('2026-11-01T00:00:00-04:00', '2026-11-01T02:00:00-05:00', 'hour', NY), [
+      '2026-11-01T00:00-04:00', '2026-11-01T01:00-04:00', '2026-11-01T01:00-05:00', '2026-11-01T02:00-05:00',
+    ]);
+  });
+
+  it('should estimate the bucket count of a range', () => {
+    assert.equal(bucketCount(0, 7 * 24 * 3600_000 - 1, 'day'), 7);
+    assert.equal(bucketCount(0, 3600_000, 'hour'), 2);
+  });
+});
+
+describe('isTimeZone', () => {
+  it('should accept IANA zones only', () => {
+    assert.equal(isTimeZone('Europe/Berlin'), true);
+    assert.equal(isTimeZone('UTC'), true);
+    assert.equal(isTimeZone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('getAnalytics', () => {
+  // A night around the spring DST change in New York
+  recordUsageEvent('claude-a', { clan: 'shop', activity: 'coding', building: 'forge', toolCalls: 1 }, at('2026-03-07T23:50:00-05:00'));
+  recordUsageEvent('claude-a', { clan: 'shop', activity: 'coding', building: 'forge', toolCalls: 1 }, at('2026-03-08T00:10:00-05:00'));
+  recordUsageEvent('claude-a', { clan: 'shop', activity: 'testing', building: 'arena', toolCalls: 1 }, at('2026-03-08T03:20:00-04:00'));
+  recordUsageEvent('claude-a', { clan: 'shop', activity: 'coding', building: 'forge', outputBytes: 400 }, at('2026-03-08T03:21:00-04:00'));
+  recordUsageEvent('claude-b', { clan: 'docs', activity: 'idle', building: 'campfire', inputTokens: 900, outputTokens: 120, cost: 0.01 }, at('2026-03-08T03:30:00-04:00'));
+  recordUsageEvent('claude-c', { activity: 'researching', building: 'library', toolCalls: 1 }, at('2026-03-09T09:00:00-04:00'));
+  // Heartbeats that did nothing aren't kept
+  recordUsageEvent('claude-a', { clan: 'shop', activity: 'coding' }, at('2026-03-08T03:40:00-04:00'));
+
+  const range = { from: at('2026-03-07T00:00:00-05:00'), to: at('2026-03-09T23:59:59-04:00'), timeZone: NY };
+
+  it('should add up each group per local day', () => {
+    const { groups, buckets } = getAnalytics({ ...range, groupBy: 'clan', bucket: 'day' });
+    assert.deepEqual(buckets.map(b => b.label), ['2026-03-07', '2026-03-08', '2026-03-09']);
+    assert.equal(buckets[0].groups.shop.toolCalls, 1);
+    assert.equal(buckets[1].groups.shop.toolCalls, 2);
+    assert.equal(buckets[1].groups.shop.outputBytes, 400);
+    assert.equal(buckets[1].groups.docs.outputTokens, 120);
+    assert.deepEqual(Object.keys(buckets[2].groups), ['']);
+    assert.deepEqual(groups.map(g => [g.key, g.toolCalls]), [['shop', 3], ['', 1], ['docs', 0]]);
+    assert.equal(groups[2].cost, 0.01);
+  });
+
+  it('should break one clan down by activity per hour', () => {
+    const { groups, buckets } = getAnalytics({
+      from: at('2026-03-08T00:00:00-05:00'), to: at('2026-03-08T03:59:59-04:00'), timeZone: NY,
+      groupBy: 'activity', bucket: 'hour', clan: 'shop',
+    });
+    assert.deepEqual(buckets.map(b => b.label), [
+      '2026-03-08T00:00-05:00', '2026-03-08T01:00-05:00', '2026-03-08T03:00-04:00',
+    ]);
+    assert.equal(buckets[0].groups.coding.toolCalls, 1);
+    assert.deepEqual(buckets[1].groups, {});
+    assert.equal(buckets[2].groups.testing.toolCalls, 1);
+    assert.equal(buckets[2].groups.coding.outputBytes, 400);
+    assert.deepEqual(groups.map(g => g.key), ['coding', 'testing']);
+  });
+
+  it('should group by agent and building, and filter by agent', () => {
+    const byAgent = getAnalytics({ ...range, groupBy: 'agent', bucket: 'day' });
+    assert.deepEqual(byAgent.groups.map(g => g.key), ['claude-a', 'claude-c', 'claude-b']);
+
+    const byBuilding = getAnalytics({ ...range, groupBy: 'building', bucket: 'day', agent: 'claude-a' });
+    assert.deepEqual(byBuilding.groups.map(g => [g.key, g.toolCalls]), [['forge', 2], ['arena', 1]]);
+  });
+
+  it('should put the same events in the days of another zone', () => {
+    const { buckets } = getAnalytics({ ...range, timeZone: 'UTC', groupBy: 'clan', bucket: 'day' });
+    // 23:50 in New York on March 7 is already March 8 in UTC
+    assert.equal(buckets[0].label, '2026-03-07');
+    assert.equal(buckets[1].groups.shop.toolCalls, 3);
+  });
+});
@@ -0,0 +1,81 @@
+// ── Approvals ────────────────────────────────────────────
+// Risky tool calls (see the `approvals` rules in classifier.mjs)
+// wait here for a verdict from the dashboard. The hook long-polls
+// POST /api/approval; the request stays open until someone clicks
+// Approve or Deny, or the timeout applies the configured policy.
+//
+// Verdicts: allow, deny, or ask (fall back to Claude Code's own
+// permission prompt in the terminal).
+
+const pending = new Map(); // id → { approval, settle, timer }
+let nextId = 1;
+
+/**
+ * Put a tool call on hold. Returns { approval, verdict } where
+ * `approval` is what the dashboard shows and `verdict` resolves to
+ * { decision, reason, timedOut? } once it's settled.
+ */
+export function requestApproval({ agentId, tool, detail, reason, timeout, onTimeout }, now = Date.now()) {
+  const approval = {
+    id: nextId++,
+    agentId,
+    tool,
+    detail: detail || '',
+    reason,
+    createdAt: now,
+    expiresAt: now + timeout,
+  };
+
+  const verdict = new Promise((resolve) => {
+    const settle = (result) => {
+      clearTimeout(entry.timer);
+      pending.delete(approval.id);
+      resolve(result);
+    };
+    const entry = {
+      approval,
+      settle,
+      timer: setTimeout(() => settle({
+        decision: onTimeout,
+        reason: `No answer from the village within ${Math.round(timeout / 1000)}s`,
+        timedOut: true,
+      }), timeout),
+    };
+    pending.set(approval.id, entry);
+  });
+
+  return { approval, verdict };
+}
+
+/**
+ * Settle a pending approval from the dashboard ('allow' or 'deny').
+ * Returns false when it's unknown or already settled.
+ */
+export function decideApproval(id, decision) {
+  const entry = pending.get(id);
+  if (!entry) return false;
+  entry.settle({
+    decision,
+    reason: decision === 'allow' ? 'Approved from the village' : 'Denied from the village',
+  });
+  return true;
+}
+
+/**
+ * Drop a pending approval nobody is waiting for any more (the hook
+ * went away). Its verdict resolves as 'cancelled'.
+ */
+export function cancelApproval(id) {
+  pending.get(id)?.settle({ decision: 'cancelled', reason: 'Request closed' });
+}
+
+/**
+ * The oldest pending approval of an agent (the one the dashboard
+ * shows), or null.
+ */
+export function pendingApprovalFor(agentId) {
+  for (const { approval } of pending.values()) {
+    if (approval.agentId === agentId) return approval;
+  }
+  return null;
+}
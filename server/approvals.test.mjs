@@ -0,0 +1,52 @@
+/**
+ * Tests for pending approvals (verdicts, timeouts, cancellation).
+ * Run: node --test server/approvals.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { requestApproval, decideApproval, cancelApproval, pendingApprovalFor } from './approvals.mjs';
+
+const CALL = { agentId: 'a', tool: 'Bash', detail: 'rm -rf build', reason: 'Recursive delete', timeout: 60_000, onTimeout: 'deny' };
+
+describe('approvals', () => {
+  it('should describe the call for the dashboard', () => {
+    const { approval } = requestApproval(CALL, 1000);
+    assert.deepEqual(approval, {
+      id: approval.id,
+      agentId: 'a',
+      tool: 'Bash',
+      detail: 'rm -rf build',
+      reason: 'Recursive delete',
+      createdAt: 1000,
+      expiresAt: 61_000,
+    });
+    cancelApproval(approval.id);
+  });
+
+  it('should resolve with the dashboard decision', async () => {
+    const { approval, verdict } = requestApproval(CALL);
+    assert.equal(decideApproval(approval.id, 'allow'), true);
+    assert.deepEqual(await verdict, { decision: 'allow', reason: 'Approved from the village' });
+    assert.equal(decideApproval(approval.id, 'deny'), false, 'already settled');
+  });
+
+  it('should apply the timeout policy', async () => {
+    const { verdict } = requestApproval({ ...CALL, timeout: 20, onTimeout: 'ask' });
+    const result = await verdict;
+    assert.equal(result.decision, 'ask');
+    assert.equal(result.timedOut, true);
+  });
+
+  it('should show the oldest pending approval of an agent', async () => {
+    const first = requestApproval(CALL);
+    const second = requestApproval(CALL);
+    assert.equal(pendingApprovalFor('a').id, first.approval.id);
+
+    decideApproval(first.approval.id, 'deny');
+    assert.equal(pendingApprovalFor('a').id, second.approval.id);
+
+    cancelApproval(second.approval.id);
+    assert.equal((await second.verdict).decision, 'cancelled');
+    assert.equal(pendingApprovalFor('a'), null);
+  });
+});
@@ -0,0 +1,65 @@
+// ── Auth ─────────────────────────────────────────────────
+// Optional shared-secret check. The bridge answers CORS for any
+// origin, so without a token any web page could post fake events
+// or read agent activity. Set AGENTVILLE_AUTH=1 to require it.
+//
+// The token is generated on first run and kept in data/token.
+// Print it with:  node server/auth.mjs
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+
+const TOKEN_PATH = path.join(DATA_DIR, 'token');
+
+export const AUTH_ENABLED = ['1', 'true'].includes(process.env.AGENTVILLE_AUTH);
+
+let token = null;
+
+/**
+ * The shared secret, read from disk or generated on first use.
+ */
+export function getToken() {
+  if (token) return token;
+  try {
+    token = fs.readFileSync(TOKEN_PATH, 'utf-8').trim() || null;
+  } catch {
+    // Not generated yet
+  }
+  if (!token) {
+    token = crypto.randomBytes(24).toString('hex');
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.writeFileSync(TOKEN_PATH, token + '\n', { mode: 0o600 });
+  }
+  return token;
+}
+
+/**
+ * Token sent with a request: `Authorization: Bearer <token>`,
+ * `X-AgentVille-Token: <token>`, or `?token=` (for clients that
+ * can't set headers).
+ */
+export function requestToken(req, url) {
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (bearer) return bearer[1].trim();
+  return req.headers['x-agentville-token'] || url.searchParams.get('token') || null;
+}
+
+export function isAuthorized(req, url) {
+  if (!AUTH_ENABLED) return true;
+  const given = requestToken(req, url);
+  if (!given) return false;
+  const expected = Buffer.from(getToken());
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Export for testing
+export { TOKEN_PATH };
+
+// CLI: print the token (used by bin/connect*.sh)
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  console.log(getToken());
+}
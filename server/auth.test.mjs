@@ -0,0 +1,68 @@
+/**
+ * Tests for the shared-secret auth (token file, request token lookup).
+ * Run: node --test server/auth.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Point the token file at a throwaway directory and turn enforcement on
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-auth-'));
+process.env.AGENTVILLE_AUTH = '1';
+const { AUTH_ENABLED, getToken, requestToken, isAuthorized, TOKEN_PATH } = await import('./auth.mjs');
+
+function fakeRequest(headers = {}, query = '') {
+  return [{ headers }, new URL(`http://localhost/events${query}`)];
+}
+
+describe('getToken', () => {
+  it('should generate a token on first use and store it', () => {
+    const token = getToken();
+    assert.match(token, /^[0-9a-f]{48}$/);
+    assert.equal(fs.readFileSync(TOKEN_PATH, 'utf-8').trim(), token);
+  });
+
+  it('should keep the token owner-readable only', () => {
+    assert.equal(fs.statSync(TOKEN_PATH).mode & 0o777, 0o600);
+  });
+
+  it('should return the same token on later calls', () => {
+    assert.equal(getToken(), getToken());
+  });
+});
+
+describe('requestToken', () => {
+  it('should read a bearer token', () => {
+    assert.equal(requestToken(...fakeRequest({ authorization: 'Bearer abc' })), 'abc');
+  });
+
+  it('should read the X-AgentVille-Token header', () => {
+    assert.equal(requestToken(...fakeRequest({ 'x-agentville-token': 'abc' })), 'abc');
+  });
+
+  it('should read the token query param', () => {
+    assert.equal(requestToken(...fakeRequest({}, '?token=abc')), 'abc');
+  });
+
+  it('should return null when no token is sent', () => {
+    assert.equal(requestToken(...fakeRequest()), null);
+  });
+});
+
+describe('isAuthorized', () => {
+  it('should be enabled by AGENTVILLE_AUTH', () => {
+    assert.equal(AUTH_ENABLED, true);
+  });
+
+  it('should accept the stored token', () => {
+    assert.equal(isAuthorized(...fakeRequest({ authorization: `Bearer ${getToken()}` })), true);
+  });
+
+  it('should reject a missing or wrong token', () => {
+    assert.equal(isAuthorized(...fakeRequest()), false);
+    assert.equal(isAuthorized(...fakeRequest({ authorization: 'Bearer wrong' })), false);
+    assert.equal(isAuthorized(...fakeRequest({}, `?token=${getToken()}x`)), false);
+  });
+});
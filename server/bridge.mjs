@@ -1,9 +1,10 @@
 import http from 'node:http';
 import { getDwarfName, releaseName } from './dwarfNames.mjs';
+import { agentIdFor } from './agentId.mjs';
 import {
-  getProfile, getStoredName, recordToolUse, recordBytes,
+  getProfile, getStoredName, recordToolUse, recordBytes, recordTokens,
   recordSession, getEnrichedProfile, getAllProfiles, recordActivity,
-  recordSubAgentSpawn,
+  recordSubAgentSpawn, renameAgent,
 } from './agentStore.mjs';
 import {
   recordActivity as recordBuildingActivity,
@@ -11,17 +12,47 @@ import {
   getEnrichedProfile as getEnrichedBuilding,
   getAllProfiles as getAllBuildingProfiles,
 } from './buildingStore.mjs';
+import { appendEvent, getLastEventId, getEventsSince } from './eventLog.mjs';
+import { getHistory } from './history.mjs';
+import { AUTH_ENABLED, getToken, isAuthorized } from './auth.mjs';
+import { claimSpool, markReplayed } from './spool.mjs';
+import { classify, buildingFor, approvalFor } from './classifier.mjs';
+import { recordStep, checkQuiet, resetStuck, forgetAgent } from './stuckDetector.mjs';
+import { recordFileTouch, getFiles } from './fileStore.mjs';
+import { parseTestOutput } from './testParsers.mjs';
+import { recordTestRun, getTestRuns, getTestTotals } from './testRunStore.mjs';
+import { parseGitOutput } from './gitParser.mjs';
+import { recordCommit, getCommits } from './commitStore.mjs';
+import {
+  recordUsageEvent, getAnalytics, isTimeZone, bucketCount, GROUP_BY, BUCKETS, MAX_BUCKETS, DEFAULT_TIME_ZONE,
+} from './analytics.mjs';
+import { getLeaderboard, PERIODS, METRICS, MAX_LIMIT } from './leaderboard.mjs';
+import { requestApproval, decideApproval, cancelApproval, pendingApprovalFor } from './approvals.mjs';
+import { getVillage } from './village.mjs';
+import { getAchievements, getUnlocks, checkAchievements, startAchievementSession } from './achievements.mjs';
+import {
+  startSession, endSession, touchSession, recordSessionToolUse, recordSessionSubAgent, recordSessionCost,
+  getSessions,
+} from './sessionStore.mjs';
+import { CURRENCY, costOf, budgetFor } from './pricing.mjs';
+import { recordClanCost, getClanCosts, dayOf } from './budgets.mjs';
+import { inc, routeLabel, renderMetrics } from './metrics.mjs';
+import { acceptWebSocket, CLOSE_CODES } from './websocket.mjs';
+import { spansToRequests, releaseHeldSpans } from './otlp.mjs';
+import { hasAdapter, parseRecords, translateRecords } from './adapters/index.mjs';
 
 const PORT = process.env.AGENTVILLE_PORT || 4242;
 const DESPAWN_TIMEOUT = 600_000; // 10min safety net (SessionEnd handles normal cleanup)
 
 const sseClients = new Set();
+const wsClients = new Set();
 const agents = new Map();
 
 // ── Helpers ──────────────────────────────────────────────
 
-function broadcast(event) {
-  const data = `data: ${JSON.stringify(event)}\n\n`;
+function broadcast(event, timestamp = Date.now()) {
+  const id = appendEvent(event, timestamp);
+  const data = `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`;
   for (const client of sseClients) {
     try {
       if (!client.writable) {
@@ -34,6 +65,8 @@ function broadcast(event) {
       sseClients.delete(client);
     }
   }
+  const message = JSON.stringify({ id, event });
+  for (const client of wsClients) client.send(message);
 }
 
 function readBody(req, timeoutMs = 5000) {
@@ -49,20 +82,41 @@ function readBody(req, timeoutMs = 5000) {
   });
 }
 
-const ACTIVITY_BUILDING = {
-  planning: 'guild',
-  coding: 'forge',
-  testing: 'arena',
-  researching: 'library',
-  reviewing: 'tower',
-  idle: 'campfire',
-};
+// Real token totals and the model of an agent or profile, as sent
+// in spawn, tokens and status payloads
+function tokenTotals(from) {
+  return {
+    totalInputTokens: from?.totalInputTokens || 0,
+    totalOutputTokens: from?.totalOutputTokens || 0,
+    totalCacheReadTokens: from?.totalCacheReadTokens || 0,
+    totalCacheCreationTokens: from?.totalCacheCreationTokens || 0,
+    totalCost: from?.totalCost || 0,
+    ...(from?.model ? { model: from.model } : {}),
+  };
+}
+
+// Accepts epoch milliseconds or anything Date can parse (ISO strings).
+function parseTime(value, fallback) {
+  if (value == null || value === '') return fallback;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(ms) ? ms : NaN;
+}
+
+// from, to and limit of a list route (?from=&to=&limit=), or the
+// error to answer with: { from, to, limit } or { error }
+function parseRangeQuery(url) {
+  const to = parseTime(url.searchParams.get('to'), Date.now());
+  const from = parseTime(url.searchParams.get('from'), 0);
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit')) || 100, 1), 1000);
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) return { error: 'Invalid time range' };
+  return { from, to, limit };
+}
 
 // ── Building XP helper ───────────────────────────────────
 // Track previous building levels so we can detect level-ups.
 const buildingPrevLevels = new Map();
 
-function updateBuildingXP(buildingId) {
+function updateBuildingXP(buildingId, timestamp = Date.now()) {
   const bp = getEnrichedBuilding(buildingId);
   if (!bp) return;
   const prevLevel = buildingPrevLevels.get(buildingId) || 1;
@@ -79,10 +133,679 @@ function updateBuildingXP(buildingId) {
     nextLevelXP: bp.nextLevelXP,
     toolCalls: bp.toolCalls,
     uniqueVisitors: bp.uniqueVisitors,
+  }, timestamp);
+}
+
+// ── Snapshot ─────────────────────────────────────────────
+
+// The full current state, as events for a newly connected dashboard
+// (SSE or WebSocket).
+function snapshotEvents() {
+  const events = [];
+  // Active agents
+  for (const [id, agent] of agents) {
+    const enriched = getEnrichedProfile(id);
+    const spawnEvent = {
+      type: 'agent:spawn',
+      agentId: id,
+      agentName: agent.name,
+      agentRole: agent.role,
+      level: enriched?.level || 1,
+      title: enriched?.title || 'Apprentice',
+      xp: enriched?.xp || 0,
+      nextLevelXP: enriched?.nextLevelXP,
+      totalInputBytes: agent.totalInputBytes || 0,
+      totalOutputBytes: agent.totalOutputBytes || 0,
+      ...tokenTotals(agent),
+      subAgentsSpawned: enriched?.subAgentsSpawned || 0,
+      recentActivity: enriched?.recentActivity || [],
+      achievements: enriched?.achievements || [],
+    };
+    if (agent.parentId) spawnEvent.parentId = agent.parentId;
+    if (agent.project) spawnEvent.project = agent.project;
+    if (agent.source) spawnEvent.source = agent.source;
+    if (agent.commits?.length) spawnEvent.commits = agent.commits;
+    spawnEvent.clan = enriched?.clan || agent.project || null;
+    events.push(spawnEvent);
+
+    if (agent.activity && agent.activity !== 'idle') {
+      events.push({
+        type: 'agent:work',
+        agentId: id,
+        activity: agent.activity,
+        targetBuilding: buildingFor(agent.activity),
+        detail: agent.detail || '',
+      });
+    }
+    if (agent.totalInputBytes || agent.totalOutputBytes) {
+      events.push({
+        type: 'agent:tokens',
+        agentId: id,
+        totalInputBytes: agent.totalInputBytes || 0,
+        totalOutputBytes: agent.totalOutputBytes || 0,
+        ...tokenTotals(agent),
+      });
+    }
+    if (agent.waiting) {
+      events.push({
+        type: 'agent:waiting',
+        agentId: id,
+        waiting: true,
+      });
+    }
+    if (agent.approval) {
+      events.push({
+        type: 'agent:approval',
+        agentId: id,
+        approval: agent.approval,
+      });
+    }
+    if (agent.stuck) {
+      events.push({
+        type: 'agent:stuck',
+        agentId: id,
+        stuck: agent.stuck,
+      });
+    }
+  }
+
+  // Send stored-but-offline agents as idle residents (main + sub-agents)
+  const allProfiles = getAllProfiles();
+  for (const profile of allProfiles) {
+    if (agents.has(profile.agentId)) continue; // already sent as active
+    events.push({
+      type: 'agent:spawn',
+      agentId: profile.agentId,
+      agentName: profile.name,
+      agentRole: '',
+      parentId: profile.parentId || undefined,
+      level: profile.level || 1,
+      title: profile.title || 'Apprentice',
+      xp: profile.xp || 0,
+      nextLevelXP: profile.nextLevelXP,
+      totalInputBytes: profile.totalInputBytes || 0,
+      totalOutputBytes: profile.totalOutputBytes || 0,
+      ...tokenTotals(profile),
+      subAgentsSpawned: profile.subAgentsSpawned || 0,
+      recentActivity: [],
+      clan: profile.clan || null,
+      offline: true,
+    });
+  }
+
+  // Building state
+  for (const bp of getAllBuildingProfiles()) {
+    events.push({
+      type: 'building:state',
+      buildingId: bp.buildingId,
+      level: bp.level,
+      title: bp.title,
+      xp: bp.xp,
+      nextLevelXP: bp.nextLevelXP,
+      toolCalls: bp.toolCalls,
+      uniqueVisitors: bp.uniqueVisitors,
+    });
+  }
+
+  return events;
+}
+
+// ── Approvals ────────────────────────────────────────────
+// The PreToolUse hook asks before risky calls (see approvals.mjs).
+
+// Show an agent's oldest pending approval (or none) on the dashboard
+function syncApproval(agentId, decision) {
+  const approval = pendingApprovalFor(agentId);
+  const agent = agents.get(agentId);
+  if (agent) agent.approval = approval;
+  broadcast({ type: 'agent:approval', agentId, approval, ...(decision ? { decision } : {}) });
+}
+
+// Resolves to { decision, reason }. Calls no rule flags, and calls
+// nobody could answer (no dashboard on the WebSocket), get 'none'
+// right away and go through Claude Code's usual permission flow.
+async function awaitApproval(data, res) {
+  const match = approvalFor(data.tool, data.toolInput || {});
+  if (!match || wsClients.size === 0) return { decision: 'none' };
+
+  const agentId = agentIdFor(String(data.agent || 'Unknown Agent'));
+  const toolInput = data.toolInput || {};
+  const { approval, verdict } = requestApproval({
+    agentId,
+    tool: data.tool,
+    detail: toolInput.command || toolInput.file_path || toolInput.notebook_path || data.tool,
+    reason: match.reason,
+    timeout: match.timeout,
+    onTimeout: match.onTimeout,
+  });
+  console.log(`  🛑 ${agents.get(agentId)?.name || agentId} asks: ${approval.reason} — ${approval.detail}`);
+  syncApproval(agentId);
+
+  // The hook gave up (or the agent was interrupted)
+  res.on('close', () => {
+    if (!res.writableFinished) cancelApproval(approval.id);
+  });
+
+  const result = await verdict;
+  inc('agentville_approvals_total', { decision: result.timedOut ? 'timeout' : result.decision });
+  syncApproval(agentId, result.decision);
+  return result;
+}
+
+// ── Heartbeat handling ───────────────────────────────────
+// Shared by the live heartbeat route and batch replay of spooled
+// heartbeats, which pass the time the heartbeat was really sent.
+
+// Record reported usage and what it cost (see pricing.mjs): on the
+// agent, its session and its clan's day. Usage without a model is
+// priced as the agent's last model; unpriced models cost nothing.
+// Returns the agent:budget events for budget thresholds it crossed,
+// and leaves the cost on `usage`.
+function chargeUsage(agentId, usage, now) {
+  const profile = getEnrichedProfile(agentId);
+  const cost = costOf(usage, usage.model || profile?.model) || 0;
+  usage.cost = cost;
+  recordTokens(agentId, usage, now);
+  if (cost <= 0) return [];
+  recordSessionCost(agentId, cost, now);
+  const clan = profile?.clan;
+  if (!clan) return [];
+  const { day, spent, budget, crossed } = recordClanCost(clan, cost, now);
+  for (const threshold of crossed) {
+    console.log(`  💰 ${clan} reached ${threshold}% of its $${budget} daily budget`);
+  }
+  return crossed.map(threshold => ({ type: 'agent:budget', agentId, clan, threshold, spent, budget, day }));
+}
+
+function handleHeartbeat(data, now = Date.now()) {
+  inc('agentville_heartbeats_total');
+  const emit = (event) => broadcast(event, now);
+  const rawName = data.agent || 'Unknown Agent';
+  const agentId = agentIdFor(rawName);
+  // Raw tool calls are classified here (see classifier.mjs); the rules
+  // win over any activity the hook worked out itself
+  const classified = data.tool ? classify(data.tool, data.toolInput || {}) : null;
+  const activity = classified?.activity || data.activity || null;
+  const detail = classified?.detail || data.detail || '';
+  const project = data.project || '';
+  // Which CLI reports the agent (see adapters/); none for Claude Code
+  const source = typeof data.source === 'string' ? data.source.slice(0, 20) : null;
+  const inputBytes = parseInt(data.inputBytes) || 0;
+  const outputBytes = parseInt(data.outputBytes) || 0;
+  // Real token counts, from agents that report them (OTLP spans,
+  // Claude Code transcripts)
+  const usage = {
+    inputTokens: parseInt(data.inputTokens) || 0,
+    outputTokens: parseInt(data.outputTokens) || 0,
+    cacheReadTokens: parseInt(data.cacheReadTokens) || 0,
+    cacheCreationTokens: parseInt(data.cacheCreationTokens) || 0,
+    model: typeof data.model === 'string' ? data.model.slice(0, 80) : null,
+  };
+  const hasUsage = !!(usage.inputTokens || usage.outputTokens || usage.cacheReadTokens || usage.cacheCreationTokens);
+  const existing = agents.get(agentId);
+
+  // Resolve parent agent ID if provided
+  let parentId = null;
+  if (data.parentAgent) {
+    parentId = agentIdFor(data.parentAgent);
+  }
+
+  if (!existing) {
+    // Use stored name if available, otherwise generate new one
+    const storedName = getStoredName(agentId);
+    const dwarfName = storedName || getDwarfName(agentId);
+    const isSubAgent = !!parentId;
+    const spawnActivity = activity || 'idle';
+
+    // Initialize/update persistent profile
+    getProfile(agentId, dwarfName, parentId, project, now);
+    recordSession(agentId);
+    startSession(agentId, { clan: project, project, parentId }, now);
+    startAchievementSession(agentId);
+    // Count the first tool call (previously missed on spawn)
+    if (spawnActivity !== 'idle') {
+      recordToolUse(agentId, now);
+      recordSessionToolUse(agentId, now);
+    }
+    if (inputBytes || outputBytes) {
+      recordBytes(agentId, inputBytes, outputBytes, now);
+    }
+    const budgetEvents = hasUsage ? chargeUsage(agentId, usage, now) : [];
+    if (isSubAgent && parentId) {
+      recordSubAgentSpawn(parentId);
+      recordSessionSubAgent(parentId);
+      reportAchievements(parentId, {}, now, emit);
+    }
+    const enriched = getEnrichedProfile(agentId);
+
+    console.log(`  ⬆ ${dwarfName} joined (${spawnActivity}) Lv.${enriched?.level || 1} ${enriched?.title || ''}${isSubAgent ? ` [child of ${parentId}]` : ''} [${rawName}]`);
+    // Restore historical byte totals from store
+    const histInputBytes = enriched?.totalInputBytes || 0;
+    const histOutputBytes = enriched?.totalOutputBytes || 0;
+    const tokens = tokenTotals(enriched);
+
+    agents.set(agentId, {
+      name: dwarfName,
+      role: rawName,
+      activity: spawnActivity,
+      detail,
+      project,
+      busy: !!data.busy,
+      waiting: !!data.waiting,
+      totalInputBytes: histInputBytes + inputBytes,
+      totalOutputBytes: histOutputBytes + outputBytes,
+      ...tokens,
+      spawnedAt: now,
+      lastSeen: now,
+      commits: [],
+      parentId,
+      source,
+    });
+    const spawnEvent = {
+      type: 'agent:spawn', agentId, agentName: dwarfName, agentRole: rawName,
+      level: enriched?.level || 1,
+      title: enriched?.title || 'Apprentice',
+      xp: enriched?.xp || 0,
+      nextLevelXP: enriched?.nextLevelXP,
+      totalInputBytes: histInputBytes + inputBytes,
+      totalOutputBytes: histOutputBytes + outputBytes,
+      ...tokens,
+      subAgentsSpawned: enriched?.subAgentsSpawned || 0,
+      recentActivity: enriched?.recentActivity || [],
+      achievements: enriched?.achievements || [],
+    };
+    if (parentId) spawnEvent.parentId = parentId;
+    if (project) spawnEvent.project = project;
+    if (source) spawnEvent.source = source;
+    spawnEvent.clan = enriched?.clan || project || null;
+    emit(spawnEvent);
+    budgetEvents.forEach(emit);
+    if (spawnActivity !== 'idle') {
+      recordActivity(agentId, spawnActivity, detail, now);
+    }
+    // Track building XP on spawn
+    const spawnBuilding = buildingFor(spawnActivity);
+    recordBuildingVisit(spawnBuilding, agentId, now);
+    if (spawnActivity !== 'idle') {
+      recordBuildingActivity(spawnBuilding, 1, inputBytes, outputBytes, now);
+    }
+    updateBuildingXP(spawnBuilding, now);
+
+    emit({
+      type: 'agent:work',
+      agentId,
+      activity: spawnActivity,
+      detail,
+      targetBuilding: spawnBuilding,
+    });
+  } else {
+    // Sub-agent reusing a roster dwarf — count as new spawn for parent
+    if (data.newSpawn && parentId) {
+      recordSubAgentSpawn(parentId);
+      recordSessionSubAgent(parentId);
+      reportAchievements(parentId, {}, now, emit);
+      recordSession(agentId);
+      startSession(agentId, { clan: project || existing.project, project: project || existing.project, parentId }, now);
+      startAchievementSession(agentId);
+      if (parentId !== existing.parentId) existing.parentId = parentId;
+      existing.commits = [];
+      console.log(`  ⬆ ${existing.name} re-activated [child of ${parentId}]`);
+    }
+
+    // Only update activity if explicitly provided (null = PostToolUse, keep current)
+    const effectiveActivity = activity || existing.activity;
+    const activityChanged = activity !== null && existing.activity !== activity;
+    const detailChanged = detail && existing.detail !== detail;
+    if (activity) existing.activity = activity;
+    if (detail) existing.detail = detail;
+    if (project) existing.project = project;
+    if (source) existing.source = source;
+    if (data.busy !== undefined) existing.busy = !!data.busy;
+    existing.lastSeen = Math.max(existing.lastSeen, now);
+    touchSession(agentId, now);
+
+    // Track waiting state (set by AskUserQuestion, cleared by any non-idle activity)
+    const wasWaiting = existing.waiting;
+    if (data.waiting) {
+      existing.waiting = true;
+    } else if (activity && activity !== 'idle') {
+      existing.waiting = false;
+    }
+
+    // Track persistent stats
+    const prevEnriched = getEnrichedProfile(agentId);
+    const prevLevel = prevEnriched?.level || 1;
+
+    if (inputBytes || outputBytes) {
+      // PostToolUse — record bytes
+      recordBytes(agentId, inputBytes, outputBytes, now);
+      existing.totalInputBytes = (existing.totalInputBytes || 0) + inputBytes;
+      existing.totalOutputBytes = (existing.totalOutputBytes || 0) + outputBytes;
+    }
+    const budgetEvents = hasUsage ? chargeUsage(agentId, usage, now) : [];
+    if (hasUsage) {
+      Object.assign(existing, tokenTotals(getEnrichedProfile(agentId)));
+    }
+    if (inputBytes || outputBytes || hasUsage) {
+      emit({
+        type: 'agent:tokens',
+        agentId,
+        totalInputBytes: existing.totalInputBytes,
+        totalOutputBytes: existing.totalOutputBytes,
+        ...tokenTotals(existing),
+      });
+    }
+    budgetEvents.forEach(emit);
+    if (inputBytes || outputBytes) {
+      // Credit bytes to the building the agent is working in
+      const bytesBuilding = buildingFor(effectiveActivity);
+      recordBuildingActivity(bytesBuilding, 0, inputBytes, outputBytes, now);
+      updateBuildingXP(bytesBuilding, now);
+    }
+    if (activity && activity !== 'idle') {
+      // PreToolUse — record tool call
+      recordToolUse(agentId, now);
+      recordSessionToolUse(agentId, now);
+
+      // Credit tool call to the building
+      const toolBuilding = buildingFor(activity);
+      recordBuildingActivity(toolBuilding, 1, 0, 0, now);
+      recordBuildingVisit(toolBuilding, agentId, now);
+      updateBuildingXP(toolBuilding, now);
+    }
+
+    // Broadcast XP update (every heartbeat, so dashboard stays current)
+    const newEnriched = getEnrichedProfile(agentId);
+    if (newEnriched) {
+      if (newEnriched.level > prevLevel) {
+        console.log(`  🎉 ${existing.name} leveled up! Lv.${newEnriched.level} ${newEnriched.title}`);
+      }
+      emit({
+        type: 'agent:xp',
+        agentId,
+        level: newEnriched.level,
+        title: newEnriched.title,
+        xp: newEnriched.xp,
+        nextLevelXP: newEnriched.nextLevelXP,
+      });
+    }
+
+    if (activityChanged || detailChanged) {
+      if (activityChanged && effectiveActivity !== 'idle') {
+        recordActivity(agentId, effectiveActivity, detail || existing.detail, now);
+      }
+      if (activityChanged) {
+        console.log(`  ⚡ ${existing.name} → ${effectiveActivity}${detail ? ` (${detail})` : ''}`);
+      }
+      emit({
+        type: 'agent:work',
+        agentId,
+        activity: effectiveActivity,
+        detail: existing.detail,
+        targetBuilding: buildingFor(effectiveActivity),
+      });
+    }
+
+    // Broadcast waiting state changes
+    if (existing.waiting !== wasWaiting) {
+      if (existing.waiting) {
+        console.log(`  ⏳ ${existing.name} is waiting for input`);
+      }
+      emit({
+        type: 'agent:waiting',
+        agentId,
+        waiting: existing.waiting,
+      });
+    }
+  }
+
+  // What this heartbeat did, for /api/analytics (see analytics.mjs)
+  const usageActivity = activity || agents.get(agentId)?.activity || 'idle';
+  recordUsageEvent(agentId, {
+    clan: getEnrichedProfile(agentId)?.clan || project || null,
+    activity: usageActivity,
+    building: buildingFor(usageActivity),
+    toolCalls: activity && activity !== 'idle' ? 1 : 0,
+    inputBytes,
+    outputBytes,
+    inputTokens: usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens,
+    outputTokens: usage.outputTokens,
+    cost: usage.cost || 0,
+  }, now);
+
+  // Going in circles? (see stuckDetector.mjs)
+  if (activity === 'idle') {
+    reportStuck(agentId, resetStuck(agentId, now), emit);
+  } else if (activity) {
+    reportStuck(agentId, recordStep(agentId, { activity, detail, building: buildingFor(activity) }, now), emit);
+  }
+
+  trackFile(agentId, data.tool, data.toolInput, now, emit);
+
+  const testRun = data.testOutput ? reportTestRun(agentId, data.testCommand, data.testOutput, now, emit) : null;
+
+  if (data.gitOutput) reportGit(agentId, parseGitOutput(data.gitCommand, data.gitOutput), now, emit);
+
+  if (data.message) relayMessage(agentId, data.message, emit);
+
+  reportAchievements(agentId, {
+    building: buildingFor(usageActivity),
+    toolCall: !!activity && activity !== 'idle',
+    testsPassed: testRun?.passed || 0,
+  }, now, emit);
+
+  return agentId;
+}
+
+// ── Files ────────────────────────────────────────────────
+// File tools feed the file heatmap (see fileStore.mjs); two live
+// agents editing the same file get an agent:conflict.
+
+const FILE_TOOLS = { Edit: 'edit', MultiEdit: 'edit', Write: 'edit', NotebookEdit: 'edit', Read: 'read' };
+
+function trackFile(agentId, tool, toolInput, now, emit) {
+  const kind = FILE_TOOLS[tool];
+  const file = toolInput?.file_path || toolInput?.notebook_path;
+  if (!kind || typeof file !== 'string' || !file) return;
+  const agent = agents.get(agentId);
+  const project = agent?.project || '';
+  const rivals = recordFileTouch(agentId, { project, path: file, kind }, now, (id) => agents.has(id));
+  const name = file.split('/').pop();
+  for (const rival of rivals) {
+    console.log(`  ⚔️ ${agent?.name || agentId} and ${agents.get(rival)?.name || rival} are both editing ${name}`);
+    emit({ type: 'agent:conflict', agentId, targetAgent: rival, detail: name, file, project });
+  }
+}
+
+// ── Test runs ────────────────────────────────────────────
+// The hook sends the tail of a test command's output with its
+// PostToolUse heartbeat (`testCommand`, `testOutput`). Runs with a
+// summary we can parse (see testParsers.mjs) go into the test
+// history; the Arena shows how they went, and a red run is also
+// an agent:failure.
+
+const MAX_TEST_OUTPUT = 16 * 1024;
+
+function reportTestRun(agentId, command, output, now, emit) {
+  const agent = agents.get(agentId);
+  if (!agent || typeof output !== 'string') return;
+  const testCommand = typeof command === 'string' ? command.slice(0, 500) : '';
+  const parsed = parseTestOutput(testCommand, output.slice(-MAX_TEST_OUTPUT));
+  if (!parsed) return;
+  const clan = getEnrichedProfile(agentId)?.clan || agent.project || null;
+  const run = recordTestRun(agentId, { clan, command: testCommand, ...parsed }, now);
+  const outcome = run.failed > 0 ? 'red' : 'green';
+  inc('agentville_test_runs_total', { runner: run.runner, outcome });
+  console.log(`  ${outcome === 'red' ? '🚩' : '🏆'} ${agent.name} ran ${run.runner}: ${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped`);
+
+  const { runner, passed, failed, skipped, duration } = run;
+  emit({ type: 'agent:test', agentId, test: { runner, command: run.command, passed, failed, skipped, duration } });
+  if (outcome === 'red') {
+    emit({ type: 'agent:failure', agentId, detail: `${run.failed} test${run.failed === 1 ? '' : 's'} failed` });
+  }
+  return run;
+}
+
+// ── Achievements ─────────────────────────────────────────
+// Checked after every heartbeat (see achievements.mjs). Unlocks are
+// stored on the profile, and the dashboard shows a banner.
+
+function reportAchievements(agentId, progress, now, emit) {
+  for (const unlock of checkAchievements(agentId, progress, now)) {
+    const name = agents.get(agentId)?.name || getStoredName(agentId) || agentId;
+    console.log(`  🏆 ${name} earned ${unlock.name}`);
+    emit({
+      type: 'agent:achievement',
+      agentId,
+      agentName: name,
+      achievement: `${name} earned ${unlock.icon} ${unlock.name}!`,
+      unlock: { id: unlock.id, unlockedAt: unlock.unlockedAt },
+    });
+  }
+}
+
+// ── Git ──────────────────────────────────────────────────
+// Commits, pushes and new branches read from a git command's output
+// (`gitCommand`, `gitOutput` on PostToolUse; see gitParser.mjs), and
+// commits from the optional post-commit hook (/api/commit). Commits
+// are stored per agent and clan; the agent keeps this session's.
+
+const MAX_SESSION_COMMITS = 50;
+
+function reportCommit(agentId, commit, now, emit) {
+  const agent = agents.get(agentId);
+  const clan = getEnrichedProfile(agentId)?.clan || agent?.project || commit.project || null;
+  const stored = recordCommit(agentId, { ...commit, clan }, now);
+  if (!stored) return;
+  inc('agentville_commits_total', { clan: clan || '' });
+  const { sha, branch, message, files, insertions, deletions } = stored;
+  const info = { sha, branch, message, files, insertions, deletions, committedAt: now };
+  if (agent) agent.commits = [...(agent.commits || []), info].slice(-MAX_SESSION_COMMITS);
+  console.log(`  📦 ${agent?.name || agentId} committed ${sha.slice(0, 7)}: ${message || ''}`);
+  emit({ type: 'agent:commit', agentId, commit: info });
+}
+
+function reportGit(agentId, ops, now, emit) {
+  const name = agents.get(agentId)?.name || agentId;
+  for (const op of ops) {
+    if (op.kind === 'commit') {
+      reportCommit(agentId, op, now, emit);
+      continue;
+    }
+    const { kind, ...git } = op;
+    if (kind === 'push') console.log(`  🚚 ${name} pushed ${op.branches.join(', ')} to ${op.remote}`);
+    if (kind === 'branch') console.log(`  🌿 ${name} started branch ${op.branch}`);
+    emit({ type: 'agent:git', agentId, git: { kind, ...git } });
+  }
+}
+
+// POST /api/commit from the post-commit hook: { agent, project, sha,
+// branch, message, files, insertions, deletions }. Doesn't spawn the
+// agent — a commit made by hand still counts for it and its clan.
+function handleCommitReport(data, now = Date.now()) {
+  if (typeof data.agent !== 'string' || !data.agent) return;
+  const agentId = agentIdFor(data.agent);
+  reportCommit(agentId, data, now, (event) => broadcast(event, now));
+}
+
+function reportStuck(agentId, change, emit) {
+  const agent = agents.get(agentId);
+  if (!change || !agent) return;
+  agent.stuck = change.stuck;
+  if (change.stuck) {
+    console.log(`  ❓ ${agent.name} looks stuck: ${change.stuck.reason}`);
+    inc('agentville_stuck_total', { kind: change.stuck.kind });
+  }
+  emit({ type: 'agent:stuck', agentId, stuck: change.stuck });
+}
+
+// ── Messages between agents ──────────────────────────────
+// The hook reports Task prompts (parent → sub-agent) and the results
+// that come back; the dashboard flies a messenger between the two.
+// `from`/`to` are raw agent names and default to the sender.
+
+const MAX_MESSAGE = 280;
+const MESSAGE_KINDS = new Set(['prompt', 'result']);
+
+function relayMessage(agentId, message, emit) {
+  if (typeof message !== 'object' || !MESSAGE_KINDS.has(message.kind)) return;
+  const idOf = (name) => typeof name === 'string' && name ? agentIdFor(name) : agentId;
+  const from = idOf(message.from);
+  const to = idOf(message.to);
+  if (from === to) return;
+  const text = String(message.text || '').replace(/\s+/g, ' ').trim();
+  emit({
+    type: 'agent:communicate',
+    agentId: from,
+    targetAgent: to,
+    kind: message.kind,
+    detail: text.length > MAX_MESSAGE ? `${text.slice(0, MAX_MESSAGE - 1)}…` : text,
   });
 }
 
-// ── Auto-despawn inactive agents ─────────────────────────
+function handleRawEvent(event, now = Date.now()) {
+  if (event.type === 'agent:spawn') {
+    agents.set(event.agentId, {
+      name: event.agentName || event.agentId,
+      activity: 'idle',
+      detail: '',
+      busy: false,
+      lastSeen: now,
+      parentId: event.parentId || null,
+    });
+  } else if (event.type === 'agent:despawn') {
+    if (agents.delete(event.agentId)) inc('agentville_despawns_total', { reason: 'ended' });
+    forgetAgent(event.agentId);
+    endSession(event.agentId, 'ended', now);
+    releaseName(event.agentId);
+  } else if (event.type === 'agent:work') {
+    const agent = agents.get(event.agentId);
+    if (agent) {
+      agent.activity = event.activity || agent.activity;
+      if (event.detail) agent.detail = event.detail;
+      agent.lastSeen = Math.max(agent.lastSeen, now);
+    }
+  } else if (event.type === 'agent:failure') {
+    const agent = agents.get(event.agentId);
+    if (agent) {
+      agent.lastSeen = Math.max(agent.lastSeen, now);
+      console.log(`  💥 ${agent.name} failed: ${event.detail || 'unknown'}`);
+    }
+  }
+
+  broadcast(event, now);
+}
+
+// ── Batch replay (offline spool) ─────────────────────────
+// The hook spools heartbeats while the bridge is down and sends
+// them here once it's back: [{ id, path, body, timestamp }, ...].
+// An id seen before is a repeat of an earlier batch and is skipped.
+
+const BATCH_HANDLERS = {
+  '/api/heartbeat': handleHeartbeat,
+  '/api/event': handleRawEvent,
+  '/api/commit': handleCommitReport,
+};
+
+function ingestBatch(entries) {
+  let processed = 0;
+  const sorted = entries
+    .filter(e => e && BATCH_HANDLERS[e.path] && e.body && typeof e.body === 'object')
+    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+  for (const entry of sorted) {
+    const timestamp = Number.isFinite(entry.timestamp) ? Math.min(entry.timestamp, Date.now()) : Date.now();
+    if (typeof entry.id === 'string' && !markReplayed(entry.id)) continue;
+    try {
+      BATCH_HANDLERS[entry.path](entry.body, timestamp);
+      processed++;
+    } catch {
+      // Malformed entry — skip it, keep the rest
+    }
+  }
+  return { processed, skipped: entries.length - processed };
+}
+
+// ── Auto-despawn inactive agents (and flag quiet ones) ───
 
 setInterval(() => {
   const now = Date.now();
@@ -90,10 +813,17 @@ setInterval(() => {
     if (now - agent.lastSeen > DESPAWN_TIMEOUT) {
       console.log(`  💤 ${agent.name} timed out`);
       agents.delete(id);
+      forgetAgent(id);
+      endSession(id, 'timeout', agent.lastSeen);
+      inc('agentville_despawns_total', { reason: 'timeout' });
       releaseName(id);
       broadcast({ type: 'agent:despawn', agentId: id });
+    } else if (agent.busy && !agent.waiting && !agent.approval) {
+      reportStuck(id, checkQuiet(id, now), (event) => broadcast(event, now));
     }
   }
+  // OTLP spans whose parent was never exported
+  ingestBatch(releaseHeldSpans(now));
 }, 5000);
 
 // Soft-idle timer removed — the Stop hook now handles this instantly.
@@ -104,7 +834,7 @@ const server = http.createServer(async (req, res) => {
   // CORS — Allow-Private-Network lets HTTPS sites (e.g. Vercel) reach localhost
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Last-Event-ID, Authorization, X-AgentVille-Token');
   res.setHeader('Access-Control-Allow-Private-Network', 'true');
 
   if (req.method === 'OPTIONS') {
@@ -114,6 +844,16 @@ const server = http.createServer(async (req, res) => {
   }
 
   const url = new URL(req.url, `http://localhost:${PORT}`);
+  res.on('finish', () => {
+    inc('agentville_http_requests_total', { route: routeLabel(url.pathname), status: res.statusCode });
+  });
+
+  // Shared-secret check (opt-in via AGENTVILLE_AUTH, see auth.mjs)
+  if (!isAuthorized(req, url)) {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return;
+  }
 
   // ── SSE stream for dashboard ───────────────────────────
   if (url.pathname === '/events' && req.method === 'GET') {
@@ -123,95 +863,20 @@ const server = http.createServer(async (req, res) => {
       Connection: 'keep-alive',
     });
 
-    // Send current state to newly connected dashboard
-    for (const [id, agent] of agents) {
-      const enriched = getEnrichedProfile(id);
-      const spawnEvent = {
-        type: 'agent:spawn',
-        agentId: id,
-        agentName: agent.name,
-        agentRole: agent.role,
-        level: enriched?.level || 1,
-        title: enriched?.title || 'Apprentice',
-        xp: enriched?.xp || 0,
-        nextLevelXP: enriched?.nextLevelXP,
-        totalInputBytes: agent.totalInputBytes || 0,
-        totalOutputBytes: agent.totalOutputBytes || 0,
-        subAgentsSpawned: enriched?.subAgentsSpawned || 0,
-        recentActivity: enriched?.recentActivity || [],
-      };
-      if (agent.parentId) spawnEvent.parentId = agent.parentId;
-      if (agent.project) spawnEvent.project = agent.project;
-      spawnEvent.clan = enriched?.clan || agent.project || null;
-      res.write(`data: ${JSON.stringify(spawnEvent)}\n\n`);
-
-      if (agent.activity && agent.activity !== 'idle') {
-        res.write(
-          `data: ${JSON.stringify({
-            type: 'agent:work',
-            agentId: id,
-            activity: agent.activity,
-            targetBuilding: ACTIVITY_BUILDING[agent.activity] || 'campfire',
-            detail: agent.detail || '',
-          })}\n\n`,
-        );
-      }
-      if (agent.totalInputBytes || agent.totalOutputBytes) {
-        res.write(
-          `data: ${JSON.stringify({
-            type: 'agent:tokens',
-            agentId: id,
-            totalInputBytes: agent.totalInputBytes || 0,
-            totalOutputBytes: agent.totalOutputBytes || 0,
-          })}\n\n`,
-        );
+    // Resume from Last-Event-ID (or ?since=) when the missed events are
+    // still in the log; otherwise send the full current state.
+    const resumeFrom = req.headers['last-event-id'] ?? url.searchParams.get('since');
+    const missed = resumeFrom ? getEventsSince(Number(resumeFrom)) : null;
+    if (missed) {
+      for (const entry of missed) {
+        res.write(`id: ${entry.id}\ndata: ${JSON.stringify(entry.event)}\n\n`);
       }
-      if (agent.waiting) {
-        res.write(
-          `data: ${JSON.stringify({
-            type: 'agent:waiting',
-            agentId: id,
-            waiting: true,
-          })}\n\n`,
-        );
+    } else {
+      for (const event of snapshotEvents()) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
       }
-    }
-
-    // Send stored-but-offline agents as idle residents (main + sub-agents)
-    const allProfiles = getAllProfiles();
-    for (const profile of allProfiles) {
-      if (agents.has(profile.agentId)) continue; // already sent as active
-      res.write(`data: ${JSON.stringify({
-        type: 'agent:spawn',
-        agentId: profile.agentId,
-        agentName: profile.name,
-        agentRole: '',
-        parentId: profile.parentId || undefined,
-        level: profile.level || 1,
-        title: profile.title || 'Apprentice',
-        xp: profile.xp || 0,
-        nextLevelXP: profile.nextLevelXP,
-        totalInputBytes: profile.totalInputBytes || 0,
-        totalOutputBytes: profile.totalOutputBytes || 0,
-        subAgentsSpawned: profile.subAgentsSpawned || 0,
-        recentActivity: [],
-        clan: profile.clan || null,
-        offline: true,
-      })}\n\n`);
-    }
-
-    // Send building state to newly connected dashboard
-    for (const bp of getAllBuildingProfiles()) {
-      res.write(`data: ${JSON.stringify({
-        type: 'building:state',
-        buildingId: bp.buildingId,
-        level: bp.level,
-        title: bp.title,
-        xp: bp.xp,
-        nextLevelXP: bp.nextLevelXP,
-        toolCalls: bp.toolCalls,
-        uniqueVisitors: bp.uniqueVisitors,
-      })}\n\n`);
+      // Tell the client where the live stream picks up
+      res.write(`id: ${getLastEventId()}\n\n`);
     }
 
     sseClients.add(res);
@@ -232,215 +897,7 @@ const server = http.createServer(async (req, res) => {
   if (url.pathname === '/api/heartbeat' && req.method === 'POST') {
     try {
       const body = await readBody(req);
-      const data = JSON.parse(body);
-      const rawName = data.agent || 'Unknown Agent';
-      const agentId = rawName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-      const activity = data.activity || null;
-      const detail = data.detail || '';
-      const project = data.project || '';
-      const inputBytes = parseInt(data.inputBytes) || 0;
-      const outputBytes = parseInt(data.outputBytes) || 0;
-      const existing = agents.get(agentId);
-
-      // Resolve parent agent ID if provided
-      let parentId = null;
-      if (data.parentAgent) {
-        parentId = data.parentAgent.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-      }
-
-      if (!existing) {
-        // Use stored name if available, otherwise generate new one
-        const storedName = getStoredName(agentId);
-        const dwarfName = storedName || getDwarfName(agentId);
-        const isSubAgent = !!parentId;
-        const spawnActivity = activity || 'idle';
-
-        // Initialize/update persistent profile
-        getProfile(agentId, dwarfName, parentId, project);
-        recordSession(agentId);
-        // Count the first tool call (previously missed on spawn)
-        if (spawnActivity !== 'idle') {
-          recordToolUse(agentId);
-        }
-        if (inputBytes || outputBytes) {
-          recordBytes(agentId, inputBytes, outputBytes);
-        }
-        if (isSubAgent && parentId) {
-          recordSubAgentSpawn(parentId);
-        }
-        const enriched = getEnrichedProfile(agentId);
-
-        console.log(`  ⬆ ${dwarfName} joined (${spawnActivity}) Lv.${enriched?.level || 1} ${enriched?.title || ''}${isSubAgent ? ` [child of ${parentId}]` : ''} [${rawName}]`);
-        // Restore historical byte totals from store
-        const histInputBytes = enriched?.totalInputBytes || 0;
-        const histOutputBytes = enriched?.totalOutputBytes || 0;
-
-        agents.set(agentId, {
-          name: dwarfName,
-          role: rawName,
-          activity: spawnActivity,
-          detail,
-          project,
-          busy: !!data.busy,
-          waiting: !!data.waiting,
-          totalInputBytes: histInputBytes + inputBytes,
-          totalOutputBytes: histOutputBytes + outputBytes,
-          spawnedAt: Date.now(),
-          lastSeen: Date.now(),
-          parentId,
-        });
-        const spawnEvent = {
-          type: 'agent:spawn', agentId, agentName: dwarfName, agentRole: rawName,
-          level: enriched?.level || 1,
-          title: enriched?.title || 'Apprentice',
-          xp: enriched?.xp || 0,
-          nextLevelXP: enriched?.nextLevelXP,
-          totalInputBytes: histInputBytes + inputBytes,
-          totalOutputBytes: histOutputBytes + outputBytes,
-          subAgentsSpawned: enriched?.subAgentsSpawned || 0,
-          recentActivity: enriched?.recentActivity || [],
-        };
-        if (parentId) spawnEvent.parentId = parentId;
-        if (project) spawnEvent.project = project;
-        spawnEvent.clan = enriched?.clan || project || null;
-        broadcast(spawnEvent);
-        if (spawnActivity !== 'idle') {
-          recordActivity(agentId, spawnActivity, detail);
-        }
-        // Track building XP on spawn
-        const spawnBuilding = ACTIVITY_BUILDING[spawnActivity] || 'campfire';
-        recordBuildingVisit(spawnBuilding, agentId);
-        if (spawnActivity !== 'idle') {
-          recordBuildingActivity(spawnBuilding, 1, inputBytes, outputBytes);
-        }
-        updateBuildingXP(spawnBuilding);
-
-        broadcast({
-          type: 'agent:work',
-          agentId,
-          activity: spawnActivity,
-          detail,
-          targetBuilding: spawnBuilding,
-        });
-      } else {
-        // Sub-agent reusing a roster dwarf — count as new spawn for parent
-        if (data.newSpawn && parentId) {
-          recordSubAgentSpawn(parentId);
-          recordSession(agentId);
-          if (parentId !== existing.parentId) existing.parentId = parentId;
-          console.log(`  ⬆ ${existing.name} re-activated [child of ${parentId}]`);
-        }
-
-        // Only update activity if explicitly provided (null = PostToolUse, keep current)
-        const effectiveActivity = activity || existing.activity;
-        const activityChanged = activity !== null && existing.activity !== activity;
-        const detailChanged = detail && existing.detail !== detail;
-        if (activity) existing.activity = activity;
-        if (detail) existing.detail = detail;
-        if (project) existing.project = project;
-        if (data.busy !== undefined) existing.busy = !!data.busy;
-        existing.lastSeen = Date.now();
-
-        // Track waiting state (set by AskUserQuestion, cleared by any non-idle activity)
-        const wasWaiting = existing.waiting;
-        if (data.waiting) {
-          existing.waiting = true;
-        } else if (activity && activity !== 'idle') {
-          existing.waiting = false;
-        }
-
-        // Track persistent stats
-        const prevEnriched = getEnrichedProfile(agentId);
-        const prevLevel = prevEnriched?.level || 1;
-
-        if (inputBytes || outputBytes) {
-          // PostToolUse — record bytes
-          recordBytes(agentId, inputBytes, outputBytes);
-          existing.totalInputBytes = (existing.totalInputBytes || 0) + inputBytes;
-          existing.totalOutputBytes = (existing.totalOutputBytes || 0) + outputBytes;
-          broadcast({
-            type: 'agent:tokens',
-            agentId,
-            totalInputBytes: existing.totalInputBytes,
-            totalOutputBytes: existing.totalOutputBytes,
-          });
-          // Credit bytes to the building the agent is working in
-          const bytesBuilding = ACTIVITY_BUILDING[effectiveActivity] || 'campfire';
-          recordBuildingActivity(bytesBuilding, 0, inputBytes, outputBytes);
-          updateBuildingXP(bytesBuilding);
-        }
-        if (activity && activity !== 'idle') {
-          // PreToolUse — record tool call
-          recordToolUse(agentId);
-
-          // Credit tool call to the building
-          const toolBuilding = ACTIVITY_BUILDING[activity] || 'campfire';
-          recordBuildingActivity(toolBuilding, 1, 0, 0);
-          recordBuildingVisit(toolBuilding, agentId);
-          updateBuildingXP(toolBuilding);
-
-          // Check achievement milestones
-          const updatedProfile = getEnrichedProfile(agentId);
-          if (updatedProfile) {
-            const tc = updatedProfile.toolCalls;
-            const milestones = [100, 500, 1000, 2500, 5000, 10000];
-            if (milestones.includes(tc)) {
-              console.log(`  🏆 ${existing.name} reached ${tc} tool calls!`);
-              broadcast({
-                type: 'agent:achievement',
-                agentId,
-                agentName: existing.name,
-                achievement: `${existing.name} reached ${tc} tool calls!`,
-              });
-            }
-          }
-        }
-
-        // Broadcast XP update (every heartbeat, so dashboard stays current)
-        const newEnriched = getEnrichedProfile(agentId);
-        if (newEnriched) {
-          if (newEnriched.level > prevLevel) {
-            console.log(`  🎉 ${existing.name} leveled up! Lv.${newEnriched.level} ${newEnriched.title}`);
-          }
-          broadcast({
-            type: 'agent:xp',
-            agentId,
-            level: newEnriched.level,
-            title: newEnriched.title,
-            xp: newEnriched.xp,
-            nextLevelXP: newEnriched.nextLevelXP,
-          });
-        }
-
-        if (activityChanged || detailChanged) {
-          if (activityChanged && effectiveActivity !== 'idle') {
-            recordActivity(agentId, effectiveActivity, detail || existing.detail);
-          }
-          if (activityChanged) {
-            console.log(`  ⚡ ${existing.name} → ${effectiveActivity}${detail ? ` (${detail})` : ''}`);
-          }
-          broadcast({
-            type: 'agent:work',
-            agentId,
-            activity: effectiveActivity,
-            detail: existing.detail,
-            targetBuilding: ACTIVITY_BUILDING[effectiveActivity] || 'campfire',
-          });
-        }
-
-        // Broadcast waiting state changes
-        if (existing.waiting !== wasWaiting) {
-          if (existing.waiting) {
-            console.log(`  ⏳ ${existing.name} is waiting for input`);
-          }
-          broadcast({
-            type: 'agent:waiting',
-            agentId,
-            waiting: existing.waiting,
-          });
-        }
-      }
-
+      const agentId = handleHeartbeat(JSON.parse(body));
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ ok: true, agentId }));
     } catch {
@@ -454,36 +911,20 @@ const server = http.createServer(async (req, res) => {
   if (url.pathname === '/api/event' && req.method === 'POST') {
     try {
       const body = await readBody(req);
-      const event = JSON.parse(body);
-
-      if (event.type === 'agent:spawn') {
-        agents.set(event.agentId, {
-          name: event.agentName || event.agentId,
-          activity: 'idle',
-          detail: '',
-          busy: false,
-          lastSeen: Date.now(),
-          parentId: event.parentId || null,
-        });
-      } else if (event.type === 'agent:despawn') {
-        agents.delete(event.agentId);
-        releaseName(event.agentId);
-      } else if (event.type === 'agent:work') {
-        const agent = agents.get(event.agentId);
-        if (agent) {
-          agent.activity = event.activity || agent.activity;
-          if (event.detail) agent.detail = event.detail;
-          agent.lastSeen = Date.now();
-        }
-      } else if (event.type === 'agent:failure') {
-        const agent = agents.get(event.agentId);
-        if (agent) {
-          agent.lastSeen = Date.now();
-          console.log(`  💥 ${agent.name} failed: ${event.detail || 'unknown'}`);
-        }
-      }
+      handleRawEvent(JSON.parse(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    return;
+  }
 
-      broadcast(event);
+  // ── Commit (from the post-commit hook) ─────────────────
+  if (url.pathname === '/api/commit' && req.method === 'POST') {
+    try {
+      handleCommitReport(JSON.parse(await readBody(req)));
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ ok: true }));
     } catch {
@@ -493,6 +934,93 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  // ── Approval (long poll from the PreToolUse hook) ──────
+  if (url.pathname === '/api/approval' && req.method === 'POST') {
+    let data;
+    try {
+      data = JSON.parse(await readBody(req));
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      return;
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data) || typeof data.tool !== 'string') {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Expected { agent, tool, toolInput }' }));
+      return;
+    }
+    const result = await awaitApproval(data, res);
+    if (res.destroyed) return;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ decision: result.decision, reason: result.reason }));
+    return;
+  }
+
+  // ── Batch (spooled heartbeats, original timestamps) ────
+  if (url.pathname === '/api/batch' && req.method === 'POST') {
+    try {
+      const body = await readBody(req);
+      const { entries } = JSON.parse(body);
+      if (!Array.isArray(entries)) throw new Error('entries must be an array');
+      const result = ingestBatch(entries);
+      if (result.processed) console.log(`  📥 Replayed ${result.processed} spooled heartbeats`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, ...result }));
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    return;
+  }
+
+  // ── OTLP/HTTP traces (GenAI spans, see otlp.mjs) ────────
+  if (url.pathname === '/v1/traces' && req.method === 'POST') {
+    if (!/json/.test(req.headers['content-type'] || '')) {
+      res.writeHead(415, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Only OTLP/HTTP JSON is supported (OTEL_EXPORTER_OTLP_PROTOCOL=http/json)' }));
+      return;
+    }
+    try {
+      const payload = JSON.parse(await readBody(req));
+      const spanCount = (payload.resourceSpans || [])
+        .flatMap(r => r.scopeSpans || [])
+        .reduce((sum, s) => sum + (s.spans?.length || 0), 0);
+      inc('agentville_otlp_spans_total', {}, spanCount);
+      ingestBatch(spansToRequests(payload));
+      // An empty ExportTraceServiceResponse: everything accepted
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    return;
+  }
+
+  // ── Ingest (other coding-agent CLIs, see adapters/) ────
+  const ingest = /^\/api\/ingest\/([^/]+)$/.exec(url.pathname);
+  if (ingest && req.method === 'POST') {
+    const source = ingest[1];
+    if (!hasAdapter(source)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Unknown source: ${source}` }));
+      return;
+    }
+    try {
+      const records = parseRecords(await readBody(req));
+      const result = ingestBatch(translateRecords(source, records, {
+        session: url.searchParams.get('session'),
+        project: url.searchParams.get('project'),
+      }));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, records: records.length, ...result }));
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+    }
+    return;
+  }
+
   // ── Status ─────────────────────────────────────────────
   if (url.pathname === '/api/status' && req.method === 'GET') {
     const agentList = {};
@@ -504,26 +1032,228 @@ const server = http.createServer(async (req, res) => {
         detail: agent.detail,
         project: agent.project || '',
         parentId: agent.parentId,
+        source: agent.source || null,
         busy: agent.busy || false,
+        stuck: agent.stuck || null,
         totalInputBytes: agent.totalInputBytes || 0,
         totalOutputBytes: agent.totalOutputBytes || 0,
+        ...tokenTotals(agent),
         spawnedAt: agent.spawnedAt,
       };
     }
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(
-      JSON.stringify({ agents: agentList, dashboardClients: sseClients.size }),
+      JSON.stringify({ agents: agentList, dashboardClients: sseClients.size + wsClients.size }),
     );
     return;
   }
 
-  // ── Leaderboard (all-time agent stats) ─────────────────
+  // ── Prometheus metrics ─────────────────────────────────
+  if (url.pathname === '/metrics' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(renderMetrics({
+      agents: [...agents.values()],
+      sseClients: sseClients.size,
+      wsClients: wsClients.size,
+      agentProfiles: getAllProfiles(),
+      buildingProfiles: getAllBuildingProfiles(),
+    }));
+    return;
+  }
+
+  // ── Sessions (?agent=&clan=&from=&to=&limit=) ───────────
+  if (url.pathname === '/api/sessions' && req.method === 'GET') {
+    const range = parseRangeQuery(url);
+    if (range.error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: range.error }));
+      return;
+    }
+    const { from, to, limit } = range;
+    const sessions = getSessions({
+      agent: url.searchParams.get('agent'),
+      clan: url.searchParams.get('clan'),
+      from,
+      to,
+      limit,
+    }).map(s => ({ ...s, agentName: getStoredName(s.agentId) }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ sessions }));
+    return;
+  }
+
+  // ── Test runs (?agent=&clan=&from=&to=&limit=) ─────────
+  // Parsed test runs, newest first, with totals per agent and clan
+  if (url.pathname === '/api/tests' && req.method === 'GET') {
+    const range = parseRangeQuery(url);
+    if (range.error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: range.error }));
+      return;
+    }
+    const { from, to, limit } = range;
+    const filters = { agent: url.searchParams.get('agent'), clan: url.searchParams.get('clan'), from, to };
+    const runs = getTestRuns({ ...filters, limit }).map(run => ({ ...run, agentName: getStoredName(run.agentId) }));
+    const agentTotals = getTestTotals({ ...filters, by: 'agent' })
+      .map(totals => ({ ...totals, agentName: getStoredName(totals.agentId) }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ runs, agents: agentTotals, clans: getTestTotals({ ...filters, by: 'clan' }) }));
+    return;
+  }
+
+  // ── Commits (?agent=&clan=&from=&to=&limit=) ───────────
+  if (url.pathname === '/api/commits' && req.method === 'GET') {
+    const range = parseRangeQuery(url);
+    if (range.error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: range.error }));
+      return;
+    }
+    const { from, to, limit } = range;
+    const commits = getCommits({
+      agent: url.searchParams.get('agent'),
+      clan: url.searchParams.get('clan'),
+      from,
+      to,
+      limit,
+    }).map(c => ({ ...c, agentName: getStoredName(c.agentId) }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ commits }));
+    return;
+  }
+
+  // ── Files (?project=&limit=) ───────────────────────────
+  if (url.pathname === '/api/files' && req.method === 'GET') {
+    const limit = Math.min(parseInt(url.searchParams.get('limit')) || 100, 1000);
+    const files = getFiles({ project: url.searchParams.get('project'), limit }).map(file => ({
+      ...file,
+      lastEditorName: file.lastEditor ? getStoredName(file.lastEditor) : null,
+      readers: file.readers.map(r => ({ ...r, name: getStoredName(r.agentId) })),
+    }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ files }));
+    return;
+  }
+
+  // ── Costs (?days=) ─────────────────────────────────────
+  // Spend per clan (all-time, today against its budget, and per day)
+  // and per agent, from the prices in pricing.mjs
+  if (url.pathname === '/api/costs' && req.method === 'GET') {
+    const days = Math.min(Math.max(parseInt(url.searchParams.get('days')) || 7, 1), 90);
+    const now = Date.now();
+    const today = dayOf(now);
+    const from = dayOf(now - (days - 1) * 86_400_000);
+    const profiles = getAllProfiles();
+    const clans = new Map();
+    const clanFor = (name) => {
+      if (!clans.has(name)) clans.set(name, { clan: name, cost: 0, today: 0, budget: budgetFor(name), days: [] });
+      return clans.get(name);
+    };
+    for (const profile of profiles) {
+      if (profile.clan && profile.totalCost > 0) clanFor(profile.clan).cost += profile.totalCost;
+    }
+    for (const { clan, day, cost } of getClanCosts({ from, to: today })) {
+      const entry = clanFor(clan);
+      entry.days.push({ day, cost });
+      if (day === today) entry.today = cost;
+    }
+    const agentCosts = profiles
+      .filter(p => p.totalCost > 0)
+      .sort((a, b) => b.totalCost - a.totalCost)
+      .map(p => ({ agentId: p.agentId, name: p.name, clan: p.clan, cost: p.totalCost, model: p.model }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      currency: CURRENCY,
+      day: today,
+      clans: [...clans.values()].sort((a, b) => b.cost - a.cost),
+      agents: agentCosts,
+    }));
+    return;
+  }
+
+  // ── Village (building layout for the dashboard) ────────
+  if (url.pathname === '/api/village' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(getVillage()));
+    return;
+  }
+
+  // ── History (recorded events for replay) ───────────────
+  if (url.pathname === '/api/history' && req.method === 'GET') {
+    const to = parseTime(url.searchParams.get('to'), Date.now());
+    const from = parseTime(url.searchParams.get('from'), to - 3600_000);
+    if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid time range' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(getHistory(from, to)));
+    return;
+  }
+
+  // ── Analytics (?groupBy=&bucket=&from=&to=&tz=&agent=&clan=) ──
+  if (url.pathname === '/api/analytics' && req.method === 'GET') {
+    const groupBy = url.searchParams.get('groupBy') || 'clan';
+    const bucket = url.searchParams.get('bucket') || 'hour';
+    const timeZone = url.searchParams.get('tz') || DEFAULT_TIME_ZONE;
+    const to = parseTime(url.searchParams.get('to'), Date.now());
+    const from = parseTime(url.searchParams.get('from'), to - (bucket === 'day' ? 7 * 86400_000 : 86400_000));
+    let error = null;
+    if (!GROUP_BY.includes(groupBy)) error = `groupBy must be one of ${GROUP_BY.join(', ')}`;
+    else if (!BUCKETS.includes(bucket)) error = `bucket must be one of ${BUCKETS.join(', ')}`;
+    else if (!isTimeZone(timeZone)) error = 'Invalid time zone';
+    else if (Number.isNaN(from) || Number.isNaN(to) || from > to) error = 'Invalid time range';
+    else if (bucketCount(from, to, bucket) > MAX_BUCKETS) error = `More than ${MAX_BUCKETS} buckets, narrow the range or use bigger buckets`;
+    if (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+    const { groups, buckets } = getAnalytics({
+      groupBy, bucket, from, to, timeZone,
+      agent: url.searchParams.get('agent'),
+      clan: url.searchParams.get('clan'),
+    });
+    const named = groupBy === 'agent' ? groups.map(g => ({ ...g, name: getStoredName(g.key) })) : groups;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ groupBy, bucket, timeZone, from, to, groups: named, buckets }));
+    return;
+  }
+
+  // ── Achievements (?agent=) ─────────────────────────────
+  // Definitions, and who unlocked what when
+  if (url.pathname === '/api/achievements' && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      achievements: getAchievements(),
+      unlocks: getUnlocks({ agent: url.searchParams.get('agent') }),
+    }));
+    return;
+  }
+
+  // ── Leaderboard (?period=&metric=&clan=&offset=&limit=&tz=) ──
+  // Agents ranked by a metric today, this week, this month or all time
   if (url.pathname === '/api/leaderboard' && req.method === 'GET') {
-    const profiles = getAllProfiles()
-      .sort((a, b) => b.xp - a.xp)
-      .slice(0, 50);
+    const period = url.searchParams.get('period') || 'all';
+    const metric = url.searchParams.get('metric') || 'xp';
+    const timeZone = url.searchParams.get('tz') || DEFAULT_TIME_ZONE;
+    let error = null;
+    if (!PERIODS.includes(period)) error = `period must be one of ${PERIODS.join(', ')}`;
+    else if (!METRICS.includes(metric)) error = `metric must be one of ${METRICS.join(', ')}`;
+    else if (!isTimeZone(timeZone)) error = 'Invalid time zone';
+    if (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+    const offset = Math.max(parseInt(url.searchParams.get('offset')) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit')) || 50, 1), MAX_LIMIT);
+    const { from, total, leaderboard } = getLeaderboard({
+      period, metric, clan: url.searchParams.get('clan'), offset, limit, timeZone,
+    });
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ leaderboard: profiles }));
+    res.end(JSON.stringify({ period, metric, from, total, offset, limit, leaderboard }));
     return;
   }
 
@@ -531,6 +1261,101 @@ const server = http.createServer(async (req, res) => {
   res.end('Not found');
 });
 
+// ── WebSocket (dashboard events + commands) ──────────────
+// Same events as /events, wrapped as { id, event }; the dashboard
+// sends { command, requestId, ... } back and gets { reply, ok } or
+// { reply, error }. Resume works like SSE, via ?since=.
+
+const MAX_NAME_LENGTH = 32;
+
+function handleCommand(message) {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) throw new Error('Expected a command object');
+  const agent = agents.get(message.agentId);
+  switch (message.command) {
+    case 'ack': {
+      // Dismiss a waiting agent's prompt on the map
+      if (!agent) throw new Error('Unknown agent');
+      if (agent.waiting) {
+        agent.waiting = false;
+        broadcast({ type: 'agent:waiting', agentId: message.agentId, waiting: false });
+      }
+      return;
+    }
+    case 'rename': {
+      const name = typeof message.name === 'string' ? message.name.trim() : '';
+      if (!name || name.length > MAX_NAME_LENGTH) throw new Error('Invalid name');
+      if (!renameAgent(message.agentId, name)) throw new Error('Unknown agent');
+      if (agent) agent.name = name;
+      console.log(`  ✏️  ${message.agentId} renamed to ${name}`);
+      broadcast({ type: 'agent:rename', agentId: message.agentId, agentName: name });
+      return;
+    }
+    case 'decide': {
+      // Approve or deny a pending tool call
+      if (message.decision !== 'allow' && message.decision !== 'deny') throw new Error('Invalid decision');
+      if (!decideApproval(message.approvalId, message.decision)) throw new Error('Unknown approval');
+      return;
+    }
+    default:
+      throw new Error(`Unknown command: ${message.command}`);
+  }
+}
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (url.pathname !== '/ws') {
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  // Browsers can't set headers on a WebSocket, so the token comes as ?token=
+  if (!isAuthorized(req, url)) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    return;
+  }
+
+  const client = acceptWebSocket(req, socket, head, {
+    onMessage(text) {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        client.close(CLOSE_CODES.unsupported, 'Invalid JSON');
+        return;
+      }
+      try {
+        handleCommand(message);
+        client.send(JSON.stringify({ reply: message?.requestId ?? null, ok: true }));
+      } catch (err) {
+        client.send(JSON.stringify({ reply: message?.requestId ?? null, error: err.message }));
+      }
+    },
+    onClose() {
+      wsClients.delete(client);
+    },
+  });
+  if (!client) return;
+  inc('agentville_http_requests_total', { route: '/ws', status: 101 });
+
+  const resumeFrom = url.searchParams.get('since');
+  const missed = resumeFrom ? getEventsSince(Number(resumeFrom)) : null;
+  if (missed) {
+    for (const { id, event } of missed) client.send(JSON.stringify({ id, event }));
+  } else {
+    for (const event of snapshotEvents()) client.send(JSON.stringify({ event }));
+    client.send(JSON.stringify({ id: getLastEventId() }));
+  }
+  wsClients.add(client);
+});
+
+getToken(); // generate on first run so the connect scripts can embed it
+
+// Heartbeats the hook spooled while the bridge was down
+const spooled = claimSpool();
+if (spooled.length) {
+  const { processed } = ingestBatch(spooled);
+  console.log(`  📥 Replayed ${processed} spooled heartbeats`);
+}
+
 server.listen(PORT, () => {
   console.log('');
   console.log('  \x1b[36m\x1b[1m🏘  AgentVille Bridge\x1b[0m');
@@ -539,9 +1364,30 @@ server.listen(PORT, () => {
   console.log('  \x1b[2mEndpoints:\x1b[0m');
   console.log(`    POST /api/heartbeat  — Agent check-in`);
   console.log(`    POST /api/event      — Raw event`);
+  console.log(`    POST /api/batch      — Spooled heartbeats`);
+  console.log(`    POST /api/approval   — Wait for a verdict on a risky tool call`);
+  console.log(`    POST /api/commit     — Commit from the post-commit hook`);
+  console.log(`    POST /v1/traces      — OpenTelemetry GenAI spans (OTLP/HTTP JSON)`);
+  console.log(`    POST /api/ingest/:source — Aider, Codex CLI, Gemini CLI payloads`);
   console.log(`    GET  /events         — SSE stream (dashboard)`);
+  console.log(`    GET  /ws             — WebSocket (dashboard events + commands)`);
   console.log(`    GET  /api/status     — Current state`);
+  console.log(`    GET  /api/history    — Recorded events (replay)`);
+  console.log(`    GET  /api/village    — Building layout`);
+  console.log(`    GET  /api/sessions   — Past and active sessions`);
+  console.log(`    GET  /api/costs      — Spend per clan and agent, daily budgets`);
+  console.log(`    GET  /api/files      — Most edited files, last editors and readers`);
+  console.log(`    GET  /api/tests      — Test runs, with totals per agent and clan`);
+  console.log(`    GET  /api/commits    — Commits per agent and clan`);
+  console.log(`    GET  /api/analytics  — Usage per hour or day, by clan, agent, activity or building`);
+  console.log(`    GET  /api/leaderboard — Agents ranked by a metric, today to all time`);
+  console.log(`    GET  /api/achievements — Achievements and who unlocked them`);
+  console.log(`    GET  /metrics        — Prometheus metrics`);
   console.log('');
+  if (AUTH_ENABLED) {
+    console.log('  \x1b[2mAuth: token required (node server/auth.mjs prints it)\x1b[0m');
+    console.log('');
+  }
   console.log('  \x1b[2mWaiting for agents...\x1b[0m');
   console.log('');
 });
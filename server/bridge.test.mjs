@@ -7,11 +7,16 @@ import assert from 'node:assert/strict';
 import { spawn } from 'node:child_process';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const BRIDGE_PATH = join(__dirname, 'bridge.mjs');
 const PORT = 4243; // Use different port to not conflict with running bridge
 const BASE = `http://localhost:${PORT}`;
+const DATA_DIR = mkdtempSync(join(tmpdir(), 'agentville-bridge-')); // keep real data untouched
+const SPOOL_PATH = join(DATA_DIR, 'spool.jsonl'); // never drain the real hook spool
+const SPOOLED_AT = Date.now() - 2 * 3600_000;
 
 let serverProcess;
 
@@ -30,8 +35,37 @@ async function get(path) {
 }
 
 before(async () => {
+  // A heartbeat the hook spooled while the bridge was down
+  writeFileSync(SPOOL_PATH, JSON.stringify({
+    timestamp: SPOOLED_AT,
+    path: '/api/heartbeat',
+    body: { agent: 'Spooled Agent', activity: 'coding', detail: 'offline.ts' },
+  }) + '\n');
+
+  // User classification rules (see classifier.mjs)
+  writeFileSync(join(DATA_DIR, 'rules.json'), JSON.stringify({
+    rules: [
+      { tool: 'Bash', command: '^docker\\b', activity: 'deploy', detail: 'ship {command}' },
+      { tool: 'Bash', command: '^psql\\b', activity: 'database', detail: '{command}' },
+    ],
+    buildings: { deploy: 'forge' },
+    approvals: { timeout: 1, onTimeout: 'ask' },
+    stuck: { repeats: 3 },
+  }));
+
+  // Daily clan budget (see pricing.mjs)
+  writeFileSync(join(DATA_DIR, 'pricing.json'), JSON.stringify({ budgets: { 'costs-clan': 1 } }));
+
+  // User village layout (see village.mjs)
+  writeFileSync(join(DATA_DIR, 'village.json'), JSON.stringify({
+    buildings: [
+      { id: 'mine', name: 'The Mine', icon: '⛏️', position: { x: -100, y: 220 }, activities: ['database'] },
+      { id: 'tavern', activities: ['reviewing'] },
+    ],
+  }));
+
   serverProcess = spawn('node', [BRIDGE_PATH], {
-    env: { ...process.env, AGENTVILLE_PORT: String(PORT) },
+    env: { ...process.env, AGENTVILLE_PORT: String(PORT), AGENTVILLE_DATA_DIR: DATA_DIR, AGENTVILLE_SPOOL: SPOOL_PATH },
     stdio: 'pipe',
   });
 
@@ -50,10 +84,91 @@ before(async () => {
   });
 });
 
-after(() => {
-  serverProcess?.kill();
+after(async () => {
+  if (serverProcess) {
+    const exited = new Promise(r => serverProcess.once('exit', r));
+    serverProcess.kill();
+    await exited; // the bridge flushes its stores on SIGTERM
+  }
+  rmSync(DATA_DIR, { recursive: true, force: true });
 });
 
+// Open an SSE connection and collect frames until close() is called.
+async function openSSE(path, headers = {}) {
+  const frames = [];
+  const controller = new AbortController();
+  const res = await fetch(`${BASE}${path}`, { signal: controller.signal, headers });
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+
+  const reading = (async () => {
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop();
+      for (const block of blocks) {
+        const frame = {};
+        for (const line of block.split('\n')) {
+          if (line.startsWith('id: ')) frame.id = Number(line.slice(4));
+          if (line.startsWith('data: ')) frame.event = JSON.parse(line.slice(6));
+        }
+        if (frame.id !== undefined || frame.event) frames.push(frame);
+      }
+    }
+  })();
+
+  return {
+    frames,
+    async close() {
+      controller.abort();
+      await reading.catch(() => {});
+    },
+  };
+}
+
+// Open a WebSocket on /ws and collect messages until close() is called.
+// Rejects if the upgrade is refused.
+async function openWS(path = '/ws', base = BASE) {
+  const messages = [];
+  const ws = new WebSocket(`${base.replace(/^http/, 'ws')}${path}`);
+  ws.onmessage = (msg) => messages.push(JSON.parse(msg.data));
+  let closed = false;
+  ws.addEventListener('close', () => { closed = true; });
+  await new Promise((resolve, reject) => {
+    ws.onopen = resolve;
+    ws.onerror = () => reject(new Error('WebSocket upgrade failed'));
+  });
+  let nextRequestId = 1;
+
+  return {
+    messages,
+    // Send a command and wait for its reply
+    async command(command) {
+      const requestId = nextRequestId++;
+      ws.send(JSON.stringify({ ...command, requestId }));
+      for (let i = 0; i < 50; i++) {
+        const reply = messages.find(m => m.reply === requestId);
+        if (reply) return reply;
+        await new Promise(r => setTimeout(r, 20));
+      }
+      throw new Error(`No reply to ${command.command}`);
+    },
+    // Send a raw JSON message, for messages that can't carry a requestId
+    send(message) {
+      ws.send(JSON.stringify(message));
+    },
+    get closed() {
+      return closed;
+    },
+    close() {
+      ws.close();
+    },
+  };
+}
+
 // ── Heartbeat API ────────────────────────────────────────
 
 describe('POST /api/heartbeat', () => {
@@ -194,6 +309,306 @@ describe('GET /events (SSE)', () => {
   });
 });
 
+// ── SSE resume (Last-Event-ID) ──────────────────────────
+
+describe('GET /events resume', () => {
+  it('should tag broadcast events with increasing ids', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await post('/api/heartbeat', { agent: 'Resume Agent', activity: 'coding', detail: 'a.ts' });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const ids = sse.frames.filter(f => f.event && f.id !== undefined).map(f => f.id);
+    assert.ok(ids.length > 0, 'live events should carry an id');
+    for (let i = 1; i < ids.length; i++) assert.ok(ids[i] > ids[i - 1]);
+  });
+
+  it('should end the snapshot with the current event id', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const marker = sse.frames.find(f => f.id !== undefined && !f.event);
+    assert.ok(marker, 'snapshot should be followed by an id-only frame');
+    assert.equal(typeof marker.id, 'number');
+  });
+
+  it('should replay only missed events when Last-Event-ID is sent', async () => {
+    const first = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await first.close();
+    const lastId = first.frames.filter(f => f.id !== undefined).pop().id;
+
+    // Events that happen while the dashboard is disconnected
+    await post('/api/heartbeat', { agent: 'Resume Agent', activity: 'testing', detail: 'npm test' });
+
+    const second = await openSSE('/events', { 'Last-Event-ID': String(lastId) });
+    await new Promise(r => setTimeout(r, 200));
+    await second.close();
+
+    assert.ok(second.frames.length > 0, 'should receive missed events');
+    assert.equal(second.frames[0].id, lastId + 1);
+    assert.ok(!second.frames.some(f => f.event?.type === 'building:state'), 'should not resend the snapshot');
+    assert.ok(second.frames.some(f => f.event?.type === 'agent:work' && f.event.activity === 'testing'));
+  });
+
+  it('should accept ?since= as an alternative to the header', async () => {
+    const first = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await first.close();
+    const lastId = first.frames.filter(f => f.id !== undefined).pop().id;
+
+    await post('/api/heartbeat', { agent: 'Resume Agent', activity: 'planning' });
+
+    const second = await openSSE(`/events?since=${lastId}`);
+    await new Promise(r => setTimeout(r, 200));
+    await second.close();
+
+    assert.equal(second.frames[0].id, lastId + 1);
+    assert.ok(!second.frames.some(f => f.event?.type === 'building:state'));
+  });
+
+  it('should fall back to a full snapshot for unknown ids', async () => {
+    const sse = await openSSE('/events', { 'Last-Event-ID': '99999999' });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    assert.ok(sse.frames.some(f => f.event?.type === 'building:state'));
+  });
+});
+
+// ── WebSocket ────────────────────────────────────────────
+
+describe('GET /ws (WebSocket)', () => {
+  it('should send the snapshot followed by the current event id', async () => {
+    await post('/api/heartbeat', { agent: 'WS Agent', activity: 'coding', detail: 'ws.ts' });
+    const ws = await openWS();
+    await new Promise(r => setTimeout(r, 200));
+    ws.close();
+
+    assert.ok(ws.messages.some(m => m.event?.type === 'agent:spawn' && m.event.agentId === 'ws-agent'));
+    assert.ok(ws.messages.some(m => m.event?.type === 'building:state'));
+    const last = ws.messages.at(-1);
+    assert.equal(typeof last.id, 'number');
+    assert.equal(last.event, undefined);
+  });
+
+  it('should carry live events with their ids', async () => {
+    const ws = await openWS();
+    await new Promise(r => setTimeout(r, 100));
+    const snapshotLength = ws.messages.length;
+    await post('/api/heartbeat', { agent: 'WS Agent', activity: 'testing', detail: 'npm test' });
+    await new Promise(r => setTimeout(r, 200));
+    ws.close();
+
+    const live = ws.messages.slice(snapshotLength);
+    const work = live.find(m => m.event?.type === 'agent:work' && m.event.agentId === 'ws-agent');
+    assert.ok(work, 'should receive the work event');
+    assert.equal(typeof work.id, 'number');
+  });
+
+  it('should replay only missed events with ?since=', async () => {
+    const first = await openWS();
+    await new Promise(r => setTimeout(r, 100));
+    first.close();
+    const lastId = first.messages.filter(m => m.id !== undefined).pop().id;
+
+    await post('/api/heartbeat', { agent: 'WS Agent', activity: 'planning' });
+
+    const second = await openWS(`/ws?since=${lastId}`);
+    await new Promise(r => setTimeout(r, 200));
+    second.close();
+
+    assert.equal(second.messages[0].id, lastId + 1);
+    assert.ok(!second.messages.some(m => m.event?.type === 'building:state'));
+  });
+
+  it('should acknowledge a waiting agent', async () => {
+    await post('/api/heartbeat', { agent: 'WS Waiter', activity: 'idle', waiting: true });
+    const ws = await openWS();
+    const reply = await ws.command({ command: 'ack', agentId: 'ws-waiter' });
+    await new Promise(r => setTimeout(r, 100));
+    ws.close();
+
+    assert.equal(reply.ok, true);
+    assert.ok(ws.messages.some(m => m.event?.type === 'agent:waiting' && m.event.agentId === 'ws-waiter' && m.event.waiting === false));
+  });
+
+  it('should rename an agent and keep the name', async () => {
+    const ws = await openWS();
+    const reply = await ws.command({ command: 'rename', agentId: 'ws-agent', name: '  Reviewer Bob  ' });
+    await new Promise(r => setTimeout(r, 100));
+    ws.close();
+
+    assert.equal(reply.ok, true);
+    assert.ok(ws.messages.some(m => m.event?.type === 'agent:rename' && m.event.agentName === 'Reviewer Bob'));
+    const { data } = await get('/api/status');
+    assert.equal(data.agents['ws-agent'].name, 'Reviewer Bob');
+  });
+
+  it('should reply with an error to invalid commands', async () => {
+    const ws = await openWS();
+    const unknownAgent = await ws.command({ command: 'ack', agentId: 'nobody-here' });
+    const badName = await ws.command({ command: 'rename', agentId: 'ws-agent', name: '' });
+    const unknown = await ws.command({ command: 'explode' });
+    ws.close();
+
+    assert.equal(unknownAgent.error, 'Unknown agent');
+    assert.equal(badName.error, 'Invalid name');
+    assert.match(unknown.error, /Unknown command/);
+  });
+
+  it('should reply with an error to messages that are not commands, and stay open', async () => {
+    const ws = await openWS();
+    for (const message of [null, 42, 'ack', [{ command: 'ack' }]]) ws.send(message);
+    for (let i = 0; i < 50 && ws.messages.filter(m => 'reply' in m).length < 4; i++) {
+      await new Promise(r => setTimeout(r, 20));
+    }
+    const replies = ws.messages.filter(m => 'reply' in m);
+    assert.equal(replies.length, 4);
+    assert.ok(replies.every(r => r.reply === null && r.error));
+    assert.equal(ws.closed, false);
+    const reply = await ws.command({ command: 'explode' });
+    assert.match(reply.error, /Unknown command/);
+    ws.close();
+  });
+
+  it('should refuse upgrades on other paths', async () => {
+    await assert.rejects(openWS('/events'));
+  });
+});
+
+// ── Approvals ────────────────────────────────────────────
+
+describe('POST /api/approval', () => {
+  const RISKY = { agent: 'Risky Agent', project: 'web', tool: 'Bash', toolInput: { command: 'rm -rf dist' } };
+
+  // Wait until a WebSocket message matches
+  async function waitForMessage(ws, predicate) {
+    for (let i = 0; i < 50; i++) {
+      const message = ws.messages.find(predicate);
+      if (message) return message;
+      await new Promise(r => setTimeout(r, 20));
+    }
+    throw new Error('message not received');
+  }
+
+  it('should not hold calls when no dashboard is on the WebSocket', async () => {
+    const { status, data } = await post('/api/approval', RISKY);
+    assert.equal(status, 200);
+    assert.equal(data.decision, 'none');
+  });
+
+  it('should refuse bodies that are not a tool call, and keep running', async () => {
+    for (const body of [null, 42, 'rm -rf dist', [RISKY], { agent: 'Risky Agent' }]) {
+      const { status, data } = await post('/api/approval', body);
+      assert.equal(status, 400);
+      assert.ok(data.error);
+    }
+    const { status } = await get('/api/status');
+    assert.equal(status, 200);
+  });
+
+  it('should not hold calls no rule flags', async () => {
+    const ws = await openWS();
+    const { data } = await post('/api/approval', { ...RISKY, toolInput: { command: 'ls' } });
+    ws.close();
+    assert.equal(data.decision, 'none');
+  });
+
+  it('should wait for the dashboard decision', async () => {
+    await post('/api/heartbeat', { agent: 'Risky Agent', activity: 'coding' });
+    const ws = await openWS();
+    const answer = post('/api/approval', RISKY);
+
+    const { event } = await waitForMessage(ws, m => m.event?.type === 'agent:approval' && m.event.approval);
+    assert.equal(event.agentId, 'risky-agent');
+    assert.equal(event.approval.detail, 'rm -rf dist');
+    assert.equal(event.approval.reason, 'Recursive delete');
+
+    const reply = await ws.command({ command: 'decide', approvalId: event.approval.id, decision: 'allow' });
+    assert.equal(reply.ok, true);
+    const { data } = await answer;
+    assert.deepEqual(data, { decision: 'allow', reason: 'Approved from the village' });
+
+    const cleared = await waitForMessage(ws, m => m.event?.type === 'agent:approval' && m.event.decision);
+    assert.equal(cleared.event.approval, null);
+    assert.equal(cleared.event.decision, 'allow');
+    ws.close();
+  });
+
+  it('should include a pending approval in the snapshot', async () => {
+    const first = await openWS();
+    const answer = post('/api/approval', RISKY);
+    const { event } = await waitForMessage(first, m => m.event?.type === 'agent:approval' && m.event.approval);
+
+    const second = await openWS();
+    const shown = await waitForMessage(second, m => m.event?.type === 'agent:approval');
+    assert.equal(shown.event.approval.id, event.approval.id);
+
+    await second.command({ command: 'decide', approvalId: event.approval.id, decision: 'deny' });
+    assert.equal((await answer).data.decision, 'deny');
+    first.close();
+    second.close();
+  });
+
+  it('should apply the timeout policy when nobody answers', async () => {
+    const ws = await openWS();
+    const { data } = await post('/api/approval', RISKY);
+    ws.close();
+    assert.equal(data.decision, 'ask');
+    assert.match(data.reason, /within 1s/);
+  });
+
+  it('should refuse decisions on unknown approvals', async () => {
+    const ws = await openWS();
+    const unknown = await ws.command({ command: 'decide', approvalId: 99999, decision: 'allow' });
+    const invalid = await ws.command({ command: 'decide', approvalId: 1, decision: 'maybe' });
+    ws.close();
+    assert.equal(unknown.error, 'Unknown approval');
+    assert.equal(invalid.error, 'Invalid decision');
+  });
+});
+
+// ── History API ─────────────────────────────────────────
+
+describe('GET /api/history', () => {
+  it('should return recorded events with timestamps and a snapshot', async () => {
+    const from = Date.now() - 1000;
+    await post('/api/heartbeat', { agent: 'History Agent', activity: 'researching', detail: 'notes.md' });
+
+    const { status, data } = await get(`/api/history?from=${from}&to=${Date.now() + 1000}`);
+    assert.equal(status, 200);
+    assert.ok(Array.isArray(data.snapshot));
+    const work = data.events.find(e => e.event.type === 'agent:work' && e.event.agentId === 'history-agent');
+    assert.ok(work, 'should include the heartbeat work event');
+    assert.equal(typeof work.id, 'number');
+    assert.ok(work.timestamp >= from);
+  });
+
+  it('should accept ISO timestamps', async () => {
+    const to = new Date().toISOString();
+    const from = new Date(Date.now() - 60_000).toISOString();
+    const { status, data } = await get(`/api/history?from=${from}&to=${to}`);
+    assert.equal(status, 200);
+    assert.equal(data.from, Date.parse(from));
+  });
+
+  it('should default to the last hour', async () => {
+    const { status, data } = await get('/api/history');
+    assert.equal(status, 200);
+    assert.equal(data.to - data.from, 3600_000);
+  });
+
+  it('should reject an inverted or unparseable range', async () => {
+    const inverted = await fetch(`${BASE}/api/history?from=2000&to=1000`);
+    assert.equal(inverted.status, 400);
+    const garbage = await fetch(`${BASE}/api/history?from=yesterday-ish`);
+    assert.equal(garbage.status, 400);
+  });
+});
+
 // ── Leaderboard API ─────────────────────────────────────
 
 describe('GET /api/leaderboard', () => {
@@ -223,6 +638,38 @@ describe('GET /api/leaderboard', () => {
       );
     }
   });
+
+  it('should rank agents by tool calls today within a clan', async () => {
+    await post('/api/heartbeat', { agent: 'Rookie', project: 'rookie-clan', tool: 'Read', toolInput: { file_path: 'src/a.ts' } });
+    await post('/api/heartbeat', { agent: 'Rookie', project: 'rookie-clan', tool: 'Edit', toolInput: { file_path: 'src/b.ts' } });
+    await post('/api/heartbeat', { agent: 'Rookie Two', project: 'rookie-clan', tool: 'Read', toolInput: { file_path: 'src/a.ts' } });
+
+    const { status, data } = await get('/api/leaderboard?period=today&metric=toolCalls&clan=rookie-clan&tz=UTC');
+    assert.equal(status, 200);
+    assert.equal(data.period, 'today');
+    assert.equal(data.total, 2);
+    assert.deepEqual(data.leaderboard.map(e => [e.agentId, e.score, e.rank]), [['rookie', 2, 1], ['rookie-two', 1, 2]]);
+
+    const files = await get('/api/leaderboard?period=week&metric=filesTouched&clan=rookie-clan');
+    assert.deepEqual(files.data.leaderboard.map(e => [e.agentId, e.score]), [['rookie', 2], ['rookie-two', 1]]);
+  });
+
+  it('should page through the board', async () => {
+    const { data: full } = await get('/api/leaderboard?limit=3');
+    const { data } = await get('/api/leaderboard?offset=1&limit=2');
+    assert.equal(data.offset, 1);
+    assert.equal(data.limit, 2);
+    assert.equal(data.total, full.total);
+    assert.deepEqual(data.leaderboard.map(e => [e.agentId, e.rank]), full.leaderboard.slice(1).map(e => [e.agentId, e.rank]));
+  });
+
+  it('should reject unknown periods, metrics and zones', async () => {
+    for (const query of ['period=year', 'metric=karma', 'tz=Mars/Olympus_Mons']) {
+      const { status, data } = await get(`/api/leaderboard?${query}`);
+      assert.equal(status, 400, query);
+      assert.ok(data.error);
+    }
+  });
 });
 
 // ── Heartbeat with bytes ────────────────────────────────
@@ -258,6 +705,26 @@ describe('Heartbeat byte tracking', () => {
   });
 });
 
+describe('Heartbeat token usage', () => {
+  it('should add up reported tokens, cache included, and keep the model', async () => {
+    await post('/api/heartbeat', {
+      agent: 'Usage Reporter', activity: 'planning',
+      inputTokens: 12, outputTokens: 400, cacheReadTokens: 30000, cacheCreationTokens: 2000, model: 'claude-sonnet-4-5',
+    });
+    await post('/api/heartbeat', { agent: 'Usage Reporter', inputTokens: 3, outputTokens: 100, cacheReadTokens: 32000 });
+
+    const agent = (await get('/api/status')).data.agents['usage-reporter'];
+    assert.equal(agent.totalInputTokens, 15);
+    assert.equal(agent.totalOutputTokens, 500);
+    assert.equal(agent.totalCacheReadTokens, 62000);
+    assert.equal(agent.totalCacheCreationTokens, 2000);
+    assert.equal(agent.model, 'claude-sonnet-4-5');
+
+    const profile = (await get('/api/leaderboard')).data.leaderboard.find(p => p.agentId === 'usage-reporter');
+    assert.equal(profile.totalCacheReadTokens, 62000);
+  });
+});
+
 // ── Heartbeat with parentAgent ──────────────────────────
 
 describe('Heartbeat sub-agent registration', () => {
@@ -278,6 +745,47 @@ describe('Heartbeat sub-agent registration', () => {
   });
 });
 
+// ── Messages between agents ─────────────────────────────
+
+describe('Heartbeat messages', () => {
+  async function communicateEvents(heartbeats) {
+    const sse = await openSSE('/events');
+    for (const body of heartbeats) await post('/api/heartbeat', body);
+    await new Promise(r => setTimeout(r, 100));
+    await sse.close();
+    return sse.frames.map(f => f.event).filter(e => e?.type === 'agent:communicate');
+  }
+
+  it('should relay a Task prompt from parent to sub-agent', async () => {
+    const [event] = await communicateEvents([{
+      agent: 'Messenger Parent', activity: 'planning',
+      message: { to: 'Messenger Parent Explore', kind: 'prompt', text: 'Find the\n  callers' },
+    }]);
+    assert.deepEqual(event, {
+      type: 'agent:communicate', agentId: 'messenger-parent', targetAgent: 'messenger-parent-explore',
+      kind: 'prompt', detail: 'Find the callers',
+    });
+  });
+
+  it('should relay a result from sub-agent to parent and cap its length', async () => {
+    const [event] = await communicateEvents([{
+      agent: 'Messenger Parent', outputBytes: 10,
+      message: { from: 'Messenger Parent Explore', kind: 'result', text: 'x'.repeat(1000) },
+    }]);
+    assert.equal(event.agentId, 'messenger-parent-explore');
+    assert.equal(event.targetAgent, 'messenger-parent');
+    assert.equal(event.detail.length, 280);
+  });
+
+  it('should ignore unknown kinds and messages to self', async () => {
+    const events = await communicateEvents([
+      { agent: 'Messenger Parent', message: { to: 'Someone', kind: 'gossip', text: 'hi' } },
+      { agent: 'Messenger Parent', message: { to: 'Messenger Parent', kind: 'prompt', text: 'hi' } },
+    ]);
+    assert.deepEqual(events, []);
+  });
+});
+
 // ── Heartbeat with project field ────────────────────────
 
 describe('Heartbeat project field', () => {
@@ -325,6 +833,636 @@ describe('POST /api/event edge cases', () => {
   });
 });
 
+// ── Server-side classification ───────────────────────────
+
+describe('Heartbeat tool classification', () => {
+  it('should classify a raw tool call with the default rules', async () => {
+    await post('/api/heartbeat', {
+      agent: 'Classified Agent',
+      tool: 'Edit',
+      toolInput: { file_path: '/repo/src/App.tsx' },
+    });
+    const { data } = await get('/api/status');
+    assert.equal(data.agents['classified-agent'].activity, 'coding');
+    assert.equal(data.agents['classified-agent'].detail, 'App.tsx');
+  });
+
+  it('should prefer the rules over the activity the hook sent', async () => {
+    await post('/api/heartbeat', {
+      agent: 'Classified Agent',
+      tool: 'Bash',
+      toolInput: { command: 'npx vitest run' },
+      activity: 'coding',
+      detail: 'npx vitest run',
+    });
+    const { data } = await get('/api/status');
+    assert.equal(data.agents['classified-agent'].activity, 'testing');
+  });
+
+  it('should apply user rules and their building mapping', async () => {
+    const sse = await openSSE('/events');
+    await post('/api/heartbeat', {
+      agent: 'Classified Agent',
+      tool: 'Bash',
+      toolInput: { command: 'docker compose up' },
+    });
+    await new Promise(r => setTimeout(r, 100));
+    await sse.close();
+
+    const work = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:work' && e.agentId === 'classified-agent').pop();
+    assert.equal(work.activity, 'deploy');
+    assert.equal(work.detail, 'ship docker compose up');
+    assert.equal(work.targetBuilding, 'forge');
+  });
+
+  it('should route custom activities to the building hosting them', async () => {
+    const sse = await openSSE('/events');
+    await post('/api/heartbeat', {
+      agent: 'Classified Agent',
+      tool: 'Bash',
+      toolInput: { command: 'psql -c "select 1"' },
+    });
+    await new Promise(r => setTimeout(r, 100));
+    await sse.close();
+
+    const events = sse.frames.map(f => f.event);
+    const work = events.filter(e => e?.type === 'agent:work' && e.agentId === 'classified-agent').pop();
+    assert.equal(work.activity, 'database');
+    assert.equal(work.targetBuilding, 'mine');
+    assert.ok(events.some(e => e?.type === 'building:xp' && e.buildingId === 'mine' && e.title === 'Outpost'));
+  });
+
+  it('should fall back to the sent activity for unknown tools', async () => {
+    await post('/api/heartbeat', { agent: 'Classified Agent', tool: 'BrandNewTool', activity: 'reviewing' });
+    const { data } = await get('/api/status');
+    assert.equal(data.agents['classified-agent'].activity, 'reviewing');
+  });
+});
+
+// ── Metrics ──────────────────────────────────────────────
+
+describe('GET /metrics', () => {
+  it('should expose agents, requests and stores in Prometheus format', async () => {
+    await post('/api/heartbeat', { agent: 'Metrics Agent', project: 'metrics-clan', activity: 'coding' });
+    await fetch(`${BASE}/api/heartbeat`, { method: 'POST', body: 'not json' });
+
+    const res = await fetch(`${BASE}/metrics`);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type'), /^text\/plain; version=0\.0\.4/);
+    const text = await res.text();
+
+    assert.match(text, /^agentville_active_agents\{activity="coding",clan="metrics-clan"\} 1$/m);
+    assert.match(text, /^agentville_tool_calls\{clan="metrics-clan"\} \d+$/m);
+    assert.match(text, /^agentville_http_requests_total\{route="\/api\/heartbeat",status="400"\} [1-9]\d*$/m);
+    assert.match(text, /^agentville_heartbeats_total [1-9]\d*$/m);
+    assert.match(text, /^agentville_building_xp\{building="forge"\} \d+$/m);
+    assert.match(text, /^agentville_sse_clients \d+$/m);
+  });
+});
+
+// ── OTLP traces ──────────────────────────────────────────
+
+describe('POST /v1/traces', () => {
+  const nanos = (ms) => String(BigInt(ms) * 1_000_000n);
+  const attr = (key, value) => ({
+    key,
+    value: typeof value === 'number' ? { intValue: String(value) } : { stringValue: value },
+  });
+
+  it('should bring OTel agents into the village with their tools and tokens', async () => {
+    const now = Date.now();
+    const { status, data } = await post('/v1/traces', {
+      resourceSpans: [{
+        resource: { attributes: [attr('service.name', 'otel-clan')] },
+        scopeSpans: [{
+          spans: [
+            {
+              spanId: 'tool-1', parentSpanId: 'agent-1',
+              startTimeUnixNano: nanos(now - 3000), endTimeUnixNano: nanos(now - 2000),
+              attributes: [
+                attr('gen_ai.operation.name', 'execute_tool'), attr('gen_ai.tool.name', 'Bash'),
+                attr('gen_ai.tool.call.arguments', '{"command":"npx vitest run"}'),
+              ],
+            },
+            {
+              spanId: 'chat-1', parentSpanId: 'agent-1',
+              startTimeUnixNano: nanos(now - 2000), endTimeUnixNano: nanos(now - 1500),
+              attributes: [
+                attr('gen_ai.operation.name', 'chat'),
+                attr('gen_ai.usage.input_tokens', 1200), attr('gen_ai.usage.output_tokens', 80),
+              ],
+            },
+            {
+              spanId: 'agent-1',
+              startTimeUnixNano: nanos(now - 4000), endTimeUnixNano: nanos(now - 1000),
+              attributes: [attr('gen_ai.operation.name', 'invoke_agent'), attr('gen_ai.agent.name', 'OTel Tester')],
+            },
+          ],
+        }],
+      }],
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(data, {});
+
+    const agent = (await get('/api/status')).data.agents['otel-tester'];
+    assert.ok(agent, 'otel-tester should exist');
+    assert.equal(agent.project, 'otel-clan');
+    assert.equal(agent.source, 'otel');
+    assert.equal(agent.activity, 'idle');
+    assert.equal(agent.totalInputTokens, 1200);
+    assert.equal(agent.totalOutputTokens, 80);
+
+    const sessions = (await get('/api/sessions?agent=otel-tester')).data.sessions;
+    assert.equal(sessions[0].toolCalls, 2); // the agent start and the Bash call
+  });
+
+  it('should refuse protobuf and bad JSON', async () => {
+    const protobuf = await fetch(`${BASE}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-protobuf' },
+      body: new Uint8Array([1, 2, 3]),
+    });
+    assert.equal(protobuf.status, 415);
+
+    const bad = await fetch(`${BASE}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: 'nope',
+    });
+    assert.equal(bad.status, 400);
+  });
+});
+
+describe('POST /api/ingest/:source', () => {
+  async function ingest(path, text) {
+    const res = await fetch(`${BASE}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      body: text,
+    });
+    return { status: res.status, data: await res.json() };
+  }
+
+  it('should translate Gemini CLI hook payloads into a villager', async () => {
+    const lines = [
+      { cwd: '/home/dev/ingest-shop', hook_event_name: 'BeforeAgent', prompt: 'Fix it' },
+      { cwd: '/home/dev/ingest-shop', hook_event_name: 'BeforeTool', tool_name: 'run_shell_command', tool_input: { command: 'npx vitest run' } },
+    ];
+    const { status, data } = await ingest('/api/ingest/gemini', lines.map(l => JSON.stringify(l)).join('\n'));
+    assert.equal(status, 200);
+    assert.deepEqual(data, { ok: true, records: 2, processed: 2, skipped: 0 });
+
+    const agent = (await get('/api/status')).data.agents['gemini-ingest-shop-'];
+    assert.ok(agent, 'gemini-ingest-shop- should exist');
+    assert.equal(agent.source, 'gemini');
+    assert.equal(agent.project, 'ingest-shop');
+    assert.equal(agent.activity, 'testing');
+  });
+
+  it('should keep tailer sessions apart and take their project', async () => {
+    const line = JSON.stringify({ event: 'message_send_starting', properties: {}, time: Date.now() / 1000 });
+    const { data } = await ingest('/api/ingest/aider?session=/home/dev/notes/log.jsonl&project=notes', line);
+    assert.equal(data.processed, 1);
+    assert.equal((await get('/api/status')).data.agents['aider-notes-'].source, 'aider');
+  });
+
+  it('should reject unknown sources and bad JSON', async () => {
+    assert.equal((await ingest('/api/ingest/cursor', '{}')).status, 404);
+    assert.equal((await ingest('/api/ingest/codex', 'not json\nat all')).status, 400);
+  });
+});
+
+// ── Sessions ─────────────────────────────────────────────
+
+describe('GET /api/sessions', () => {
+  it('should record a session from first heartbeat to SessionEnd', async () => {
+    await post('/api/heartbeat', { agent: 'Session Agent', project: 'sessions-clan', activity: 'coding', detail: 'a.ts' });
+    await post('/api/heartbeat', { agent: 'Session Agent', activity: 'testing', detail: 'npm test' });
+    await post('/api/event', { type: 'agent:despawn', agentId: 'session-agent' });
+
+    const { status, data } = await get('/api/sessions?agent=session-agent');
+    assert.equal(status, 200);
+    const [s] = data.sessions;
+    assert.equal(s.clan, 'sessions-clan');
+    assert.equal(s.toolCalls, 2);
+    assert.equal(s.outcome, 'ended');
+    assert.ok(s.agentName, 'should include the dwarf name');
+    assert.ok(s.duration >= 0);
+  });
+
+  it('should count sub-agents and list active sessions', async () => {
+    await post('/api/heartbeat', { agent: 'Session Parent', project: 'sessions-clan', activity: 'planning' });
+    await post('/api/heartbeat', { agent: 'Session Parent Explore', parentAgent: 'Session Parent', activity: 'researching' });
+
+    const { data } = await get('/api/sessions?agent=session-parent');
+    assert.equal(data.sessions[0].outcome, 'active');
+    assert.equal(data.sessions[0].subAgents, 1);
+  });
+
+  it('should filter by clan and date range', async () => {
+    const { data } = await get('/api/sessions?clan=sessions-clan');
+    assert.ok(data.sessions.length >= 2);
+    assert.ok(data.sessions.every(s => s.clan === 'sessions-clan'));
+
+    const past = await get('/api/sessions?clan=sessions-clan&to=2000-01-01T00:00:00Z');
+    assert.deepEqual(past.data.sessions, []);
+  });
+
+  it('should reject an invalid range', async () => {
+    const { status } = await get('/api/sessions?from=later');
+    assert.equal(status, 400);
+  });
+
+  it('should return at least one session for a negative limit', async () => {
+    const { data } = await get('/api/sessions?clan=sessions-clan&limit=-1');
+    assert.equal(data.sessions.length, 1);
+  });
+});
+
+// ── Stuck detection ─────────────────────────────────────
+
+describe('Heartbeat stuck detection', () => {
+  it('should flag an agent repeating the same command and clear it when it moves on', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    for (let i = 0; i < 4; i++) {
+      await post('/api/heartbeat', { agent: 'Loop Agent', tool: 'Bash', toolInput: { command: 'npm test' } });
+    }
+    const stuck = (await get('/api/status')).data.agents['loop-agent'].stuck;
+    assert.equal(stuck.kind, 'repeat');
+    await post('/api/heartbeat', { agent: 'Loop Agent', tool: 'Edit', toolInput: { file_path: '/repo/src/fix.ts' } });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const events = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:stuck' && e.agentId === 'loop-agent');
+    assert.deepEqual(events.map(e => e.stuck), [
+      { kind: 'repeat', reason: 'Repeated "npm test" 3 times in a row' },
+      null,
+    ]);
+  });
+});
+
+// ── Files ───────────────────────────────────────────────
+
+describe('GET /api/files', () => {
+  it('should count file edits and reads with the last editor and readers', async () => {
+    await post('/api/heartbeat', { agent: 'File Writer', project: 'files-clan', tool: 'Edit', toolInput: { file_path: '/work/files-clan/src/a.ts' } });
+    await post('/api/heartbeat', { agent: 'File Writer', tool: 'Write', toolInput: { file_path: '/work/files-clan/src/a.ts' } });
+    await post('/api/heartbeat', { agent: 'File Reader', project: 'files-clan', tool: 'Read', toolInput: { file_path: '/work/files-clan/src/a.ts' } });
+
+    const { status, data } = await get('/api/files?project=files-clan');
+    assert.equal(status, 200);
+    const [file] = data.files;
+    assert.equal(file.path, '/work/files-clan/src/a.ts');
+    assert.equal(file.edits, 2);
+    assert.equal(file.reads, 1);
+    assert.equal(file.lastEditor, 'file-writer');
+    assert.ok(file.lastEditorName, 'should include the dwarf name');
+    assert.equal(file.readers[0].agentId, 'file-reader');
+  });
+
+  it('should warn when two live agents edit the same file', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await post('/api/heartbeat', { agent: 'Rival One', project: 'files-clan', tool: 'Edit', toolInput: { file_path: '/work/files-clan/src/b.ts' } });
+    await post('/api/heartbeat', { agent: 'Rival Two', project: 'files-clan', tool: 'Edit', toolInput: { file_path: '/work/files-clan/src/b.ts' } });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const conflicts = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:conflict');
+    assert.equal(conflicts.length, 1);
+    assert.equal(conflicts[0].agentId, 'rival-two');
+    assert.equal(conflicts[0].targetAgent, 'rival-one');
+    assert.equal(conflicts[0].detail, 'b.ts');
+  });
+});
+
+// ── Test runs ───────────────────────────────────────────
+
+describe('test runs', () => {
+  const vitestRed = ' Test Files  1 failed | 2 passed (3)\n      Tests  2 failed | 24 passed | 1 skipped (27)\n   Duration  1.84s\n';
+
+  it('should parse test output into agent:test and agent:failure', async () => {
+    await post('/api/heartbeat', { agent: 'Arena Tester', project: 'arena-clan', tool: 'Bash', toolInput: { command: 'npx vitest run' } });
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await post('/api/heartbeat', { agent: 'Arena Tester', project: 'arena-clan', outputBytes: 100, testCommand: 'npx vitest run', testOutput: vitestRed });
+    await post('/api/heartbeat', { agent: 'Arena Tester', project: 'arena-clan', outputBytes: 10, testCommand: 'npm test', testOutput: 'no summary here' });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const events = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:test' || e?.type === 'agent:failure');
+    assert.deepEqual(events, [
+      {
+        type: 'agent:test', agentId: 'arena-tester',
+        test: { runner: 'vitest', command: 'npx vitest run', passed: 24, failed: 2, skipped: 1, duration: 1840 },
+      },
+      { type: 'agent:failure', agentId: 'arena-tester', detail: '2 tests failed' },
+    ]);
+  });
+
+  it('should list runs with totals per agent and clan on /api/tests', async () => {
+    await post('/api/heartbeat', {
+      agent: 'Arena Tester', project: 'arena-clan', testCommand: 'pytest',
+      testOutput: '===== 7 passed in 0.04s =====',
+    });
+
+    const { status, data } = await get('/api/tests?clan=arena-clan');
+    assert.equal(status, 200);
+    assert.deepEqual(data.runs.map(r => [r.runner, r.passed, r.failed]), [['pytest', 7, 0], ['vitest', 24, 2]]);
+    assert.ok(data.runs[0].agentName);
+    assert.equal(data.agents[0].agentId, 'arena-tester');
+    assert.deepEqual(
+      { runs: data.clans[0].runs, green: data.clans[0].green, red: data.clans[0].red },
+      { runs: 2, green: 1, red: 1 },
+    );
+  });
+
+  it('should reject an invalid time range', async () => {
+    const { status } = await get('/api/tests?from=2&to=1');
+    assert.equal(status, 400);
+  });
+});
+
+// ── Achievements ────────────────────────────────────────
+
+describe('achievements', () => {
+  const pytestGreen = '===== 3 passed in 0.02s =====';
+
+  it('should unlock an achievement once and keep it on the profile', async () => {
+    await post('/api/heartbeat', { agent: 'Trophy Hunter', tool: 'Bash', toolInput: { command: 'pytest' } });
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await post('/api/heartbeat', { agent: 'Trophy Hunter', outputBytes: 10, testCommand: 'pytest', testOutput: pytestGreen });
+    await post('/api/heartbeat', { agent: 'Trophy Hunter', outputBytes: 10, testCommand: 'pytest', testOutput: pytestGreen });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const unlocks = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:achievement');
+    assert.equal(unlocks.length, 1);
+    assert.equal(unlocks[0].agentId, 'trophy-hunter');
+    assert.equal(unlocks[0].unlock.id, 'first-green');
+    assert.match(unlocks[0].achievement, /First Victory/);
+
+    const profile = (await get('/api/leaderboard')).data.leaderboard.find(p => p.agentId === 'trophy-hunter');
+    assert.deepEqual(profile.achievements, [unlocks[0].unlock]);
+  });
+
+  it('should list definitions and unlocks on /api/achievements', async () => {
+    const { status, data } = await get('/api/achievements?agent=trophy-hunter');
+    assert.equal(status, 200);
+    assert.ok(data.achievements.some(a => a.id === 'night-owl' && a.condition.hours));
+    assert.deepEqual(data.unlocks.map(u => [u.agentId, u.achievementId]), [['trophy-hunter', 'first-green']]);
+    assert.ok(data.unlocks[0].name);
+  });
+});
+
+// ── Git ─────────────────────────────────────────────────
+
+describe('git activity', () => {
+  const FULL_SHA = '7e57ab1e0123456789abcdef0123456789abcdef';
+
+  it('should turn git output into agent:commit and agent:git', async () => {
+    await post('/api/heartbeat', { agent: 'Git Smith', project: 'git-clan', tool: 'Bash', toolInput: { command: 'git commit -qm wip' } });
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await post('/api/heartbeat', {
+      agent: 'Git Smith', project: 'git-clan', gitCommand: 'git commit -am "Fix coupon rounding" && git push',
+      gitOutput: '[feat/cart 7e57ab1] Fix coupon rounding\n 2 files changed, 14 insertions(+), 3 deletions(-)\n'
+        + 'To github.com:acme/shop.git\n   1a2b3c4..7e57ab1  feat/cart -> feat/cart\n',
+    });
+    // The post-commit hook reports the same commit: no second event
+    await post('/api/commit', { agent: 'Git Smith', project: 'git-clan', sha: FULL_SHA, message: 'Fix coupon rounding' });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const events = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:commit' || e?.type === 'agent:git');
+    assert.equal(events.length, 2);
+    assert.equal(events[0].type, 'agent:commit');
+    assert.equal(events[0].agentId, 'git-smith');
+    const { committedAt, ...commit } = events[0].commit;
+    assert.ok(committedAt > 0);
+    assert.deepEqual(commit, {
+      sha: '7e57ab1', branch: 'feat/cart', message: 'Fix coupon rounding', files: 2, insertions: 14, deletions: 3,
+    });
+    assert.deepEqual(events[1], {
+      type: 'agent:git', agentId: 'git-smith',
+      git: { kind: 'push', remote: 'github.com:acme/shop.git', branches: ['feat/cart'] },
+    });
+  });
+
+  it('should list commits per agent and clan on /api/commits', async () => {
+    const { status, data } = await get('/api/commits?clan=git-clan');
+    assert.equal(status, 200);
+    assert.equal(data.commits.length, 1);
+    assert.equal(data.commits[0].sha, FULL_SHA);
+    assert.equal(data.commits[0].agentId, 'git-smith');
+    assert.ok(data.commits[0].agentName);
+  });
+
+  it('should send this session\'s commits to new dashboards', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+    const spawn = sse.frames.map(f => f.event).find(e => e?.type === 'agent:spawn' && e.agentId === 'git-smith');
+    assert.deepEqual(spawn.commits.map(c => c.message), ['Fix coupon rounding']);
+  });
+
+  it('should record a commit from the post-commit hook without spawning the agent', async () => {
+    const { status } = await post('/api/commit', { agent: 'Hand Commit', project: 'git-clan', sha: 'b0b0b0b', message: 'By hand' });
+    assert.equal(status, 200);
+    const { data: state } = await get('/api/status');
+    assert.equal(state.agents['hand-commit'], undefined);
+    const { data } = await get('/api/commits?agent=hand-commit');
+    assert.equal(data.commits[0].clan, 'git-clan');
+  });
+
+  it('should reject an invalid range on /api/commits', async () => {
+    const { status, data } = await get('/api/commits?from=2&to=1');
+    assert.equal(status, 400);
+    assert.equal(data.error, 'Invalid time range');
+  });
+});
+
+describe('analytics', () => {
+  it('should count tool calls per activity for one clan', async () => {
+    await post('/api/heartbeat', { agent: 'Tally', project: 'tally-clan', tool: 'Read', toolInput: { file_path: 'src/a.ts' } });
+    await post('/api/heartbeat', { agent: 'Tally', project: 'tally-clan', tool: 'Edit', toolInput: { file_path: 'src/a.ts' } });
+    await post('/api/heartbeat', { agent: 'Tally', project: 'tally-clan', tool: 'Read', toolInput: { file_path: 'src/b.ts' } });
+    await post('/api/heartbeat', { agent: 'Tally', project: 'tally-clan', inputBytes: 300, outputBytes: 1200 });
+
+    const { status, data } = await get('/api/analytics?groupBy=activity&bucket=hour&tz=UTC&clan=tally-clan');
+    assert.equal(status, 200);
+    assert.equal(data.timeZone, 'UTC');
+    assert.equal(data.buckets.length, 25);
+    const calls = Object.fromEntries(data.groups.map(g => [g.key, g.toolCalls]));
+    assert.deepEqual(calls, { researching: 2, coding: 1 });
+    assert.equal(data.groups.find(g => g.key === 'researching').outputBytes, 1200);
+    assert.deepEqual(Object.keys(data.buckets.at(-1).groups).sort(), ['coding', 'researching']);
+  });
+
+  it('should put spooled heartbeats in the day they happened', async () => {
+    const day = Date.parse('2026-03-08T12:00:00-04:00');
+    await post('/api/batch', {
+      entries: [
+        { path: '/api/heartbeat', body: { agent: 'Night Owl', project: 'owl-clan', activity: 'coding' }, timestamp: day - 13 * 3600_000 },
+        { path: '/api/heartbeat', body: { agent: 'Night Owl', project: 'owl-clan', activity: 'testing' }, timestamp: day },
+      ],
+    });
+    const { data } = await get(`/api/analytics?groupBy=agent&bucket=day&tz=America/New_York&clan=owl-clan&from=2026-03-07T00:00:00-05:00&to=${day}`);
+    assert.deepEqual(data.buckets.map(b => b.label), ['2026-03-07', '2026-03-08']);
+    assert.equal(data.buckets[0].groups['night-owl'].toolCalls, 1);
+    assert.equal(data.buckets[1].groups['night-owl'].toolCalls, 1);
+    assert.ok(data.groups[0].name);
+  });
+
+  it('should reject unknown groupings, buckets and zones and too many buckets', async () => {
+    for (const query of [
+      'groupBy=model', 'bucket=week', 'tz=Mars/Olympus_Mons', 'from=yesterday', 'bucket=hour&from=0',
+    ]) {
+      const { status, data } = await get(`/api/analytics?${query}`);
+      assert.equal(status, 400, query);
+      assert.ok(data.error);
+    }
+  });
+});
+
+// ── Costs & budgets ─────────────────────────────────────
+
+describe('GET /api/costs', () => {
+  it('should price reported tokens by model and warn as the clan budget runs out', async () => {
+    const sse = await openSSE('/events');
+    await new Promise(r => setTimeout(r, 200));
+    // claude-sonnet-4-5 output is $15 per million: $0.60, then $0.30 more
+    await post('/api/heartbeat', {
+      agent: 'Cost Agent', project: 'costs-clan', activity: 'coding', outputTokens: 40_000, model: 'claude-sonnet-4-5',
+    });
+    await post('/api/heartbeat', { agent: 'Cost Agent', outputTokens: 20_000 });
+    await new Promise(r => setTimeout(r, 200));
+    await sse.close();
+
+    const budgetEvents = sse.frames.map(f => f.event).filter(e => e?.type === 'agent:budget');
+    assert.deepEqual(budgetEvents.map(e => e.threshold), [50, 80]);
+    assert.equal(budgetEvents[0].clan, 'costs-clan');
+    assert.equal(budgetEvents[0].budget, 1);
+
+    const agent = (await get('/api/status')).data.agents['cost-agent'];
+    assert.ok(Math.abs(agent.totalCost - 0.9) < 1e-9);
+    const profile = (await get('/api/leaderboard')).data.leaderboard.find(p => p.agentId === 'cost-agent');
+    assert.ok(Math.abs(profile.totalCost - 0.9) < 1e-9);
+    const [session] = (await get('/api/sessions?agent=cost-agent')).data.sessions;
+    assert.ok(Math.abs(session.cost - 0.9) < 1e-9);
+  });
+
+  it('should list spend per clan and agent', async () => {
+    const { status, data } = await get('/api/costs');
+    assert.equal(status, 200);
+    assert.equal(data.currency, 'USD');
+    const clan = data.clans.find(c => c.clan === 'costs-clan');
+    assert.ok(Math.abs(clan.today - 0.9) < 1e-9);
+    assert.equal(clan.budget, 1);
+    assert.deepEqual(clan.days.map(d => d.day), [data.day]);
+    assert.equal(data.agents.find(a => a.agentId === 'cost-agent').model, 'claude-sonnet-4-5');
+  });
+
+  it('should not charge unpriced models', async () => {
+    await post('/api/heartbeat', { agent: 'Free Agent', project: 'costs-clan', outputTokens: 5000, model: 'house-llm' });
+    const agent = (await get('/api/status')).data.agents['free-agent'];
+    assert.equal(agent.totalCost, 0);
+    assert.ok(!(await get('/api/costs')).data.agents.some(a => a.agentId === 'free-agent'));
+  });
+});
+
+// ── Village config ───────────────────────────────────────
+
+describe('GET /api/village', () => {
+  it('should serve the default buildings merged with the user file', async () => {
+    const { status, data } = await get('/api/village');
+    assert.equal(status, 200);
+    const ids = data.buildings.map(b => b.id);
+    assert.deepEqual(ids, ['campfire', 'guild', 'forge', 'arena', 'library', 'tower', 'tavern', 'mine']);
+
+    const mine = data.buildings.find(b => b.id === 'mine');
+    assert.deepEqual(mine.activities, ['database']);
+    assert.ok(mine.color && mine.glowColor, 'new buildings should get default colors');
+  });
+
+  it('should move claimed activities to the user building', async () => {
+    const { data } = await get('/api/village');
+    assert.deepEqual(data.buildings.find(b => b.id === 'tavern').activities, ['reviewing']);
+    assert.deepEqual(data.buildings.find(b => b.id === 'tower').activities, []);
+  });
+});
+
+// ── Batch replay (offline spool) ─────────────────────────
+
+describe('Offline spool replay', () => {
+  it('should drain the spool on startup with the original timestamps', async () => {
+    assert.equal(existsSync(SPOOL_PATH), false);
+    const { data } = await get('/api/leaderboard');
+    const agent = data.leaderboard.find(a => a.agentId === 'spooled-agent');
+    assert.ok(agent, 'spooled agent should have a profile');
+    assert.equal(agent.toolCalls, 1);
+    assert.equal(agent.firstSeen, SPOOLED_AT);
+  });
+
+  it('should replay a batch in timestamp order', async () => {
+    const t0 = Date.now() - 3600_000;
+    const { status, data } = await post('/api/batch', {
+      entries: [
+        { timestamp: t0 + 2000, path: '/api/heartbeat', body: { agent: 'Batch Agent', activity: 'testing', detail: 'b.test.ts' } },
+        { timestamp: t0, path: '/api/heartbeat', body: { agent: 'Batch Agent', activity: 'coding', detail: 'a.ts' } },
+        { timestamp: t0 + 1000, path: '/api/heartbeat', body: { agent: 'Batch Agent', outputBytes: 5000 } },
+        { timestamp: t0 + 3000, path: '/api/event', body: { type: 'agent:despawn', agentId: 'batch-agent' } },
+      ],
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(data, { ok: true, processed: 4, skipped: 0 });
+
+    const { data: board } = await get('/api/leaderboard');
+    const agent = board.leaderboard.find(a => a.agentId === 'batch-agent');
+    assert.equal(agent.toolCalls, 2);
+    assert.equal(agent.totalOutputBytes, 5000);
+    assert.equal(agent.firstSeen, t0);
+    assert.equal(agent.lastSeen, t0 + 2000);
+
+    // The despawn left it offline
+    const { data: statusData } = await get('/api/status');
+    assert.equal(statusData.agents['batch-agent'], undefined);
+
+    // Replay mode sees the events at their original times
+    const { data: history } = await get(`/api/history?from=${t0}&to=${t0 + 3000}`);
+    const work = history.events.filter(e => e.event.type === 'agent:work' && e.event.agentId === 'batch-agent');
+    assert.deepEqual(work.map(e => [e.timestamp, e.event.activity]), [[t0, 'coding'], [t0 + 2000, 'testing']]);
+  });
+
+  it('should skip entries it already replayed', async () => {
+    // The hook sends a batch again when the answer to it got lost
+    const entries = [
+      { id: 'replay-1', timestamp: Date.now() - 1000, path: '/api/heartbeat', body: { agent: 'Replay Agent', activity: 'coding' } },
+      { id: 'replay-2', timestamp: Date.now(), path: '/api/heartbeat', body: { agent: 'Replay Agent', activity: 'coding' } },
+    ];
+    assert.deepEqual((await post('/api/batch', { entries })).data, { ok: true, processed: 2, skipped: 0 });
+    assert.deepEqual((await post('/api/batch', { entries })).data, { ok: true, processed: 0, skipped: 2 });
+
+    const { data } = await get('/api/leaderboard');
+    assert.equal(data.leaderboard.find(a => a.agentId === 'replay-agent').toolCalls, 2);
+  });
+
+  it('should skip malformed entries', async () => {
+    const { status, data } = await post('/api/batch', {
+      entries: [{ path: '/api/heartbeat', body: { agent: 'Skip Ok' } }, { path: '/nope', body: {} }, null],
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(data, { ok: true, processed: 1, skipped: 2 });
+  });
+
+  it('should return 400 without an entries array', async () => {
+    const { status } = await post('/api/batch', { nope: true });
+    assert.equal(status, 400);
+  });
+});
+
 // ── CORS ─────────────────────────────────────────────────
 
 describe('CORS', () => {
@@ -339,6 +1477,17 @@ describe('CORS', () => {
     assert.equal(res.headers.get('access-control-allow-origin'), '*');
   });
 
+  it('should allow the Last-Event-ID header', async () => {
+    const res = await fetch(`${BASE}/events`, { method: 'OPTIONS' });
+    assert.match(res.headers.get('access-control-allow-headers'), /Last-Event-ID/);
+  });
+
+  it('should allow the auth headers', async () => {
+    const res = await fetch(`${BASE}/events`, { method: 'OPTIONS' });
+    assert.match(res.headers.get('access-control-allow-headers'), /Authorization/);
+    assert.match(res.headers.get('access-control-allow-headers'), /X-AgentVille-Token/);
+  });
+
   it('should handle OPTIONS on any path', async () => {
     const res = await fetch(`${BASE}/api/event`, { method: 'OPTIONS' });
     assert.equal(res.status, 204);
@@ -517,6 +1666,95 @@ describe('Building XP tracking', () => {
   });
 });
 
+// ── Auth ─────────────────────────────────────────────────
+
+describe('Shared-secret auth', () => {
+  const AUTH_PORT = 4244;
+  const AUTH_BASE = `http://localhost:${AUTH_PORT}`;
+  const AUTH_DATA_DIR = mkdtempSync(join(tmpdir(), 'agentville-auth-'));
+  const TOKEN = 'test-secret-token';
+  let authProcess;
+
+  before(async () => {
+    writeFileSync(join(AUTH_DATA_DIR, 'token'), TOKEN + '\n');
+    authProcess = spawn('node', [BRIDGE_PATH], {
+      env: {
+        ...process.env,
+        AGENTVILLE_PORT: String(AUTH_PORT),
+        AGENTVILLE_DATA_DIR: AUTH_DATA_DIR,
+        AGENTVILLE_SPOOL: join(AUTH_DATA_DIR, 'spool.jsonl'),
+        AGENTVILLE_AUTH: '1',
+      },
+      stdio: 'pipe',
+    });
+    await new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Server start timeout')), 5000);
+      authProcess.stdout.on('data', (data) => {
+        if (data.toString().includes('AgentVille Bridge')) {
+          clearTimeout(timeout);
+          resolve();
+        }
+      });
+    });
+  });
+
+  after(async () => {
+    const exited = new Promise(r => authProcess.once('exit', r));
+    authProcess.kill();
+    await exited;
+    rmSync(AUTH_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('should reject requests without a token', async () => {
+    for (const [path, method] of [
+      ['/api/heartbeat', 'POST'], ['/api/event', 'POST'], ['/api/status', 'GET'],
+      ['/api/leaderboard', 'GET'], ['/api/history', 'GET'], ['/events', 'GET'],
+    ]) {
+      const res = await fetch(`${AUTH_BASE}${path}`, { method, body: method === 'POST' ? '{}' : undefined });
+      assert.equal(res.status, 401, `${method} ${path}`);
+      assert.deepEqual(await res.json(), { error: 'Unauthorized' });
+    }
+  });
+
+  it('should reject a wrong token', async () => {
+    const res = await fetch(`${AUTH_BASE}/api/status`, { headers: { Authorization: 'Bearer nope' } });
+    assert.equal(res.status, 401);
+  });
+
+  it('should accept a bearer token', async () => {
+    const res = await fetch(`${AUTH_BASE}/api/heartbeat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify({ agent: 'Auth Agent', activity: 'coding' }),
+    });
+    assert.equal(res.status, 200);
+  });
+
+  it('should accept the X-AgentVille-Token header', async () => {
+    const res = await fetch(`${AUTH_BASE}/api/leaderboard`, { headers: { 'X-AgentVille-Token': TOKEN } });
+    assert.equal(res.status, 200);
+  });
+
+  it('should accept the token as a query param on the SSE stream', async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${AUTH_BASE}/events?token=${TOKEN}`, { signal: controller.signal });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'text/event-stream');
+    controller.abort();
+  });
+
+  it('should require the token for the WebSocket', async () => {
+    await assert.rejects(openWS('/ws', AUTH_BASE));
+    const ws = await openWS(`/ws?token=${TOKEN}`, AUTH_BASE);
+    ws.close();
+  });
+
+  it('should still answer CORS preflight without a token', async () => {
+    const res = await fetch(`${AUTH_BASE}/api/heartbeat`, { method: 'OPTIONS' });
+    assert.equal(res.status, 204);
+  });
+});
+
 // ── 404 ──────────────────────────────────────────────────
 
 describe('Unknown routes', () => {
@@ -0,0 +1,50 @@
+// ── Budgets ──────────────────────────────────────────────
+// Spend per clan and day, checked against the daily budgets in
+// data/pricing.json (see pricing.mjs). Each threshold of a budget
+// is reported once per clan and day, when the spend first reaches
+// it. Days are calendar days in the bridge's local time.
+
+import { db } from './db.mjs';
+import { budgetFor } from './pricing.mjs';
+
+export const BUDGET_THRESHOLDS = [50, 80, 100]; // percent
+
+const addCost = db.prepare(`
+  INSERT INTO clan_costs (clan, day, cost) VALUES (?, ?, ?)
+  ON CONFLICT (clan, day) DO UPDATE SET cost = cost + excluded.cost
+  RETURNING cost
+`);
+
+/**
+ * Local calendar day of a timestamp, as "YYYY-MM-DD".
+ */
+export function dayOf(timestamp) {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Add spend to a clan's day. Returns { day, spent, budget, crossed }:
+ * the day's spend so far, the clan's budget (or null) and the
+ * thresholds this spend reached.
+ */
+export function recordClanCost(clan, cost, timestamp = Date.now()) {
+  const day = dayOf(timestamp);
+  const { cost: spent } = addCost.get(clan, day, cost);
+  const budget = budgetFor(clan);
+  const before = spent - cost;
+  const crossed = budget
+    ? BUDGET_THRESHOLDS.filter(t => before < budget * t / 100 && spent >= budget * t / 100)
+    : [];
+  return { day, spent, budget, crossed };
+}
+
+/**
+ * Spend per clan and day, oldest first: [{ clan, day, cost }].
+ * `from`/`to` are days ("YYYY-MM-DD", inclusive).
+ */
+export function getClanCosts({ from = '0000-00-00', to = '9999-99-99' } = {}) {
+  return db.prepare(`
+    SELECT clan, day, cost FROM clan_costs WHERE day >= ? AND day <= ? ORDER BY day, clan
+  `).all(from, to).map(row => ({ clan: row.clan, day: row.day, cost: row.cost }));
+}
@@ -0,0 +1,63 @@
+/**
+ * Tests for clan budgets (daily spend, threshold crossings).
+ * Run: node --test server/budgets.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database and pricing file
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-budgets-'));
+const { USER_PRICING_PATH, reloadPricing } = await import('./pricing.mjs');
+const { dayOf, recordClanCost, getClanCosts } = await import('./budgets.mjs');
+
+fs.writeFileSync(USER_PRICING_PATH, JSON.stringify({ budgets: { village: 10 } }));
+reloadPricing();
+
+const NOON = new Date(2026, 2, 14, 12).getTime();
+const NEXT_DAY = NOON + 86_400_000;
+
+describe('dayOf', () => {
+  it('should give the local calendar day', () => {
+    assert.equal(dayOf(NOON), '2026-03-14');
+    assert.equal(dayOf(new Date(2026, 0, 5, 23, 59).getTime()), '2026-01-05');
+  });
+});
+
+describe('recordClanCost', () => {
+  it('should report each threshold once, when the spend reaches it', () => {
+    assert.deepEqual(recordClanCost('village', 4, NOON).crossed, []);
+    assert.deepEqual(recordClanCost('village', 1, NOON).crossed, [50]);
+    assert.deepEqual(recordClanCost('village', 1, NOON).crossed, []);
+    const over = recordClanCost('village', 6, NOON);
+    assert.deepEqual(over.crossed, [80, 100]);
+    assert.equal(over.spent, 12);
+    assert.equal(over.budget, 10);
+    assert.equal(over.day, '2026-03-14');
+    assert.deepEqual(recordClanCost('village', 1, NOON).crossed, []);
+  });
+
+  it('should start over the next day', () => {
+    const { spent, crossed } = recordClanCost('village', 9, NEXT_DAY);
+    assert.equal(spent, 9);
+    assert.deepEqual(crossed, [50, 80]);
+  });
+
+  it('should not report thresholds for clans without a budget', () => {
+    const result = recordClanCost('api', 500, NOON);
+    assert.equal(result.budget, null);
+    assert.deepEqual(result.crossed, []);
+  });
+});
+
+describe('getClanCosts', () => {
+  it('should list spend per clan and day within the range', () => {
+    assert.deepEqual(getClanCosts({ from: '2026-03-14', to: '2026-03-14' }), [
+      { clan: 'api', day: '2026-03-14', cost: 500 },
+      { clan: 'village', day: '2026-03-14', cost: 13 },
+    ]);
+    assert.equal(getClanCosts().length, 3);
+  });
+});
@@ -1,13 +1,14 @@
 // ── Persistent Building Store ────────────────────────────
-// Saves building progression (XP, level, stats) to disk so
+// Saves building progression (XP, level, stats) to SQLite so
 // they survive bridge restarts and accumulate over time.
 
-import fs from 'node:fs';
 import path from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+import { db, transaction, importLegacyJson } from './db.mjs';
+import { isSettlement } from './village.mjs';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const STORE_PATH = path.join(__dirname, 'data', 'buildings.json');
+// Pre-SQLite store, imported once on first run
+const LEGACY_PATH = path.join(DATA_DIR, 'buildings.json');
 
 // ── Level System ────────────────────────────────────────
 
@@ -37,8 +38,14 @@ const CAMPFIRE_LEVELS = [
   { level: 10, title: 'Heart of Village',  minXP: 300000 },
 ];
 
+// Any building the village config names levels up; gathering places
+// (ladder: "settlement") use the campfire titles
+function ladderFor(buildingId) {
+  return isSettlement(buildingId) ? CAMPFIRE_LEVELS : BUILDING_LEVELS;
+}
+
 export function getLevel(xp, buildingId) {
-  const levels = buildingId === 'campfire' ? CAMPFIRE_LEVELS : BUILDING_LEVELS;
+  const levels = ladderFor(buildingId);
   for (let i = levels.length - 1; i >= 0; i--) {
     if (xp >= levels[i].minXP) return levels[i];
   }
@@ -46,7 +53,7 @@ export function getLevel(xp, buildingId) {
 }
 
 export function getNextLevel(xp, buildingId) {
-  const levels = buildingId === 'campfire' ? CAMPFIRE_LEVELS : BUILDING_LEVELS;
+  const levels = ladderFor(buildingId);
   for (const lvl of levels) {
     if (xp < lvl.minXP) return lvl;
   }
@@ -63,30 +70,82 @@ export function calculateXP(profile) {
 }
 
 // ── Store ───────────────────────────────────────────────
+// Cached in memory, written back to SQLite (see db.mjs) for the
+// buildings that changed since the last save.
 
 let store = { buildings: {} };
+const dirty = new Set();
+
+const upsertBuilding = db.prepare(`
+  INSERT INTO buildings (id, tool_calls, input_bytes, output_bytes, total_visits, first_activity, last_activity)
+  VALUES (:id, :toolCalls, :inputBytes, :outputBytes, :totalVisits, :firstActivity, :lastActivity)
+  ON CONFLICT (id) DO UPDATE SET
+    tool_calls = excluded.tool_calls, input_bytes = excluded.input_bytes,
+    output_bytes = excluded.output_bytes, total_visits = excluded.total_visits,
+    first_activity = excluded.first_activity, last_activity = excluded.last_activity
+`);
+const insertVisitor = db.prepare(
+  'INSERT OR IGNORE INTO building_visitors (building_id, agent_id) VALUES (?, ?)',
+);
+
+function writeBuilding(id, profile) {
+  upsertBuilding.run({
+    id,
+    toolCalls: profile.toolCalls || 0,
+    inputBytes: profile.totalInputBytes || 0,
+    outputBytes: profile.totalOutputBytes || 0,
+    totalVisits: profile.totalVisits || 0,
+    firstActivity: profile.firstActivity ?? null,
+    lastActivity: profile.lastActivity ?? null,
+  });
+  for (const agentId of profile.uniqueVisitors || []) insertVisitor.run(id, agentId);
+}
+
+// First run after the switch to SQLite: bring over buildings.json
+importLegacyJson(LEGACY_PATH, (data) => {
+  const entries = Object.entries(data.buildings || {});
+  for (const [id, profile] of entries) writeBuilding(id, profile);
+  return entries.length;
+});
 
 try {
-  if (fs.existsSync(STORE_PATH)) {
-    store = JSON.parse(fs.readFileSync(STORE_PATH, 'utf-8'));
+  const visitors = new Map();
+  for (const row of db.prepare('SELECT building_id, agent_id FROM building_visitors').all()) {
+    if (!visitors.has(row.building_id)) visitors.set(row.building_id, []);
+    visitors.get(row.building_id).push(row.agent_id);
   }
-} catch {
-  console.log('  ⚠ Could not load building store, starting fresh');
+  for (const row of db.prepare('SELECT * FROM buildings').all()) {
+    store.buildings[row.id] = {
+      toolCalls: row.tool_calls,
+      totalInputBytes: row.input_bytes,
+      totalOutputBytes: row.output_bytes,
+      uniqueVisitors: visitors.get(row.id) || [],
+      totalVisits: row.total_visits,
+      firstActivity: row.first_activity,
+      lastActivity: row.last_activity,
+    };
+  }
+} catch (err) {
+  console.log(`  ⚠ Could not load building store, starting fresh: ${err.message}`);
 }
 
 function save() {
+  if (!dirty.size) return;
   try {
-    fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
-    const tmpPath = STORE_PATH + '.tmp';
-    fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2));
-    fs.renameSync(tmpPath, STORE_PATH);
+    transaction(() => {
+      for (const id of dirty) {
+        if (store.buildings[id]) writeBuilding(id, store.buildings[id]);
+      }
+    });
+    dirty.clear();
   } catch (err) {
     console.log(`  ⚠ Building save failed: ${err.message}`);
   }
 }
 
 let saveTimer = null;
-function debouncedSave() {
+function debouncedSave(buildingId) {
+  dirty.add(buildingId);
   if (saveTimer) return;
   saveTimer = setTimeout(() => {
     save();
@@ -96,8 +155,9 @@ function debouncedSave() {
 
 /**
  * Get or create a persistent building profile.
+ * `timestamp` lets replayed (spooled) heartbeats keep their original time.
  */
-export function getProfile(buildingId) {
+export function getProfile(buildingId, timestamp = Date.now()) {
   if (!store.buildings[buildingId]) {
     store.buildings[buildingId] = {
       toolCalls: 0,
@@ -105,38 +165,43 @@ export function getProfile(buildingId) {
       totalOutputBytes: 0,
       uniqueVisitors: [],
       totalVisits: 0,
-      firstActivity: Date.now(),
-      lastActivity: Date.now(),
+      firstActivity: timestamp,
+      lastActivity: timestamp,
     };
-    debouncedSave();
+    debouncedSave(buildingId);
   }
   return store.buildings[buildingId];
 }
 
+function touch(profile, timestamp) {
+  profile.firstActivity = Math.min(profile.firstActivity ?? timestamp, timestamp);
+  profile.lastActivity = Math.max(profile.lastActivity ?? timestamp, timestamp);
+}
+
 /**
  * Record a tool use from an agent working in this building.
  */
-export function recordActivity(buildingId, toolCalls, inputBytes, outputBytes) {
-  const profile = getProfile(buildingId);
+export function recordActivity(buildingId, toolCalls, inputBytes, outputBytes, timestamp = Date.now()) {
+  const profile = getProfile(buildingId, timestamp);
   profile.toolCalls += toolCalls;
   profile.totalInputBytes += inputBytes;
   profile.totalOutputBytes += outputBytes;
-  profile.lastActivity = Date.now();
-  debouncedSave();
+  touch(profile, timestamp);
+  debouncedSave(buildingId);
 }
 
 /**
  * Record an agent visit (for campfire XP and unique visitor tracking).
  */
-export function recordVisit(buildingId, agentId) {
-  const profile = getProfile(buildingId);
+export function recordVisit(buildingId, agentId, timestamp = Date.now()) {
+  const profile = getProfile(buildingId, timestamp);
   profile.totalVisits = (profile.totalVisits || 0) + 1;
   if (!profile.uniqueVisitors) profile.uniqueVisitors = [];
   if (!profile.uniqueVisitors.includes(agentId)) {
     profile.uniqueVisitors.push(agentId);
   }
-  profile.lastActivity = Date.now();
-  debouncedSave();
+  touch(profile, timestamp);
+  debouncedSave(buildingId);
 }
 
 /**
@@ -4,7 +4,13 @@
  */
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { getLevel, getNextLevel, calculateXP } from './buildingStore.mjs';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Keep the database out of server/data
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-buildings-'));
+const { getLevel, getNextLevel, calculateXP } = await import('./buildingStore.mjs');
 
 // ── getLevel ─────────────────────────────────────────────
 
@@ -54,6 +60,14 @@ describe('getLevel()', () => {
     assert.equal(lvl.title, 'Heart of Village');
   });
 
+  it('should use campfire titles for other settlements like the tavern', () => {
+    assert.equal(getLevel(500, 'tavern').title, 'Meeting Place');
+  });
+
+  it('should level buildings it has never heard of', () => {
+    assert.equal(getLevel(100, 'harbor').title, 'Workshop');
+  });
+
   it('should handle mid-level XP correctly (level 5 at 4000)', () => {
     const lvl = getLevel(4000, 'forge');
     assert.equal(lvl.level, 5);
@@ -0,0 +1,296 @@
+// ── Tool Classifier ──────────────────────────────────────
+// Turns a raw tool call ({ tool, toolInput } on a heartbeat) into
+// an activity, a speech-bubble detail and a building, using rules
+// the user can edit without touching any installed hook copy.
+//
+// Built-in rules live in rules.default.json. A data/rules.json
+// (same shape) is layered on top: its rules are tried first and
+// its `buildings` map ({ activity: buildingId }) takes precedence
+// over the village config. The file is re-read when it changes,
+// so edits apply without restarting the bridge.
+//
+// Rule fields (all given conditions must match, first match wins):
+//   tool      tool name or list of names, `*` wildcards allowed
+//   command   regex tested against toolInput.command
+//   files     glob or list of globs tested against the file path
+//   activity  resulting activity (required)
+//   detail    template, e.g. "{file}" — see renderDetail()
+//
+// The files' `approvals` section lists risky calls that wait for a
+// verdict from the dashboard (see approvals.mjs). Its rules match
+// the same way and carry a `reason` instead of an activity; user
+// rules come first and the user's timeout/onTimeout win. Set
+// `"enabled": false` in the user file to turn approvals off.
+//
+// The `stuck` section holds the thresholds of the stuck detector
+// (see stuckDetector.mjs); the user's values win, and
+// `"enabled": false` turns it off.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+import { buildingForActivity } from './village.mjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_RULES_PATH = path.join(__dirname, 'rules.default.json');
+const USER_RULES_PATH = path.join(DATA_DIR, 'rules.json');
+const RELOAD_INTERVAL = 2000; // how often to check the user file for changes
+const MAX_DETAIL = 60;
+// The hook's PreToolUse timeout in the connect scripts is 150s; if
+// Claude Code kills the hook first, the call goes ahead unchecked
+const MAX_APPROVAL_TIMEOUT = 140;
+const ON_TIMEOUT = ['allow', 'deny', 'ask'];
+
+// ── Matching ─────────────────────────────────────────────
+
+// Glob → RegExp. `**` spans directories, `*` and `?` don't; `{a,b}` alternates.
+export function globToRegExp(glob) {
+  let re = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      re += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      re += '(?:';
+      braces++;
+    } else if (c === '}' && braces > 0) {
+      re += ')';
+      braces--;
+    } else if (c === ',' && braces > 0) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  // Anchored at a path segment, so `*.ts` matches a file name in any
+  // directory and `src/**` matches any src directory
+  return new RegExp(`(?:^|/)${re}$`);
+}
+
+const toList = (value) => (Array.isArray(value) ? value : [value]);
+
+function compilePatterns(rule) {
+  return {
+    ...rule,
+    toolPatterns: rule.tool ? toList(rule.tool).map(globToRegExp) : null,
+    commandPattern: rule.command ? new RegExp(rule.command) : null,
+    filePatterns: rule.files ? toList(rule.files).map(globToRegExp) : null,
+  };
+}
+
+/**
+ * Precompile a rule's patterns. Throws on an invalid regex.
+ */
+export function compileRule(rule) {
+  if (!rule || typeof rule.activity !== 'string') {
+    throw new Error('rule needs an activity');
+  }
+  return compilePatterns(rule);
+}
+
+/**
+ * Precompile an approval rule. It needs at least one condition, so
+ * a typo can't put every tool call on hold.
+ */
+export function compileApprovalRule(rule) {
+  if (!rule || !(rule.tool || rule.command || rule.files)) {
+    throw new Error('approval rule needs a tool, command or files condition');
+  }
+  return compilePatterns(rule);
+}
+
+function filePathOf(toolInput) {
+  return toolInput.file_path || toolInput.notebook_path || toolInput.path || '';
+}
+
+function matches(rule, tool, toolInput) {
+  if (rule.toolPatterns && !rule.toolPatterns.some(re => re.test(tool))) return false;
+  if (rule.commandPattern && !rule.commandPattern.test(toolInput.command || '')) return false;
+  if (rule.filePatterns) {
+    const file = filePathOf(toolInput).replace(/\\/g, '/');
+    if (!file || !rule.filePatterns.some(re => re.test(file))) return false;
+  }
+  return true;
+}
+
+// ── Detail templates ─────────────────────────────────────
+
+function truncate(text) {
+  const oneLine = String(text).replace(/\s+/g, ' ').trim();
+  return oneLine.length > MAX_DETAIL ? `${oneLine.slice(0, MAX_DETAIL - 1)}…` : oneLine;
+}
+
+function hostOf(url) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url || '';
+  }
+}
+
+/**
+ * Fill a detail template. Placeholders: {tool} {file} {path} {command}
+ * {pattern} {query} {url} {host} {description}; unknown or missing
+ * values render as empty.
+ */
+export function renderDetail(template, tool, toolInput = {}) {
+  const file = filePathOf(toolInput);
+  const values = {
+    tool,
+    file: file ? path.basename(file) : '',
+    path: file,
+    command: toolInput.command || '',
+    pattern: toolInput.pattern || '',
+    query: toolInput.query || '',
+    url: toolInput.url || '',
+    host: toolInput.url ? hostOf(toolInput.url) : '',
+    description: toolInput.description || '',
+  };
+  return truncate(template.replace(/\{(\w+)\}/g, (_, key) => values[key] ?? ''));
+}
+
+// ── Rule sets ────────────────────────────────────────────
+
+function readApprovals(section = {}) {
+  const { timeout, onTimeout } = section;
+  if (timeout !== undefined && !(Number.isFinite(timeout) && timeout > 0)) {
+    throw new Error('approvals.timeout must be a positive number of seconds');
+  }
+  if (onTimeout !== undefined && !ON_TIMEOUT.includes(onTimeout)) {
+    throw new Error(`approvals.onTimeout must be one of ${ON_TIMEOUT.join(', ')}`);
+  }
+  return {
+    enabled: section.enabled !== false,
+    rules: (section.rules || []).map(compileApprovalRule),
+    timeout: timeout === undefined ? undefined : Math.min(timeout, MAX_APPROVAL_TIMEOUT),
+    onTimeout,
+  };
+}
+
+const STUCK_THRESHOLDS = ['repeats', 'oscillations', 'quietMinutes'];
+
+function readStuck(section = {}) {
+  for (const key of STUCK_THRESHOLDS) {
+    const value = section[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`stuck.${key} must be a positive number`);
+    }
+  }
+  return { ...section, enabled: section.enabled !== false };
+}
+
+function readRuleFile(file) {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  return {
+    rules: (parsed.rules || []).map(compileRule),
+    buildings: parsed.buildings || {},
+    approvals: readApprovals(parsed.approvals),
+    stuck: readStuck(parsed.stuck),
+  };
+}
+
+const NO_APPROVALS = { enabled: true, rules: [] };
+const NO_STUCK = { enabled: true };
+const defaults = readRuleFile(DEFAULT_RULES_PATH);
+let user = { rules: [], buildings: {}, approvals: NO_APPROVALS, stuck: NO_STUCK };
+let userMtime = 0;
+let lastCheck = 0;
+
+function refreshUserRules(now = Date.now()) {
+  if (now - lastCheck < RELOAD_INTERVAL) return;
+  lastCheck = now;
+
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(USER_RULES_PATH).mtimeMs;
+  } catch {
+    // No user rules file
+  }
+  if (mtime === userMtime) return;
+  userMtime = mtime;
+
+  if (!mtime) {
+    user = { rules: [], buildings: {}, approvals: NO_APPROVALS, stuck: NO_STUCK };
+    return;
+  }
+  try {
+    user = readRuleFile(USER_RULES_PATH);
+    console.log(`  📜 Loaded ${user.rules.length} classification rules from ${USER_RULES_PATH}`);
+  } catch (err) {
+    // Keep the previous rules rather than breaking classification
+    console.log(`  ⚠ Ignoring ${USER_RULES_PATH}: ${err.message}`);
+  }
+}
+
+/**
+ * Classify a tool call. Returns { activity, detail } or null when
+ * no rule matches.
+ */
+export function classify(tool, toolInput = {}) {
+  if (!tool) return null;
+  refreshUserRules();
+  for (const rule of [...user.rules, ...defaults.rules]) {
+    if (matches(rule, tool, toolInput)) {
+      return {
+        activity: rule.activity,
+        detail: rule.detail ? renderDetail(rule.detail, tool, toolInput) : '',
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a tool call needs the dashboard's approval. Returns
+ * { reason, timeout, onTimeout } (timeout in ms) or null.
+ */
+export function approvalFor(tool, toolInput = {}) {
+  if (!tool) return null;
+  refreshUserRules();
+  if (!user.approvals.enabled) return null;
+  const rule = [...user.approvals.rules, ...defaults.approvals.rules]
+    .find(r => matches(r, tool, toolInput));
+  if (!rule) return null;
+  return {
+    reason: rule.reason || 'Needs approval',
+    timeout: (user.approvals.timeout ?? defaults.approvals.timeout) * 1000,
+    onTimeout: user.approvals.onTimeout ?? defaults.approvals.onTimeout,
+  };
+}
+
+/**
+ * Thresholds of the stuck detector: { repeats, oscillations,
+ * quietMinutes }, or null when it's turned off.
+ */
+export function stuckThresholds() {
+  refreshUserRules();
+  if (!user.stuck.enabled) return null;
+  const thresholds = {};
+  for (const key of STUCK_THRESHOLDS) thresholds[key] = user.stuck[key] ?? defaults.stuck[key];
+  return thresholds;
+}
+
+/**
+ * Building an activity takes place in: the rules file's `buildings`
+ * map, then the village config, then the campfire.
+ */
+export function buildingFor(activity) {
+  refreshUserRules();
+  return user.buildings[activity] || defaults.buildings[activity] || buildingForActivity(activity) || 'campfire';
+}
+
+// Export for testing
+export { USER_RULES_PATH };
+export function reloadRules() {
+  lastCheck = 0;
+  userMtime = -1;
+  refreshUserRules();
+}
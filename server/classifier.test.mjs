@@ -0,0 +1,206 @@
+/**
+ * Tests for the tool classifier (globs, rules, templates, user rules file).
+ * Run: node --test server/classifier.test.mjs
+ */
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Point the user rules file at a throwaway directory before the module loads
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-rules-'));
+const {
+  globToRegExp, compileRule, compileApprovalRule, renderDetail, classify, buildingFor, approvalFor,
+  stuckThresholds, reloadRules, USER_RULES_PATH,
+} = await import('./classifier.mjs');
+
+function writeUserRules(rules) {
+  fs.writeFileSync(USER_RULES_PATH, JSON.stringify(rules));
+  reloadRules();
+}
+
+describe('globToRegExp', () => {
+  it('should match file names in any directory', () => {
+    assert.ok(globToRegExp('*.ts').test('/repo/src/App.ts'));
+    assert.ok(!globToRegExp('*.ts').test('/repo/src/App.tsx'));
+  });
+
+  it('should let ** span directories', () => {
+    const re = globToRegExp('src/**/*.test.ts');
+    assert.ok(re.test('/repo/src/a.test.ts'));
+    assert.ok(re.test('/repo/src/hooks/deep/a.test.ts'));
+    assert.ok(!re.test('/repo/lib/a.test.ts'));
+  });
+
+  it('should support ? and {a,b}', () => {
+    assert.ok(globToRegExp('Dockerfile.{dev,prod}').test('/x/Dockerfile.prod'));
+    assert.ok(globToRegExp('v?.json').test('v2.json'));
+    assert.ok(!globToRegExp('a,b').test('a'));
+  });
+
+  it('should treat regex characters literally', () => {
+    assert.ok(globToRegExp('a+b(1).md').test('a+b(1).md'));
+  });
+});
+
+describe('compileRule', () => {
+  it('should reject rules without an activity', () => {
+    assert.throws(() => compileRule({ tool: 'Bash' }), /activity/);
+  });
+
+  it('should reject invalid command regexes', () => {
+    assert.throws(() => compileRule({ tool: 'Bash', command: '(', activity: 'coding' }));
+  });
+});
+
+describe('renderDetail', () => {
+  it('should fill placeholders from the tool input', () => {
+    assert.equal(renderDetail('{file} in {tool}', 'Edit', { file_path: '/repo/src/App.tsx' }), 'App.tsx in Edit');
+    assert.equal(renderDetail('{host}', 'WebFetch', { url: 'https://nodejs.org/api' }), 'nodejs.org');
+  });
+
+  it('should render unknown or missing values as empty and truncate', () => {
+    assert.equal(renderDetail('{nope}{query}', 'WebSearch', {}), '');
+    assert.equal(renderDetail('{command}', 'Bash', { command: 'x'.repeat(100) }).length, 60);
+  });
+});
+
+describe('classify (default rules)', () => {
+  it('should classify tools like the hook does', () => {
+    assert.deepEqual(classify('Edit', { file_path: '/repo/App.tsx' }), { activity: 'coding', detail: 'App.tsx' });
+    assert.deepEqual(classify('Bash', { command: 'npm test' }), { activity: 'testing', detail: 'npm test' });
+    assert.deepEqual(classify('Bash', { command: 'ls -la' }), { activity: 'coding', detail: 'ls -la' });
+    assert.deepEqual(classify('Grep', { pattern: 'TODO' }), { activity: 'researching', detail: 'TODO' });
+    assert.deepEqual(classify('Task', { description: 'Explore' }), { activity: 'planning', detail: 'Explore' });
+    assert.equal(classify('mcp__github__list_prs', {}).activity, 'researching');
+  });
+
+  it('should return null for unknown or missing tools', () => {
+    assert.equal(classify('BrandNewTool', {}), null);
+    assert.equal(classify(undefined), null);
+  });
+
+  it('should map activities to buildings', () => {
+    assert.equal(buildingFor('coding'), 'forge');
+    assert.equal(buildingFor('reviewing'), 'tower');
+    assert.equal(buildingFor('something-else'), 'campfire');
+  });
+});
+
+describe('classify (user rules)', () => {
+  afterEach(() => {
+    fs.rmSync(USER_RULES_PATH, { force: true });
+    reloadRules();
+  });
+
+  it('should try user rules before the defaults', () => {
+    writeUserRules({
+      rules: [
+        { tool: 'Bash', command: '^\\s*(docker|kubectl)\\b', activity: 'deploy', detail: 'shipping: {command}' },
+        { tool: 'Bash', command: '^git diff', activity: 'reviewing', detail: '{command}' },
+      ],
+      buildings: { deploy: 'forge' },
+    });
+
+    assert.deepEqual(classify('Bash', { command: 'kubectl apply -f x.yaml' }), { activity: 'deploy', detail: 'shipping: kubectl apply -f x.yaml' });
+    assert.equal(classify('Bash', { command: 'git diff HEAD' }).activity, 'reviewing');
+    assert.equal(classify('Bash', { command: 'npm test' }).activity, 'testing');
+    assert.equal(buildingFor('deploy'), 'forge');
+  });
+
+  it('should match file globs', () => {
+    writeUserRules({ rules: [{ tool: ['Edit', 'Write'], files: ['**/*.test.*', '**/__tests__/**'], activity: 'testing', detail: '{file}' }] });
+
+    assert.equal(classify('Edit', { file_path: '/repo/src/a.test.ts' }).activity, 'testing');
+    assert.equal(classify('Write', { file_path: '/repo/__tests__/x/y.js' }).activity, 'testing');
+    assert.equal(classify('Edit', { file_path: '/repo/src/a.ts' }).activity, 'coding');
+  });
+
+  it('should keep working when the user file is invalid', () => {
+    fs.writeFileSync(USER_RULES_PATH, '{ not json');
+    reloadRules();
+    assert.equal(classify('Edit', { file_path: '/a.ts' }).activity, 'coding');
+  });
+
+  it('should drop user rules when the file is removed', () => {
+    writeUserRules({ rules: [{ tool: 'Read', activity: 'reviewing' }] });
+    assert.equal(classify('Read', {}).activity, 'reviewing');
+
+    fs.rmSync(USER_RULES_PATH);
+    reloadRules();
+    assert.equal(classify('Read', {}).activity, 'researching');
+  });
+});
+
+describe('approvalFor', () => {
+  afterEach(() => {
+    fs.rmSync(USER_RULES_PATH, { force: true });
+    reloadRules();
+  });
+
+  it('should flag the risky calls in the default rules', () => {
+    assert.equal(approvalFor('Bash', { command: 'rm -rf node_modules' }).reason, 'Recursive delete');
+    assert.equal(approvalFor('Bash', { command: 'cd x && rm -fr build' }).reason, 'Recursive delete');
+    assert.equal(approvalFor('Bash', { command: 'git push --force origin main' }).reason, 'Force push');
+    assert.equal(approvalFor('Bash', { command: 'git push -f' }).reason, 'Force push');
+    assert.equal(approvalFor('Edit', { file_path: '/repo/db/migrations/001_init.sql' }).reason, 'Migration edit');
+  });
+
+  it('should let ordinary calls through', () => {
+    assert.equal(approvalFor('Bash', { command: 'rm build.log' }), null);
+    assert.equal(approvalFor('Bash', { command: 'git push origin main' }), null);
+    assert.equal(approvalFor('Read', { file_path: '/repo/db/migrations/001_init.sql' }), null);
+    assert.equal(approvalFor(undefined), null);
+  });
+
+  it('should report the timeout in ms and the timeout policy', () => {
+    assert.deepEqual(approvalFor('Bash', { command: 'rm -rf x' }), { reason: 'Recursive delete', timeout: 120_000, onTimeout: 'deny' });
+  });
+
+  it('should add user rules and settings, capping the timeout', () => {
+    writeUserRules({
+      approvals: { timeout: 600, onTimeout: 'ask', rules: [{ tool: 'Bash', command: '^kubectl delete', reason: 'Cluster delete' }] },
+    });
+    assert.deepEqual(approvalFor('Bash', { command: 'kubectl delete pod x' }), { reason: 'Cluster delete', timeout: 140_000, onTimeout: 'ask' });
+    assert.equal(approvalFor('Bash', { command: 'rm -rf x' }).reason, 'Recursive delete');
+  });
+
+  it('should turn approvals off when the user file disables them', () => {
+    writeUserRules({ approvals: { enabled: false } });
+    assert.equal(approvalFor('Bash', { command: 'rm -rf x' }), null);
+  });
+
+  it('should reject approval rules without a condition', () => {
+    assert.throws(() => compileApprovalRule({ reason: 'everything' }), /condition/);
+  });
+});
+
+describe('stuckThresholds', () => {
+  afterEach(() => {
+    fs.rmSync(USER_RULES_PATH, { force: true });
+    reloadRules();
+  });
+
+  it('should use the default thresholds', () => {
+    assert.deepEqual(stuckThresholds(), { repeats: 10, oscillations: 12, quietMinutes: 5 });
+  });
+
+  it('should let the user file change some of them', () => {
+    writeUserRules({ stuck: { repeats: 30 } });
+    assert.deepEqual(stuckThresholds(), { repeats: 30, oscillations: 12, quietMinutes: 5 });
+  });
+
+  it('should be null when turned off', () => {
+    writeUserRules({ stuck: { enabled: false } });
+    assert.equal(stuckThresholds(), null);
+  });
+
+  it('should keep the previous thresholds when one is invalid', () => {
+    writeUserRules({ stuck: { repeats: 30 } });
+    fs.writeFileSync(USER_RULES_PATH, JSON.stringify({ stuck: { repeats: 0 } }));
+    fs.utimesSync(USER_RULES_PATH, new Date(), new Date(Date.now() + 5000));
+    reloadRules();
+    assert.equal(stuckThresholds().repeats, 30);
+  });
+});
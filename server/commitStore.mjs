@@ -0,0 +1,85 @@
+// ── Commit Store ─────────────────────────────────────────
+// Commits agents made, per agent and clan: sha, branch, message and
+// how many files, insertions and deletions they changed. A commit
+// can be reported twice — from the Bash output (short sha) and from
+// the post-commit hook (full sha) — so a sha that matches one
+// already stored in the clan is merged into it instead.
+
+import { db } from './db.mjs';
+
+const MAX_MESSAGE = 200;
+
+const insertCommit = db.prepare(`
+  INSERT INTO commits (sha, agent_id, clan, branch, message, files, insertions, deletions, committed_at)
+  VALUES (:sha, :agentId, :clan, :branch, :message, :files, :insertions, :deletions, :committedAt)
+  RETURNING id
+`);
+// Either sha may be the abbreviated one
+const findCommit = db.prepare(`
+  SELECT * FROM commits
+  WHERE clan IS :clan AND (sha LIKE :sha || '%' OR :sha LIKE sha || '%')
+  ORDER BY committed_at DESC LIMIT 1
+`);
+const lengthenSha = db.prepare('UPDATE commits SET sha = ? WHERE id = ?');
+
+function toCommit(row) {
+  return {
+    id: row.id,
+    sha: row.sha,
+    agentId: row.agent_id,
+    clan: row.clan,
+    branch: row.branch,
+    message: row.message,
+    files: row.files,
+    insertions: row.insertions,
+    deletions: row.deletions,
+    committedAt: row.committed_at,
+  };
+}
+
+/**
+ * Record a commit ({ sha, clan, branch, message, files, insertions,
+ * deletions }) for an agent. Returns the stored commit, or null when
+ * the clan already has it.
+ */
+export function recordCommit(agentId, { sha, clan, branch, message, files, insertions, deletions }, timestamp = Date.now()) {
+  if (typeof sha !== 'string' || !/^[0-9a-f]{7,40}$/.test(sha)) return null;
+  const known = findCommit.get({ clan: clan || null, sha });
+  if (known) {
+    if (sha.length > known.sha.length) lengthenSha.run(sha, known.id);
+    return null;
+  }
+
+  const commit = {
+    sha,
+    agentId,
+    clan: clan || null,
+    branch: branch || null,
+    message: typeof message === 'string' ? message.slice(0, MAX_MESSAGE) : null,
+    files: parseInt(files) || 0,
+    insertions: parseInt(insertions) || 0,
+    deletions: parseInt(deletions) || 0,
+    committedAt: timestamp,
+  };
+  const { id } = insertCommit.get(commit);
+  return { id, ...commit };
+}
+
+/**
+ * Commits, newest first. Filters: agent, clan, from/to (epoch ms).
+ */
+export function getCommits({ agent, clan, from = 0, to = Number.MAX_SAFE_INTEGER, limit = 100 } = {}) {
+  const where = ['committed_at >= :from', 'committed_at <= :to'];
+  const params = { from, to, limit };
+  if (agent) {
+    where.push('agent_id = :agent');
+    params.agent = agent;
+  }
+  if (clan) {
+    where.push('clan = :clan');
+    params.clan = clan;
+  }
+  return db.prepare(`
+    SELECT * FROM commits WHERE ${where.join(' AND ')} ORDER BY committed_at DESC, id DESC LIMIT :limit
+  `).all(params).map(toCommit);
+}
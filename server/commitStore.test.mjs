@@ -0,0 +1,55 @@
+/**
+ * Tests for the commit store.
+ * Run: node --test server/commitStore.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-commits-'));
+const { recordCommit, getCommits } = await import('./commitStore.mjs');
+
+const FULL_SHA = '9f8e7d6c5b4a39281706f5e4d3c2b1a098765432';
+
+describe('recordCommit', () => {
+  it('should store a commit and return it', () => {
+    const commit = recordCommit('claude-a', {
+      sha: '5c2f495', clan: 'shop', branch: 'main', message: 'Fix cart', files: 2, insertions: 14, deletions: 3,
+    }, 1000);
+    assert.ok(commit.id > 0);
+    assert.equal(commit.sha, '5c2f495');
+    assert.equal(commit.committedAt, 1000);
+  });
+
+  it('should merge the same commit reported with a short and a full sha', () => {
+    assert.ok(recordCommit('claude-a', { sha: '9f8e7d6', clan: 'shop', message: 'Coupons' }, 2000));
+    assert.equal(recordCommit('claude-a', { sha: FULL_SHA, clan: 'shop', message: 'Coupons' }, 2001), null);
+    assert.equal(recordCommit('claude-a', { sha: '9f8e7d6c', clan: 'shop' }, 2002), null);
+
+    const [latest] = getCommits({ clan: 'shop' });
+    assert.equal(latest.sha, FULL_SHA);
+    assert.equal(latest.committedAt, 2000);
+  });
+
+  it('should keep the same sha in another clan apart', () => {
+    assert.ok(recordCommit('claude-b', { sha: '5c2f495', clan: 'fork' }, 3000));
+  });
+
+  it('should reject anything that is not a sha', () => {
+    assert.equal(recordCommit('claude-a', { sha: 'HEAD', clan: 'shop' }), null);
+    assert.equal(recordCommit('claude-a', { clan: 'shop' }), null);
+  });
+});
+
+describe('getCommits', () => {
+  it('should list commits newest first, by agent, clan and time', () => {
+    assert.deepEqual(getCommits().map(c => c.committedAt), [3000, 2000, 1000]);
+    assert.deepEqual(getCommits({ agent: 'claude-a' }).map(c => c.message), ['Coupons', 'Fix cart']);
+    assert.deepEqual(getCommits({ clan: 'fork' }).map(c => c.agentId), ['claude-b']);
+    assert.deepEqual(getCommits({ from: 1500, to: 2500 }).map(c => c.committedAt), [2000]);
+    assert.equal(getCommits({ limit: 1 }).length, 1);
+  });
+});
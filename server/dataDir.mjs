@@ -0,0 +1,10 @@
+// ── Data Directory ───────────────────────────────────────
+// Where the bridge keeps everything it persists. Override with
+// AGENTVILLE_DATA_DIR (the integration tests point it at a temp dir).
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DATA_DIR = process.env.AGENTVILLE_DATA_DIR || path.join(__dirname, 'data');
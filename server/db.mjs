@@ -0,0 +1,227 @@
+// ── Database ─────────────────────────────────────────────
+// SQLite database (node:sqlite, no dependencies) behind the agent
+// and building stores. Each store keeps its rows cached in memory
+// and writes only what changed, instead of re-serialising one big
+// JSON file on every save.
+//
+// Tables:
+//   agents             one row per agent profile
+//   achievements       achievements each agent unlocked, and when (see achievements.mjs)
+//   sessions           one row per agent session (see sessionStore.mjs)
+//   activities         every activity change (full history)
+//   buildings          per-building stats
+//   building_visitors  which agents have visited which building
+//   clan_costs         spend per clan and day (see budgets.mjs)
+//   files              per-file edit/read counts and last editor
+//   file_readers       which agents read each file, and when
+//   file_touches       every read or edit, by agent (see fileStore.mjs)
+//   test_runs          one row per parsed test run (see testRunStore.mjs)
+//   commits            one row per commit an agent made (see commitStore.mjs)
+//   usage_events       tool calls, bytes and tokens per heartbeat (see analytics.mjs)
+//   replayed           ids of spooled entries already replayed (see spool.mjs)
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { DATA_DIR } from './dataDir.mjs';
+
+export const DB_PATH = path.join(DATA_DIR, 'agentville.db');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS agents (
+    id                    TEXT PRIMARY KEY,
+    name                  TEXT,
+    clan                  TEXT,
+    parent_id             TEXT,
+    tool_calls            INTEGER NOT NULL DEFAULT 0,
+    input_bytes           INTEGER NOT NULL DEFAULT 0,
+    output_bytes          INTEGER NOT NULL DEFAULT 0,
+    legacy_bytes          INTEGER NOT NULL DEFAULT 0,
+    input_tokens          INTEGER NOT NULL DEFAULT 0,
+    output_tokens         INTEGER NOT NULL DEFAULT 0,
+    cache_read_tokens     INTEGER NOT NULL DEFAULT 0,
+    cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+    model                 TEXT,
+    cost                  REAL NOT NULL DEFAULT 0,
+    sessions              INTEGER NOT NULL DEFAULT 0,
+    sub_agents_spawned    INTEGER NOT NULL DEFAULT 0,
+    first_seen            INTEGER,
+    last_seen             INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS achievements (
+    agent_id       TEXT NOT NULL,
+    achievement_id TEXT NOT NULL,
+    unlocked_at    INTEGER NOT NULL,
+    PRIMARY KEY (agent_id, achievement_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id   TEXT NOT NULL,
+    clan       TEXT,
+    project    TEXT,
+    parent_id  TEXT,
+    started_at INTEGER NOT NULL,
+    ended_at   INTEGER,
+    last_seen  INTEGER,
+    tool_calls INTEGER NOT NULL DEFAULT 0,
+    sub_agents INTEGER NOT NULL DEFAULT 0,
+    outcome    TEXT,
+    cost       REAL NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS sessions_agent ON sessions (agent_id, started_at);
+  CREATE INDEX IF NOT EXISTS sessions_started ON sessions (started_at);
+
+  CREATE TABLE IF NOT EXISTS activities (
+    id        INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id  TEXT NOT NULL,
+    activity  TEXT NOT NULL,
+    detail    TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS activities_agent ON activities (agent_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS buildings (
+    id             TEXT PRIMARY KEY,
+    tool_calls     INTEGER NOT NULL DEFAULT 0,
+    input_bytes    INTEGER NOT NULL DEFAULT 0,
+    output_bytes   INTEGER NOT NULL DEFAULT 0,
+    total_visits   INTEGER NOT NULL DEFAULT 0,
+    first_activity INTEGER,
+    last_activity  INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS building_visitors (
+    building_id TEXT NOT NULL,
+    agent_id    TEXT NOT NULL,
+    PRIMARY KEY (building_id, agent_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS files (
+    project     TEXT NOT NULL,
+    path        TEXT NOT NULL,
+    edits       INTEGER NOT NULL DEFAULT 0,
+    reads       INTEGER NOT NULL DEFAULT 0,
+    last_editor TEXT,
+    last_edited INTEGER,
+    last_read   INTEGER,
+    PRIMARY KEY (project, path)
+  );
+
+  CREATE TABLE IF NOT EXISTS file_readers (
+    project  TEXT NOT NULL,
+    path     TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    read_at  INTEGER NOT NULL,
+    PRIMARY KEY (project, path, agent_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS file_touches (
+    agent_id   TEXT NOT NULL,
+    project    TEXT NOT NULL,
+    path       TEXT NOT NULL,
+    kind       TEXT NOT NULL,
+    touched_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS file_touches_time ON file_touches (touched_at);
+
+  CREATE TABLE IF NOT EXISTS clan_costs (
+    clan TEXT NOT NULL,
+    day  TEXT NOT NULL,
+    cost REAL NOT NULL DEFAULT 0,
+    PRIMARY KEY (clan, day)
+  );
+
+  CREATE TABLE IF NOT EXISTS test_runs (
+    id       INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id TEXT NOT NULL,
+    clan     TEXT,
+    runner   TEXT NOT NULL,
+    command  TEXT,
+    passed   INTEGER NOT NULL DEFAULT 0,
+    failed   INTEGER NOT NULL DEFAULT 0,
+    skipped  INTEGER NOT NULL DEFAULT 0,
+    duration INTEGER,
+    ran_at   INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS test_runs_agent ON test_runs (agent_id, ran_at);
+  CREATE INDEX IF NOT EXISTS test_runs_clan ON test_runs (clan, ran_at);
+
+  CREATE TABLE IF NOT EXISTS commits (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    sha          TEXT NOT NULL,
+    agent_id     TEXT NOT NULL,
+    clan         TEXT,
+    branch       TEXT,
+    message      TEXT,
+    files        INTEGER NOT NULL DEFAULT 0,
+    insertions   INTEGER NOT NULL DEFAULT 0,
+    deletions    INTEGER NOT NULL DEFAULT 0,
+    committed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS commits_agent ON commits (agent_id, committed_at);
+  CREATE INDEX IF NOT EXISTS commits_clan ON commits (clan, committed_at);
+  CREATE INDEX IF NOT EXISTS commits_sha ON commits (sha);
+
+  CREATE TABLE IF NOT EXISTS usage_events (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent_id      TEXT NOT NULL,
+    clan          TEXT,
+    activity      TEXT NOT NULL,
+    building      TEXT,
+    tool_calls    INTEGER NOT NULL DEFAULT 0,
+    input_bytes   INTEGER NOT NULL DEFAULT 0,
+    output_bytes  INTEGER NOT NULL DEFAULT 0,
+    input_tokens  INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost          REAL NOT NULL DEFAULT 0,
+    timestamp     INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS usage_events_time ON usage_events (timestamp);
+
+  CREATE TABLE IF NOT EXISTS replayed (
+    id          TEXT PRIMARY KEY,
+    replayed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS replayed_time ON replayed (replayed_at);
+`;
+
+fs.mkdirSync(DATA_DIR, { recursive: true });
+
+export const db = new DatabaseSync(DB_PATH);
+db.exec('PRAGMA journal_mode = WAL');
+db.exec('PRAGMA synchronous = NORMAL');
+db.exec(SCHEMA);
+
+/**
+ * Run `fn` inside a transaction (rolled back if it throws).
+ */
+export function transaction(fn) {
+  db.exec('BEGIN');
+  try {
+    const result = fn();
+    db.exec('COMMIT');
+    return result;
+  } catch (err) {
+    db.exec('ROLLBACK');
+    throw err;
+  }
+}
+
+/**
+ * One-time import of a legacy JSON store. Runs `importer(data)` in a
+ * transaction, then renames the file to `<name>.imported` so it isn't
+ * imported twice (and stays around as a backup).
+ */
+export function importLegacyJson(file, importer) {
+  if (!fs.existsSync(file)) return;
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const count = transaction(() => importer(data));
+    fs.renameSync(file, `${file}.imported`);
+    console.log(`  📦 Imported ${count} records from ${path.basename(file)}`);
+  } catch (err) {
+    console.log(`  ⚠ Could not import ${path.basename(file)}: ${err.message}`);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Tests for the SQLite storage layer: legacy JSON import and
+ * profiles surviving a restart (modules re-imported fresh).
+ * Run: node --test server/db.test.mjs
+ */
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-db-'));
+process.env.AGENTVILLE_DATA_DIR = DATA_DIR;
+
+// Stores as the pre-SQLite bridge left them
+fs.writeFileSync(path.join(DATA_DIR, 'agents.json'), JSON.stringify({
+  agents: {
+    'claude-legacy': {
+      name: 'Oldbeard', clan: 'legacy', toolCalls: 120, totalInputBytes: 4000, totalOutputBytes: 6000,
+      sessions: 3, subAgentsSpawned: 2, parentId: null, firstSeen: 1000, lastSeen: 9000,
+      recentActivity: [
+        { activity: 'coding', detail: 'a.ts', timestamp: 2000 },
+        { activity: 'testing', detail: 'npm test', timestamp: 3000 },
+      ],
+    },
+    'claude-ancient': { name: 'Ancient', toolCalls: 5, totalBytes: 10000, sessions: 1, firstSeen: 500, lastSeen: 600 },
+  },
+}));
+fs.writeFileSync(path.join(DATA_DIR, 'buildings.json'), JSON.stringify({
+  buildings: {
+    forge: {
+      toolCalls: 80, totalInputBytes: 0, totalOutputBytes: 0, uniqueVisitors: ['claude-legacy', 'claude-ancient'],
+      totalVisits: 20, firstActivity: 1000, lastActivity: 9000,
+    },
+  },
+}));
+
+let agentStore;
+let buildingStore;
+let restart = 0;
+
+// Fresh module instances read everything back from the database
+async function reload() {
+  restart++;
+  agentStore = await import(`./agentStore.mjs?restart=${restart}`);
+  buildingStore = await import(`./buildingStore.mjs?restart=${restart}`);
+}
+
+before(reload);
+
+describe('legacy JSON import', () => {
+  it('should import agent profiles and their recent activity', () => {
+    const p = agentStore.getEnrichedProfile('claude-legacy');
+    assert.equal(p.name, 'Oldbeard');
+    assert.equal(p.clan, 'legacy');
+    assert.equal(p.toolCalls, 120);
+    assert.equal(p.sessions, 3);
+    assert.equal(p.subAgentsSpawned, 2);
+    assert.equal(p.firstSeen, 1000);
+    assert.deepEqual(p.recentActivity.map(a => a.detail), ['a.ts', 'npm test']);
+  });
+
+  it('should keep legacy totalBytes', () => {
+    const p = agentStore.getEnrichedProfile('claude-ancient');
+    assert.equal(p.totalInputBytes, 5000);
+    assert.equal(p.totalOutputBytes, 5000);
+  });
+
+  it('should import building stats and visitors', () => {
+    const b = buildingStore.getEnrichedProfile('forge');
+    assert.equal(b.toolCalls, 80);
+    assert.equal(b.totalVisits, 20);
+    assert.equal(b.uniqueVisitors, 2);
+  });
+
+  it('should rename the JSON files so they are imported only once', () => {
+    assert.ok(!fs.existsSync(path.join(DATA_DIR, 'agents.json')));
+    assert.ok(fs.existsSync(path.join(DATA_DIR, 'agents.json.imported')));
+    assert.ok(fs.existsSync(path.join(DATA_DIR, 'buildings.json.imported')));
+  });
+});
+
+describe('persistence', () => {
+  it('should keep changes across a restart', async () => {
+    agentStore.getProfile('claude-new', 'Newcomer', null, 'fresh', 10_000);
+    agentStore.recordToolUse('claude-new', 11_000);
+    agentStore.recordBytes('claude-new', 100, 200, 11_000);
+    agentStore.recordTokens('claude-new', { inputTokens: 40, outputTokens: 60, cacheReadTokens: 900, model: 'claude-sonnet-4-5' }, 11_000);
+    agentStore.recordSession('claude-new');
+    buildingStore.recordActivity('arena', 1, 50, 0, 11_000);
+    buildingStore.recordVisit('arena', 'claude-new', 11_000);
+    process.emit('exit'); // flush the debounced saves
+
+    await reload();
+    const p = agentStore.getEnrichedProfile('claude-new');
+    assert.equal(p.name, 'Newcomer');
+    assert.equal(p.toolCalls, 1);
+    assert.equal(p.totalOutputBytes, 200);
+    assert.equal(p.totalOutputTokens, 60);
+    assert.equal(p.totalCacheReadTokens, 900);
+    assert.equal(p.model, 'claude-sonnet-4-5');
+    assert.equal(p.sessions, 1);
+    assert.equal(p.lastSeen, 11_000);
+
+    const arena = buildingStore.getEnrichedProfile('arena');
+    assert.equal(arena.toolCalls, 1);
+    assert.equal(arena.uniqueVisitors, 1);
+  });
+
+  it('should keep the full activity history, not just the recent entries', async () => {
+    agentStore.getProfile('claude-busy', 'Busybody', null, null, 0);
+    for (let i = 0; i < 30; i++) {
+      agentStore.recordActivity('claude-busy', 'coding', `file-${i}.ts`, 1000 + i);
+    }
+
+    const history = agentStore.getActivityHistory('claude-busy');
+    assert.equal(history.length, 30);
+    assert.equal(history[0].detail, 'file-0.ts');
+    assert.equal(agentStore.getActivityHistory('claude-busy', 1020, 1024).length, 5);
+
+    await reload();
+    const p = agentStore.getEnrichedProfile('claude-busy');
+    assert.equal(p.recentActivity.length, 20);
+    assert.equal(p.recentActivity[0].detail, 'file-10.ts');
+    assert.equal(p.recentActivity[19].detail, 'file-29.ts');
+  });
+});
@@ -0,0 +1,129 @@
+// ── Event Log ────────────────────────────────────────────
+// Append-only log of every event the bridge broadcasts. Each
+// entry gets a monotonically increasing id (sent as the SSE
+// `id:` field) so a reconnecting dashboard can resume exactly
+// where it left off instead of receiving a fresh state dump.
+//
+// Entries are written as JSON lines into one file per UTC day:
+//   data/events/2025-01-31.log  →  {"id":42,"timestamp":...,"event":{...}}
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { DATA_DIR } from './dataDir.mjs';
+
+const LOG_DIR = path.join(DATA_DIR, 'events');
+const MAX_BUFFER = 5000;     // recent entries kept in memory for fast resume
+const RETENTION_DAYS = 30;   // older day files are pruned on startup
+
+let lastId = 0;
+let buffer = [];
+
+function dayKey(timestamp) {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function logFiles() {
+  try {
+    return fs.readdirSync(LOG_DIR).filter(f => /^\d{4}-\d{2}-\d{2}\.log$/.test(f)).sort();
+  } catch {
+    return [];
+  }
+}
+
+function readEntries(file) {
+  const entries = [];
+  let text;
+  try {
+    text = fs.readFileSync(path.join(LOG_DIR, file), 'utf-8');
+  } catch {
+    return entries;
+  }
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Torn write from a crash — skip the line
+    }
+  }
+  return entries;
+}
+
+// ── Startup: prune old days, restore the id counter and buffer ──
+
+const cutoff = dayKey(Date.now() - RETENTION_DAYS * 86_400_000);
+for (const file of logFiles()) {
+  if (file.slice(0, 10) < cutoff) {
+    try { fs.unlinkSync(path.join(LOG_DIR, file)); } catch { /* ignore */ }
+  }
+}
+
+// Replayed spool entries go to the day file of their own timestamp,
+// so the newest ids can be in any file, not just the last one
+for (const file of logFiles()) {
+  buffer = buffer.concat(readEntries(file)).sort((a, b) => a.id - b.id).slice(-MAX_BUFFER);
+}
+if (buffer.length > 0) lastId = buffer[buffer.length - 1].id;
+
+/**
+ * Persist an event and return its id.
+ */
+export function appendEvent(event, timestamp = Date.now()) {
+  const entry = { id: ++lastId, timestamp, event };
+  try {
+    fs.mkdirSync(LOG_DIR, { recursive: true });
+    fs.appendFileSync(path.join(LOG_DIR, `${dayKey(timestamp)}.log`), JSON.stringify(entry) + '\n');
+  } catch (err) {
+    console.log(`  ⚠ Event log write failed: ${err.message}`);
+  }
+  buffer.push(entry);
+  if (buffer.length > MAX_BUFFER) buffer = buffer.slice(-MAX_BUFFER);
+  return entry.id;
+}
+
+/**
+ * Id of the most recently logged event (0 if the log is empty).
+ */
+export function getLastEventId() {
+  return lastId;
+}
+
+/**
+ * Entries logged after `id`, oldest first.
+ * Returns null when the gap can't be filled from memory (id too old,
+ * or from a log that no longer exists) — callers should fall back to
+ * sending a full state snapshot.
+ */
+export function getEventsSince(id) {
+  if (!Number.isInteger(id) || id < 0 || id > lastId) return null;
+  if (id === lastId) return [];
+  const oldest = buffer.length > 0 ? buffer[0].id : lastId + 1;
+  if (id < oldest - 1) return null;
+  return buffer.filter(e => e.id > id);
+}
+
+/**
+ * Entries with from <= timestamp <= to, oldest first, read from the
+ * day files on disk. Stops after `limit` entries.
+ */
+export function readRange(from, to, limit = Infinity) {
+  const entries = [];
+  const firstDay = dayKey(from);
+  const lastDay = dayKey(to);
+  for (const file of logFiles()) {
+    const day = file.slice(0, 10);
+    if (day < firstDay || day > lastDay) continue;
+    // Replayed spool entries are appended late, so sort within the day
+    const dayEntries = readEntries(file)
+      .filter(entry => entry.timestamp >= from && entry.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    for (const entry of dayEntries) {
+      if (entries.length >= limit) return entries;
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+// Export for testing
+export { LOG_DIR };
@@ -0,0 +1,83 @@
+/**
+ * Tests for the Event Log (ids, persistence, resume window).
+ * Run: node --test server/eventLog.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Point the log at a throwaway directory before the module loads
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-eventlog-'));
+const { appendEvent, getLastEventId, getEventsSince, LOG_DIR } = await import('./eventLog.mjs');
+
+describe('appendEvent', () => {
+  it('should start with an empty log', () => {
+    assert.equal(getLastEventId(), 0);
+  });
+
+  it('should assign monotonically increasing ids', () => {
+    const a = appendEvent({ type: 'agent:spawn', agentId: 'a' });
+    const b = appendEvent({ type: 'agent:work', agentId: 'a' });
+    assert.equal(b, a + 1);
+    assert.equal(getLastEventId(), b);
+  });
+
+  it('should write entries as JSON lines into a per-day file', () => {
+    const ts = Date.UTC(2025, 0, 31, 12);
+    const id = appendEvent({ type: 'agent:despawn', agentId: 'a' }, ts);
+    const lines = fs.readFileSync(path.join(LOG_DIR, '2025-01-31.log'), 'utf-8').trim().split('\n');
+    const entry = JSON.parse(lines[lines.length - 1]);
+    assert.equal(entry.id, id);
+    assert.equal(entry.timestamp, ts);
+    assert.deepEqual(entry.event, { type: 'agent:despawn', agentId: 'a' });
+  });
+});
+
+describe('getEventsSince', () => {
+  it('should return only events after the given id, oldest first', () => {
+    const since = getLastEventId();
+    appendEvent({ type: 'agent:work', agentId: 'b', detail: 'one' });
+    appendEvent({ type: 'agent:work', agentId: 'b', detail: 'two' });
+    const missed = getEventsSince(since);
+    assert.equal(missed.length, 2);
+    assert.equal(missed[0].id, since + 1);
+    assert.equal(missed[0].event.detail, 'one');
+    assert.equal(missed[1].event.detail, 'two');
+  });
+
+  it('should return an empty array when the client is up to date', () => {
+    assert.deepEqual(getEventsSince(getLastEventId()), []);
+  });
+
+  it('should return null for ids from the future (log was reset)', () => {
+    assert.equal(getEventsSince(getLastEventId() + 100), null);
+  });
+
+  it('should return null for invalid ids', () => {
+    assert.equal(getEventsSince(NaN), null);
+    assert.equal(getEventsSince(-1), null);
+    assert.equal(getEventsSince(1.5), null);
+  });
+
+  it('should resume from the very beginning with id 0', () => {
+    const all = getEventsSince(0);
+    assert.equal(all.length, getLastEventId());
+    assert.equal(all[0].id, 1);
+  });
+});
+
+describe('restart', () => {
+  it('should keep counting from ids written to past day files', async () => {
+    appendEvent({ type: 'agent:work', agentId: 'c' });
+    // A heartbeat replayed from the spool, logged under yesterday
+    const replayed = appendEvent({ type: 'agent:work', agentId: 'c', detail: 'replayed' }, Date.now() - 86_400_000);
+    assert.equal(getLastEventId(), replayed);
+
+    const restarted = await import('./eventLog.mjs?restart=1');
+    assert.equal(restarted.getLastEventId(), replayed);
+    assert.deepEqual(restarted.getEventsSince(replayed - 1).map(e => e.event.detail), ['replayed']);
+    assert.equal(restarted.appendEvent({ type: 'agent:work', agentId: 'c' }), replayed + 1);
+  });
+});
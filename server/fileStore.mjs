@@ -0,0 +1,204 @@
+// ── File Store ───────────────────────────────────────────
+// Which files agents touch, across all agents and clans: edit and
+// read counts, who edited each file last and who read it lately.
+// Files are keyed by project and the path the tool call named.
+//
+// Edits are also kept in memory for CONFLICT_WINDOW, so the bridge
+// can warn when two live agents edit the same file at once. Every
+// touch is logged as well, for how many files an agent touched in a
+// period.
+
+import { db, transaction } from './db.mjs';
+
+export const CONFLICT_WINDOW = 300_000; // 5min
+const MAX_READERS = 5;
+
+// ── Store ───────────────────────────────────────────────
+// Cached in memory, written back to SQLite (see db.mjs) for the
+// files that changed since the last save.
+
+const files = new Map(); // `${project}\0${path}` → file
+const dirty = new Set();
+let pendingTouches = [];
+
+const upsertFile = db.prepare(`
+  INSERT INTO files (project, path, edits, reads, last_editor, last_edited, last_read)
+  VALUES (:project, :path, :edits, :reads, :lastEditor, :lastEdited, :lastRead)
+  ON CONFLICT (project, path) DO UPDATE SET
+    edits = excluded.edits, reads = excluded.reads, last_editor = excluded.last_editor,
+    last_edited = excluded.last_edited, last_read = excluded.last_read
+`);
+const upsertReader = db.prepare(`
+  INSERT INTO file_readers (project, path, agent_id, read_at) VALUES (?, ?, ?, ?)
+  ON CONFLICT (project, path, agent_id) DO UPDATE SET read_at = MAX(read_at, excluded.read_at)
+`);
+const insertTouch = db.prepare(`
+  INSERT INTO file_touches (agent_id, project, path, kind, touched_at)
+  VALUES (:agentId, :project, :path, :kind, :touchedAt)
+`);
+
+function keyOf(project, path) {
+  return `${project}\u0000${path}`;
+}
+
+function writeFile(file) {
+  upsertFile.run({
+    project: file.project,
+    path: file.path,
+    edits: file.edits,
+    reads: file.reads,
+    lastEditor: file.lastEditor,
+    lastEdited: file.lastEdited,
+    lastRead: file.lastRead,
+  });
+  for (const [agentId, readAt] of file.readers) upsertReader.run(file.project, file.path, agentId, readAt);
+}
+
+try {
+  for (const row of db.prepare('SELECT * FROM files').all()) {
+    files.set(keyOf(row.project, row.path), {
+      project: row.project,
+      path: row.path,
+      edits: row.edits,
+      reads: row.reads,
+      lastEditor: row.last_editor,
+      lastEdited: row.last_edited,
+      lastRead: row.last_read,
+      readers: new Map(),
+      editors: new Map(),
+      conflicts: new Map(),
+    });
+  }
+  const readers = db.prepare('SELECT * FROM file_readers ORDER BY read_at').all();
+  for (const row of readers) {
+    const file = files.get(keyOf(row.project, row.path));
+    if (file) rememberReader(file, row.agent_id, row.read_at);
+  }
+} catch (err) {
+  console.log(`  ⚠ Could not load file store, starting fresh: ${err.message}`);
+}
+
+function save() {
+  if (!dirty.size && !pendingTouches.length) return;
+  try {
+    transaction(() => {
+      for (const file of dirty) writeFile(file);
+      for (const touch of pendingTouches) insertTouch.run(touch);
+    });
+    dirty.clear();
+    pendingTouches = [];
+  } catch (err) {
+    console.log(`  ⚠ File save failed: ${err.message}`);
+  }
+}
+
+let saveTimer = null;
+function debouncedSave(file) {
+  dirty.add(file);
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    save();
+    saveTimer = null;
+  }, 5000);
+}
+
+// Most recent readers last, at most MAX_READERS of them
+function rememberReader(file, agentId, readAt) {
+  file.readers.delete(agentId);
+  file.readers.set(agentId, readAt);
+  if (file.readers.size > MAX_READERS) file.readers.delete(file.readers.keys().next().value);
+}
+
+function fileFor(project, path) {
+  const key = keyOf(project, path);
+  let file = files.get(key);
+  if (!file) {
+    file = {
+      project, path, edits: 0, reads: 0, lastEditor: null, lastEdited: null, lastRead: null,
+      readers: new Map(), editors: new Map(), conflicts: new Map(),
+    };
+    files.set(key, file);
+  }
+  return file;
+}
+
+/**
+ * Record a file an agent read or edited (`kind` 'read' or 'edit').
+ * For edits, returns the other agents that edited the same file in
+ * the last CONFLICT_WINDOW and are still live (`isLive`), once per
+ * pair and window; otherwise an empty list.
+ */
+export function recordFileTouch(agentId, { project = '', path, kind }, timestamp = Date.now(), isLive = () => true) {
+  if (!path) return [];
+  const file = fileFor(project, path);
+  pendingTouches.push({ agentId, project, path, kind: kind === 'read' ? 'read' : 'edit', touchedAt: timestamp });
+  debouncedSave(file);
+
+  if (kind === 'read') {
+    file.reads++;
+    file.lastRead = Math.max(file.lastRead ?? timestamp, timestamp);
+    rememberReader(file, agentId, timestamp);
+    return [];
+  }
+
+  file.edits++;
+  if (timestamp >= (file.lastEdited ?? 0)) {
+    file.lastEditor = agentId;
+    file.lastEdited = timestamp;
+  }
+  file.editors.set(agentId, timestamp);
+
+  const rivals = [];
+  for (const [otherId, editedAt] of file.editors) {
+    if (timestamp - editedAt > CONFLICT_WINDOW) {
+      file.editors.delete(otherId);
+      continue;
+    }
+    if (otherId === agentId || !isLive(otherId)) continue;
+    const pair = [agentId, otherId].sort().join('\u0000');
+    if (timestamp - (file.conflicts.get(pair) ?? -Infinity) < CONFLICT_WINDOW) continue;
+    file.conflicts.set(pair, timestamp);
+    rivals.push(otherId);
+  }
+  return rivals;
+}
+
+/**
+ * Files, most edited first: [{ project, path, edits, reads,
+ * lastEditor, lastEdited, lastRead, readers: [{ agentId, readAt }] }]
+ * with the most recent readers first.
+ */
+export function getFiles({ project, limit = 100 } = {}) {
+  return [...files.values()]
+    .filter(file => project === undefined || project === null || file.project === project)
+    .sort((a, b) => b.edits - a.edits || b.reads - a.reads || (b.lastEdited ?? 0) - (a.lastEdited ?? 0))
+    .slice(0, limit)
+    .map(file => ({
+      project: file.project,
+      path: file.path,
+      edits: file.edits,
+      reads: file.reads,
+      lastEditor: file.lastEditor,
+      lastEdited: file.lastEdited,
+      lastRead: file.lastRead,
+      readers: [...file.readers].reverse().map(([agentId, readAt]) => ({ agentId, readAt })),
+    }));
+}
+
+/**
+ * How many different files each agent read or edited in [from, to]:
+ * [{ agentId, files }], most files first.
+ */
+export function getFilesTouched({ from = 0, to = Number.MAX_SAFE_INTEGER } = {}) {
+  save(); // include touches still waiting for the debounce
+  return db.prepare(`
+    SELECT agent_id, COUNT(DISTINCT project || char(0) || path) AS files
+    FROM file_touches WHERE touched_at >= :from AND touched_at <= :to
+    GROUP BY agent_id ORDER BY files DESC
+  `).all({ from, to }).map(row => ({ agentId: row.agent_id, files: row.files }));
+}
+
+// Save on process exit
+process.on('exit', save);
+process.on('SIGINT', () => { save(); process.exit(); });
+process.on('SIGTERM', () => { save(); process.exit(); });
@@ -0,0 +1,96 @@
+/**
+ * Tests for the file store (touch counts, readers, edit conflicts).
+ * Run: node --test server/fileStore.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-files-'));
+const { recordFileTouch, getFiles, getFilesTouched, CONFLICT_WINDOW } = await import('./fileStore.mjs');
+
+const edit = (project, file) => ({ project, path: file, kind: 'edit' });
+const read = (project, file) => ({ project, path: file, kind: 'read' });
+
+describe('recordFileTouch', () => {
+  it('should count edits and reads and keep the last editor', () => {
+    recordFileTouch('claude-a', edit('shop', '/work/shop/src/cart.ts'), 1000);
+    recordFileTouch('claude-b', edit('shop', '/work/shop/src/cart.ts'), 3000);
+    recordFileTouch('claude-a', edit('shop', '/work/shop/src/cart.ts'), 2000); // replayed late
+    recordFileTouch('claude-c', read('shop', '/work/shop/src/cart.ts'), 4000);
+
+    const [file] = getFiles({ project: 'shop' });
+    assert.equal(file.path, '/work/shop/src/cart.ts');
+    assert.equal(file.edits, 3);
+    assert.equal(file.reads, 1);
+    assert.equal(file.lastEditor, 'claude-b');
+    assert.equal(file.lastEdited, 3000);
+    assert.equal(file.lastRead, 4000);
+  });
+
+  it('should list recent readers, newest first, at most five', () => {
+    for (let i = 0; i < 7; i++) recordFileTouch(`reader-${i}`, read('docs', '/docs/README.md'), 100 + i);
+    recordFileTouch('reader-3', read('docs', '/docs/README.md'), 200);
+
+    const [file] = getFiles({ project: 'docs' });
+    assert.deepEqual(file.readers.map(r => r.agentId), ['reader-3', 'reader-6', 'reader-5', 'reader-4', 'reader-2']);
+    assert.equal(file.readers[0].readAt, 200);
+  });
+
+  it('should ignore touches without a path', () => {
+    assert.deepEqual(recordFileTouch('claude-a', edit('shop', '')), []);
+  });
+});
+
+describe('edit conflicts', () => {
+  it('should report another live agent editing the same file, once per window', () => {
+    const file = edit('api', '/work/api/server.ts');
+    assert.deepEqual(recordFileTouch('claude-x', file, 10_000), []);
+    assert.deepEqual(recordFileTouch('claude-y', file, 20_000), ['claude-x']);
+    assert.deepEqual(recordFileTouch('claude-x', file, 30_000), []);
+    assert.deepEqual(recordFileTouch('claude-y', file, 20_000 + CONFLICT_WINDOW + 1), ['claude-x']);
+  });
+
+  it('should not report edits older than the window', () => {
+    const file = edit('api', '/work/api/routes.ts');
+    recordFileTouch('claude-x', file, 0);
+    assert.deepEqual(recordFileTouch('claude-y', file, CONFLICT_WINDOW + 1), []);
+  });
+
+  it('should skip agents that are no longer live', () => {
+    const file = edit('api', '/work/api/db.ts');
+    recordFileTouch('claude-gone', file, 1000);
+    assert.deepEqual(recordFileTouch('claude-y', file, 2000, id => id !== 'claude-gone'), []);
+  });
+
+  it('should keep projects apart', () => {
+    recordFileTouch('claude-p', edit('one', 'src/index.ts'), 1000);
+    assert.deepEqual(recordFileTouch('claude-q', edit('two', 'src/index.ts'), 2000), []);
+  });
+});
+
+describe('getFiles', () => {
+  it('should sort by edits and filter by project', () => {
+    const all = getFiles();
+    for (let i = 1; i < all.length; i++) assert.ok(all[i - 1].edits >= all[i].edits);
+    assert.ok(getFiles({ project: 'api' }).every(f => f.project === 'api'));
+    assert.equal(getFiles({ limit: 2 }).length, 2);
+  });
+});
+
+describe('getFilesTouched', () => {
+  it('should count the different files each agent touched in the range', () => {
+    recordFileTouch('toucher-a', edit('web', 'src/a.ts'), 50_000);
+    recordFileTouch('toucher-a', read('web', 'src/a.ts'), 51_000);
+    recordFileTouch('toucher-a', read('web', 'src/b.ts'), 52_000);
+    recordFileTouch('toucher-a', read('docs', 'src/b.ts'), 53_000);
+    recordFileTouch('toucher-b', edit('web', 'src/a.ts'), 90_000);
+
+    const touched = getFilesTouched({ from: 50_000, to: 60_000 });
+    assert.deepEqual(touched, [{ agentId: 'toucher-a', files: 3 }]);
+    assert.deepEqual(getFilesTouched({ from: 80_000, to: 90_000 }), [{ agentId: 'toucher-b', files: 1 }]);
+  });
+});
@@ -0,0 +1,81 @@
+// ── Git Parser ───────────────────────────────────────────
+// Recognise git operations in what a Bash call ran and printed:
+//
+//   commit  "[main 5c2f495] Fix coupon rounding" and its shortstat
+//           ("2 files changed, 14 insertions(+), 3 deletions(-)")
+//   push    "To github.com:acme/shop.git" and the refs it updated
+//   branch  "Switched to a new branch 'feat/search'"
+//
+// The hook sends the start of a git command's output on PostToolUse
+// (see agentville-hook.mjs). Only what git reports as done counts: a
+// rejected push or a commit with nothing to commit is no operation.
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+const GIT_COMMAND = /\bgit\b[^|;&]*\b(commit|push|checkout|switch|merge|cherry-pick|rebase)\b/;
+
+const COMMIT_LINE = /^\[(.+?)(?: \(root-commit\))? ([0-9a-f]{7,40})\] (.*)$/;
+const SHORTSTAT = /^\s*(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?/;
+const PUSH_REMOTE = /^To (\S+)$/;
+// "   1a2b3c4..9f8e7d6  main -> main", " * [new branch]      feat -> feat", " + abc...def  x -> x (forced update)"
+const PUSH_REF = /^ [ +*=-] +(?:[0-9a-f]+\.\.\.?[0-9a-f]+|\[new branch\]|\[new tag\]) +(\S+) -> (\S+)/;
+const NEW_BRANCH = /^Switched to a new branch '(.+)'$/;
+
+/**
+ * Whether a shell command runs a git operation worth parsing.
+ */
+export function isGitCommand(command) {
+  return typeof command === 'string' && GIT_COMMAND.test(command);
+}
+
+/**
+ * Operations in a git command's output, in order:
+ *   { kind: 'commit', sha, branch, message, files, insertions, deletions }
+ *   { kind: 'push', remote, branches }
+ *   { kind: 'branch', branch }
+ */
+export function parseGitOutput(command, output) {
+  if (!isGitCommand(command) || typeof output !== 'string' || !output) return [];
+  const ops = [];
+  let commit = null;
+  let push = null;
+
+  for (const line of output.replace(ANSI, '').split(/\r?\n/)) {
+    const header = COMMIT_LINE.exec(line);
+    if (header) {
+      commit = {
+        kind: 'commit',
+        sha: header[2],
+        branch: header[1] === 'detached HEAD' ? null : header[1],
+        message: header[3].trim(),
+        files: 0,
+        insertions: 0,
+        deletions: 0,
+      };
+      ops.push(commit);
+      continue;
+    }
+    const stat = commit && SHORTSTAT.exec(line);
+    if (stat) {
+      commit.files = Number(stat[1]);
+      commit.insertions = Number(stat[2] || 0);
+      commit.deletions = Number(stat[3] || 0);
+      commit = null;
+      continue;
+    }
+    const remote = PUSH_REMOTE.exec(line);
+    if (remote) {
+      push = { kind: 'push', remote: remote[1], branches: [] };
+      continue;
+    }
+    const ref = push && PUSH_REF.exec(line);
+    if (ref) {
+      if (push.branches.length === 0) ops.push(push);
+      push.branches.push(ref[2]);
+      continue;
+    }
+    const branch = NEW_BRANCH.exec(line);
+    if (branch) ops.push({ kind: 'branch', branch: branch[1] });
+  }
+  return ops;
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for the git output parser, against recorded output in
+ * fixtures/git-output/.
+ * Run: node --test server/gitParser.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { isGitCommand, parseGitOutput } from './gitParser.mjs';
+
+const fixture = (name) => fs.readFileSync(new URL(`./fixtures/git-output/${name}`, import.meta.url), 'utf8');
+
+describe('isGitCommand', () => {
+  it('should spot git operations in a command line', () => {
+    assert.equal(isGitCommand('git commit -m "Fix it"'), true);
+    assert.equal(isGitCommand('git add -A && git commit -qm "x" && git push'), true);
+    assert.equal(isGitCommand('git -C ../shop push origin main'), true);
+    assert.equal(isGitCommand('git checkout -b feat/search'), true);
+  });
+
+  it('should leave other commands alone', () => {
+    assert.equal(isGitCommand('git status'), false);
+    assert.equal(isGitCommand('git log --oneline | grep commit'), false);
+    assert.equal(isGitCommand('npm test'), false);
+    assert.equal(isGitCommand(undefined), false);
+  });
+});
+
+describe('parseGitOutput', () => {
+  it('should read a commit with its shortstat', () => {
+    assert.deepEqual(parseGitOutput('git commit -m "Parse"', fixture('commit.txt')), [{
+      kind: 'commit', sha: '5c2f495', branch: 'main',
+      message: 'Parse test runner summaries and show win/loss banners at the Arena',
+      files: 18, insertions: 912, deletions: 24,
+    }]);
+  });
+
+  it('should read a root commit with only insertions', () => {
+    assert.deepEqual(parseGitOutput('git commit -m "Initial commit"', fixture('commit-root.txt')), [{
+      kind: 'commit', sha: '0a1b2c3', branch: 'feature/login', message: 'Initial commit',
+      files: 1, insertions: 1, deletions: 0,
+    }]);
+  });
+
+  it('should read a commit followed by a push', () => {
+    const ops = parseGitOutput('git commit -am "Fix coupon rounding" && git push', fixture('commit-and-push.txt'));
+    assert.deepEqual(ops.map(op => op.kind), ['commit', 'push']);
+    assert.equal(ops[0].sha, '9f8e7d6');
+    assert.deepEqual(ops[1], { kind: 'push', remote: 'github.com:acme/shop.git', branches: ['feat/cart'] });
+  });
+
+  it('should read a push of a new branch', () => {
+    assert.deepEqual(parseGitOutput('git push -u origin feat/search', fixture('push-new-branch.txt')), [
+      { kind: 'push', remote: 'github.com:acme/shop.git', branches: ['feat/search'] },
+    ]);
+  });
+
+  it('should ignore a rejected push', () => {
+    assert.deepEqual(parseGitOutput('git push', fixture('push-rejected.txt')), []);
+  });
+
+  it('should read a new branch', () => {
+    assert.deepEqual(parseGitOutput('git checkout -b fix/flaky-test', fixture('checkout-new-branch.txt')), [
+      { kind: 'branch', branch: 'fix/flaky-test' },
+    ]);
+  });
+
+  it('should drop the branch of a detached HEAD', () => {
+    const [commit] = parseGitOutput('git commit -m wip', '[detached HEAD 1234567] wip\n 1 file changed, 2 deletions(-)\n');
+    assert.equal(commit.branch, null);
+    assert.equal(commit.deletions, 2);
+  });
+
+  it('should find nothing when there was nothing to commit or no git command', () => {
+    assert.deepEqual(parseGitOutput('git commit -m x', 'nothing to commit, working tree clean'), []);
+    assert.deepEqual(parseGitOutput('cat log.txt', fixture('commit.txt')), []);
+    assert.deepEqual(parseGitOutput('git commit', ''), []);
+  });
+});
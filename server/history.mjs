@@ -0,0 +1,108 @@
+// ── History ──────────────────────────────────────────────
+// Serves recorded event ranges for the dashboard's replay mode.
+// A range starts mid-stream, so we also fold the events just
+// before it into a snapshot (who was in the village, what they
+// were doing, building levels) that the replay starts from.
+
+import { readRange } from './eventLog.mjs';
+
+const SNAPSHOT_LOOKBACK = 24 * 3600_000; // how far back to look for agents alive at `from`
+const MAX_EVENTS = 50_000;
+
+/**
+ * Fold a list of events into the minimal set of events that
+ * recreates the resulting village state.
+ */
+export function buildSnapshot(events) {
+  const agents = new Map();    // agentId → { spawn, work, waiting, approval, offline }
+  const buildings = new Map(); // buildingId → building:state event
+
+  for (const event of events) {
+    const agent = agents.get(event.agentId);
+    switch (event.type) {
+      case 'agent:spawn':
+        agents.set(event.agentId, {
+          spawn: { ...event },
+          work: agent?.work || null,
+          waiting: false,
+          approval: null,
+          offline: !!event.offline,
+        });
+        break;
+      case 'agent:despawn':
+      case 'agent:complete':
+        if (agent) {
+          agent.offline = true;
+          agent.work = null;
+          agent.waiting = false;
+          agent.approval = null;
+        }
+        break;
+      case 'agent:work':
+        if (agent) agent.work = event.activity === 'idle' ? null : event;
+        break;
+      case 'agent:xp':
+      case 'agent:levelup':
+        if (agent) {
+          agent.spawn.level = event.level ?? agent.spawn.level;
+          agent.spawn.title = event.title ?? agent.spawn.title;
+          agent.spawn.xp = event.xp ?? agent.spawn.xp;
+          agent.spawn.nextLevelXP = event.nextLevelXP ?? agent.spawn.nextLevelXP;
+        }
+        break;
+      case 'agent:tokens':
+        if (agent) {
+          agent.spawn.totalInputBytes = event.totalInputBytes ?? agent.spawn.totalInputBytes;
+          agent.spawn.totalOutputBytes = event.totalOutputBytes ?? agent.spawn.totalOutputBytes;
+          agent.spawn.totalInputTokens = event.totalInputTokens ?? agent.spawn.totalInputTokens;
+          agent.spawn.totalOutputTokens = event.totalOutputTokens ?? agent.spawn.totalOutputTokens;
+          agent.spawn.totalCacheReadTokens = event.totalCacheReadTokens ?? agent.spawn.totalCacheReadTokens;
+          agent.spawn.totalCacheCreationTokens = event.totalCacheCreationTokens ?? agent.spawn.totalCacheCreationTokens;
+          agent.spawn.model = event.model ?? agent.spawn.model;
+          agent.spawn.totalCost = event.totalCost ?? agent.spawn.totalCost;
+        }
+        break;
+      case 'agent:waiting':
+        if (agent) agent.waiting = !!event.waiting;
+        break;
+      case 'agent:approval':
+        if (agent) agent.approval = event.approval || null;
+        break;
+      case 'agent:rename':
+        if (agent) agent.spawn.agentName = event.agentName;
+        break;
+      case 'building:xp':
+      case 'building:state':
+        buildings.set(event.buildingId, { ...event, type: 'building:state' });
+        break;
+    }
+  }
+
+  const snapshot = [];
+  for (const [agentId, agent] of agents) {
+    snapshot.push({ ...agent.spawn, offline: agent.offline || undefined });
+    if (agent.offline) continue;
+    if (agent.work) snapshot.push(agent.work);
+    if (agent.waiting) snapshot.push({ type: 'agent:waiting', agentId, waiting: true });
+    if (agent.approval) snapshot.push({ type: 'agent:approval', agentId, approval: agent.approval });
+  }
+  snapshot.push(...buildings.values());
+  return snapshot;
+}
+
+/**
+ * Recorded events between `from` and `to` (ms timestamps), plus a
+ * snapshot of the village as it was at `from`.
+ */
+export function getHistory(from, to) {
+  const before = readRange(from - SNAPSHOT_LOOKBACK, from - 1).map(e => e.event);
+  const events = readRange(from, to, MAX_EVENTS + 1);
+  const truncated = events.length > MAX_EVENTS;
+  return {
+    from,
+    to,
+    snapshot: buildSnapshot(before),
+    events: truncated ? events.slice(0, MAX_EVENTS) : events,
+    truncated,
+  };
+}
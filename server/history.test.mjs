@@ -0,0 +1,144 @@
+/**
+ * Tests for replay history (snapshot folding, range reads).
+ * Run: node --test server/history.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-history-'));
+const { buildSnapshot, getHistory } = await import('./history.mjs');
+const { appendEvent, readRange } = await import('./eventLog.mjs');
+
+// ── buildSnapshot ────────────────────────────────────────
+
+describe('buildSnapshot', () => {
+  it('should return an empty snapshot for no events', () => {
+    assert.deepEqual(buildSnapshot([]), []);
+  });
+
+  it('should keep the spawn and latest work of a live agent', () => {
+    const snapshot = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a', agentName: 'Grimin' },
+      { type: 'agent:work', agentId: 'a', activity: 'coding', detail: 'a.ts' },
+      { type: 'agent:work', agentId: 'a', activity: 'testing', detail: 'npm test' },
+    ]);
+    assert.equal(snapshot.length, 2);
+    assert.equal(snapshot[0].type, 'agent:spawn');
+    assert.equal(snapshot[1].activity, 'testing');
+  });
+
+  it('should merge xp and token updates into the spawn event', () => {
+    const [spawn] = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a', level: 1, xp: 0, totalInputBytes: 0 },
+      { type: 'agent:xp', agentId: 'a', level: 2, title: 'Journeyman', xp: 60, nextLevelXP: 200 },
+      { type: 'agent:tokens', agentId: 'a', totalInputBytes: 500, totalOutputBytes: 900 },
+    ]);
+    assert.equal(spawn.level, 2);
+    assert.equal(spawn.title, 'Journeyman');
+    assert.equal(spawn.xp, 60);
+    assert.equal(spawn.totalInputBytes, 500);
+    assert.equal(spawn.totalOutputBytes, 900);
+  });
+
+  it('should turn despawned agents into offline residents without work', () => {
+    const snapshot = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a' },
+      { type: 'agent:work', agentId: 'a', activity: 'coding' },
+      { type: 'agent:despawn', agentId: 'a' },
+    ]);
+    assert.equal(snapshot.length, 1);
+    assert.equal(snapshot[0].offline, true);
+  });
+
+  it('should drop work when the agent went idle', () => {
+    const snapshot = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a' },
+      { type: 'agent:work', agentId: 'a', activity: 'coding' },
+      { type: 'agent:work', agentId: 'a', activity: 'idle' },
+    ]);
+    assert.equal(snapshot.length, 1);
+  });
+
+  it('should carry the waiting flag', () => {
+    const snapshot = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a' },
+      { type: 'agent:waiting', agentId: 'a', waiting: true },
+    ]);
+    assert.deepEqual(snapshot[1], { type: 'agent:waiting', agentId: 'a', waiting: true });
+  });
+
+  it('should carry a pending approval until it is settled', () => {
+    const approval = { id: 1, tool: 'Bash', detail: 'rm -rf build', reason: 'Recursive delete' };
+    const pending = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a' },
+      { type: 'agent:approval', agentId: 'a', approval },
+    ]);
+    assert.deepEqual(pending[1], { type: 'agent:approval', agentId: 'a', approval });
+
+    const settled = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a' },
+      { type: 'agent:approval', agentId: 'a', approval },
+      { type: 'agent:approval', agentId: 'a', approval: null, decision: 'allow' },
+    ]);
+    assert.equal(settled.length, 1);
+  });
+
+  it('should apply renames to the spawn event', () => {
+    const [spawn] = buildSnapshot([
+      { type: 'agent:spawn', agentId: 'a', agentName: 'Grimin' },
+      { type: 'agent:rename', agentId: 'a', agentName: 'Reviewer' },
+    ]);
+    assert.equal(spawn.agentName, 'Reviewer');
+  });
+
+  it('should ignore events for agents it never saw spawn', () => {
+    assert.deepEqual(buildSnapshot([{ type: 'agent:work', agentId: 'ghost', activity: 'coding' }]), []);
+  });
+
+  it('should keep the latest state of each building', () => {
+    const snapshot = buildSnapshot([
+      { type: 'building:xp', buildingId: 'forge', level: 1, xp: 90 },
+      { type: 'building:xp', buildingId: 'forge', level: 2, xp: 110 },
+    ]);
+    assert.equal(snapshot.length, 1);
+    assert.equal(snapshot[0].type, 'building:state');
+    assert.equal(snapshot[0].level, 2);
+  });
+});
+
+// ── getHistory ───────────────────────────────────────────
+
+describe('getHistory', () => {
+  const t0 = Date.UTC(2025, 2, 10, 3, 0);
+
+  appendEvent({ type: 'agent:spawn', agentId: 'night-owl', agentName: 'Brokdur' }, t0 - 60_000);
+  appendEvent({ type: 'agent:work', agentId: 'night-owl', activity: 'coding', detail: 'db.ts' }, t0 - 30_000);
+  appendEvent({ type: 'agent:work', agentId: 'night-owl', activity: 'testing', detail: 'vitest' }, t0 + 10 * 60_000);
+  appendEvent({ type: 'agent:despawn', agentId: 'night-owl' }, t0 + 20 * 60_000);
+
+  it('should return only events inside the range', () => {
+    const history = getHistory(t0, t0 + 15 * 60_000);
+    assert.equal(history.events.length, 1);
+    assert.equal(history.events[0].event.activity, 'testing');
+    assert.equal(history.events[0].timestamp, t0 + 10 * 60_000);
+    assert.equal(history.truncated, false);
+  });
+
+  it('should include a snapshot of agents active at the start', () => {
+    const history = getHistory(t0, t0 + 15 * 60_000);
+    assert.equal(history.snapshot[0].type, 'agent:spawn');
+    assert.equal(history.snapshot[0].agentId, 'night-owl');
+    assert.equal(history.snapshot[1].detail, 'db.ts');
+  });
+
+  it('should read ranges that span several day files', () => {
+    const late = Date.UTC(2025, 2, 11, 0, 5);
+    appendEvent({ type: 'agent:spawn', agentId: 'next-day' }, late);
+    const entries = readRange(t0, late);
+    assert.equal(entries.length, 3);
+    assert.equal(entries[2].event.agentId, 'next-day');
+  });
+});
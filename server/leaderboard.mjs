@@ -0,0 +1,94 @@
+// ── Leaderboard ──────────────────────────────────────────
+// Agents ranked by one metric over a period: today, this week (from
+// Monday) or this month, in a time zone, or all time. All-time boards
+// list every resident; period boards add up what the stores recorded
+// in the period and list only the agents that scored, so a sub-agent
+// spawned this morning can top today's board.
+
+import { getAllProfiles, calculateXP } from './agentStore.mjs';
+import { getUsageByAgent, bucketStart, bucketLabel, DEFAULT_TIME_ZONE } from './analytics.mjs';
+import { getTestTotals } from './testRunStore.mjs';
+import { getFilesTouched } from './fileStore.mjs';
+import { getSessionCounts } from './sessionStore.mjs';
+
+export const PERIODS = ['today', 'week', 'month', 'all'];
+export const METRICS = ['xp', 'toolCalls', 'testsPassed', 'filesTouched', 'tokens', 'sessions', 'subAgents'];
+export const MAX_LIMIT = 200;
+
+// All-time scores the profile already keeps; the rest come from the stores
+const PROFILE_SCORES = {
+  xp: (p) => p.xp,
+  toolCalls: (p) => p.toolCalls,
+  tokens: (p) => p.totalInputTokens + p.totalOutputTokens + p.totalCacheReadTokens + p.totalCacheCreationTokens,
+  sessions: (p) => p.sessions,
+  subAgents: (p) => p.subAgentsSpawned,
+};
+
+/**
+ * Start (epoch ms) of the period `now` falls in: local midnight today,
+ * on Monday or on the 1st of the month. 0 for 'all'.
+ */
+export function periodStart(period, now = Date.now(), timeZone = DEFAULT_TIME_ZONE) {
+  if (period === 'all') return 0;
+  let start = bucketStart(now, 'day', timeZone);
+  const [year, month, day] = bucketLabel(start, 'day', timeZone).split('-').map(Number);
+  let back = 0;
+  if (period === 'week') back = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  if (period === 'month') back = day - 1;
+  // Day by day, since the days in between can be 23 or 25 hours long
+  for (let i = 0; i < back; i++) start = bucketStart(start - 1, 'day', timeZone);
+  return start;
+}
+
+// agentId → score, for the agents that scored in [from, to]
+function storeScores(metric, from, to) {
+  const scores = new Map();
+  switch (metric) {
+    case 'xp':
+    case 'toolCalls':
+    case 'tokens':
+      for (const u of getUsageByAgent({ from, to })) {
+        const xp = calculateXP({ toolCalls: u.toolCalls, totalInputBytes: u.inputBytes, totalOutputBytes: u.outputBytes });
+        scores.set(u.agentId, metric === 'xp' ? xp : metric === 'toolCalls' ? u.toolCalls : u.inputTokens + u.outputTokens);
+      }
+      break;
+    case 'testsPassed':
+      for (const t of getTestTotals({ by: 'agent', from, to })) scores.set(t.agentId, t.passed);
+      break;
+    case 'filesTouched':
+      for (const f of getFilesTouched({ from, to })) scores.set(f.agentId, f.files);
+      break;
+    case 'sessions':
+    case 'subAgents':
+      for (const c of getSessionCounts({ from, to })) scores.set(c.agentId, c[metric]);
+      break;
+  }
+  return scores;
+}
+
+/**
+ * One page of the board for `period` and `metric`, optionally for one
+ * clan ('' for agents without one): { from, total, leaderboard:
+ * [{ ...profile, score, rank }] }, highest score first. Ties share a
+ * rank and are ordered by XP.
+ */
+export function getLeaderboard({
+  period = 'all', metric = 'xp', clan, offset = 0, limit = 50, now = Date.now(), timeZone = DEFAULT_TIME_ZONE,
+} = {}) {
+  const from = periodStart(period, now, timeZone);
+  const fromProfile = period === 'all' ? PROFILE_SCORES[metric] : undefined;
+  const scores = fromProfile ? null : storeScores(metric, from, now);
+
+  const ranked = getAllProfiles()
+    .filter(p => clan === undefined || clan === null || (p.clan || '') === clan)
+    .map(p => ({ ...p, score: fromProfile ? fromProfile(p) : scores.get(p.agentId) || 0 }))
+    .filter(p => period === 'all' || p.score > 0)
+    .sort((a, b) => b.score - a.score || b.xp - a.xp || a.agentId.localeCompare(b.agentId));
+
+  let rank = 0;
+  const withRanks = ranked.map((entry, i) => {
+    if (i === 0 || entry.score !== ranked[i - 1].score) rank = i + 1;
+    return { ...entry, rank };
+  });
+  return { from, total: ranked.length, leaderboard: withRanks.slice(offset, offset + limit) };
+}
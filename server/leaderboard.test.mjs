@@ -0,0 +1,110 @@
+/**
+ * Tests for leaderboards (periods, metrics, clans, pages).
+ * Run: node --test server/leaderboard.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-leaderboard-'));
+const { getLeaderboard, periodStart } = await import('./leaderboard.mjs');
+const { getProfile, recordToolUse, recordSession, recordSubAgentSpawn } = await import('./agentStore.mjs');
+const { recordUsageEvent } = await import('./analytics.mjs');
+const { recordTestRun } = await import('./testRunStore.mjs');
+const { recordFileTouch } = await import('./fileStore.mjs');
+const { startSession } = await import('./sessionStore.mjs');
+
+const NY = 'America/New_York';
+const at = (iso) => Date.parse(iso);
+// A Wednesday, three days after the clocks went forward
+const NOW = at('2026-03-11T12:00:00-04:00');
+const ids = (board) => board.leaderboard.map(e => e.agentId);
+
+describe('periodStart', () => {
+  it('should start today, this week and this month at local midnight', () => {
+    assert.equal(periodStart('today', NOW, NY), at('2026-03-11T00:00:00-04:00'));
+    assert.equal(periodStart('week', NOW, NY), at('2026-03-09T00:00:00-04:00'));
+    assert.equal(periodStart('month', NOW, NY), at('2026-03-01T00:00:00-05:00'));
+    assert.equal(periodStart('all', NOW, NY), 0);
+  });
+
+  it('should start the week on Monday, even on a Sunday', () => {
+    assert.equal(periodStart('week', at('2026-03-15T23:00:00-04:00'), NY), at('2026-03-09T00:00:00-04:00'));
+    assert.equal(periodStart('week', at('2026-03-09T00:30:00-04:00'), NY), at('2026-03-09T00:00:00-04:00'));
+  });
+});
+
+describe('getLeaderboard', () => {
+  // A veteran with lots of lifetime XP, quiet this week
+  getProfile('veteran', 'Durin', null, 'shop', at('2026-01-05T10:00:00-05:00'));
+  for (let i = 0; i < 30; i++) recordToolUse('veteran', at('2026-01-05T10:00:00-05:00'));
+  recordSession('veteran');
+  recordUsageEvent('veteran', { clan: 'shop', activity: 'coding', toolCalls: 30 }, at('2026-01-05T10:00:00-05:00'));
+  recordUsageEvent('veteran', { clan: 'shop', activity: 'coding', toolCalls: 1 }, at('2026-03-02T10:00:00-05:00'));
+
+  // A new sub-agent, busy today
+  getProfile('newcomer', 'Fili', 'veteran', 'shop', at('2026-03-11T09:00:00-04:00'));
+  for (let i = 0; i < 5; i++) recordToolUse('newcomer', at('2026-03-11T09:00:00-04:00'));
+  recordSubAgentSpawn('veteran');
+  recordUsageEvent('newcomer', { clan: 'shop', activity: 'coding', toolCalls: 5, outputBytes: 10_000, outputTokens: 700 }, at('2026-03-11T09:00:00-04:00'));
+  recordTestRun('newcomer', { clan: 'shop', runner: 'vitest', passed: 12 }, at('2026-03-11T09:30:00-04:00'));
+  recordFileTouch('newcomer', { project: 'shop', path: 'src/a.ts', kind: 'edit' }, at('2026-03-11T09:10:00-04:00'));
+  recordFileTouch('newcomer', { project: 'shop', path: 'src/b.ts', kind: 'read' }, at('2026-03-11T09:20:00-04:00'));
+  startSession('newcomer', { clan: 'shop', parentId: 'veteran' }, at('2026-03-11T09:00:00-04:00'));
+
+  // Someone from another clan, busy yesterday
+  getProfile('docs-writer', 'Nori', null, 'docs', at('2026-03-10T15:00:00-04:00'));
+  for (let i = 0; i < 3; i++) recordToolUse('docs-writer', at('2026-03-10T15:00:00-04:00'));
+  recordUsageEvent('docs-writer', { clan: 'docs', activity: 'coding', toolCalls: 3, inputTokens: 5000 }, at('2026-03-10T15:00:00-04:00'));
+  recordTestRun('docs-writer', { clan: 'docs', runner: 'pytest', passed: 4 }, at('2026-03-10T15:10:00-04:00'));
+
+  const board = (options) => getLeaderboard({ now: NOW, timeZone: NY, ...options });
+
+  it('should rank every resident by lifetime XP by default', () => {
+    const all = board();
+    assert.deepEqual(ids(all), ['veteran', 'newcomer', 'docs-writer']);
+    assert.equal(all.total, 3);
+    assert.deepEqual(all.leaderboard.map(e => e.score), all.leaderboard.map(e => e.xp));
+    assert.deepEqual(all.leaderboard.map(e => e.rank), [1, 2, 3]);
+  });
+
+  it('should only list agents that scored in a period', () => {
+    const today = board({ period: 'today' });
+    assert.deepEqual(ids(today), ['newcomer']);
+    assert.equal(today.leaderboard[0].score, 5 + 2); // tool calls + a point per 5000 bytes
+    assert.equal(today.from, at('2026-03-11T00:00:00-04:00'));
+
+    assert.deepEqual(ids(board({ period: 'week', metric: 'toolCalls' })), ['newcomer', 'docs-writer']);
+    assert.deepEqual(board({ period: 'month', metric: 'toolCalls' }).leaderboard.map(e => [e.agentId, e.score]), [
+      ['newcomer', 5], ['docs-writer', 3], ['veteran', 1],
+    ]);
+  });
+
+  it('should rank by tests passed, files touched, tokens, sessions and sub-agents', () => {
+    const scores = (metric, period = 'week') => board({ period, metric }).leaderboard.map(e => [e.agentId, e.score]);
+    assert.deepEqual(scores('testsPassed'), [['newcomer', 12], ['docs-writer', 4]]);
+    assert.deepEqual(scores('filesTouched'), [['newcomer', 2]]);
+    assert.deepEqual(scores('tokens'), [['docs-writer', 5000], ['newcomer', 700]]);
+    assert.deepEqual(scores('sessions'), [['newcomer', 1]]);
+    assert.deepEqual(scores('subAgents'), [['veteran', 1]]);
+    assert.deepEqual(scores('subAgents', 'all').slice(0, 1), [['veteran', 1]]);
+  });
+
+  it('should filter by clan and page through the board', () => {
+    assert.deepEqual(ids(board({ clan: 'docs' })), ['docs-writer']);
+    assert.deepEqual(ids(board({ clan: '' })), []);
+    const page = board({ offset: 1, limit: 1 });
+    assert.deepEqual(ids(page), ['newcomer']);
+    assert.equal(page.leaderboard[0].rank, 2);
+    assert.equal(page.total, 3);
+  });
+
+  it('should give ties the same rank', () => {
+    const sessions = board({ metric: 'sessions' }).leaderboard;
+    assert.equal(sessions[0].agentId, 'veteran');
+    assert.deepEqual(sessions.map(e => e.rank), [1, 2, 2]);
+  });
+});
@@ -0,0 +1,127 @@
+// ── Prometheus Metrics ───────────────────────────────────
+// GET /metrics in the Prometheus text exposition format (0.0.4).
+//
+// Counters that only the bridge sees (requests, heartbeats,
+// despawns) are kept here; everything else is read from the live
+// agents Map and the stores at scrape time. Totals are labelled by
+// clan rather than by agent to keep the series count small.
+
+const counters = new Map(); // name → Map(labelKey → { labels, value })
+
+const COUNTERS = {
+  agentville_http_requests_total: 'HTTP requests by route and status code.',
+  agentville_heartbeats_total: 'Heartbeats processed (live and replayed from the spool).',
+  agentville_despawns_total: 'Agents despawned, by reason (ended, timeout).',
+  agentville_approvals_total: 'Settled approval requests, by decision (allow, deny, timeout, cancelled).',
+  agentville_otlp_spans_total: 'Spans received on /v1/traces.',
+  agentville_stuck_total: 'Agents flagged as stuck, by kind (repeat, oscillate, quiet).',
+  agentville_test_runs_total: 'Parsed test runs, by runner and outcome (green, red).',
+  agentville_commits_total: 'Commits made by agents, by clan.',
+};
+
+/**
+ * Add to a counter kept by the bridge (see COUNTERS).
+ */
+export function inc(name, labels = {}, by = 1) {
+  if (!counters.has(name)) counters.set(name, new Map());
+  const series = counters.get(name);
+  const key = JSON.stringify(labels);
+  const entry = series.get(key) || { labels, value: 0 };
+  entry.value += by;
+  series.set(key, entry);
+}
+
+// Routes with their own request series; anything else is "other"
+const ROUTES = new Set([
+  '/events', '/ws', '/metrics', '/api/heartbeat', '/api/event', '/api/batch', '/api/approval',
+  '/api/status', '/api/history', '/api/leaderboard', '/api/achievements', '/api/sessions', '/api/costs',
+  '/api/village', '/api/files', '/api/tests', '/api/commits', '/api/commit', '/api/analytics', '/v1/traces',
+]);
+
+export function routeLabel(pathname) {
+  if (ROUTES.has(pathname)) return pathname;
+  return pathname.startsWith('/api/ingest/') ? '/api/ingest/:source' : 'other';
+}
+
+// ── Exposition format ────────────────────────────────────
+
+function escapeLabel(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function family(lines, name, type, help, samples) {
+  lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} ${type}`);
+  for (const { labels = {}, value } of samples) {
+    lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+// Sum `field` of each item into per-label-set buckets
+function groupSum(items, labelsOf, valueOf) {
+  const groups = new Map();
+  for (const item of items) {
+    const labels = labelsOf(item);
+    const key = JSON.stringify(labels);
+    const group = groups.get(key) || { labels, value: 0 };
+    group.value += valueOf(item);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Render all metrics.
+ *   agents            live agent states (the bridge's agents Map values)
+ *   sseClients        dashboards on the SSE stream
+ *   wsClients         dashboards on the WebSocket
+ *   agentProfiles     agentStore.getAllProfiles()
+ *   buildingProfiles  buildingStore.getAllProfiles()
+ */
+export function renderMetrics({ agents, sseClients, wsClients = 0, agentProfiles, buildingProfiles }) {
+  const lines = [];
+  const byClan = (p) => ({ clan: p.clan || '' });
+
+  family(lines, 'agentville_active_agents', 'gauge', 'Agents currently in the village, by activity and clan.',
+    groupSum(agents, a => ({ activity: a.activity || 'idle', clan: a.project || '' }), () => 1));
+  family(lines, 'agentville_sse_clients', 'gauge', 'Dashboards connected over SSE.', [{ value: sseClients }]);
+  family(lines, 'agentville_ws_clients', 'gauge', 'Dashboards connected over WebSocket.', [{ value: wsClients }]);
+
+  // Store totals follow each profile's current clan, so a clan's sum
+  // drops when a resident moves away: gauges, not counters
+  family(lines, 'agentville_tool_calls', 'gauge', 'Tool calls by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.toolCalls || 0));
+  family(lines, 'agentville_input_bytes', 'gauge', 'Tool input bytes by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalInputBytes || 0));
+  family(lines, 'agentville_output_bytes', 'gauge', 'Tool output bytes by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalOutputBytes || 0));
+  family(lines, 'agentville_input_tokens', 'gauge', 'Reported input tokens (uncached) by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalInputTokens || 0));
+  family(lines, 'agentville_output_tokens', 'gauge', 'Reported output tokens by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalOutputTokens || 0));
+  family(lines, 'agentville_cache_read_tokens', 'gauge', 'Reported input tokens read from the prompt cache by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalCacheReadTokens || 0));
+  family(lines, 'agentville_cost_usd', 'gauge', 'Estimated cost of reported tokens in USD by the current residents of each clan.',
+    groupSum(agentProfiles, byClan, p => p.totalCost || 0));
+
+  family(lines, 'agentville_building_xp', 'gauge', 'Building XP.',
+    buildingProfiles.map(b => ({ labels: { building: b.buildingId }, value: b.xp })));
+  family(lines, 'agentville_building_level', 'gauge', 'Building level.',
+    buildingProfiles.map(b => ({ labels: { building: b.buildingId }, value: b.level })));
+
+  for (const [name, help] of Object.entries(COUNTERS)) {
+    family(lines, name, 'counter', help, [...(counters.get(name)?.values() || [])]);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Export for testing
+export function resetCounters() {
+  counters.clear();
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests for the Prometheus exposition output.
+ * Run: node --test server/metrics.test.mjs
+ */
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { inc, routeLabel, renderMetrics, resetCounters } from './metrics.mjs';
+
+const EMPTY = { agents: [], sseClients: 0, agentProfiles: [], buildingProfiles: [] };
+
+function sample(text, series) {
+  const line = text.split('\n').find(l => l.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : undefined;
+}
+
+describe('renderMetrics', () => {
+  beforeEach(() => resetCounters());
+
+  it('should declare HELP and TYPE for every family', () => {
+    const text = renderMetrics(EMPTY);
+    for (const name of ['agentville_active_agents', 'agentville_tool_calls', 'agentville_despawns_total']) {
+      assert.ok(text.includes(`# HELP ${name} `), name);
+      assert.ok(text.includes(`# TYPE ${name} `), name);
+    }
+    assert.ok(text.endsWith('\n'));
+  });
+
+  it('should count active agents by activity and clan', () => {
+    const text = renderMetrics({
+      ...EMPTY,
+      agents: [
+        { activity: 'coding', project: 'web' },
+        { activity: 'coding', project: 'web' },
+        { activity: 'testing', project: 'api' },
+      ],
+      sseClients: 2,
+      wsClients: 3,
+    });
+    assert.equal(sample(text, 'agentville_active_agents{activity="coding",clan="web"}'), 2);
+    assert.equal(sample(text, 'agentville_active_agents{activity="testing",clan="api"}'), 1);
+    assert.equal(sample(text, 'agentville_sse_clients'), 2);
+    assert.equal(sample(text, 'agentville_ws_clients'), 3);
+  });
+
+  it('should sum store totals per clan and report building XP', () => {
+    const text = renderMetrics({
+      ...EMPTY,
+      agentProfiles: [
+        { clan: 'web', toolCalls: 10, totalInputBytes: 100, totalOutputBytes: 1000, totalInputTokens: 700, totalCacheReadTokens: 9000 },
+        { clan: 'web', toolCalls: 5, totalInputBytes: 50, totalOutputBytes: 500 },
+        { clan: null, toolCalls: 1, totalInputBytes: 0, totalOutputBytes: 0 },
+      ],
+      buildingProfiles: [{ buildingId: 'forge', xp: 420, level: 2 }],
+    });
+    assert.equal(sample(text, 'agentville_tool_calls{clan="web"}'), 15);
+    assert.equal(sample(text, 'agentville_tool_calls{clan=""}'), 1);
+    assert.equal(sample(text, 'agentville_output_bytes{clan="web"}'), 1500);
+    assert.equal(sample(text, 'agentville_input_tokens{clan="web"}'), 700);
+    assert.equal(sample(text, 'agentville_cache_read_tokens{clan="web"}'), 9000);
+    // Summed over current clans, so a clan's sum drops when a resident moves away
+    assert.ok(text.includes('# TYPE agentville_tool_calls gauge'));
+    assert.equal(sample(text, 'agentville_building_xp{building="forge"}'), 420);
+    assert.equal(sample(text, 'agentville_building_level{building="forge"}'), 2);
+  });
+
+  it('should include the bridge counters', () => {
+    inc('agentville_http_requests_total', { route: '/api/heartbeat', status: 400 });
+    inc('agentville_http_requests_total', { route: '/api/heartbeat', status: 400 });
+    inc('agentville_despawns_total', { reason: 'timeout' });
+    inc('agentville_heartbeats_total');
+
+    const text = renderMetrics(EMPTY);
+    assert.equal(sample(text, 'agentville_http_requests_total{route="/api/heartbeat",status="400"}'), 2);
+    assert.equal(sample(text, 'agentville_despawns_total{reason="timeout"}'), 1);
+    assert.equal(sample(text, 'agentville_heartbeats_total'), 1);
+  });
+
+  it('should escape label values', () => {
+    const text = renderMetrics({ ...EMPTY, agents: [{ activity: 'coding', project: 'a"b\\c\nd' }] });
+    assert.ok(text.includes('clan="a\\"b\\\\c\\nd"'));
+  });
+});
+
+describe('routeLabel', () => {
+  it('should keep known routes and fold the rest', () => {
+    assert.equal(routeLabel('/api/heartbeat'), '/api/heartbeat');
+    assert.equal(routeLabel('/ws'), '/ws');
+    assert.equal(routeLabel('/api/ingest/gemini'), '/api/ingest/:source');
+    assert.equal(routeLabel('/wp-admin'), 'other');
+  });
+});
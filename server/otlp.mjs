@@ -0,0 +1,233 @@
+// ── OTLP ingestion ───────────────────────────────────────
+// Agents built on other frameworks can report OpenTelemetry GenAI
+// spans (OTLP/HTTP JSON, POST /v1/traces) instead of running the
+// hook. Spans are turned into the same requests the hook sends, so
+// they go through the usual heartbeat lifecycle:
+//
+//   invoke_agent span   the agent (gen_ai.agent.name); nested under
+//                       another agent's span it's a sub-agent, which
+//                       leaves when its span ends
+//   execute_tool span   a tool call (gen_ai.tool.name + arguments),
+//                       classified by the rules at the span start
+//   gen_ai.usage.*      real token counts, from model calls, priced
+//                       by gen_ai.response.model (see pricing.mjs)
+//
+// Spans belong to the agent named on them or on their nearest agent
+// ancestor, else to the service (resource `service.name`).
+//
+// Exporters send spans as they end, so a tool span usually arrives
+// before the span of its agent. Spans whose parent hasn't arrived
+// are held until it does, or for HOLD_MS at most (a parent in
+// another service is never sent here); then they're resolved with
+// what is known.
+
+import { agentIdFor } from './agentId.mjs';
+
+const MAX_FIELD = 500;
+const MAX_DETAIL = 60;
+// Span → agent of recent spans, so children can find their agent
+// when it was exported in an earlier request
+const MAX_KNOWN_SPANS = 5000;
+const knownSpans = new Map(); // spanId → { agent, parentAgent }
+const HOLD_MS = 30_000;
+const MAX_HELD_SPANS = 5000;
+const heldSpans = new Map(); // spanId → span waiting for its parent
+
+/**
+ * Plain JS value of an OTLP AnyValue ({ stringValue }, { intValue }, ...).
+ */
+export function anyValue(value) {
+  if (!value || typeof value !== 'object') return undefined;
+  if ('stringValue' in value) return value.stringValue;
+  if ('intValue' in value) return Number(value.intValue); // int64 arrives as a string
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('boolValue' in value) return !!value.boolValue;
+  if ('arrayValue' in value) return (value.arrayValue?.values || []).map(anyValue);
+  if ('kvlistValue' in value) return attributesOf(value.kvlistValue?.values);
+  return undefined;
+}
+
+/**
+ * OTLP attribute list ([{ key, value }]) as an object.
+ */
+export function attributesOf(list) {
+  const attrs = {};
+  for (const attr of Array.isArray(list) ? list : []) {
+    if (typeof attr?.key === 'string') attrs[attr.key] = anyValue(attr.value);
+  }
+  return attrs;
+}
+
+// Unix nanoseconds (string or number) → epoch ms
+function toMillis(nanos) {
+  try {
+    return Number(BigInt(nanos) / 1_000_000n);
+  } catch {
+    return NaN;
+  }
+}
+
+function truncate(text, max) {
+  const oneLine = String(text).replace(/\s+/g, ' ').trim();
+  return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine;
+}
+
+// String fields of the tool arguments, as the hook's slimToolInput
+// sends them for classification
+function toolInputOf(args) {
+  let parsed = args;
+  if (typeof args === 'string') {
+    try {
+      parsed = JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+  const input = {};
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return input;
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value === 'string') input[key] = value.slice(0, MAX_FIELD);
+  }
+  return input;
+}
+
+function remember(spanId, info) {
+  knownSpans.set(spanId, info);
+  if (knownSpans.size > MAX_KNOWN_SPANS) knownSpans.delete(knownSpans.keys().next().value);
+}
+
+function hold(span) {
+  heldSpans.set(span.id, span);
+  if (heldSpans.size > MAX_HELD_SPANS) heldSpans.delete(heldSpans.keys().next().value);
+}
+
+/**
+ * Bridge requests for an OTLP/HTTP JSON trace export, as
+ * [{ path, body, timestamp }] (the /api/batch entry format), plus
+ * those of held spans whose parent it brings. Spans that aren't
+ * GenAI agent, tool or model spans are skipped.
+ */
+export function spansToRequests(payload, now = Date.now()) {
+  const spans = [...heldSpans.values()];
+  heldSpans.clear();
+  for (const resourceSpans of payload?.resourceSpans || []) {
+    const service = attributesOf(resourceSpans?.resource?.attributes)['service.name'] || 'OTel Agent';
+    for (const scopeSpans of resourceSpans?.scopeSpans || []) {
+      for (const span of scopeSpans?.spans || []) {
+        if (!span?.spanId) continue;
+        const attrs = attributesOf(span.attributes);
+        spans.push({
+          id: span.spanId,
+          parentId: span.parentSpanId || null,
+          service,
+          attrs,
+          operation: attrs['gen_ai.operation.name'] || null,
+          start: toMillis(span.startTimeUnixNano),
+          end: toMillis(span.endTimeUnixNano),
+          receivedAt: now,
+        });
+      }
+    }
+  }
+  const byId = new Map(spans.map(s => [s.id, s]));
+
+  // Whether the span's nearest missing ancestor may still arrive
+  const waiting = new Map();
+  function isWaiting(span, depth = 0) {
+    if (waiting.has(span.id)) return waiting.get(span.id);
+    const parent = span.parentId ? byId.get(span.parentId) : null;
+    const result = depth > 64 ? false
+      : parent ? isWaiting(parent, depth + 1)
+      : !!span.parentId && !knownSpans.has(span.parentId) && now - span.receivedAt < HOLD_MS;
+    waiting.set(span.id, result);
+    return result;
+  }
+
+  // The agent a span belongs to, and that agent's parent when it's
+  // nested under another agent: { agent, parentAgent }
+  const resolved = new Map();
+  function resolve(span, depth = 0) {
+    if (resolved.has(span.id)) return resolved.get(span.id);
+    const parent = span.parentId ? byId.get(span.parentId) : null;
+    const inherited = depth > 64 ? null
+      : parent ? resolve(parent, depth + 1)
+      : knownSpans.get(span.parentId) || null;
+    const agent = span.attrs['gen_ai.agent.name'] || inherited?.agent || span.service;
+    const parentAgent = !inherited ? null
+      : inherited.agent !== agent ? inherited.agent
+      : inherited.parentAgent;
+    const info = { agent, parentAgent };
+    resolved.set(span.id, info);
+    return info;
+  }
+
+  const requests = [];
+  for (const span of byId.values()) {
+    if (isWaiting(span)) {
+      hold(span);
+      continue;
+    }
+    const { agent, parentAgent } = resolve(span);
+    remember(span.id, { agent, parentAgent });
+    const isAgent = span.operation === 'invoke_agent';
+    const sender = { agent, project: span.service, source: 'otel', ...(parentAgent ? { parentAgent } : {}) };
+    const heartbeat = (timestamp, fields) => ({ path: '/api/heartbeat', body: { ...sender, ...fields }, timestamp });
+    const { attrs } = span;
+    const tool = attrs['gen_ai.tool.name'];
+
+    if (isAgent) {
+      requests.push(heartbeat(span.start, {
+        activity: 'planning',
+        detail: truncate(attrs['gen_ai.agent.description'] || 'starting', MAX_DETAIL),
+        busy: true,
+        ...(parentAgent ? { newSpawn: true } : {}),
+      }));
+      // Sub-agents leave when they're done (like SubagentStop); top-level
+      // agents go idle (like Stop)
+      requests.push(parentAgent
+        ? { path: '/api/event', body: { type: 'agent:despawn', agentId: agentIdFor(agent) }, timestamp: span.end }
+        : heartbeat(span.end, { activity: 'idle', busy: false }));
+    } else if (span.operation === 'execute_tool' || tool) {
+      const toolInput = toolInputOf(attrs['gen_ai.tool.call.arguments']);
+      const result = attrs['gen_ai.tool.call.result'];
+      requests.push(heartbeat(span.start, {
+        tool: tool || 'tool',
+        toolInput,
+        // Fallback for tools the rules don't know
+        activity: attrs['gen_ai.tool.type'] === 'datastore' ? 'researching' : 'coding',
+        detail: truncate(tool || span.operation, MAX_DETAIL),
+        busy: true,
+        inputBytes: typeof attrs['gen_ai.tool.call.arguments'] === 'string'
+          ? Buffer.byteLength(attrs['gen_ai.tool.call.arguments'])
+          : 0,
+      }));
+      if (typeof result === 'string') {
+        requests.push(heartbeat(span.end, { outputBytes: Buffer.byteLength(result) }));
+      }
+    }
+
+    // Agent spans often repeat the usage of the model calls inside
+    // them, so only count it where it's reported first
+    if (!isAgent) {
+      const inputTokens = attrs['gen_ai.usage.input_tokens'] ?? attrs['gen_ai.usage.prompt_tokens'] ?? 0;
+      const outputTokens = attrs['gen_ai.usage.output_tokens'] ?? attrs['gen_ai.usage.completion_tokens'] ?? 0;
+      const model = attrs['gen_ai.response.model'] ?? attrs['gen_ai.request.model'];
+      if (inputTokens > 0 || outputTokens > 0) {
+        requests.push(heartbeat(span.end, {
+          inputTokens,
+          outputTokens,
+          ...(typeof model === 'string' ? { model } : {}),
+        }));
+      }
+    }
+  }
+
+  return requests.filter(r => Number.isFinite(r.timestamp));
+}
+
+/**
+ * Requests for held spans whose parent never arrived in time.
+ */
+export function releaseHeldSpans(now = Date.now()) {
+  return spansToRequests(null, now);
+}
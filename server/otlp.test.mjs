@@ -0,0 +1,207 @@
+/**
+ * Tests for OTLP span → heartbeat mapping.
+ * Run: node --test server/otlp.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { anyValue, attributesOf, spansToRequests, releaseHeldSpans } from './otlp.mjs';
+
+const T0 = 1_700_000_000_000;
+
+// OTLP JSON attribute list from a plain object
+function attrs(obj) {
+  return Object.entries(obj).map(([key, value]) => ({
+    key,
+    value: typeof value === 'number' ? { intValue: String(value) } : { stringValue: value },
+  }));
+}
+
+function span(spanId, parentSpanId, startMs, endMs, attributes) {
+  return {
+    traceId: 'trace-1',
+    spanId,
+    parentSpanId,
+    name: spanId,
+    startTimeUnixNano: String(BigInt(T0 + startMs) * 1_000_000n),
+    endTimeUnixNano: String(BigInt(T0 + endMs) * 1_000_000n),
+    attributes: attrs(attributes),
+  };
+}
+
+function exportOf(spans, service = 'support-bot') {
+  return {
+    resourceSpans: [{
+      resource: { attributes: attrs({ 'service.name': service }) },
+      scopeSpans: [{ scope: { name: 'test' }, spans }],
+    }],
+  };
+}
+
+// ── Attribute values ─────────────────────────────────────
+
+describe('anyValue / attributesOf', () => {
+  it('should decode every AnyValue kind', () => {
+    assert.equal(anyValue({ stringValue: 'a' }), 'a');
+    assert.equal(anyValue({ intValue: '42' }), 42);
+    assert.equal(anyValue({ doubleValue: 1.5 }), 1.5);
+    assert.equal(anyValue({ boolValue: true }), true);
+    assert.deepEqual(anyValue({ arrayValue: { values: [{ stringValue: 'x' }, { intValue: 1 }] } }), ['x', 1]);
+    assert.deepEqual(anyValue({ kvlistValue: { values: [{ key: 'k', value: { stringValue: 'v' } }] } }), { k: 'v' });
+    assert.equal(anyValue(null), undefined);
+  });
+
+  it('should skip malformed attributes', () => {
+    assert.deepEqual(attributesOf([{ key: 'a', value: { stringValue: 'b' } }, { value: {} }, null]), { a: 'b' });
+    assert.deepEqual(attributesOf(undefined), {});
+  });
+});
+
+// ── Span mapping ─────────────────────────────────────────
+
+describe('spansToRequests', () => {
+  it('should turn an agent span into a start and an idle heartbeat', () => {
+    const requests = spansToRequests(exportOf([
+      span('a1', '', 0, 5000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Triage' }),
+    ]));
+    assert.deepEqual(requests, [
+      {
+        path: '/api/heartbeat',
+        body: { agent: 'Triage', project: 'support-bot', source: 'otel', activity: 'planning', detail: 'starting', busy: true },
+        timestamp: T0,
+      },
+      {
+        path: '/api/heartbeat',
+        body: { agent: 'Triage', project: 'support-bot', source: 'otel', activity: 'idle', busy: false },
+        timestamp: T0 + 5000,
+      },
+    ]);
+  });
+
+  it('should turn tool spans into classifiable tool heartbeats of their agent', () => {
+    const args = JSON.stringify({ command: 'npm test', retries: 3 });
+    const requests = spansToRequests(exportOf([
+      span('a2', '', 0, 5000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Builder' }),
+      span('t2', 'a2', 1000, 2000, {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': 'shell',
+        'gen_ai.tool.call.arguments': args,
+        'gen_ai.tool.call.result': 'ok',
+      }),
+    ]));
+    const [start, end] = requests.filter(r => r.body.tool || r.body.outputBytes);
+    assert.equal(start.timestamp, T0 + 1000);
+    assert.equal(start.body.agent, 'Builder');
+    assert.equal(start.body.tool, 'shell');
+    assert.deepEqual(start.body.toolInput, { command: 'npm test' });
+    assert.equal(start.body.activity, 'coding');
+    assert.equal(start.body.inputBytes, Buffer.byteLength(args));
+    assert.equal(end.timestamp, T0 + 2000);
+    assert.equal(end.body.outputBytes, 2);
+  });
+
+  it('should make nested agents sub-agents that leave when done', () => {
+    const requests = spansToRequests(exportOf([
+      span('a3', '', 0, 9000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Planner' }),
+      span('a4', 'a3', 1000, 4000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Researcher' }),
+      span('t4', 'a4', 2000, 3000, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'search' }),
+    ]));
+    const sub = requests.filter(r => r.body.agent === 'Researcher');
+    assert.equal(sub[0].body.parentAgent, 'Planner');
+    assert.equal(sub[0].body.newSpawn, true);
+    assert.equal(sub[1].body.parentAgent, 'Planner');
+    assert.equal(sub[1].body.tool, 'search');
+    assert.ok(requests.some(r => r.path === '/api/event'
+      && r.body.type === 'agent:despawn' && r.body.agentId === 'researcher' && r.timestamp === T0 + 4000));
+  });
+
+  it('should count token usage from model spans but not agent spans', () => {
+    const requests = spansToRequests(exportOf([
+      span('a5', '', 0, 9000, {
+        'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Writer',
+        'gen_ai.usage.input_tokens': 1500, 'gen_ai.usage.output_tokens': 300,
+      }),
+      span('c5', 'a5', 100, 900, { 'gen_ai.operation.name': 'chat', 'gen_ai.usage.input_tokens': 1000, 'gen_ai.usage.output_tokens': 200 }),
+      span('c6', 'a5', 1000, 1900, { 'gen_ai.operation.name': 'chat', 'gen_ai.usage.prompt_tokens': 500, 'gen_ai.usage.completion_tokens': 100 }),
+    ]));
+    const usage = requests.filter(r => r.body.inputTokens);
+    assert.deepEqual(usage.map(r => [r.body.agent, r.body.inputTokens, r.body.outputTokens]), [
+      ['Writer', 1000, 200],
+      ['Writer', 500, 100],
+    ]);
+  });
+
+  it('should name the model that used the tokens', () => {
+    const [req] = spansToRequests(exportOf([
+      span('c8', '', 0, 900, {
+        'gen_ai.operation.name': 'chat', 'gen_ai.request.model': 'gpt-4o',
+        'gen_ai.response.model': 'gpt-4o-2024-08-06', 'gen_ai.usage.input_tokens': 10,
+      }),
+    ]));
+    assert.equal(req.body.model, 'gpt-4o-2024-08-06');
+  });
+
+  it('should fall back to the service name without an agent span', () => {
+    const [req] = spansToRequests(exportOf([
+      span('t7', '', 0, 10, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'lookup', 'gen_ai.tool.type': 'datastore' }),
+    ], 'kb-bot'));
+    assert.equal(req.body.agent, 'kb-bot');
+    assert.equal(req.body.activity, 'researching');
+  });
+
+  it('should hold spans until the agent span that ends after them is exported', () => {
+    // Spans are exported as they end: the tool first, its agent later
+    assert.deepEqual(spansToRequests(exportOf([
+      span('t8', 'a8', 200, 300, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'read' }),
+    ])), []);
+    const requests = spansToRequests(exportOf([
+      span('a8', '', 0, 1000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Later' }),
+    ]));
+    const tool = requests.find(r => r.body.tool === 'read');
+    assert.equal(tool.body.agent, 'Later');
+    assert.equal(tool.timestamp, T0 + 200);
+  });
+
+  it('should hold sub-agent spans until their parent agent is exported', () => {
+    assert.deepEqual(spansToRequests(exportOf([
+      span('t9', 'a10', 300, 400, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'search' }),
+      span('a10', 'a9', 200, 500, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Scout' }),
+    ])), []);
+    const requests = spansToRequests(exportOf([
+      span('a9', '', 0, 1000, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Captain' }),
+    ]));
+    const tool = requests.find(r => r.body.tool === 'search');
+    assert.equal(tool.body.agent, 'Scout');
+    assert.equal(tool.body.parentAgent, 'Captain');
+    assert.ok(requests.some(r => r.path === '/api/event' && r.body.agentId === 'scout'));
+  });
+
+  it('should find the agent of a parent exported earlier', () => {
+    spansToRequests(exportOf([
+      span('a11', '', 0, 100, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': 'Earlier' }),
+    ]));
+    // A task the agent started but didn't wait for
+    const [req] = spansToRequests(exportOf([
+      span('t11', 'a11', 50, 300, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'read' }),
+    ]));
+    assert.equal(req.body.agent, 'Earlier');
+  });
+
+  it('should let held spans go to the service when their parent never comes', () => {
+    const now = Date.now();
+    assert.deepEqual(spansToRequests(exportOf([
+      span('t12', 'remote', 0, 10, { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'fetch' }),
+    ], 'api-gateway'), now), []);
+    assert.deepEqual(releaseHeldSpans(now + 1000), []);
+    const [req] = releaseHeldSpans(now + 30_000);
+    assert.equal(req.body.agent, 'api-gateway');
+    assert.equal(req.body.tool, 'fetch');
+    assert.deepEqual(releaseHeldSpans(now + 60_000), []);
+  });
+
+  it('should skip spans without GenAI attributes and tolerate junk', () => {
+    assert.deepEqual(spansToRequests(exportOf([span('h1', '', 0, 10, { 'http.method': 'GET' })])), []);
+    assert.deepEqual(spansToRequests({}), []);
+    assert.deepEqual(spansToRequests(null), []);
+    assert.deepEqual(spansToRequests({ resourceSpans: [{ scopeSpans: [{ spans: [{ name: 'no id' }] }] }] }), []);
+  });
+});
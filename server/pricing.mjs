@@ -0,0 +1,123 @@
+// ── Pricing ──────────────────────────────────────────────
+// What reported token usage costs. Rates are per million tokens,
+// keyed by model: { input, output, cacheRead, cacheWrite }. Cache
+// rates default to the input rate when a model doesn't list them.
+//
+// Built-in prices live in pricing.default.json. A data/pricing.json
+// is layered on top: its `models` add or replace entries, and its
+// `budgets` ({ clan: dollars per day, "*": everyone else }) set the
+// daily budgets checked in budgets.mjs. The file is re-read when it
+// changes, like data/rules.json.
+//
+// A model matches its own key or a longer, dated name: the key
+// "claude-sonnet-4-5" prices "claude-sonnet-4-5-20250929", and a
+// provider prefix ("anthropic/…") is ignored. The longest key wins.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_PRICING_PATH = path.join(__dirname, 'pricing.default.json');
+const USER_PRICING_PATH = path.join(DATA_DIR, 'pricing.json');
+const RELOAD_INTERVAL = 2000; // how often to check the user file for changes
+
+function validRates(rates) {
+  return rates && Number.isFinite(rates.input) && Number.isFinite(rates.output);
+}
+
+function readPricingFile(file) {
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const models = {};
+  for (const [model, rates] of Object.entries(data.models || {})) {
+    if (!validRates(rates)) throw new Error(`model "${model}" needs input and output rates`);
+    models[model.toLowerCase()] = rates;
+  }
+  const budgets = {};
+  for (const [clan, budget] of Object.entries(data.budgets || {})) {
+    if (!Number.isFinite(budget) || budget <= 0) throw new Error(`budget for "${clan}" must be a positive number`);
+    budgets[clan] = budget;
+  }
+  return { currency: data.currency, models, budgets };
+}
+
+const defaults = readPricingFile(DEFAULT_PRICING_PATH);
+let user = { models: {}, budgets: {} };
+let userMtime = 0;
+let lastCheck = 0;
+
+function refreshUserPricing(now = Date.now()) {
+  if (now - lastCheck < RELOAD_INTERVAL) return;
+  lastCheck = now;
+
+  let mtime = 0;
+  try {
+    mtime = fs.statSync(USER_PRICING_PATH).mtimeMs;
+  } catch {
+    // No user pricing file
+  }
+  if (mtime === userMtime) return;
+  userMtime = mtime;
+
+  if (!mtime) {
+    user = { models: {}, budgets: {} };
+    return;
+  }
+  try {
+    user = readPricingFile(USER_PRICING_PATH);
+    console.log(`  💰 Loaded ${Object.keys(user.models).length} prices and ${Object.keys(user.budgets).length} budgets from ${USER_PRICING_PATH}`);
+  } catch (err) {
+    // Keep the previous prices rather than breaking cost tracking
+    console.log(`  ⚠ Ignoring ${USER_PRICING_PATH}: ${err.message}`);
+  }
+}
+
+export const CURRENCY = defaults.currency || 'USD';
+
+/**
+ * Rates for a model name, or null if it has no price.
+ */
+export function priceFor(model) {
+  if (!model) return null;
+  refreshUserPricing();
+  const name = String(model).toLowerCase().split('/').pop();
+  const models = { ...defaults.models, ...user.models };
+  let best = null;
+  for (const key of Object.keys(models)) {
+    const matches = name === key || (name.startsWith(key) && /[-@:]/.test(name[key.length]));
+    if (matches && (!best || key.length > best.length)) best = key;
+  }
+  return best ? models[best] : null;
+}
+
+/**
+ * Cost of reported usage ({ inputTokens, outputTokens,
+ * cacheReadTokens, cacheCreationTokens }) with a model, or null when
+ * the model has no price.
+ */
+export function costOf(usage, model) {
+  const rates = priceFor(model);
+  if (!rates) return null;
+  const cost = (usage.inputTokens || 0) * rates.input
+    + (usage.outputTokens || 0) * rates.output
+    + (usage.cacheReadTokens || 0) * (rates.cacheRead ?? rates.input)
+    + (usage.cacheCreationTokens || 0) * (rates.cacheWrite ?? rates.input);
+  return cost / 1_000_000;
+}
+
+/**
+ * A clan's daily budget, or null if it has none.
+ */
+export function budgetFor(clan) {
+  refreshUserPricing();
+  return user.budgets[clan] ?? user.budgets['*'] ?? null;
+}
+
+// Export for testing
+export { USER_PRICING_PATH };
+export function reloadPricing() {
+  lastCheck = 0;
+  userMtime = -1;
+  refreshUserPricing();
+}
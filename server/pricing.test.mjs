@@ -0,0 +1,103 @@
+/**
+ * Tests for model pricing (name matching, costs, user prices and budgets).
+ * Run: node --test server/pricing.test.mjs
+ */
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Point the user pricing file at a throwaway directory before the module loads
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-pricing-'));
+const { CURRENCY, priceFor, costOf, budgetFor, reloadPricing, USER_PRICING_PATH } = await import('./pricing.mjs');
+
+function writeUserPricing(pricing) {
+  fs.writeFileSync(USER_PRICING_PATH, JSON.stringify(pricing));
+  reloadPricing();
+}
+
+describe('priceFor', () => {
+  it('should price models by their own name', () => {
+    assert.equal(priceFor('claude-sonnet-4-5').output, 15);
+    assert.equal(priceFor('gpt-4o').input, 2.5);
+  });
+
+  it('should match dated names and ignore provider prefixes', () => {
+    assert.equal(priceFor('claude-sonnet-4-5-20250929'), priceFor('claude-sonnet-4-5'));
+    assert.equal(priceFor('anthropic/claude-sonnet-4'), priceFor('claude-sonnet-4'));
+    assert.equal(priceFor('Claude-Opus-4-1@20250805'), priceFor('claude-opus-4-1'));
+  });
+
+  it('should prefer the longest matching key', () => {
+    // "claude-sonnet-4" matches too, but "claude-sonnet-4-5" is longer
+    assert.equal(priceFor('claude-sonnet-4-5-20250929'), priceFor('claude-sonnet-4-5'));
+    assert.notEqual(priceFor('claude-sonnet-4-5-20250929'), priceFor('claude-sonnet-4'));
+    assert.equal(priceFor('gpt-5-codex-latest'), priceFor('gpt-5-codex'));
+  });
+
+  it('should not match a key that only shares a prefix', () => {
+    assert.equal(priceFor('o3x'), null);
+    assert.equal(priceFor('llama-3'), null);
+    assert.equal(priceFor(null), null);
+  });
+});
+
+describe('costOf', () => {
+  it('should charge each kind of token at its rate', () => {
+    // claude-sonnet-4-5: $3 in, $15 out, $0.30 cache read, $3.75 cache write per million
+    const cost = costOf({
+      inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 2_000_000, cacheCreationTokens: 200_000,
+    }, 'claude-sonnet-4-5');
+    assert.ok(Math.abs(cost - (3 + 1.5 + 0.6 + 0.75)) < 1e-9);
+  });
+
+  it('should be null for unpriced models', () => {
+    assert.equal(costOf({ inputTokens: 1000 }, 'mystery-model'), null);
+    assert.equal(costOf({ inputTokens: 1000 }, null), null);
+  });
+
+  it('should be in dollars', () => {
+    assert.equal(CURRENCY, 'USD');
+  });
+});
+
+describe('user pricing file', () => {
+  afterEach(() => {
+    fs.rmSync(USER_PRICING_PATH, { force: true });
+    reloadPricing();
+  });
+
+  it('should add and replace model prices', () => {
+    writeUserPricing({ models: { 'gpt-4o': { input: 1, output: 1 }, 'local-llm': { input: 0, output: 0 } } });
+    assert.equal(priceFor('gpt-4o').input, 1);
+    assert.equal(costOf({ inputTokens: 5000 }, 'local-llm'), 0);
+  });
+
+  it('should charge cache tokens at the input rate without cache rates', () => {
+    writeUserPricing({ models: { 'house-model': { input: 1, output: 2 } } });
+    assert.equal(costOf({ cacheReadTokens: 1_000_000, cacheCreationTokens: 1_000_000 }, 'house-model'), 2);
+  });
+
+  it('should read daily budgets per clan with a fallback', () => {
+    assert.equal(budgetFor('village'), null);
+    writeUserPricing({ budgets: { village: 20, '*': 5 } });
+    assert.equal(budgetFor('village'), 20);
+    assert.equal(budgetFor('api'), 5);
+  });
+
+  it('should keep the previous prices when the file is invalid', () => {
+    writeUserPricing({ budgets: { village: 20 } });
+    fs.writeFileSync(USER_PRICING_PATH, JSON.stringify({ budgets: { village: -1 } }));
+    fs.utimesSync(USER_PRICING_PATH, new Date(), new Date(Date.now() + 5000));
+    reloadPricing();
+    assert.equal(budgetFor('village'), 20);
+  });
+
+  it('should drop user prices when the file is removed', () => {
+    writeUserPricing({ budgets: { village: 20 } });
+    fs.rmSync(USER_PRICING_PATH);
+    reloadPricing();
+    assert.equal(budgetFor('village'), null);
+  });
+});
@@ -0,0 +1,212 @@
+// ── Session Store ────────────────────────────────────────
+// One record per agent session: when it started and ended, which
+// clan/project it worked in, how many tool calls and sub-agents it
+// made, what its reported tokens cost, and how it ended:
+//   ended        SessionEnd / SubagentStop from the hook
+//   timeout      no heartbeat for DESPAWN_TIMEOUT
+//   interrupted  the bridge stopped while it was running
+//
+// Open sessions live in memory and are written to SQLite (see
+// db.mjs) when they start, end, or on the debounced save.
+
+import { db, transaction } from './db.mjs';
+
+const openSessions = new Map(); // agentId → session
+const dirty = new Set();
+
+const insertSession = db.prepare(`
+  INSERT INTO sessions (agent_id, clan, project, parent_id, started_at, last_seen)
+  VALUES (:agentId, :clan, :project, :parentId, :startedAt, :lastSeen)
+`);
+const updateSession = db.prepare(`
+  UPDATE sessions SET last_seen = :lastSeen, tool_calls = :toolCalls, sub_agents = :subAgents,
+                      cost = :cost, ended_at = :endedAt, outcome = :outcome
+  WHERE id = :id
+`);
+
+function writeSession(session) {
+  updateSession.run({
+    id: session.id,
+    lastSeen: session.lastSeen,
+    toolCalls: session.toolCalls,
+    subAgents: session.subAgents,
+    cost: session.cost,
+    endedAt: session.endedAt ?? null,
+    outcome: session.outcome ?? null,
+  });
+}
+
+// Sessions still open in the database were cut off by a bridge
+// restart — close them at the last time they were seen
+db.prepare(`
+  UPDATE sessions SET ended_at = COALESCE(last_seen, started_at), outcome = 'interrupted'
+  WHERE ended_at IS NULL
+`).run();
+
+function save() {
+  if (!dirty.size) return;
+  try {
+    transaction(() => {
+      for (const session of dirty) writeSession(session);
+    });
+    dirty.clear();
+  } catch (err) {
+    console.log(`  ⚠ Session save failed: ${err.message}`);
+  }
+}
+
+let saveTimer = null;
+function debouncedSave(session) {
+  dirty.add(session);
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    save();
+    saveTimer = null;
+  }, 5000);
+}
+
+/**
+ * Open a session for an agent (closing any session it still had open).
+ */
+export function startSession(agentId, { clan, project, parentId } = {}, timestamp = Date.now()) {
+  if (openSessions.has(agentId)) endSession(agentId, 'ended', timestamp);
+
+  const session = {
+    agentId,
+    clan: clan || null,
+    project: project || null,
+    parentId: parentId || null,
+    startedAt: timestamp,
+    lastSeen: timestamp,
+    toolCalls: 0,
+    subAgents: 0,
+    cost: 0,
+  };
+  const { lastInsertRowid } = insertSession.run({
+    agentId, clan: session.clan, project: session.project, parentId: session.parentId,
+    startedAt: timestamp, lastSeen: timestamp,
+  });
+  session.id = Number(lastInsertRowid);
+  openSessions.set(agentId, session);
+  return session.id;
+}
+
+/**
+ * Count a tool call towards the agent's open session.
+ */
+export function recordSessionToolUse(agentId, timestamp = Date.now()) {
+  const session = openSessions.get(agentId);
+  if (!session) return;
+  session.toolCalls++;
+  session.lastSeen = Math.max(session.lastSeen, timestamp);
+  debouncedSave(session);
+}
+
+/**
+ * Count a sub-agent spawned during the parent's open session.
+ */
+export function recordSessionSubAgent(parentAgentId) {
+  const session = openSessions.get(parentAgentId);
+  if (!session) return;
+  session.subAgents++;
+  debouncedSave(session);
+}
+
+/**
+ * Add the cost of reported tokens to the agent's open session.
+ */
+export function recordSessionCost(agentId, cost, timestamp = Date.now()) {
+  const session = openSessions.get(agentId);
+  if (!session) return;
+  session.cost += cost;
+  session.lastSeen = Math.max(session.lastSeen, timestamp);
+  debouncedSave(session);
+}
+
+/**
+ * Keep the session's last-seen time current (any heartbeat).
+ */
+export function touchSession(agentId, timestamp = Date.now()) {
+  const session = openSessions.get(agentId);
+  if (!session || timestamp <= session.lastSeen) return;
+  session.lastSeen = timestamp;
+  debouncedSave(session);
+}
+
+/**
+ * Close the agent's open session. `outcome` is 'ended' or 'timeout'.
+ */
+export function endSession(agentId, outcome, timestamp = Date.now()) {
+  const session = openSessions.get(agentId);
+  if (!session) return;
+  openSessions.delete(agentId);
+  dirty.delete(session);
+  session.endedAt = Math.max(timestamp, session.startedAt);
+  session.lastSeen = Math.max(session.lastSeen, session.endedAt);
+  session.outcome = outcome;
+  writeSession(session);
+}
+
+/**
+ * Sessions overlapping [from, to], newest first. Filters:
+ * agent (agent id), clan, from/to (epoch ms), limit.
+ */
+export function getSessions({ agent, clan, from = 0, to = Date.now(), limit = 100 } = {}) {
+  save(); // include counters still waiting for the debounce
+
+  const where = ['started_at <= :to', '(ended_at IS NULL OR ended_at >= :from)'];
+  const params = { from, to, limit };
+  if (agent) {
+    where.push('agent_id = :agent');
+    params.agent = agent;
+  }
+  if (clan) {
+    where.push('clan = :clan');
+    params.clan = clan;
+  }
+
+  const now = Date.now();
+  return db.prepare(`
+    SELECT * FROM sessions WHERE ${where.join(' AND ')}
+    ORDER BY started_at DESC, id DESC LIMIT :limit
+  `).all(params).map(row => ({
+    id: row.id,
+    agentId: row.agent_id,
+    clan: row.clan,
+    project: row.project,
+    parentId: row.parent_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    duration: (row.ended_at ?? now) - row.started_at,
+    toolCalls: row.tool_calls,
+    subAgents: row.sub_agents,
+    cost: row.cost,
+    outcome: row.outcome || 'active',
+  }));
+}
+
+/**
+ * Sessions each agent started in [from, to], and sub-agent sessions
+ * it spawned: [{ agentId, sessions, subAgents }].
+ */
+export function getSessionCounts({ from = 0, to = Number.MAX_SAFE_INTEGER } = {}) {
+  const counts = new Map();
+  const countFor = (agentId) => {
+    if (!counts.has(agentId)) counts.set(agentId, { agentId, sessions: 0, subAgents: 0 });
+    return counts.get(agentId);
+  };
+  const params = { from, to };
+  for (const row of db.prepare(`
+    SELECT agent_id, COUNT(*) AS n FROM sessions WHERE started_at >= :from AND started_at <= :to GROUP BY agent_id
+  `).all(params)) countFor(row.agent_id).sessions = row.n;
+  for (const row of db.prepare(`
+    SELECT parent_id, COUNT(*) AS n FROM sessions
+    WHERE parent_id IS NOT NULL AND started_at >= :from AND started_at <= :to GROUP BY parent_id
+  `).all(params)) countFor(row.parent_id).subAgents = row.n;
+  return [...counts.values()];
+}
+
+// Save on process exit
+process.on('exit', save);
+process.on('SIGINT', () => { save(); process.exit(); });
+process.on('SIGTERM', () => { save(); process.exit(); });
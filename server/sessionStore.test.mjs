@@ -0,0 +1,121 @@
+/**
+ * Tests for the session store (lifecycle, counters, filters).
+ * Run: node --test server/sessionStore.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-sessions-'));
+const {
+  startSession, endSession, touchSession, recordSessionToolUse, recordSessionSubAgent, recordSessionCost,
+  getSessions, getSessionCounts,
+} = await import('./sessionStore.mjs');
+
+describe('session lifecycle', () => {
+  it('should record start, counters, end and outcome', () => {
+    startSession('claude-a', { clan: 'village', project: 'village' }, 1000);
+    recordSessionToolUse('claude-a', 2000);
+    recordSessionToolUse('claude-a', 3000);
+    recordSessionSubAgent('claude-a');
+    endSession('claude-a', 'ended', 61_000);
+
+    const [s] = getSessions({ agent: 'claude-a' });
+    assert.equal(s.clan, 'village');
+    assert.equal(s.startedAt, 1000);
+    assert.equal(s.endedAt, 61_000);
+    assert.equal(s.duration, 60_000);
+    assert.equal(s.toolCalls, 2);
+    assert.equal(s.subAgents, 1);
+    assert.equal(s.outcome, 'ended');
+  });
+
+  it('should add up the cost of the open session only', () => {
+    startSession('claude-spender', { clan: 'village' }, 1000);
+    recordSessionCost('claude-spender', 0.2, 2000);
+    recordSessionCost('claude-spender', 0.05, 3000);
+    endSession('claude-spender', 'ended', 4000);
+    recordSessionCost('claude-spender', 1, 5000);
+
+    const [s] = getSessions({ agent: 'claude-spender' });
+    assert.equal(s.cost, 0.25);
+  });
+
+  it('should report open sessions as active with a running duration', () => {
+    const started = Date.now() - 5000;
+    startSession('claude-open', { clan: 'village' }, started);
+    touchSession('claude-open', started + 1000);
+
+    const [s] = getSessions({ agent: 'claude-open' });
+    assert.equal(s.outcome, 'active');
+    assert.equal(s.endedAt, null);
+    assert.ok(s.duration >= 5000);
+  });
+
+  it('should record timeouts at the time the agent was last seen', () => {
+    startSession('claude-quiet', {}, 10_000);
+    recordSessionToolUse('claude-quiet', 20_000);
+    endSession('claude-quiet', 'timeout', 20_000);
+
+    const [s] = getSessions({ agent: 'claude-quiet' });
+    assert.equal(s.outcome, 'timeout');
+    assert.equal(s.duration, 10_000);
+  });
+
+  it('should close the previous session when an agent starts a new one', () => {
+    startSession('claude-twice', {}, 1000);
+    startSession('claude-twice', {}, 5000);
+
+    const sessions = getSessions({ agent: 'claude-twice' });
+    assert.equal(sessions.length, 2);
+    assert.equal(sessions[0].outcome, 'active');
+    assert.equal(sessions[1].outcome, 'ended');
+    assert.equal(sessions[1].endedAt, 5000);
+  });
+
+  it('should ignore counters and ends for agents without an open session', () => {
+    recordSessionToolUse('claude-nobody');
+    recordSessionSubAgent('claude-nobody');
+    endSession('claude-nobody', 'ended');
+    assert.deepEqual(getSessions({ agent: 'claude-nobody' }), []);
+  });
+});
+
+describe('getSessions filters', () => {
+  startSession('claude-x', { clan: 'alpha' }, 100_000);
+  endSession('claude-x', 'ended', 200_000);
+  startSession('claude-y', { clan: 'beta' }, 300_000);
+  endSession('claude-y', 'ended', 400_000);
+
+  it('should filter by clan', () => {
+    const ids = getSessions({ clan: 'beta' }).map(s => s.agentId);
+    assert.deepEqual(ids, ['claude-y']);
+  });
+
+  it('should return sessions overlapping the date range, newest first', () => {
+    const ids = getSessions({ from: 150_000, to: 350_000 }).map(s => s.agentId);
+    assert.ok(ids.indexOf('claude-y') < ids.indexOf('claude-x'));
+    assert.ok(!getSessions({ from: 210_000, to: 290_000 }).some(s => ['claude-x', 'claude-y'].includes(s.agentId)));
+  });
+
+  it('should respect the limit', () => {
+    assert.equal(getSessions({ limit: 1 }).length, 1);
+  });
+});
+
+describe('getSessionCounts', () => {
+  it('should count sessions started and sub-agents spawned in the range', () => {
+    startSession('boss', { clan: 'gamma' }, 1_000_000);
+    startSession('helper-1', { clan: 'gamma', parentId: 'boss' }, 1_100_000);
+    startSession('helper-2', { clan: 'gamma', parentId: 'boss' }, 1_200_000);
+    startSession('boss', { clan: 'gamma' }, 1_300_000);
+
+    const counts = getSessionCounts({ from: 1_000_000, to: 1_250_000 });
+    assert.deepEqual(counts.find(c => c.agentId === 'boss'), { agentId: 'boss', sessions: 1, subAgents: 2 });
+    assert.deepEqual(counts.find(c => c.agentId === 'helper-1'), { agentId: 'helper-1', sessions: 1, subAgents: 0 });
+    assert.equal(getSessionCounts({ from: 1_250_000, to: 1_400_000 }).find(c => c.agentId === 'boss').sessions, 1);
+  });
+});
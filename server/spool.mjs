@@ -0,0 +1,61 @@
+// ── Offline Spool ────────────────────────────────────────
+// While the bridge is down the hook appends its heartbeats to a
+// local JSONL spool (~/.claude/data/agentville-spool.jsonl) instead
+// of dropping them. The hook flushes it through /api/batch once the
+// bridge answers again; the bridge also drains it on startup.
+//
+// Each line: {"id":"…","timestamp":...,"path":"/api/heartbeat","body":{...}}
+//
+// The hook sends its spool again whenever it doesn't hear back, even
+// if the bridge took the batch before the answer got lost, so the
+// ids of replayed entries are remembered and repeats skipped.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { db } from './db.mjs';
+
+export const SPOOL_PATH = process.env.AGENTVILLE_SPOOL
+  || path.join(os.homedir(), '.claude', 'data', 'agentville-spool.jsonl');
+const RETENTION_DAYS = 30; // replayed ids older than this are forgotten on startup
+
+const insertReplayed = db.prepare('INSERT OR IGNORE INTO replayed (id, replayed_at) VALUES (?, ?)');
+
+db.prepare('DELETE FROM replayed WHERE replayed_at < ?').run(Date.now() - RETENTION_DAYS * 86_400_000);
+
+/**
+ * Remember that the spooled entry with this id was replayed. Returns
+ * false if it already had been.
+ */
+export function markReplayed(id, now = Date.now()) {
+  return insertReplayed.run(id, now).changes > 0;
+}
+
+/**
+ * Take ownership of the spool and return its entries, oldest first.
+ * The file is renamed before reading so a hook appending at the same
+ * moment starts a fresh spool instead of losing (or doubling) lines.
+ */
+export function claimSpool(spoolPath = SPOOL_PATH) {
+  const claimed = `${spoolPath}.${process.pid}.claimed`;
+  try {
+    fs.renameSync(spoolPath, claimed);
+  } catch {
+    return []; // nothing spooled
+  }
+
+  const entries = [];
+  try {
+    for (const line of fs.readFileSync(claimed, 'utf-8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Torn write — skip the line
+      }
+    }
+  } finally {
+    fs.rmSync(claimed, { force: true });
+  }
+  return entries;
+}
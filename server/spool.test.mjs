@@ -0,0 +1,49 @@
+/**
+ * Tests for the offline spool (claiming spooled heartbeats, replayed ids).
+ * Run: node --test server/spool.test.mjs
+ */
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database for the replayed ids
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-spool-db-'));
+const { claimSpool, markReplayed } = await import('./spool.mjs');
+
+const TMP = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-spool-'));
+
+after(() => fs.rmSync(TMP, { recursive: true, force: true }));
+
+describe('claimSpool', () => {
+  it('should return nothing when there is no spool', () => {
+    assert.deepEqual(claimSpool(path.join(TMP, 'missing.jsonl')), []);
+  });
+
+  it('should return the spooled entries and remove the file', () => {
+    const spool = path.join(TMP, 'spool.jsonl');
+    const entries = [
+      { timestamp: 1, path: '/api/heartbeat', body: { agent: 'a' } },
+      { timestamp: 2, path: '/api/event', body: { type: 'agent:despawn', agentId: 'a' } },
+    ];
+    fs.writeFileSync(spool, entries.map(e => JSON.stringify(e) + '\n').join(''));
+
+    assert.deepEqual(claimSpool(spool), entries);
+    assert.deepEqual(fs.readdirSync(TMP), []);
+  });
+
+  it('should skip torn lines', () => {
+    const spool = path.join(TMP, 'torn.jsonl');
+    fs.writeFileSync(spool, '{"timestamp":1,"path":"/api/heartbeat","body":{}}\n{"timest');
+    assert.equal(claimSpool(spool).length, 1);
+  });
+});
+
+describe('markReplayed', () => {
+  it('should report an id only the first time', () => {
+    assert.equal(markReplayed('entry-1'), true);
+    assert.equal(markReplayed('entry-1'), false);
+    assert.equal(markReplayed('entry-2'), true);
+  });
+});
@@ -0,0 +1,113 @@
+// ── Stuck Detector ───────────────────────────────────────
+// Watches each agent's steps (heartbeats with an activity) for signs
+// it's going in circles, long before DESPAWN_TIMEOUT would notice:
+//
+//   repeat     the same activity and detail `repeats` times in a row
+//              (a failing test command, re-reading one file)
+//   oscillate  back and forth between two buildings `oscillations`
+//              times without going anywhere else
+//   quiet      busy for `quietMinutes` without a single step
+//
+// Thresholds come from the `stuck` section of the rules files (see
+// classifier.mjs). An agent is flagged once per episode, and cleared
+// when it does something else or goes idle.
+
+import { stuckThresholds } from './classifier.mjs';
+
+const MAX_STEPS = 200;
+const tracks = new Map(); // agentId → { steps: [{ key, detail, building }], lastStepAt, stuck }
+
+// Length of the run of identical steps at the end
+function repeatRun(steps) {
+  const last = steps.at(-1);
+  let run = 0;
+  for (let i = steps.length - 1; i >= 0 && steps[i].key === last.key; i--) run++;
+  return run;
+}
+
+// Moves at the end that alternate between the same two buildings
+function oscillation(steps) {
+  const path = [];
+  for (const step of steps) {
+    if (path.at(-1) !== step.building) path.push(step.building);
+  }
+  if (path.length < 3) return null;
+  const a = path.at(-2);
+  const b = path.at(-1);
+  let n = 2;
+  while (n < path.length && path[path.length - 1 - n] === (n % 2 === 0 ? b : a)) n++;
+  return { moves: n - 1, between: [a, b] };
+}
+
+function evaluate(steps, thresholds) {
+  if (!thresholds || steps.length === 0) return null;
+  const last = steps.at(-1);
+  const run = repeatRun(steps);
+  if (last.detail && run >= thresholds.repeats) {
+    return { kind: 'repeat', reason: `Repeated "${last.detail}" ${run} times in a row` };
+  }
+  const swing = oscillation(steps);
+  if (swing && swing.moves >= thresholds.oscillations) {
+    return {
+      kind: 'oscillate',
+      reason: `Went back and forth between ${swing.between[0]} and ${swing.between[1]} ${swing.moves} times`,
+    };
+  }
+  return null;
+}
+
+// { stuck } when the agent's state changed, else null
+function update(track, found) {
+  if (!found && !track.stuck) return null;
+  if (found && track.stuck?.kind === found.kind) return null;
+  track.stuck = found;
+  return { stuck: found };
+}
+
+/**
+ * Record a step: an activity with its detail, in a building. Returns
+ * { stuck } when the agent became stuck ({ kind, reason }) or came
+ * unstuck (null), else null.
+ */
+export function recordStep(agentId, { activity, detail, building }, now = Date.now(), thresholds = stuckThresholds()) {
+  let track = tracks.get(agentId);
+  if (!track) {
+    track = { steps: [], lastStepAt: now, stuck: null };
+    tracks.set(agentId, track);
+  }
+  track.steps.push({ key: `${activity}\u0000${detail || ''}`, detail: detail || '', building });
+  if (track.steps.length > MAX_STEPS) track.steps.shift();
+  track.lastStepAt = Math.max(track.lastStepAt, now);
+  return update(track, evaluate(track.steps, thresholds));
+}
+
+/**
+ * Flag a busy agent that hasn't taken a step for `quietMinutes`.
+ * Returns { stuck } when it became stuck, else null.
+ */
+export function checkQuiet(agentId, now = Date.now(), thresholds = stuckThresholds()) {
+  const track = tracks.get(agentId);
+  if (!thresholds || !track || track.stuck) return null;
+  const quietFor = now - track.lastStepAt;
+  if (quietFor < thresholds.quietMinutes * 60_000) return null;
+  return update(track, { kind: 'quiet', reason: `No tool calls for ${Math.floor(quietFor / 60_000)} minutes` });
+}
+
+/**
+ * The agent went idle: start counting afresh. Returns { stuck: null }
+ * when that unflagged it, else null.
+ */
+export function resetStuck(agentId, now = Date.now()) {
+  const track = tracks.get(agentId);
+  if (!track) return null;
+  track.steps = [];
+  track.lastStepAt = now;
+  return update(track, null);
+}
+
+/**
+ * Forget a departed agent.
+ */
+export function forgetAgent(agentId) {
+  tracks.delete(agentId);
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for the stuck detector (repeats, oscillation, quiet agents).
+ * Run: node --test server/stuckDetector.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Keep the user rules file out of the way
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-stuck-'));
+const { recordStep, checkQuiet, resetStuck, forgetAgent } = await import('./stuckDetector.mjs');
+
+const THRESHOLDS = { repeats: 4, oscillations: 5, quietMinutes: 5 };
+const test = { activity: 'testing', detail: 'npm test', building: 'arena' };
+const read = (file) => ({ activity: 'researching', detail: file, building: 'library' });
+const edit = (file) => ({ activity: 'coding', detail: file, building: 'workshop' });
+
+describe('repeated steps', () => {
+  it('should flag the same detail repeated in a row, once', () => {
+    const changes = [];
+    for (let i = 0; i < 6; i++) changes.push(recordStep('looper', test, 1000 + i, THRESHOLDS));
+    assert.deepEqual(changes.slice(0, 3), [null, null, null]);
+    assert.deepEqual(changes[3], { stuck: { kind: 'repeat', reason: 'Repeated "npm test" 4 times in a row' } });
+    assert.deepEqual(changes.slice(4), [null, null]);
+  });
+
+  it('should clear the flag when the agent does something else', () => {
+    assert.deepEqual(recordStep('looper', edit('src/app.ts'), 2000, THRESHOLDS), { stuck: null });
+    assert.equal(recordStep('looper', test, 2001, THRESHOLDS), null);
+  });
+
+  it('should not count steps without a detail', () => {
+    const blank = { activity: 'planning', detail: '', building: 'guild' };
+    for (let i = 0; i < 6; i++) assert.equal(recordStep('planner', blank, i, THRESHOLDS), null);
+  });
+});
+
+describe('oscillation', () => {
+  it('should flag going back and forth between two buildings', () => {
+    const steps = [read('a.ts'), edit('a.ts'), read('b.ts'), edit('b.ts'), read('c.ts')];
+    assert.ok(steps.every((step, i) => recordStep('swinger', step, i, THRESHOLDS) === null));
+    const change = recordStep('swinger', edit('c.ts'), 6, THRESHOLDS);
+    assert.equal(change.stuck.kind, 'oscillate');
+    assert.equal(change.stuck.reason, 'Went back and forth between library and workshop 5 times');
+  });
+
+  it('should count several steps in one building as one stop', () => {
+    const steps = [
+      read('a.ts'), read('b.ts'), edit('a.ts'), edit('b.ts'), read('c.ts'), edit('c.ts'), read('d.ts'), edit('d.ts'),
+    ];
+    const changes = steps.map((step, i) => recordStep('wanderer', step, i, THRESHOLDS));
+    assert.ok(changes.slice(0, 7).every(change => change === null));
+    assert.equal(changes[7].stuck.kind, 'oscillate');
+  });
+
+  it('should clear once a third building breaks the pattern', () => {
+    assert.deepEqual(recordStep('swinger', test, 7, THRESHOLDS), { stuck: null });
+  });
+});
+
+describe('quiet agents', () => {
+  it('should flag an agent without steps for too long', () => {
+    recordStep('thinker', edit('a.ts'), 0, THRESHOLDS);
+    assert.equal(checkQuiet('thinker', 4 * 60_000, THRESHOLDS), null);
+    assert.deepEqual(checkQuiet('thinker', 6 * 60_000, THRESHOLDS), {
+      stuck: { kind: 'quiet', reason: 'No tool calls for 6 minutes' },
+    });
+    assert.equal(checkQuiet('thinker', 7 * 60_000, THRESHOLDS), null);
+    assert.deepEqual(recordStep('thinker', test, 8 * 60_000, THRESHOLDS), { stuck: null });
+  });
+
+  it('should ignore agents it has never seen', () => {
+    assert.equal(checkQuiet('stranger', Date.now(), THRESHOLDS), null);
+  });
+});
+
+describe('resetStuck', () => {
+  it('should unflag an agent that went idle and count afresh', () => {
+    for (let i = 0; i < 4; i++) recordStep('resting', test, i, THRESHOLDS);
+    assert.deepEqual(resetStuck('resting', 10), { stuck: null });
+    assert.equal(resetStuck('resting', 11), null);
+    for (let i = 0; i < 3; i++) assert.equal(recordStep('resting', test, 20 + i, THRESHOLDS), null);
+  });
+
+  it('should do nothing when detection is turned off', () => {
+    for (let i = 0; i < 10; i++) assert.equal(recordStep('unwatched', test, i, null), null);
+    forgetAgent('unwatched');
+    assert.equal(resetStuck('unwatched'), null);
+  });
+});
@@ -0,0 +1,163 @@
+// ── Test Parsers ─────────────────────────────────────────
+// Read the summary a test runner prints at the end of its output:
+// how many tests passed, failed and were skipped, and how long the
+// run took. The hook sends the tail of a test command's output on
+// PostToolUse (see agentville-hook.mjs); the bridge parses it here.
+//
+// Known runners: vitest, jest, node --test, pytest, go test and
+// cargo test. The command picks the parser to try first; commands
+// like `npm test` fall back to whichever summary the output holds.
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+const UNIT_MS = { ms: 1, s: 1000, m: 60_000 };
+
+function toMs(value, unit = 's') {
+  return Math.round(parseFloat(value) * UNIT_MS[unit]);
+}
+
+// "2 failed | 24 passed | 1 skipped" → { failed: 2, passed: 24, skipped: 1 }
+function countWords(text) {
+  const counts = {};
+  for (const [, n, word] of text.matchAll(/(\d+) ([a-z]+)/g)) counts[word] = (counts[word] || 0) + Number(n);
+  return counts;
+}
+
+function lastMatch(text, pattern) {
+  return [...text.matchAll(pattern)].at(-1) || null;
+}
+
+// ── Runners ──────────────────────────────────────────────
+
+//  Tests  2 failed | 24 passed | 1 skipped (27)
+//  Duration  1.84s (transform 312ms, ...)
+function parseVitest(output) {
+  const tests = lastMatch(output, /^\s*Tests\s+(.+?)\s+\(\d+\)\s*$/gm);
+  if (!tests) return null;
+  const counts = countWords(tests[1]);
+  const duration = lastMatch(output, /^\s*Duration\s+([\d.]+)(ms|s)\b/gm);
+  return {
+    passed: counts.passed || 0,
+    failed: counts.failed || 0,
+    skipped: (counts.skipped || 0) + (counts.todo || 0),
+    duration: duration ? toMs(duration[1], duration[2]) : null,
+  };
+}
+
+// Tests:       1 failed, 2 skipped, 37 passed, 40 total
+// Time:        3.912 s
+function parseJest(output) {
+  const tests = lastMatch(output, /^Tests:\s+(.+)$/gm);
+  if (!tests) return null;
+  const counts = countWords(tests[1]);
+  const time = lastMatch(output, /^Time:\s+([\d.]+) ?(ms|s|m)\b/gm);
+  return {
+    passed: counts.passed || 0,
+    failed: counts.failed || 0,
+    skipped: (counts.skipped || 0) + (counts.todo || 0),
+    duration: time ? toMs(time[1], time[2]) : null,
+  };
+}
+
+// ℹ pass 9 (spec reporter) or # pass 9 (tap), through ℹ duration_ms 412.53
+function parseNodeTest(output) {
+  const totals = {};
+  for (const [, key, value] of output.matchAll(/^[ℹ#] (tests|pass|fail|cancelled|skipped|todo|duration_ms) ([\d.]+)\s*$/gm)) {
+    totals[key] = Number(value);
+  }
+  if (totals.pass === undefined || totals.fail === undefined) return null;
+  return {
+    passed: totals.pass,
+    failed: totals.fail + (totals.cancelled || 0),
+    skipped: (totals.skipped || 0) + (totals.todo || 0),
+    duration: totals.duration_ms !== undefined ? Math.round(totals.duration_ms) : null,
+  };
+}
+
+// ===== 1 failed, 44 passed, 2 skipped, 1 error in 2.37s =====
+function parsePytest(output) {
+  const summary = lastMatch(output, /^=+ (.*?\d+ (?:passed|failed|skipped|errors?).*?) in ([\d.]+)s\b.*=+\s*$/gm);
+  if (!summary) return null;
+  const counts = countWords(summary[1]);
+  return {
+    passed: counts.passed || 0,
+    failed: (counts.failed || 0) + (counts.error || 0) + (counts.errors || 0),
+    skipped: counts.skipped || 0,
+    duration: toMs(summary[2]),
+  };
+}
+
+// With -v, one "--- PASS: TestName (0.00s)" per test; without it
+// only failing tests are listed, so packages are counted instead
+// ("ok  \tpkg\t0.13s", "FAIL\tpkg\t0.02s").
+function parseGoTest(output) {
+  const packages = [...output.matchAll(/^(ok|FAIL)\s*\t(\S+)\t(?:([\d.]+)s|.*)$/gm)];
+  const tests = [...output.matchAll(/^--- (PASS|FAIL|SKIP): /gm)].map(m => m[1]);
+  if (packages.length === 0 && tests.length === 0) return null;
+
+  const duration = packages.reduce((sum, m) => sum + (m[3] ? toMs(m[3]) : 0), 0);
+  if (tests.includes('PASS')) {
+    return {
+      passed: tests.filter(t => t === 'PASS').length,
+      failed: tests.filter(t => t === 'FAIL').length,
+      skipped: tests.filter(t => t === 'SKIP').length,
+      duration,
+    };
+  }
+  return {
+    passed: packages.filter(m => m[1] === 'ok').length,
+    failed: packages.filter(m => m[1] === 'FAIL').length,
+    skipped: 0,
+    duration,
+  };
+}
+
+// One "test result:" line per test target (unit tests, doc tests, ...)
+function parseCargoTest(output) {
+  const results = [...output.matchAll(
+    /^test result: (?:ok|FAILED)\. (\d+) passed; (\d+) failed; (\d+) ignored;.*?finished in ([\d.]+)s/gm,
+  )];
+  if (results.length === 0) return null;
+  const sum = (i) => results.reduce((total, m) => total + Number(m[i]), 0);
+  return {
+    passed: sum(1),
+    failed: sum(2),
+    skipped: sum(3),
+    duration: results.reduce((total, m) => total + toMs(m[4]), 0),
+  };
+}
+
+const RUNNERS = [
+  { runner: 'vitest', command: /\bvitest\b/, parse: parseVitest },
+  { runner: 'jest', command: /\bjest\b/, parse: parseJest },
+  { runner: 'node', command: /\bnode\b.*\s--test\b/, parse: parseNodeTest },
+  { runner: 'pytest', command: /\bpytest\b/, parse: parsePytest },
+  { runner: 'go', command: /\bgo test\b/, parse: parseGoTest },
+  { runner: 'cargo', command: /\bcargo (?:\+\S+ )?test\b/, parse: parseCargoTest },
+];
+
+export const TEST_RUNNERS = RUNNERS.map(r => r.runner);
+
+/**
+ * The runner a test command names, or null (`npm test`, `make check`).
+ */
+export function runnerFor(command = '') {
+  return RUNNERS.find(r => r.command.test(command))?.runner || null;
+}
+
+/**
+ * Summary of a test run from its output, as { runner, passed, failed,
+ * skipped, duration } (duration in ms, or null when not printed), or
+ * null when no known runner's summary is in it.
+ */
+export function parseTestOutput(command, output) {
+  if (typeof output !== 'string' || !output) return null;
+  const text = output.replace(ANSI, '').replace(/\r\n?/g, '\n');
+  const hinted = runnerFor(command || '');
+  const order = [...RUNNERS].sort((a, b) => (b.runner === hinted) - (a.runner === hinted));
+  for (const { runner, parse } of order) {
+    const result = parse(text);
+    if (result) return { runner, ...result };
+  }
+  return null;
+}
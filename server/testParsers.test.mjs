@@ -0,0 +1,126 @@
+/**
+ * Tests for the test runner output parsers, against recorded output
+ * in fixtures/test-output/.
+ * Run: node --test server/testParsers.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { parseTestOutput, runnerFor, TEST_RUNNERS } from './testParsers.mjs';
+
+const fixture = (name) => fs.readFileSync(new URL(`./fixtures/test-output/${name}`, import.meta.url), 'utf8');
+
+describe('vitest', () => {
+  it('should read the Tests and Duration lines', () => {
+    assert.deepEqual(parseTestOutput('npx vitest run', fixture('vitest-fail.txt')), {
+      runner: 'vitest', passed: 24, failed: 2, skipped: 1, duration: 1840,
+    });
+  });
+
+  it('should read a passing run with a duration in ms', () => {
+    assert.deepEqual(parseTestOutput('vitest run', fixture('vitest-pass.txt')), {
+      runner: 'vitest', passed: 21, failed: 0, skipped: 0, duration: 612,
+    });
+  });
+});
+
+describe('jest', () => {
+  it('should read the Tests and Time lines', () => {
+    assert.deepEqual(parseTestOutput('npx jest', fixture('jest-fail.txt')), {
+      runner: 'jest', passed: 37, failed: 1, skipped: 2, duration: 3912,
+    });
+  });
+});
+
+describe('node --test', () => {
+  it('should read the spec reporter totals, counting cancelled as failed', () => {
+    const output = fixture('node-test.txt').replace('ℹ cancelled 0', 'ℹ cancelled 1');
+    assert.deepEqual(parseTestOutput('node --test server/', output), {
+      runner: 'node', passed: 9, failed: 3, skipped: 1, duration: 413,
+    });
+  });
+
+  it('should read the TAP reporter totals', () => {
+    assert.deepEqual(parseTestOutput('node --test --test-reporter=tap', fixture('node-test-tap.txt')), {
+      runner: 'node', passed: 5, failed: 0, skipped: 0, duration: 88,
+    });
+  });
+});
+
+describe('pytest', () => {
+  it('should read the summary line, counting errors as failed', () => {
+    assert.deepEqual(parseTestOutput('python -m pytest -q', fixture('pytest-fail.txt')), {
+      runner: 'pytest', passed: 44, failed: 2, skipped: 2, duration: 2370,
+    });
+  });
+
+  it('should read a passing run', () => {
+    assert.deepEqual(parseTestOutput('pytest', fixture('pytest-pass.txt')), {
+      runner: 'pytest', passed: 7, failed: 0, skipped: 0, duration: 40,
+    });
+  });
+});
+
+describe('go test', () => {
+  it('should count tests with -v', () => {
+    assert.deepEqual(parseTestOutput('go test -v ./...', fixture('go-test-verbose.txt')), {
+      runner: 'go', passed: 3, failed: 1, skipped: 1, duration: 135,
+    });
+  });
+
+  it('should count packages without -v', () => {
+    assert.deepEqual(parseTestOutput('go test ./...', fixture('go-test.txt')), {
+      runner: 'go', passed: 2, failed: 1, skipped: 0, duration: 156,
+    });
+  });
+});
+
+describe('cargo test', () => {
+  it('should read a failing target', () => {
+    assert.deepEqual(parseTestOutput('cargo test', fixture('cargo-test.txt')), {
+      runner: 'cargo', passed: 6, failed: 1, skipped: 1, duration: 30,
+    });
+  });
+
+  it('should add up every test target', () => {
+    assert.deepEqual(parseTestOutput('cargo test --all', fixture('cargo-test-pass.txt')), {
+      runner: 'cargo', passed: 8, failed: 0, skipped: 1, duration: 440,
+    });
+  });
+});
+
+describe('parseTestOutput', () => {
+  it('should find the runner from the output when the command does not name it', () => {
+    assert.equal(parseTestOutput('npm test', fixture('vitest-pass.txt')).runner, 'vitest');
+    assert.equal(parseTestOutput('make check', fixture('pytest-fail.txt')).runner, 'pytest');
+    assert.equal(parseTestOutput(undefined, fixture('jest-fail.txt')).runner, 'jest');
+  });
+
+  it('should strip colours and carriage returns', () => {
+    const output = '\x1b[2m      Tests \x1b[22m \x1b[1m\x1b[32m3 passed\x1b[39m\x1b[22m\x1b[90m (3)\x1b[39m\r\n';
+    assert.deepEqual(parseTestOutput('vitest', output), {
+      runner: 'vitest', passed: 3, failed: 0, skipped: 0, duration: null,
+    });
+  });
+
+  it('should return null without a known summary', () => {
+    assert.equal(parseTestOutput('npm test', 'npm ERR! missing script: test'), null);
+    assert.equal(parseTestOutput('npm test', ''), null);
+    assert.equal(parseTestOutput('npm test', undefined), null);
+  });
+});
+
+describe('runnerFor', () => {
+  it('should name the runner from the command', () => {
+    assert.equal(runnerFor('npx vitest run src/'), 'vitest');
+    assert.equal(runnerFor('node --test server/*.test.mjs'), 'node');
+    assert.equal(runnerFor('cd api && python -m pytest -x'), 'pytest');
+    assert.equal(runnerFor('go test ./...'), 'go');
+    assert.equal(runnerFor('cargo +nightly test'), 'cargo');
+    assert.equal(runnerFor('npm test'), null);
+  });
+
+  it('should know every runner', () => {
+    assert.deepEqual(TEST_RUNNERS, ['vitest', 'jest', 'node', 'pytest', 'go', 'cargo']);
+  });
+});
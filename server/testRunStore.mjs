@@ -0,0 +1,98 @@
+// ── Test Run Store ───────────────────────────────────────
+// Every test run the bridge could parse (see testParsers.mjs): who
+// ran it, in which clan, with which runner, and how many tests
+// passed, failed and were skipped. Runs are rare next to heartbeats,
+// so each one is written to SQLite (see db.mjs) straight away.
+
+import { db } from './db.mjs';
+
+const insertRun = db.prepare(`
+  INSERT INTO test_runs (agent_id, clan, runner, command, passed, failed, skipped, duration, ran_at)
+  VALUES (:agentId, :clan, :runner, :command, :passed, :failed, :skipped, :duration, :ranAt)
+  RETURNING id
+`);
+
+function toRun(row) {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    clan: row.clan,
+    runner: row.runner,
+    command: row.command,
+    passed: row.passed,
+    failed: row.failed,
+    skipped: row.skipped,
+    duration: row.duration,
+    ranAt: row.ran_at,
+  };
+}
+
+/**
+ * Record a parsed run ({ runner, passed, failed, skipped, duration })
+ * for an agent. Returns the stored run.
+ */
+export function recordTestRun(agentId, { clan, runner, command, passed, failed, skipped, duration }, timestamp = Date.now()) {
+  const run = {
+    agentId,
+    clan: clan || null,
+    runner,
+    command: command || null,
+    passed: passed || 0,
+    failed: failed || 0,
+    skipped: skipped || 0,
+    duration: duration ?? null,
+    ranAt: timestamp,
+  };
+  const { id } = insertRun.get(run);
+  return { id, ...run };
+}
+
+function filters({ agent, clan, from, to }) {
+  const where = ['ran_at >= :from', 'ran_at <= :to'];
+  const params = { from: from ?? 0, to: to ?? Number.MAX_SAFE_INTEGER };
+  if (agent) {
+    where.push('agent_id = :agent');
+    params.agent = agent;
+  }
+  if (clan) {
+    where.push('clan = :clan');
+    params.clan = clan;
+  }
+  return { where: where.join(' AND '), params };
+}
+
+/**
+ * Test runs, newest first. Filters: agent, clan, from/to (epoch ms).
+ */
+export function getTestRuns({ agent, clan, from, to, limit = 100 } = {}) {
+  const { where, params } = filters({ agent, clan, from, to });
+  return db.prepare(`
+    SELECT * FROM test_runs WHERE ${where} ORDER BY ran_at DESC, id DESC LIMIT :limit
+  `).all({ ...params, limit }).map(toRun);
+}
+
+/**
+ * Totals per agent or clan (`by`), most runs first: [{ agentId | clan,
+ * runs, green, red, passed, failed, skipped, lastRunAt }]. A run is
+ * red when any test failed.
+ */
+export function getTestTotals({ by = 'clan', agent, clan, from, to } = {}) {
+  const column = by === 'agent' ? 'agent_id' : 'clan';
+  const key = by === 'agent' ? 'agentId' : 'clan';
+  const { where, params } = filters({ agent, clan, from, to });
+  return db.prepare(`
+    SELECT ${column} AS name, COUNT(*) AS runs, SUM(failed = 0) AS green,
+           SUM(passed) AS passed, SUM(failed) AS failed, SUM(skipped) AS skipped, MAX(ran_at) AS last_run_at
+    FROM test_runs WHERE ${where}
+    GROUP BY ${column} ORDER BY runs DESC, last_run_at DESC
+  `).all(params).map(row => ({
+    [key]: row.name,
+    runs: row.runs,
+    green: row.green,
+    red: row.runs - row.green,
+    passed: row.passed,
+    failed: row.failed,
+    skipped: row.skipped,
+    lastRunAt: row.last_run_at,
+  }));
+}
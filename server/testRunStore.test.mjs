@@ -0,0 +1,60 @@
+/**
+ * Tests for the test run store (per-agent and per-clan history).
+ * Run: node --test server/testRunStore.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Use a throwaway database
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-tests-'));
+const { recordTestRun, getTestRuns, getTestTotals } = await import('./testRunStore.mjs');
+
+recordTestRun('claude-a', { clan: 'shop', runner: 'vitest', command: 'vitest run', passed: 20, failed: 2, skipped: 1, duration: 1800 }, 1000);
+recordTestRun('claude-a', { clan: 'shop', runner: 'vitest', command: 'vitest run', passed: 22, failed: 0, skipped: 1, duration: 1700 }, 2000);
+recordTestRun('claude-b', { clan: 'shop', runner: 'jest', passed: 5, failed: 0, skipped: 0 }, 3000);
+recordTestRun('claude-c', { clan: 'api', runner: 'pytest', passed: 40, failed: 1, skipped: 0, duration: 2300 }, 4000);
+
+describe('recordTestRun', () => {
+  it('should return the stored run with its id', () => {
+    const run = recordTestRun('claude-d', { runner: 'go', passed: 3 }, 500);
+    assert.ok(run.id > 0);
+    assert.deepEqual({ ...run, id: 0 }, {
+      id: 0, agentId: 'claude-d', clan: null, runner: 'go', command: null,
+      passed: 3, failed: 0, skipped: 0, duration: null, ranAt: 500,
+    });
+  });
+});
+
+describe('getTestRuns', () => {
+  it('should list runs newest first', () => {
+    const runs = getTestRuns();
+    assert.deepEqual(runs.map(r => r.ranAt), [4000, 3000, 2000, 1000, 500]);
+    assert.equal(runs[0].runner, 'pytest');
+  });
+
+  it('should filter by agent, clan and time', () => {
+    assert.deepEqual(getTestRuns({ agent: 'claude-a' }).map(r => r.ranAt), [2000, 1000]);
+    assert.deepEqual(getTestRuns({ clan: 'api' }).map(r => r.agentId), ['claude-c']);
+    assert.deepEqual(getTestRuns({ from: 1500, to: 3000 }).map(r => r.ranAt), [3000, 2000]);
+    assert.equal(getTestRuns({ limit: 2 }).length, 2);
+  });
+});
+
+describe('getTestTotals', () => {
+  it('should add up runs per clan', () => {
+    const [shop, api] = getTestTotals({ by: 'clan', from: 1000 });
+    assert.deepEqual(shop, {
+      clan: 'shop', runs: 3, green: 2, red: 1, passed: 47, failed: 2, skipped: 2, lastRunAt: 3000,
+    });
+    assert.equal(api.clan, 'api');
+    assert.equal(api.red, 1);
+  });
+
+  it('should add up runs per agent', () => {
+    const totals = getTestTotals({ by: 'agent', clan: 'shop' });
+    assert.deepEqual(totals.map(t => [t.agentId, t.runs]), [['claude-a', 2], ['claude-b', 1]]);
+  });
+});
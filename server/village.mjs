@@ -0,0 +1,120 @@
+// ── Village Config ───────────────────────────────────────
+// The buildings of the village: where they stand, how they look
+// and which activities they host. The bridge uses it to route
+// activities to buildings, and the dashboard fetches it from
+// /api/village to lay out the map.
+//
+// Built-in buildings live in village.default.json. A
+// data/village.json ({ "buildings": [...] }) is merged on top at
+// startup: an entry with an existing id patches that building, a
+// new id adds one. An activity claimed by a user entry moves there
+// from whichever default building hosted it.
+//
+// Building fields:
+//   id, name      required for new buildings
+//   position      { x, y } offset from the village center (required)
+//   icon          emoji shown on the building
+//   color         body color; glowColor for light and particles
+//   activities    activities that send agents here
+//   ladder        "settlement" for the campfire-style level titles
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DATA_DIR } from './dataDir.mjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_VILLAGE_PATH = path.join(__dirname, 'village.default.json');
+const USER_VILLAGE_PATH = path.join(DATA_DIR, 'village.json');
+
+const BUILDING_DEFAULTS = {
+  icon: '🏠',
+  color: '#334155',
+  glowColor: '#94a3b8',
+  activities: [],
+};
+
+function validPosition(position) {
+  return position && Number.isFinite(position.x) && Number.isFinite(position.y);
+}
+
+/**
+ * Merge user building entries into a list of buildings.
+ * Throws on entries that can't be placed on the map.
+ */
+export function mergeBuildings(base, overrides = []) {
+  const buildings = base.map(b => ({ ...b, activities: [...b.activities] }));
+
+  for (const entry of overrides) {
+    if (!entry || typeof entry.id !== 'string' || !entry.id) {
+      throw new Error('building needs an id');
+    }
+    if (entry.position !== undefined && !validPosition(entry.position)) {
+      throw new Error(`building "${entry.id}" has an invalid position`);
+    }
+
+    // Claimed activities leave their previous building
+    if (Array.isArray(entry.activities)) {
+      for (const b of buildings) {
+        if (b.id !== entry.id) b.activities = b.activities.filter(a => !entry.activities.includes(a));
+      }
+    }
+
+    const existing = buildings.find(b => b.id === entry.id);
+    if (existing) {
+      Object.assign(existing, entry);
+      continue;
+    }
+    if (typeof entry.name !== 'string' || !entry.position) {
+      throw new Error(`building "${entry.id}" needs a name and a position`);
+    }
+    buildings.push({ ...BUILDING_DEFAULTS, ...entry });
+  }
+  return buildings;
+}
+
+/**
+ * Load the default village with the user's file (if any) on top.
+ * An invalid user file is reported and ignored.
+ */
+export function loadVillage(userPath = USER_VILLAGE_PATH) {
+  const defaults = JSON.parse(fs.readFileSync(DEFAULT_VILLAGE_PATH, 'utf-8')).buildings;
+  if (!fs.existsSync(userPath)) return { buildings: defaults };
+
+  try {
+    const user = JSON.parse(fs.readFileSync(userPath, 'utf-8'));
+    const buildings = mergeBuildings(defaults, user.buildings);
+    console.log(`  🏘  Loaded village layout from ${userPath}`);
+    return { buildings };
+  } catch (err) {
+    console.log(`  ⚠ Ignoring ${userPath}: ${err.message}`);
+    return { buildings: defaults };
+  }
+}
+
+const village = loadVillage();
+
+/**
+ * The village config served at /api/village.
+ */
+export function getVillage() {
+  return village;
+}
+
+/**
+ * Id of the first building hosting an activity, or null.
+ */
+export function buildingForActivity(activity) {
+  return village.buildings.find(b => b.activities.includes(activity))?.id ?? null;
+}
+
+/**
+ * Whether a building levels up through the settlement titles
+ * (Campsite → Heart of Village) rather than the building ones.
+ */
+export function isSettlement(buildingId) {
+  return village.buildings.find(b => b.id === buildingId)?.ladder === 'settlement';
+}
+
+// Export for testing
+export { USER_VILLAGE_PATH };
@@ -0,0 +1,87 @@
+/**
+ * Tests for the village config (defaults, user merge, lookups).
+ * Run: node --test server/village.test.mjs
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Point the user village file at a throwaway directory before the module loads
+process.env.AGENTVILLE_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'agentville-village-'));
+const {
+  mergeBuildings, loadVillage, getVillage, buildingForActivity, isSettlement,
+} = await import('./village.mjs');
+
+const base = [
+  { id: 'forge', name: 'The Forge', icon: '⚒️', color: '#000', glowColor: '#111', position: { x: 0, y: 0 }, activities: ['coding'] },
+  { id: 'tower', name: 'Watchtower', icon: '🔭', color: '#000', glowColor: '#111', position: { x: 1, y: 1 }, activities: ['reviewing'] },
+];
+
+describe('default village', () => {
+  it('should route the built-in activities', () => {
+    assert.equal(buildingForActivity('coding'), 'forge');
+    assert.equal(buildingForActivity('idle'), 'campfire');
+    assert.equal(buildingForActivity('deploy'), null);
+  });
+
+  it('should include the tavern as a settlement', () => {
+    assert.ok(getVillage().buildings.some(b => b.id === 'tavern'));
+    assert.ok(isSettlement('tavern'));
+    assert.ok(isSettlement('campfire'));
+    assert.ok(!isSettlement('forge'));
+  });
+});
+
+describe('mergeBuildings', () => {
+  it('should add new buildings with default looks', () => {
+    const merged = mergeBuildings(base, [
+      { id: 'harbor', name: 'The Harbor', icon: '⚓', position: { x: 250, y: 40 }, activities: ['deploy'] },
+    ]);
+    const harbor = merged.find(b => b.id === 'harbor');
+    assert.equal(merged.length, 3);
+    assert.equal(harbor.icon, '⚓');
+    assert.ok(harbor.color && harbor.glowColor);
+  });
+
+  it('should patch existing buildings', () => {
+    const merged = mergeBuildings(base, [{ id: 'forge', name: 'Smithy', position: { x: 5, y: 5 } }]);
+    const forge = merged.find(b => b.id === 'forge');
+    assert.equal(forge.name, 'Smithy');
+    assert.deepEqual(forge.position, { x: 5, y: 5 });
+    assert.deepEqual(forge.activities, ['coding']);
+  });
+
+  it('should move claimed activities away from other buildings', () => {
+    const merged = mergeBuildings(base, [
+      { id: 'mine', name: 'The Mine', position: { x: 0, y: 200 }, activities: ['database', 'reviewing'] },
+    ]);
+    assert.deepEqual(merged.find(b => b.id === 'tower').activities, []);
+    assert.deepEqual(base[1].activities, ['reviewing'], 'should not mutate the defaults');
+  });
+
+  it('should reject buildings it cannot place', () => {
+    assert.throws(() => mergeBuildings(base, [{ name: 'No id' }]), /id/);
+    assert.throws(() => mergeBuildings(base, [{ id: 'mine', name: 'The Mine' }]), /position/);
+    assert.throws(() => mergeBuildings(base, [{ id: 'forge', position: { x: 'left' } }]), /position/);
+  });
+});
+
+describe('loadVillage', () => {
+  it('should fall back to the defaults for an invalid file', () => {
+    const file = path.join(process.env.AGENTVILLE_DATA_DIR, 'broken.json');
+    fs.writeFileSync(file, '{ not json');
+    assert.deepEqual(loadVillage(file), loadVillage(path.join(process.env.AGENTVILLE_DATA_DIR, 'missing.json')));
+  });
+
+  it('should merge a user file on top of the defaults', () => {
+    const file = path.join(process.env.AGENTVILLE_DATA_DIR, 'custom.json');
+    fs.writeFileSync(file, JSON.stringify({
+      buildings: [{ id: 'harbor', name: 'The Harbor', position: { x: 250, y: 40 }, activities: ['deploy'] }],
+    }));
+    const { buildings } = loadVillage(file);
+    assert.equal(buildings.at(-1).id, 'harbor');
+    assert.ok(buildings.some(b => b.id === 'campfire'));
+  });
+});
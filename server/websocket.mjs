@@ -0,0 +1,233 @@
+// ── WebSocket ────────────────────────────────────────────
+// Minimal RFC 6455 server side (no dependencies): the upgrade
+// handshake plus a frame codec for text messages, fragmentation,
+// ping/pong and close. The bridge mounts it at /ws next to the
+// SSE stream; it carries the same events one way and dashboard
+// commands the other (see bridge.mjs).
+
+import crypto from 'node:crypto';
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 1024 * 1024; // commands are tiny; anything bigger is a mistake
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+export const CLOSE_CODES = {
+  normal: 1000,
+  goingAway: 1001,
+  protocolError: 1002,
+  unsupported: 1003,
+  tooBig: 1009,
+};
+
+/**
+ * Sec-WebSocket-Accept value for a client's Sec-WebSocket-Key.
+ */
+export function acceptKey(key) {
+  return crypto.createHash('sha1').update(key + GUID).digest('base64');
+}
+
+// ── Frame codec ──────────────────────────────────────────
+
+/**
+ * Encode one unfragmented frame. Server frames are never masked;
+ * pass `mask` (4 bytes) to build client frames, e.g. in tests.
+ */
+export function encodeFrame(payload, opcode = OPCODES.text, mask = null) {
+  const data = Buffer.isBuffer(payload) ? payload : Buffer.from(String(payload));
+  const len = data.length;
+  const extLen = len < 126 ? 0 : len < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + extLen + (mask ? 4 : 0));
+
+  header[0] = 0x80 | opcode; // FIN
+  header[1] = (mask ? 0x80 : 0) | (extLen === 0 ? len : extLen === 2 ? 126 : 127);
+  if (extLen === 2) header.writeUInt16BE(len, 2);
+  if (extLen === 8) header.writeBigUInt64BE(BigInt(len), 2);
+  if (!mask) return Buffer.concat([header, data]);
+
+  mask.copy(header, 2 + extLen);
+  const masked = Buffer.alloc(len);
+  for (let i = 0; i < len; i++) masked[i] = data[i] ^ mask[i % 4];
+  return Buffer.concat([header, masked]);
+}
+
+/**
+ * Decode the frame at the start of `buffer`. Returns null while the
+ * frame is incomplete, otherwise { fin, opcode, payload, size } where
+ * `size` is the number of bytes it used. Throws a { code } error on
+ * protocol violations.
+ */
+export function decodeFrame(buffer, { requireMask = true } = {}) {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let len = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (buffer[0] & 0x70) throw protocolError('reserved bits set');
+  if (requireMask && !masked) throw protocolError('client frames must be masked');
+  if (opcode >= 0x8 && (!fin || len > 125)) throw protocolError('invalid control frame');
+
+  if (len === 126) {
+    if (buffer.length < 4) return null;
+    len = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (len === 127) {
+    if (buffer.length < 10) return null;
+    const big = buffer.readBigUInt64BE(2);
+    if (big > BigInt(MAX_MESSAGE)) throw tooBig();
+    len = Number(big);
+    offset = 10;
+  }
+  if (len > MAX_MESSAGE) throw tooBig();
+
+  const maskKey = masked ? buffer.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buffer.length < offset + len) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + len));
+  if (maskKey) {
+    for (let i = 0; i < len; i++) payload[i] ^= maskKey[i % 4];
+  }
+  return { fin, opcode, payload, size: offset + len };
+}
+
+function protocolError(message) {
+  return Object.assign(new Error(message), { code: CLOSE_CODES.protocolError });
+}
+
+function tooBig() {
+  return Object.assign(new Error('message too big'), { code: CLOSE_CODES.tooBig });
+}
+
+// ── Connections ──────────────────────────────────────────
+
+/**
+ * Complete the handshake for an HTTP upgrade request and wrap the
+ * socket. Returns null (after answering 400) for invalid requests.
+ *
+ * handlers.onMessage(text) is called per complete text message,
+ * handlers.onClose() once when the connection goes away.
+ */
+export function acceptWebSocket(req, socket, head, { onMessage, onClose } = {}) {
+  const key = req.headers['sec-websocket-key'];
+  if (
+    req.method !== 'GET'
+    || String(req.headers.upgrade).toLowerCase() !== 'websocket'
+    || req.headers['sec-websocket-version'] !== '13'
+    || !key
+  ) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+    '', '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  let buffer = head?.length ? Buffer.from(head) : Buffer.alloc(0);
+  let fragments = [];
+  let fragmentOpcode = null;
+  let open = true;
+
+  function write(frame) {
+    if (open && socket.writable) socket.write(frame);
+  }
+
+  function finish() {
+    if (!open) return;
+    open = false;
+    socket.destroy();
+    onClose?.();
+  }
+
+  function close(code = CLOSE_CODES.normal, reason = '') {
+    if (!open) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    socket.write(encodeFrame(payload, OPCODES.close));
+    open = false;
+    socket.end();
+    onClose?.();
+  }
+
+  function handleFrame({ fin, opcode, payload }) {
+    switch (opcode) {
+      case OPCODES.ping:
+        write(encodeFrame(payload, OPCODES.pong));
+        return;
+      case OPCODES.pong:
+        return;
+      case OPCODES.close:
+        close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_CODES.normal);
+        return;
+      case OPCODES.text:
+      case OPCODES.binary:
+        if (fragmentOpcode !== null) throw protocolError('expected a continuation frame');
+        fragmentOpcode = opcode;
+        break;
+      case OPCODES.continuation:
+        if (fragmentOpcode === null) throw protocolError('unexpected continuation frame');
+        break;
+      default:
+        throw protocolError(`unknown opcode ${opcode}`);
+    }
+
+    fragments.push(payload);
+    if (fragments.reduce((n, f) => n + f.length, 0) > MAX_MESSAGE) throw tooBig();
+    if (!fin) return;
+
+    const message = Buffer.concat(fragments);
+    const messageOpcode = fragmentOpcode;
+    fragments = [];
+    fragmentOpcode = null;
+    if (messageOpcode !== OPCODES.text) {
+      close(CLOSE_CODES.unsupported, 'text messages only');
+      return;
+    }
+    onMessage?.(message.toString('utf-8'));
+  }
+
+  function onData(chunk) {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    try {
+      while (open) {
+        const frame = decodeFrame(buffer);
+        if (!frame) break;
+        buffer = buffer.subarray(frame.size);
+        handleFrame(frame);
+      }
+    } catch (err) {
+      close(err.code || CLOSE_CODES.protocolError, err.message);
+    }
+  }
+
+  socket.on('data', onData);
+  socket.on('close', finish);
+  socket.on('error', finish);
+  if (buffer.length) queueMicrotask(() => onData(Buffer.alloc(0)));
+
+  return {
+    send(text) {
+      write(encodeFrame(text));
+    },
+    close,
+    get open() {
+      return open;
+    },
+  };
+}
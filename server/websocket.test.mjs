@@ -0,0 +1,197 @@
+/**
+ * Tests for the WebSocket handshake and frame codec.
+ * Run: node --test server/websocket.test.mjs
+ */
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import {
+  OPCODES, CLOSE_CODES, acceptKey, encodeFrame, decodeFrame, acceptWebSocket,
+} from './websocket.mjs';
+
+const MASK = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+
+// ── Codec ────────────────────────────────────────────────
+
+describe('acceptKey', () => {
+  it('should match the RFC 6455 example', () => {
+    assert.equal(acceptKey('dGhlIHNhbXBsZSBub25jZQ=='), 's3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+});
+
+describe('encodeFrame / decodeFrame', () => {
+  for (const size of [5, 300, 70_000]) {
+    it(`should round-trip a masked ${size}-byte message`, () => {
+      const text = 'x'.repeat(size);
+      const frame = decodeFrame(encodeFrame(text, OPCODES.text, MASK));
+      assert.equal(frame.fin, true);
+      assert.equal(frame.opcode, OPCODES.text);
+      assert.equal(frame.payload.toString(), text);
+    });
+  }
+
+  it('should report how many bytes the frame used', () => {
+    const first = encodeFrame('one', OPCODES.text, MASK);
+    const buffer = Buffer.concat([first, encodeFrame('two', OPCODES.text, MASK)]);
+    assert.equal(decodeFrame(buffer).size, first.length);
+  });
+
+  it('should return null for an incomplete frame', () => {
+    const frame = encodeFrame('hello', OPCODES.text, MASK);
+    assert.equal(decodeFrame(frame.subarray(0, frame.length - 1)), null);
+    assert.equal(decodeFrame(frame.subarray(0, 1)), null);
+  });
+
+  it('should reject unmasked client frames', () => {
+    assert.throws(() => decodeFrame(encodeFrame('hello')), { code: CLOSE_CODES.protocolError });
+    assert.equal(decodeFrame(encodeFrame('hello'), { requireMask: false }).payload.toString(), 'hello');
+  });
+
+  it('should reject fragmented control frames', () => {
+    const frame = encodeFrame('', OPCODES.ping, MASK);
+    frame[0] &= 0x7f; // clear FIN
+    assert.throws(() => decodeFrame(frame), { code: CLOSE_CODES.protocolError });
+  });
+
+  it('should reject messages over the size limit', () => {
+    const header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(2 ** 32), 2);
+    assert.throws(() => decodeFrame(header), { code: CLOSE_CODES.tooBig });
+  });
+});
+
+// ── Connections ──────────────────────────────────────────
+
+describe('acceptWebSocket', () => {
+  let server;
+  let port;
+  const closed = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => res.end());
+    server.on('upgrade', (req, socket, head) => {
+      const ws = acceptWebSocket(req, socket, head, {
+        onMessage: (text) => ws.send(`echo:${text}`),
+        onClose: () => closed.push(req.url),
+      });
+    });
+    await new Promise(resolve => server.listen(0, resolve));
+    port = server.address().port;
+  });
+
+  after(() => server.close());
+
+  // Raw client: performs the handshake and collects decoded server frames
+  async function rawClient(path = '/') {
+    const socket = net.connect(port);
+    const frames = [];
+    let buffer = Buffer.alloc(0);
+    let upgraded = false;
+    let onFrame = () => {};
+    await new Promise((resolve, reject) => {
+      socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        if (!upgraded) {
+          const end = buffer.indexOf('\r\n\r\n');
+          if (end === -1) return;
+          const head = buffer.subarray(0, end).toString();
+          buffer = buffer.subarray(end + 4);
+          upgraded = true;
+          if (!head.startsWith('HTTP/1.1 101')) return reject(new Error(head));
+          resolve();
+        }
+        let frame;
+        while ((frame = decodeFrame(buffer, { requireMask: false }))) {
+          buffer = buffer.subarray(frame.size);
+          frames.push(frame);
+          onFrame();
+        }
+      });
+      socket.on('error', reject);
+      socket.write([
+        `GET ${path} HTTP/1.1`, `Host: localhost:${port}`, 'Upgrade: websocket', 'Connection: Upgrade',
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version: 13', '', '',
+      ].join('\r\n'));
+    });
+    return {
+      socket,
+      frames,
+      send: (payload, opcode = OPCODES.text) => socket.write(encodeFrame(payload, opcode, MASK)),
+      // Resolves once `count` frames have arrived
+      waitFor(count) {
+        return new Promise(resolve => {
+          onFrame = () => { if (frames.length >= count) resolve(frames); };
+          onFrame();
+        });
+      },
+    };
+  }
+
+  it('should exchange text messages with a standard client', async () => {
+    const ws = new WebSocket(`ws://localhost:${port}/standard`);
+    const reply = await new Promise((resolve, reject) => {
+      ws.onopen = () => ws.send('hello');
+      ws.onmessage = (msg) => resolve(msg.data);
+      ws.onerror = () => reject(new Error('WebSocket error'));
+    });
+    assert.equal(reply, 'echo:hello');
+    ws.close();
+  });
+
+  it('should reassemble fragmented messages', async () => {
+    const client = await rawClient();
+    const first = encodeFrame('frag', OPCODES.text, MASK);
+    first[0] &= 0x7f; // not the final fragment
+    client.socket.write(first);
+    client.send('mented', OPCODES.continuation);
+    const [frame] = await client.waitFor(1);
+    assert.equal(frame.payload.toString(), 'echo:fragmented');
+    client.socket.destroy();
+  });
+
+  it('should answer pings with pongs', async () => {
+    const client = await rawClient();
+    client.send('are you there', OPCODES.ping);
+    const [frame] = await client.waitFor(1);
+    assert.equal(frame.opcode, OPCODES.pong);
+    assert.equal(frame.payload.toString(), 'are you there');
+    client.socket.destroy();
+  });
+
+  it('should close with 1003 on binary messages', async () => {
+    const client = await rawClient('/binary');
+    client.send(Buffer.from([1, 2, 3]), OPCODES.binary);
+    const [frame] = await client.waitFor(1);
+    assert.equal(frame.opcode, OPCODES.close);
+    assert.equal(frame.payload.readUInt16BE(0), CLOSE_CODES.unsupported);
+    assert.ok(closed.includes('/binary'));
+    client.socket.destroy();
+  });
+
+  it('should echo the close code back', async () => {
+    const client = await rawClient('/bye');
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(CLOSE_CODES.goingAway);
+    client.send(payload, OPCODES.close);
+    const [frame] = await client.waitFor(1);
+    assert.equal(frame.opcode, OPCODES.close);
+    assert.equal(frame.payload.readUInt16BE(0), CLOSE_CODES.goingAway);
+    assert.ok(closed.includes('/bye'));
+  });
+
+  it('should answer 400 to requests without a key', async () => {
+    const res = await new Promise((resolve, reject) => {
+      const socket = net.connect(port, () => {
+        socket.write(`GET / HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n`);
+      });
+      let data = '';
+      socket.on('data', (chunk) => (data += chunk));
+      socket.on('end', () => resolve(data));
+      socket.on('error', reject);
+    });
+    assert.ok(res.startsWith('HTTP/1.1 400'));
+  });
+});
@@ -8,9 +8,19 @@ import { useSound } from './hooks/useSound'
 import { useKeyboard } from './hooks/useKeyboard'
 import { SessionStats } from './components/SessionStats'
 import { ResidentDirectory } from './components/ResidentDirectory'
+import { HotFilesPanel } from './components/HotFilesPanel'
+import { AnalyticsView } from './components/AnalyticsView'
 import { AchievementBanner } from './components/AchievementBanner'
 import { LandingPage } from './components/LandingPage'
-import type { AgentState, BuildingState, AgentEvent, ActivityType, Trail } from './types'
+import { ReplayControls } from './components/ReplayControls'
+import { bridgeHeaders } from './bridgeAuth'
+import { createReplayer, type History, type Replayer, type ReplayState } from './replayer'
+import { fetchSessions, type Session } from './sessions'
+import { fetchAchievements, type Achievement } from './achievements'
+import { parseAnalyticsHash, analyticsHash, DEFAULT_ROUTE, type AnalyticsRoute } from './analytics'
+import { sumTokenUsage, formatCost } from './tokens'
+import { DEFAULT_VILLAGE, buildingsFromConfig, buildingForActivity, applyLayout, fetchVillage } from './village'
+import type { AgentState, BuildingState, AgentEvent, ActivityType, FileConflict, Messenger, Shipment, TestBanner, Trail } from './types'
 
 const AGENT_COLORS = [
   '#60a5fa', '#f97316', '#22c55e', '#a855f7',
@@ -18,66 +28,7 @@ const AGENT_COLORS = [
   '#818cf8', '#fb923c', '#34d399', '#c084fc',
 ];
 
-const DEFAULT_BUILDINGS: BuildingState[] = [
-  {
-    id: 'campfire', name: 'Town Square', type: 'idle',
-    position: { x: 0, y: 20 },
-    color: '#78350f', glowColor: '#fb923c', icon: '🔥',
-    activeAgents: [],
-    level: 1, title: 'Campsite', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'guild', name: 'Architect Guild', type: 'planning',
-    position: { x: -200, y: -120 },
-    color: '#1e3a5f', glowColor: '#3b82f6', icon: '📐',
-    activeAgents: [],
-    level: 1, title: 'Outpost', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'forge', name: 'The Forge', type: 'coding',
-    position: { x: 200, y: -80 },
-    color: '#7c2d12', glowColor: '#f97316', icon: '⚒️',
-    activeAgents: [],
-    level: 1, title: 'Outpost', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'arena', name: 'The Arena', type: 'testing',
-    position: { x: 0, y: -220 },
-    color: '#14532d', glowColor: '#22c55e', icon: '⚔️',
-    activeAgents: [],
-    level: 1, title: 'Outpost', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'library', name: 'The Library', type: 'researching',
-    position: { x: -200, y: 130 },
-    color: '#3b0764', glowColor: '#a855f7', icon: '📚',
-    activeAgents: [],
-    level: 1, title: 'Outpost', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'tower', name: 'Watchtower', type: 'reviewing',
-    position: { x: 200, y: 160 },
-    color: '#713f12', glowColor: '#eab308', icon: '🔭',
-    activeAgents: [],
-    level: 1, title: 'Outpost', xp: 0, nextLevelXP: 100,
-  },
-  {
-    id: 'tavern', name: 'The Tavern', type: 'idle',
-    position: { x: 100, y: 80 },
-    color: '#5c3a1e', glowColor: '#d4a558', icon: '🍺',
-    activeAgents: [],
-    level: 1, title: 'Campsite', xp: 0, nextLevelXP: 100,
-  },
-];
-
-const ACTIVITY_BUILDING: Record<ActivityType, string> = {
-  planning: 'guild',
-  coding: 'forge',
-  testing: 'arena',
-  researching: 'library',
-  reviewing: 'tower',
-  idle: 'campfire',
-};
+const DEFAULT_BUILDINGS = buildingsFromConfig(DEFAULT_VILLAGE);
 
 const ACTIVITY_ICONS: Record<string, string> = {
   planning: '🧠', coding: '⚡', testing: '🧪',
@@ -85,21 +36,50 @@ const ACTIVITY_ICONS: Record<string, string> = {
 };
 
 const TRAIL_LIFETIME = 8000;
+// Long enough to fly over and be read after landing
+const MESSENGER_LIFETIME = 20000;
+const CONFLICT_LIFETIME = 30000;
+const TEST_BANNER_LIFETIME = 10000;
+const SHIPMENT_LIFETIME = 5000;
 
 let colorIndex = 0;
 let trailCounter = 0;
+let messengerCounter = 0;
+let conflictCounter = 0;
+let testBannerCounter = 0;
+let shipmentCounter = 0;
+
+const BRIDGE_URL = import.meta.env.VITE_BRIDGE_URL || 'http://localhost:4242';
+
+type Mode = 'live' | 'demo' | 'replay';
 
 export default function App() {
   const [agents, setAgents] = useState<Map<string, AgentState>>(new Map());
   const [buildings, setBuildings] = useState<BuildingState[]>(DEFAULT_BUILDINGS);
+  // Fresh building set for the current village config (bridge or built-in)
+  const layoutRef = useRef<BuildingState[]>(DEFAULT_BUILDINGS);
   const [trails, setTrails] = useState<Trail[]>([]);
+  const [messengers, setMessengers] = useState<Messenger[]>([]);
+  const [conflicts, setConflicts] = useState<FileConflict[]>([]);
+  const [testBanners, setTestBanners] = useState<TestBanner[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
   const [eventLog, setEventLog] = useState<string[]>([]);
-  const [mode, setMode] = useState<'live' | 'demo'>('live');
+  const [mode, setMode] = useState<Mode>('live');
   const [timelineEntries, setTimelineEntries] = useState<TimelineEntry[]>([]);
   const [timelineVisible, setTimelineVisible] = useState(false);
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+  const [selectedSessions, setSelectedSessions] = useState<Session[]>([]);
+  // Achievement definitions for the galleries (the bridge keeps them; demo has none)
+  const [achievementDefinitions, setAchievementDefinitions] = useState<Achievement[]>([]);
   const [activityHistory, setActivityHistory] = useState<Map<string, ActivityRecord[]>>(new Map());
   const [directoryOpen, setDirectoryOpen] = useState(false);
+  const [hotFilesOpen, setHotFilesOpen] = useState(false);
+  // Analytics view, open while the hash is #analytics (deep links)
+  const [analyticsRoute, setAnalyticsRoute] = useState<AnalyticsRoute | null>(() => parseAnalyticsHash(window.location.hash));
+  const [history, setHistory] = useState<History | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const replayerRef = useRef<Replayer | null>(null);
   const [achievements, setAchievements] = useState<Array<{
     id: number;
     agentName: string;
@@ -121,18 +101,51 @@ export default function App() {
     toggleMode: () => switchModeRef.current(),
   }), [sound.toggle]));
 
-  // Clean up expired trails
+  // Clean up expired trails, messengers, conflict markers, test banners and shipments
   useEffect(() => {
     const interval = setInterval(() => {
       const now = Date.now();
       setTrails(prev => prev.filter(t => now - t.createdAt < TRAIL_LIFETIME));
+      setMessengers(prev => {
+        const live = prev.filter(m => now - m.createdAt < MESSENGER_LIFETIME);
+        return live.length === prev.length ? prev : live;
+      });
+      setConflicts(prev => {
+        const live = prev.filter(c => now - c.createdAt < CONFLICT_LIFETIME);
+        return live.length === prev.length ? prev : live;
+      });
+      setTestBanners(prev => {
+        const live = prev.filter(b => now - b.createdAt < TEST_BANNER_LIFETIME);
+        return live.length === prev.length ? prev : live;
+      });
+      setShipments(prev => {
+        const live = prev.filter(s => now - s.createdAt < SHIPMENT_LIFETIME);
+        return live.length === prev.length ? prev : live;
+      });
     }, 1000);
     return () => clearInterval(interval);
   }, []);
 
+  // Follow the hash: back/forward and pasted links open or close analytics
+  useEffect(() => {
+    const onHashChange = () => setAnalyticsRoute(parseAnalyticsHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const openAnalytics = useCallback((route: AnalyticsRoute) => {
+    window.history.pushState(null, '', analyticsHash(route));
+    setAnalyticsRoute(route);
+  }, []);
+
+  const closeAnalytics = useCallback(() => {
+    window.history.pushState(null, '', `${window.location.pathname}${window.location.search}`);
+    setAnalyticsRoute(null);
+  }, []);
+
   // Idle wandering: offline main agents randomly wander between campfire and tavern
   useEffect(() => {
-    const getPos = (id: string) => DEFAULT_BUILDINGS.find(b => b.id === id)?.position || { x: 0, y: 20 };
+    const getPos = (id: string) => layoutRef.current.find(b => b.id === id)?.position || { x: 0, y: 20 };
     const interval = setInterval(() => {
       setAgents(prev => {
         const next = new Map(prev);
@@ -168,11 +181,13 @@ export default function App() {
   }, [achievements]);
 
   const getBuildingPosition = useCallback((buildingId: string) => {
-    const building = DEFAULT_BUILDINGS.find(b => b.id === buildingId);
+    const building = layoutRef.current.find(b => b.id === buildingId);
     return building?.position || { x: 0, y: 20 };
   }, []);
 
   const handleEvent = useCallback((event: AgentEvent) => {
+    // Replayed events carry their original time; live ones happen now
+    const eventTime = event.timestamp ?? Date.now();
     setAgents(prev => {
       const next = new Map(prev);
 
@@ -190,13 +205,22 @@ export default function App() {
               clan: event.clan || event.project || existing.clan,
               parentId: event.parentId,
               isSubAgent: !!event.parentId,
+              source: event.source || existing.source,
               totalInputBytes: event.totalInputBytes || existing.totalInputBytes,
               totalOutputBytes: event.totalOutputBytes || existing.totalOutputBytes,
+              totalInputTokens: event.totalInputTokens || existing.totalInputTokens,
+              totalOutputTokens: event.totalOutputTokens || existing.totalOutputTokens,
+              totalCacheReadTokens: event.totalCacheReadTokens || existing.totalCacheReadTokens,
+              totalCacheCreationTokens: event.totalCacheCreationTokens || existing.totalCacheCreationTokens,
+              model: event.model || existing.model,
+              totalCost: event.totalCost || existing.totalCost,
               subAgentsSpawned: event.subAgentsSpawned || existing.subAgentsSpawned,
               level: event.level || existing.level,
               title: event.title || existing.title,
               xp: event.xp || existing.xp,
               nextLevelXP: event.nextLevelXP ?? existing.nextLevelXP,
+              commits: event.commits || [],
+              achievements: event.achievements || existing.achievements,
               offline: false,
             });
             break;
@@ -221,15 +245,24 @@ export default function App() {
             clan: event.clan || event.project,
             parentId: event.parentId,
             isSubAgent,
+            source: event.source,
             offline: event.offline,
             totalInputBytes: event.totalInputBytes || 0,
             totalOutputBytes: event.totalOutputBytes || 0,
+            totalInputTokens: event.totalInputTokens || 0,
+            totalOutputTokens: event.totalOutputTokens || 0,
+            totalCacheReadTokens: event.totalCacheReadTokens || 0,
+            totalCacheCreationTokens: event.totalCacheCreationTokens || 0,
+            model: event.model,
+            totalCost: event.totalCost || 0,
             subAgentsSpawned: event.subAgentsSpawned || 0,
-            spawnedAt: Date.now(),
+            spawnedAt: eventTime,
             level: event.level || 1,
             title: event.title || 'Apprentice',
             xp: event.xp || 0,
             nextLevelXP: event.nextLevelXP ?? null,
+            commits: event.commits || [],
+            achievements: event.achievements || [],
           });
           // Restore historical activity from store
           if (event.recentActivity && event.recentActivity.length > 0) {
@@ -255,7 +288,7 @@ export default function App() {
         case 'agent:work': {
           const agent = next.get(event.agentId);
           if (agent && event.activity) {
-            const buildingId = event.targetBuilding || ACTIVITY_BUILDING[event.activity];
+            const buildingId = event.targetBuilding || buildingForActivity(layoutRef.current, event.activity);
             const previousBuilding = agent.targetBuilding;
 
             // Create trail when agent moves between buildings
@@ -280,7 +313,7 @@ export default function App() {
               const record: ActivityRecord = {
                 activity: event.activity,
                 detail: event.detail || '',
-                timestamp: Date.now(),
+                timestamp: eventTime,
               };
               setActivityHistory(prev => {
                 const hist = new Map(prev);
@@ -298,7 +331,7 @@ export default function App() {
                   agentColor: agent.color,
                   activity: event.activity!,
                   detail: event.detail || '',
-                  timestamp: Date.now(),
+                  timestamp: eventTime,
                 },
               ].slice(-200));
             }
@@ -343,11 +376,30 @@ export default function App() {
               ...agent,
               totalInputBytes: event.totalInputBytes || agent.totalInputBytes,
               totalOutputBytes: event.totalOutputBytes || agent.totalOutputBytes,
+              totalInputTokens: event.totalInputTokens || agent.totalInputTokens,
+              totalOutputTokens: event.totalOutputTokens || agent.totalOutputTokens,
+              totalCacheReadTokens: event.totalCacheReadTokens || agent.totalCacheReadTokens,
+              totalCacheCreationTokens: event.totalCacheCreationTokens || agent.totalCacheCreationTokens,
+              model: event.model || agent.model,
+              totalCost: event.totalCost || agent.totalCost,
             });
           }
           break;
         }
 
+        case 'agent:budget': {
+          if (event.clan && event.threshold) {
+            const spent = formatCost(event.spent || 0);
+            setEventLog(l => [
+              event.threshold! >= 100
+                ? `💰 ${event.clan} spent its daily budget (${spent})`
+                : `💰 ${event.clan} spent ${event.threshold}% of its daily budget (${spent})`,
+              ...l,
+            ].slice(0, 30));
+          }
+          break;
+        }
+
         case 'agent:xp':
         case 'agent:levelup': {
           const agent = next.get(event.agentId);
@@ -381,7 +433,141 @@ export default function App() {
           break;
         }
 
+        case 'agent:approval': {
+          const agent = next.get(event.agentId);
+          if (agent) {
+            next.set(event.agentId, { ...agent, approval: event.approval ?? null });
+            if (event.approval && event.approval.id !== agent.approval?.id) {
+              setEventLog(l => [`🛑 ${agent.name} asks: ${event.approval!.reason}`, ...l].slice(0, 30));
+            } else if (event.decision === 'allow' || event.decision === 'deny') {
+              const verdict = event.decision === 'allow' ? '✅ approved' : '⛔ denied';
+              setEventLog(l => [`${verdict} for ${agent.name}`, ...l].slice(0, 30));
+            }
+          }
+          break;
+        }
+
+        case 'agent:stuck': {
+          const agent = next.get(event.agentId);
+          if (agent) {
+            next.set(event.agentId, { ...agent, stuck: event.stuck ?? null });
+            if (event.stuck) {
+              setEventLog(l => [`❓ ${agent.name} seems stuck: ${event.stuck!.reason}`, ...l].slice(0, 30));
+            }
+          }
+          break;
+        }
+
+        case 'agent:conflict': {
+          if (!event.targetAgent) break;
+          const file = event.file || event.detail || '';
+          setConflicts(c => [
+            // One marker per pair, refreshed on each warning
+            ...c.filter(old => !(
+              (old.agentId === event.agentId && old.otherId === event.targetAgent) ||
+              (old.agentId === event.targetAgent && old.otherId === event.agentId)
+            )),
+            {
+              id: `conflict-${conflictCounter++}`,
+              agentId: event.agentId,
+              otherId: event.targetAgent!,
+              file,
+              createdAt: Date.now(),
+            },
+          ]);
+          const a = next.get(event.agentId)?.name || event.agentId;
+          const b = next.get(event.targetAgent)?.name || event.targetAgent;
+          setEventLog(l => [`⚔️ ${a} and ${b} are both editing ${event.detail || file}`, ...l].slice(0, 30));
+          break;
+        }
+
+        case 'agent:test': {
+          const agent = next.get(event.agentId);
+          if (agent && event.test) {
+            const run = event.test;
+            setTestBanners(b => [...b, {
+              id: `test-${testBannerCounter++}`,
+              agentId: event.agentId,
+              agentName: agent.name,
+              run,
+              color: agent.color,
+              createdAt: Date.now(),
+            }]);
+            // A red run also arrives as agent:failure, which logs it
+            if (run.failed === 0) {
+              setEventLog(l => [`🏆 ${agent.name}'s ${run.runner} run: ${run.passed} passed`, ...l].slice(0, 30));
+            }
+          }
+          break;
+        }
+
+        case 'agent:commit': {
+          const agent = next.get(event.agentId);
+          if (agent && event.commit) {
+            const commit = event.commit;
+            next.set(event.agentId, { ...agent, commits: [...(agent.commits || []), commit] });
+            setShipments(s => [...s, {
+              id: `shipment-${shipmentCounter++}`,
+              agentId: event.agentId,
+              agentName: agent.name,
+              commit,
+              color: agent.color,
+              createdAt: Date.now(),
+            }]);
+            setEventLog(l => [`📦 ${agent.name} committed ${commit.sha.slice(0, 7)}: ${commit.message || ''}`, ...l].slice(0, 30));
+          }
+          break;
+        }
+
+        case 'agent:git': {
+          const agent = next.get(event.agentId);
+          const git = event.git;
+          if (!agent || !git) break;
+          if (git.kind === 'push') {
+            setEventLog(l => [`🚚 ${agent.name} pushed ${(git.branches || []).join(', ')} to ${git.remote}`, ...l].slice(0, 30));
+          } else {
+            setEventLog(l => [`🌿 ${agent.name} started branch ${git.branch}`, ...l].slice(0, 30));
+          }
+          break;
+        }
+
+        case 'agent:rename': {
+          const agent = next.get(event.agentId);
+          if (agent && event.agentName) {
+            next.set(event.agentId, { ...agent, name: event.agentName });
+            setEventLog(l => [`✏️ ${agent.name} is now ${event.agentName}`, ...l].slice(0, 30));
+          }
+          break;
+        }
+
+        case 'agent:communicate': {
+          if (!event.targetAgent || !event.kind) break;
+          const sender = next.get(event.agentId);
+          const receiver = next.get(event.targetAgent);
+          setMessengers(m => [...m, {
+            id: `msg-${messengerCounter++}`,
+            fromId: event.agentId,
+            toId: event.targetAgent!,
+            kind: event.kind!,
+            text: event.detail || '',
+            color: sender?.color || '#fbbf24',
+            createdAt: Date.now(),
+          }]);
+          const from = sender?.name || event.agentId;
+          // A Task prompt arrives just before its sub-agent spawns
+          const to = receiver?.name || 'a new helper';
+          setEventLog(l => [
+            event.kind === 'prompt' ? `📜 ${from} sent orders to ${to}` : `🐦‍⬛ ${from} reported back to ${to}`,
+            ...l,
+          ].slice(0, 30));
+          break;
+        }
+
         case 'agent:achievement': {
+          const agent = next.get(event.agentId);
+          if (agent && event.unlock) {
+            next.set(event.agentId, { ...agent, achievements: [...(agent.achievements || []), event.unlock] });
+          }
           if (event.achievement) {
             setAchievements(prev => [
               ...prev,
@@ -447,6 +633,8 @@ export default function App() {
               previousBuilding: agent.targetBuilding,
               detail: '',
               waiting: false,
+              approval: null,
+              stuck: null,
               offline: true,
             });
           }
@@ -490,21 +678,85 @@ export default function App() {
   }, [getBuildingPosition, sound]);
 
   // Bridge connection (live mode)
-  const { connected, everConnected } = useBridge(handleEvent, mode === 'live');
+  const { connected, everConnected, transport, sendCommand } = useBridge(handleEvent, mode === 'live');
+  // Dashboard commands need the WebSocket; over SSE the panel stays read-only
+  const canCommand = mode === 'live' && transport === 'websocket';
+
+  // Village layout from the bridge (live and replay); demo keeps the built-in one
+  useEffect(() => {
+    if (mode === 'demo') {
+      layoutRef.current = DEFAULT_BUILDINGS;
+      setBuildings(prev => applyLayout(DEFAULT_BUILDINGS, prev));
+      return;
+    }
+    let cancelled = false;
+    fetchVillage(BRIDGE_URL, bridgeHeaders())
+      .then(config => {
+        if (cancelled) return;
+        layoutRef.current = buildingsFromConfig(config);
+        setBuildings(prev => applyLayout(layoutRef.current, prev));
+      })
+      .catch(() => {
+        // Bridge not up yet — the built-in layout stands in
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, connected]);
+
+  // Achievement definitions (live and replay)
+  useEffect(() => {
+    setAchievementDefinitions([]);
+    if (mode === 'demo') return;
+    let cancelled = false;
+    fetchAchievements(BRIDGE_URL, bridgeHeaders())
+      .then(data => { if (!cancelled) setAchievementDefinitions(data.achievements); })
+      .catch(() => {
+        // Older bridge or offline — no galleries
+      });
+    return () => { cancelled = true; };
+  }, [mode, connected]);
+
+  // Past sessions of the selected agent (the bridge keeps them; demo has none)
+  useEffect(() => {
+    setSelectedSessions([]);
+    if (mode !== 'live' || !selectedAgentId) return;
+    let cancelled = false;
+    fetchSessions(BRIDGE_URL, bridgeHeaders(), { agent: selectedAgentId, limit: 10 })
+      .then(sessions => { if (!cancelled) setSelectedSessions(sessions); })
+      .catch(() => {
+        // Older bridge or offline — just no session list
+      });
+    return () => { cancelled = true; };
+  }, [mode, selectedAgentId]);
 
-  // Clear agents when switching modes
-  const switchMode = useCallback((newMode: 'live' | 'demo') => {
+  // Clear the village (switching modes, or rewinding a replay)
+  const resetVillage = useCallback(() => {
     setAgents(new Map());
+    setBuildings(layoutRef.current);
     setTrails([]);
+    setMessengers([]);
+    setConflicts([]);
+    setTestBanners([]);
+    setShipments([]);
     setEventLog([]);
     setTimelineEntries([]);
     setActivityHistory(new Map());
     setSelectedAgentId(null);
     colorIndex = 0;
     trailCounter = 0;
-    setMode(newMode);
+    messengerCounter = 0;
+    conflictCounter = 0;
+    testBannerCounter = 0;
+    shipmentCounter = 0;
   }, []);
 
+  const switchMode = useCallback((newMode: Mode) => {
+    resetVillage();
+    setHistory(null);
+    setMode(newMode);
+  }, [resetVillage]);
+
   switchModeRef.current = () => switchMode(mode === 'live' ? 'demo' : 'live');
 
   // Update building active states
@@ -527,6 +779,34 @@ export default function App() {
     return () => sim.stop();
   }, [mode, handleEvent]);
 
+  // Replay mode: fetch a recorded range from the bridge and play it back
+  const loadHistory = useCallback(async (from: number, to: number) => {
+    setHistoryError(null);
+    try {
+      const res = await fetch(`${BRIDGE_URL}/api/history?from=${from}&to=${to}`, { headers: bridgeHeaders() });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setHistory(await res.json());
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to load history');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'replay' || !history) return;
+    const replayer = createReplayer(history, {
+      onEvent: handleEvent,
+      onReset: resetVillage,
+      onState: setReplayState,
+    });
+    replayerRef.current = replayer;
+    replayer.start();
+    return () => {
+      replayer.stop();
+      replayerRef.current = null;
+      setReplayState(null);
+    };
+  }, [mode, history, handleEvent, resetVillage]);
+
   const isLive = mode === 'live';
 
   // Compute agent counts for header and day/night cycle
@@ -539,15 +819,9 @@ export default function App() {
     return { activeAgentCount: active, residentCount: residents, subAgentCount: subs };
   }, [agents]);
 
-  // Compute total bytes across all agents
-  const { totalInputBytes, totalOutputBytes } = useMemo(() => {
-    let inB = 0, outB = 0;
-    for (const a of agents.values()) {
-      inB += a.totalInputBytes;
-      outB += a.totalOutputBytes;
-    }
-    return { totalInputBytes: inB, totalOutputBytes: outB };
-  }, [agents]);
+  // Tokens across all agents (exact where they report them)
+  const totalTokens = useMemo(() => sumTokenUsage(agents.values()), [agents]);
+  const totalCost = useMemo(() => [...agents.values()].reduce((sum, a) => sum + (a.totalCost || 0), 0), [agents]);
 
   // Selected agent for stats panel
   const selectedAgent = selectedAgentId ? agents.get(selectedAgentId) || null : null;
@@ -571,7 +845,7 @@ export default function App() {
       </div>
 
       {/* Session stats */}
-      <SessionStats agentCount={agents.size} totalEvents={timelineEntries.length} totalInputBytes={totalInputBytes} totalOutputBytes={totalOutputBytes} />
+      <SessionStats agentCount={agents.size} totalEvents={timelineEntries.length} tokens={totalTokens} cost={totalCost} />
 
       {/* Controls */}
       <div className="absolute top-5 right-6 z-20 flex items-center gap-3">
@@ -626,13 +900,23 @@ export default function App() {
           <button
             onClick={() => switchMode('demo')}
             className={`px-3 py-1 text-[10px] font-medium transition-colors ${
-              !isLive
-                ? 'bg-amber-500/20 text-amber-400'
-                : 'bg-transparent text-white/30 hover:text-white/50'
+              mode === 'demo'
+                ? 'bg-amber-500/20 text-amber-400 border-r border-white/10'
+                : 'bg-transparent text-white/30 border-r border-white/10 hover:text-white/50'
             }`}
           >
             Demo
           </button>
+          <button
+            onClick={() => switchMode('replay')}
+            className={`px-3 py-1 text-[10px] font-medium transition-colors ${
+              mode === 'replay'
+                ? 'bg-sky-500/20 text-sky-400'
+                : 'bg-transparent text-white/30 hover:text-white/50'
+            }`}
+          >
+            Replay
+          </button>
         </div>
 
         {/* Directory button */}
@@ -642,6 +926,22 @@ export default function App() {
         >
           Residents
         </button>
+
+        {/* Hot files button */}
+        <button
+          onClick={() => setHotFilesOpen(true)}
+          className="px-3 py-1 text-[10px] font-medium rounded-full border border-white/10 text-white/40 hover:text-white/60 hover:border-white/20 transition-colors cursor-pointer"
+        >
+          Hot Files
+        </button>
+
+        {/* Analytics button */}
+        <button
+          onClick={() => openAnalytics(DEFAULT_ROUTE)}
+          className="px-3 py-1 text-[10px] font-medium rounded-full border border-white/10 text-white/40 hover:text-white/60 hover:border-white/20 transition-colors cursor-pointer"
+        >
+          Analytics
+        </button>
       </div>
 
       {/* Event log */}
@@ -681,6 +981,10 @@ export default function App() {
         agents={agents}
         buildings={buildings}
         trails={trails}
+        messengers={messengers}
+        conflicts={conflicts}
+        testBanners={testBanners}
+        shipments={shipments}
         agentCount={agents.size}
         activeAgentCount={activeAgentCount}
         onAgentClick={setSelectedAgentId}
@@ -689,6 +993,20 @@ export default function App() {
       {/* Achievement Banners */}
       <AchievementBanner achievements={achievements} />
 
+      {/* Replay Controls */}
+      {mode === 'replay' && (
+        <ReplayControls
+          history={history}
+          state={replayState}
+          error={historyError}
+          onLoad={loadHistory}
+          onPlay={() => replayerRef.current?.play()}
+          onPause={() => replayerRef.current?.pause()}
+          onSeek={t => replayerRef.current?.seek(t)}
+          onSpeed={s => replayerRef.current?.setSpeed(s)}
+        />
+      )}
+
       {/* Activity Timeline */}
       <ActivityTimeline entries={timelineEntries} visible={timelineVisible} />
 
@@ -696,6 +1014,12 @@ export default function App() {
       <AgentStatsPanel
         agent={selectedAgent}
         activityHistory={selectedHistory}
+        buildingName={buildings.find(b => b.id === selectedAgent?.targetBuilding)?.name}
+        sessions={selectedSessions}
+        achievements={achievementDefinitions}
+        onAcknowledge={canCommand ? (agentId) => sendCommand({ command: 'ack', agentId }) : undefined}
+        onRename={canCommand ? (agentId, name) => sendCommand({ command: 'rename', agentId, name }) : undefined}
+        onDecide={canCommand ? (approvalId, decision) => sendCommand({ command: 'decide', approvalId, decision }) : undefined}
         onClose={() => setSelectedAgentId(null)}
       />
 
@@ -703,8 +1027,27 @@ export default function App() {
       <ResidentDirectory
         open={directoryOpen}
         onClose={() => setDirectoryOpen(false)}
-        bridgeUrl={mode === 'live' ? (import.meta.env.VITE_BRIDGE_URL || 'http://localhost:4242') : ''}
+        bridgeUrl={mode === 'live' ? BRIDGE_URL : ''}
+        achievements={achievementDefinitions}
       />
+
+      {/* Hot Files */}
+      <HotFilesPanel
+        open={hotFilesOpen}
+        onClose={() => setHotFilesOpen(false)}
+        bridgeUrl={mode === 'live' ? BRIDGE_URL : ''}
+      />
+
+      {/* Analytics (simulated in demo mode) */}
+      {analyticsRoute && (
+        <AnalyticsView
+          route={analyticsRoute}
+          buildings={buildings}
+          bridgeUrl={mode === 'demo' ? '' : BRIDGE_URL}
+          onRouteChange={openAnalytics}
+          onClose={closeAnalytics}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchAchievements, galleryOf, type Achievement } from './achievements';
+
+const owl: Achievement = {
+  id: 'night-owl', name: 'Night Owl', icon: '🦉', description: 'Late tool calls',
+  condition: { session: 'toolCalls', atLeast: 20, hours: [0, 5] },
+};
+const green: Achievement = {
+  id: 'first-green', name: 'First Victory', icon: '⚔️', description: 'Passed a test',
+  condition: { stat: 'testsPassed', atLeast: 1 },
+};
+const tour: Achievement = {
+  id: 'grand-tour', name: 'Grand Tour', icon: '🗺️', description: 'Six buildings',
+  condition: { session: 'buildings', atLeast: 6 },
+};
+
+describe('galleryOf', () => {
+  it('should put unlocked achievements first, in the order they were earned', () => {
+    const gallery = galleryOf([owl, green, tour], [{ id: 'grand-tour', unlockedAt: 20 }, { id: 'night-owl', unlockedAt: 10 }]);
+    expect(gallery.map(g => [g.achievement.id, g.unlockedAt])).toEqual([
+      ['night-owl', 10], ['grand-tour', 20], ['first-green', null],
+    ]);
+  });
+
+  it('should skip unlocks of achievements no longer defined', () => {
+    expect(galleryOf([green], [{ id: 'retired', unlockedAt: 5 }])).toEqual([{ achievement: green, unlockedAt: null }]);
+  });
+});
+
+describe('fetchAchievements', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should ask for one agent\'s unlocks', async () => {
+    const data = { achievements: [green], unlocks: [{ agentId: 'thorin', name: 'Thorin', achievementId: 'first-green', unlockedAt: 1 }] };
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(data) });
+    vi.stubGlobal('fetch', mockFetch);
+
+    expect(await fetchAchievements('http://bridge', {}, { agent: 'thorin' })).toEqual(data);
+    expect(mockFetch).toHaveBeenCalledWith('http://bridge/api/achievements?agent=thorin', { headers: {} });
+  });
+
+  it('should reject on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+    await expect(fetchAchievements('http://bridge', {})).rejects.toThrow('404');
+  });
+});
@@ -0,0 +1,65 @@
+// ── Achievements ────────────────────────────────────────
+// Achievement definitions and unlocks from the bridge's
+// /api/achievements, shown as a gallery in the agent stats panel
+// and the resident directory. Agents carry their own unlocks.
+
+import type { AchievementUnlock } from './types';
+
+export interface AchievementCondition {
+  stat?: string;
+  session?: string;
+  streak?: string;
+  atLeast: number;
+  /** Local hours [from, to) a session condition counts */
+  hours?: [number, number];
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  condition: AchievementCondition;
+}
+
+/** An unlock with the agent that earned it */
+export interface AchievementRecord {
+  agentId: string;
+  name: string | null;
+  achievementId: string;
+  unlockedAt: number;
+}
+
+export interface Achievements {
+  achievements: Achievement[];
+  /** Newest first */
+  unlocks: AchievementRecord[];
+}
+
+export async function fetchAchievements(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  query: { agent?: string } = {},
+): Promise<Achievements> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await fetch(`${bridgeUrl}/api/achievements?${params}`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Every achievement with when the agent unlocked it (null if not
+ * yet), unlocked ones first in the order they were earned.
+ */
+export function galleryOf(
+  achievements: Achievement[],
+  unlocked: AchievementUnlock[] = [],
+): { achievement: Achievement; unlockedAt: number | null }[] {
+  const when = new Map(unlocked.map(u => [u.id, u.unlockedAt]));
+  return achievements
+    .map(achievement => ({ achievement, unlockedAt: when.get(achievement.id) ?? null }))
+    .sort((a, b) => (a.unlockedAt ?? Infinity) - (b.unlockedAt ?? Infinity));
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseAnalyticsHash, analyticsHash, resolveRange, hoursFit, seriesOf, bucketSums, buildingXPSeries,
+  durationHistogram, shortLabel, demoAnalyticsData, fetchAnalytics, DEFAULT_ROUTE, type Analytics,
+} from './analytics';
+import type { Session } from './sessions';
+
+const HOUR = 3600_000;
+
+function totals(toolCalls: number, bytes = 0, tokens = 0) {
+  return { toolCalls, inputBytes: 0, outputBytes: bytes, inputTokens: tokens, outputTokens: tokens / 10, cost: 0 };
+}
+
+const usage: Analytics = {
+  groupBy: 'building',
+  bucket: 'day',
+  timeZone: 'UTC',
+  from: 0,
+  to: 3 * 24 * HOUR - 1,
+  groups: [
+    { key: 'forge', ...totals(9, 25_000, 1000) },
+    { key: 'arena', ...totals(2) },
+  ],
+  buckets: [
+    { start: 0, label: '1970-01-01', groups: { forge: totals(4, 15_000, 1000), arena: totals(2) } },
+    { start: 24 * HOUR, label: '1970-01-02', groups: {} },
+    { start: 48 * HOUR, label: '1970-01-03', groups: { forge: totals(5, 10_000) } },
+  ],
+};
+
+function session(duration: number, outcome: Session['outcome'] = 'ended'): Session {
+  return {
+    id: duration, agentId: 'a', agentName: null, clan: null, project: null, parentId: null,
+    startedAt: 0, endedAt: duration, duration, toolCalls: 0, subAgents: 0, outcome,
+  };
+}
+
+describe('parseAnalyticsHash', () => {
+  it('should only match the analytics hash', () => {
+    expect(parseAnalyticsHash('')).toBeNull();
+    expect(parseAnalyticsHash('#village')).toBeNull();
+    expect(parseAnalyticsHash('#analytics')).toEqual(DEFAULT_ROUTE);
+  });
+
+  it('should read presets and days, with the bucket that suits them', () => {
+    expect(parseAnalyticsHash('#analytics?range=24h')).toEqual({ range: '24h', bucket: 'hour' });
+    expect(parseAnalyticsHash('#analytics?range=30d&bucket=hour')).toEqual({ range: '30d', bucket: 'hour' });
+    expect(parseAnalyticsHash('#analytics?from=2026-03-09&to=2026-03-01')).toEqual({
+      range: null, from: '2026-03-01', to: '2026-03-09', bucket: 'day',
+    });
+    expect(parseAnalyticsHash('#analytics?range=1y&bucket=week')).toEqual(DEFAULT_ROUTE);
+    expect(parseAnalyticsHash('#analytics?range=toString')).toEqual(DEFAULT_ROUTE);
+  });
+
+  it('should read back what analyticsHash writes', () => {
+    for (const route of [
+      { range: '24h' as const, bucket: 'hour' as const },
+      { range: null, from: '2026-03-01', to: '2026-03-07', bucket: 'hour' as const },
+    ]) {
+      expect(parseAnalyticsHash(analyticsHash(route))).toEqual(route);
+    }
+  });
+});
+
+describe('resolveRange', () => {
+  it('should end presets now', () => {
+    expect(resolveRange({ range: '7d', bucket: 'day' }, 10 * 24 * HOUR)).toEqual({
+      from: 3 * 24 * HOUR, to: 10 * 24 * HOUR, bucket: 'day',
+    });
+  });
+
+  it('should run days from local midnight to the end of the last day', () => {
+    const { from, to } = resolveRange({ range: null, from: '2026-03-01', to: '2026-03-02', bucket: 'day' });
+    expect(from).toBe(new Date(2026, 2, 1).getTime());
+    expect(to).toBe(new Date(2026, 2, 3).getTime() - 1);
+  });
+
+  it('should allow hourly buckets up to a thousand of them', () => {
+    expect(hoursFit({ from: 0, to: 1000 * HOUR - 1 })).toBe(true);
+    expect(hoursFit({ from: 0, to: 1000 * HOUR })).toBe(false);
+  });
+});
+
+describe('chart helpers', () => {
+  it('should line up each group with the buckets', () => {
+    expect(seriesOf(usage, ['arena', 'forge'], t => t.toolCalls)).toEqual([[2, 0, 0], [4, 0, 5]]);
+    expect(bucketSums(usage, t => t.toolCalls)).toEqual([6, 0, 5]);
+  });
+
+  it('should add up building XP from tool calls and every 10kB', () => {
+    expect(buildingXPSeries(usage)).toEqual([
+      { key: 'forge', values: [5, 5, 11] },
+      { key: 'arena', values: [2, 2, 2] },
+    ]);
+  });
+
+  it('should bin finished sessions by length', () => {
+    const bins = durationHistogram([session(30_000), session(4 * 60_000), session(3 * HOUR), session(5 * HOUR, 'active')]);
+    expect(bins.map(b => b.count)).toEqual([1, 1, 0, 0, 0, 0, 1]);
+    expect(bins[6].label).toBe('2h+');
+  });
+
+  it('should shorten bucket labels for the axis', () => {
+    expect(shortLabel('2026-03-08', 'day')).toBe('03-08');
+    expect(shortLabel('2026-11-01T01:00-05:00', 'hour')).toBe('01:00');
+  });
+});
+
+describe('demoAnalyticsData', () => {
+  const range = { from: new Date(2026, 2, 2).getTime(), to: new Date(2026, 2, 9).getTime() - 1, bucket: 'day' as const };
+
+  it('should make a bucket per local day, the same every time', () => {
+    const data = demoAnalyticsData(range);
+    expect(data.activity.buckets.map(b => b.label)).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08',
+    ]);
+    expect(demoAnalyticsData(range)).toEqual(data);
+    expect(data.sessions.length).toBeGreaterThan(0);
+  });
+
+  it('should count the same tool calls however they are grouped', () => {
+    const data = demoAnalyticsData({ ...range, bucket: 'hour' });
+    const sum = (a: Analytics) => a.groups.reduce((total, g) => total + g.toolCalls, 0);
+    expect(sum(data.activity)).toBeGreaterThan(0);
+    expect(sum(data.clans)).toBe(sum(data.activity));
+    expect(sum(data.buildings)).toBe(sum(data.activity));
+    expect(data.activity.buckets.length).toBeGreaterThanOrEqual(7 * 24 - 1);
+  });
+});
+
+describe('fetchAnalytics', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the query and the auth headers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => usage });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await fetchAnalytics('http://bridge', { Authorization: 'Bearer t' }, {
+      groupBy: 'activity', bucket: 'hour', from: 1, to: 2, tz: 'Europe/Berlin',
+    });
+
+    expect(result).toBe(usage);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://bridge/api/analytics?groupBy=activity&bucket=hour&from=1&to=2&tz=Europe%2FBerlin',
+      { headers: { Authorization: 'Bearer t' } },
+    );
+  });
+
+  it('should throw on an error response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 400 }));
+    await expect(fetchAnalytics('http://bridge', {}, { groupBy: 'clan', bucket: 'day', from: 0, to: 1 })).rejects.toThrow('HTTP 400');
+  });
+});
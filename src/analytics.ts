@@ -0,0 +1,416 @@
+// ── Analytics ───────────────────────────────────────────
+// Usage over time from the bridge's /api/analytics (tool calls,
+// bytes, tokens and cost per hour or day) and session lengths from
+// /api/sessions, for the analytics view. Demo mode makes up data of
+// the same shape. The view's range lives in the location hash, so
+// it can be linked: #analytics?range=7d&bucket=day, or
+// #analytics?from=2026-03-01&to=2026-03-07&bucket=hour.
+
+import { fetchSessions, type Session } from './sessions';
+import type { ActivityType } from './types';
+
+export type AnalyticsGroupBy = 'clan' | 'agent' | 'activity' | 'building';
+export type AnalyticsBucket = 'hour' | 'day';
+
+export interface UsageTotals {
+  toolCalls: number;
+  inputBytes: number;
+  outputBytes: number;
+  /** Cache reads and writes included */
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  /** Clan, agent id, activity or building; '' for agents without a clan */
+  key: string;
+  /** Agent name, when grouped by agent */
+  name?: string | null;
+}
+
+export interface UsageBucket {
+  start: number;
+  /** Local day ("2026-03-08") or hour with its offset ("2026-03-08T03:00-04:00") */
+  label: string;
+  /** Only the groups that did something in the bucket */
+  groups: Record<string, UsageTotals>;
+}
+
+export interface Analytics {
+  groupBy: AnalyticsGroupBy;
+  bucket: AnalyticsBucket;
+  timeZone: string;
+  from: number;
+  to: number;
+  /** Most tool calls first */
+  groups: UsageGroup[];
+  buckets: UsageBucket[];
+}
+
+export interface AnalyticsQuery {
+  groupBy: AnalyticsGroupBy;
+  bucket: AnalyticsBucket;
+  from: number;
+  to: number;
+  /** IANA time zone for the buckets; the bridge's own if left out */
+  tz?: string;
+  agent?: string;
+  clan?: string;
+}
+
+export async function fetchAnalytics(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  query: AnalyticsQuery,
+): Promise<Analytics> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await fetch(`${bridgeUrl}/api/analytics?${params}`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+/** Everything the analytics view charts, for one range */
+export interface AnalyticsData {
+  activity: Analytics;
+  clans: Analytics;
+  buildings: Analytics;
+  sessions: Session[];
+}
+
+export interface AnalyticsRange {
+  from: number;
+  to: number;
+  bucket: AnalyticsBucket;
+}
+
+const MAX_SESSIONS = 1000;
+
+/** Buckets in the browser's time zone, so days are the viewer's days */
+export async function fetchAnalyticsData(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  { from, to, bucket }: AnalyticsRange,
+): Promise<AnalyticsData> {
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const usage = (groupBy: AnalyticsGroupBy) => fetchAnalytics(bridgeUrl, headers, { groupBy, bucket, from, to, tz });
+  const [activity, clans, buildings, sessions] = await Promise.all([
+    usage('activity'),
+    usage('clan'),
+    usage('building'),
+    fetchSessions(bridgeUrl, headers, { from, to, limit: MAX_SESSIONS }),
+  ]);
+  return { activity, clans, buildings, sessions };
+}
+
+// ── Routes ──────────────────────────────────────────────
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+export const RANGE_PRESETS = {
+  '24h': { label: '24 hours', duration: DAY, bucket: 'hour' },
+  '7d': { label: '7 days', duration: 7 * DAY, bucket: 'day' },
+  '30d': { label: '30 days', duration: 30 * DAY, bucket: 'day' },
+} as const satisfies Record<string, { label: string; duration: number; bucket: AnalyticsBucket }>;
+
+export type RangePreset = keyof typeof RANGE_PRESETS;
+
+/** The bridge answers at most this many buckets */
+export const MAX_BUCKETS = 1000;
+
+export interface AnalyticsRoute {
+  /** A range ending now, or null for the days in `from` and `to` */
+  range: RangePreset | null;
+  /** First and last local day ("YYYY-MM-DD"), when there's no preset */
+  from?: string;
+  to?: string;
+  bucket: AnalyticsBucket;
+}
+
+export const DEFAULT_ROUTE: AnalyticsRoute = { range: '7d', bucket: 'day' };
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isPreset(value: string | null): value is RangePreset {
+  return value !== null && Object.prototype.hasOwnProperty.call(RANGE_PRESETS, value);
+}
+
+/** The analytics route in a location hash, or null for the village */
+export function parseAnalyticsHash(hash: string): AnalyticsRoute | null {
+  const match = /^#\/?analytics(?:\?(.*))?$/.exec(hash);
+  if (!match) return null;
+  const params = new URLSearchParams(match[1] || '');
+  const bucketParam = params.get('bucket');
+  const bucket = bucketParam === 'hour' || bucketParam === 'day' ? bucketParam : null;
+
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from && to && DAY_PATTERN.test(from) && DAY_PATTERN.test(to)) {
+    const [first, last] = from <= to ? [from, to] : [to, from];
+    return { range: null, from: first, to: last, bucket: bucket || 'day' };
+  }
+
+  const range = params.get('range');
+  const preset = isPreset(range) ? range : DEFAULT_ROUTE.range!;
+  return { range: preset, bucket: bucket || RANGE_PRESETS[preset].bucket };
+}
+
+export function analyticsHash(route: AnalyticsRoute): string {
+  const params = new URLSearchParams();
+  if (route.range) {
+    params.set('range', route.range);
+  } else {
+    params.set('from', route.from || '');
+    params.set('to', route.to || '');
+  }
+  params.set('bucket', route.bucket);
+  return `#analytics?${params}`;
+}
+
+/** "YYYY-MM-DD" of a timestamp, in local time */
+export function formatLocalDay(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function localMidnight(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+/** A preset ends now; days run from the first one's midnight to the end of the last */
+export function resolveRange(route: AnalyticsRoute, now = Date.now()): AnalyticsRange {
+  if (route.range) {
+    return { from: now - RANGE_PRESETS[route.range].duration, to: now, bucket: route.bucket };
+  }
+  const today = formatLocalDay(now);
+  const end = localMidnight(route.to || today);
+  end.setDate(end.getDate() + 1);
+  return { from: localMidnight(route.from || today).getTime(), to: end.getTime() - 1, bucket: route.bucket };
+}
+
+/** Whether hourly buckets fit the range */
+export function hoursFit(range: { from: number; to: number }): boolean {
+  return Math.ceil((range.to - range.from + 1) / HOUR) <= MAX_BUCKETS;
+}
+
+// ── Chart helpers ───────────────────────────────────────
+
+export type UsageMetric = (totals: UsageTotals) => number;
+
+/** Each group's metric in every bucket, in the order of `keys` */
+export function seriesOf(analytics: Analytics, keys: string[], metric: UsageMetric): number[][] {
+  return keys.map(key => analytics.buckets.map(b => (b.groups[key] ? metric(b.groups[key]) : 0)));
+}
+
+/** The metric summed over all groups, per bucket */
+export function bucketSums(analytics: Analytics, metric: UsageMetric): number[] {
+  return analytics.buckets.map(b => Object.values(b.groups).reduce((sum, totals) => sum + metric(totals), 0));
+}
+
+/**
+ * Building XP earned per building, running total per bucket: a point
+ * per tool call and per 10kB, as the bridge counts it. Visits also
+ * earn XP on the bridge but aren't part of the usage events.
+ */
+export function buildingXPSeries(analytics: Analytics): { key: string; values: number[] }[] {
+  return analytics.groups.map(({ key }) => {
+    let calls = 0;
+    let bytes = 0;
+    const values = analytics.buckets.map(b => {
+      const totals = b.groups[key];
+      if (totals) {
+        calls += totals.toolCalls;
+        bytes += totals.inputBytes + totals.outputBytes;
+      }
+      return calls + Math.floor(bytes / 10_000);
+    });
+    return { key, values };
+  });
+}
+
+const DURATION_BINS = [
+  { label: '<1m', max: 60_000 },
+  { label: '1–5m', max: 5 * 60_000 },
+  { label: '5–15m', max: 15 * 60_000 },
+  { label: '15–30m', max: 30 * 60_000 },
+  { label: '30m–1h', max: HOUR },
+  { label: '1–2h', max: 2 * HOUR },
+  { label: '2h+', max: Infinity },
+];
+
+/** How many finished sessions lasted how long; active ones aren't over yet */
+export function durationHistogram(sessions: Session[]): { label: string; count: number }[] {
+  const bins = DURATION_BINS.map(bin => ({ label: bin.label, count: 0 }));
+  for (const session of sessions) {
+    if (session.outcome === 'active') continue;
+    bins[DURATION_BINS.findIndex(bin => session.duration < bin.max)].count++;
+  }
+  return bins;
+}
+
+/** Axis label of a bucket: "03-08" for a day, "14:00" for an hour */
+export function shortLabel(label: string, bucket: AnalyticsBucket): string {
+  return bucket === 'day' ? label.slice(5, 10) : label.slice(11, 16);
+}
+
+// ── Demo data ───────────────────────────────────────────
+// Made-up usage for demo mode: busy working hours, quiet nights and
+// weekends, seeded by bucket so a range always looks the same.
+
+const DEMO_CLANS = [
+  { clan: 'web-app', weight: 0.5 },
+  { clan: 'api-gateway', weight: 0.35 },
+  { clan: 'docs-site', weight: 0.15 },
+];
+
+const DEMO_ACTIVITIES: { activity: ActivityType; building: string; weight: number }[] = [
+  { activity: 'coding', building: 'forge', weight: 0.38 },
+  { activity: 'researching', building: 'library', weight: 0.24 },
+  { activity: 'testing', building: 'arena', weight: 0.16 },
+  { activity: 'planning', building: 'guild', weight: 0.12 },
+  { activity: 'reviewing', building: 'tower', weight: 0.1 },
+];
+
+// Small seeded PRNG (mulberry32)
+function seeded(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function localBucketStarts(from: number, to: number, bucket: AnalyticsBucket): number[] {
+  const d = new Date(from);
+  if (bucket === 'hour') d.setMinutes(0, 0, 0);
+  else d.setHours(0, 0, 0, 0);
+  const starts: number[] = [];
+  while (d.getTime() <= to) {
+    starts.push(d.getTime());
+    // Real hours, so the night the clocks go back has both 01:00s
+    if (bucket === 'hour') d.setTime(d.getTime() + HOUR);
+    else d.setDate(d.getDate() + 1);
+  }
+  return starts;
+}
+
+function localLabel(start: number, bucket: AnalyticsBucket): string {
+  const day = formatLocalDay(start);
+  if (bucket === 'day') return day;
+  const d = new Date(start);
+  const offset = -d.getTimezoneOffset();
+  const abs = Math.abs(offset);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${day}T${pad(d.getHours())}:${pad(d.getMinutes())}${offset < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// Tool calls in an hour, by local hour and weekday
+function busyness(start: number): number {
+  const d = new Date(start);
+  const weekend = d.getDay() === 0 || d.getDay() === 6 ? 0.3 : 1;
+  const hour = d.getHours();
+  const daytime = hour >= 9 && hour < 19 ? 1 : hour >= 7 && hour < 23 ? 0.4 : 0.05;
+  return 60 * weekend * daytime;
+}
+
+function emptyTotals(): UsageTotals {
+  return { toolCalls: 0, inputBytes: 0, outputBytes: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addTo(target: Record<string, UsageTotals>, key: string, totals: UsageTotals) {
+  const sum = (target[key] ??= emptyTotals());
+  for (const field of Object.keys(totals) as (keyof UsageTotals)[]) sum[field] += totals[field];
+}
+
+function toAnalytics(
+  groupBy: AnalyticsGroupBy,
+  { from, to, bucket }: AnalyticsRange,
+  buckets: UsageBucket[],
+): Analytics {
+  const totals: Record<string, UsageTotals> = {};
+  for (const b of buckets) {
+    for (const [key, t] of Object.entries(b.groups)) addTo(totals, key, t);
+  }
+  const groups = Object.entries(totals)
+    .map(([key, t]) => ({ key, ...t }))
+    .sort((a, b) => b.toolCalls - a.toolCalls);
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return { groupBy, bucket, timeZone, from, to, groups, buckets };
+}
+
+export function demoAnalyticsData(range: AnalyticsRange): AnalyticsData {
+  const { from, to, bucket } = range;
+  const byActivity: UsageBucket[] = [];
+  const byClan: UsageBucket[] = [];
+  const byBuilding: UsageBucket[] = [];
+
+  for (const start of localBucketStarts(from, to, bucket)) {
+    const random = seeded(start / 60_000);
+    const label = localLabel(start, bucket);
+    const cells = { activity: {}, clan: {}, building: {} } as Record<string, Record<string, UsageTotals>>;
+    // A day bucket is its 24 hours added up, roughly
+    const hours = bucket === 'day' ? Array.from({ length: 24 }, (_, h) => start + h * HOUR) : [start];
+    const calls = hours.reduce((sum, hour) => sum + busyness(hour), 0) * (0.6 + random() * 0.8);
+
+    for (const { activity, building, weight } of DEMO_ACTIVITIES) {
+      for (const { clan, weight: share } of DEMO_CLANS) {
+        const toolCalls = Math.round(calls * weight * share * (0.5 + random()));
+        if (toolCalls === 0) continue;
+        const inputTokens = toolCalls * Math.round(1800 + random() * 2400);
+        const outputTokens = toolCalls * Math.round(150 + random() * 350);
+        const totals: UsageTotals = {
+          toolCalls,
+          inputBytes: toolCalls * Math.round(400 + random() * 800),
+          outputBytes: toolCalls * Math.round(2000 + random() * 6000),
+          inputTokens,
+          outputTokens,
+          cost: (inputTokens * 3 + outputTokens * 15) / 1_000_000,
+        };
+        addTo(cells.activity, activity, totals);
+        addTo(cells.clan, clan, totals);
+        addTo(cells.building, building, totals);
+      }
+    }
+    byActivity.push({ start, label, groups: cells.activity });
+    byClan.push({ start, label, groups: cells.clan });
+    byBuilding.push({ start, label, groups: cells.building });
+  }
+
+  // A handful of sessions a day, most of them short
+  const random = seeded(from / 60_000);
+  const count = Math.max(8, Math.round(((to - from) / DAY) * 12));
+  const sessions: Session[] = Array.from({ length: count }, (_, i) => {
+    const startedAt = from + random() * (to - from);
+    const duration = Math.round(Math.exp(Math.log(12 * 60_000) + (random() + random() + random() - 1.5) * 2.2));
+    const clan = DEMO_CLANS[i % DEMO_CLANS.length].clan;
+    return {
+      id: i + 1,
+      agentId: `demo-${i}`,
+      agentName: null,
+      clan,
+      project: clan,
+      parentId: null,
+      startedAt,
+      endedAt: startedAt + duration,
+      duration,
+      toolCalls: Math.round(duration / 20_000),
+      subAgents: 0,
+      outcome: 'ended',
+    };
+  });
+
+  return {
+    activity: toAnalytics('activity', range, byActivity),
+    clans: toAnalytics('clan', range, byClan),
+    buildings: toAnalytics('building', range, byBuilding),
+    sessions,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getBridgeToken, bridgeHeaders } from './bridgeAuth';
+
+describe('bridgeAuth', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should have no token by default', () => {
+    expect(getBridgeToken()).toBeNull();
+    expect(bridgeHeaders()).toEqual({});
+  });
+
+  it('should take the token from the page URL and remember it', () => {
+    window.history.replaceState(null, '', '/?token=abc&x=1#village');
+
+    expect(getBridgeToken()).toBe('abc');
+    expect(localStorage.getItem('agentville-token')).toBe('abc');
+    expect(window.location.search).toBe('?x=1');
+    expect(window.location.hash).toBe('#village');
+
+    expect(getBridgeToken()).toBe('abc');
+  });
+
+  it('should send the token as a bearer header', () => {
+    localStorage.setItem('agentville-token', 'abc');
+    expect(bridgeHeaders()).toEqual({ Authorization: 'Bearer abc' });
+  });
+});
@@ -0,0 +1,30 @@
+// ── Bridge auth ─────────────────────────────────────────
+// When the bridge runs with AGENTVILLE_AUTH=1 every request needs
+// its shared token. The dashboard takes it from VITE_BRIDGE_TOKEN
+// at build time, or from a `?token=` link (remembered locally so
+// the token doesn't have to stay in the address bar).
+
+const STORAGE_KEY = 'agentville-token';
+
+export function getBridgeToken(): string | null {
+  const fromEnv = import.meta.env.VITE_BRIDGE_TOKEN;
+  if (fromEnv) return fromEnv;
+
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = params.get('token');
+  if (fromUrl) {
+    localStorage.setItem(STORAGE_KEY, fromUrl);
+    params.delete('token');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    return fromUrl;
+  }
+
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+/** Headers to send with every bridge request */
+export function bridgeHeaders(): Record<string, string> {
+  const token = getBridgeToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { AchievementGallery } from './AchievementGallery';
+import type { Achievement } from '../achievements';
+
+const achievements: Achievement[] = [
+  { id: 'first-green', name: 'First Victory', icon: '⚔️', description: 'Passed a test', condition: { stat: 'testsPassed', atLeast: 1 } },
+  { id: 'night-owl', name: 'Night Owl', icon: '🦉', description: 'Late tool calls', condition: { session: 'toolCalls', atLeast: 20 } },
+];
+const unlocked = [{ id: 'night-owl', unlockedAt: Date.UTC(2026, 2, 11, 12) }];
+
+describe('AchievementGallery', () => {
+  it('should show every achievement, locked ones marked as such', () => {
+    render(<AchievementGallery achievements={achievements} unlocked={unlocked} />);
+    const tiles = screen.getAllByRole('listitem');
+    expect(tiles.map(t => t.getAttribute('aria-label'))).toEqual(['Night Owl', 'First Victory (locked)']);
+    expect(tiles[0].getAttribute('title')).toMatch(/^Night Owl — Late tool calls \(Unlocked .*2026\)$/);
+    expect(tiles[1].getAttribute('title')).toBe('First Victory — Passed a test (Locked)');
+  });
+
+  it('should show only unlocked icons when compact', () => {
+    const { container, rerender } = render(<AchievementGallery achievements={achievements} unlocked={unlocked} compact />);
+    expect(screen.getByLabelText('Achievements').textContent).toBe('🦉');
+    rerender(<AchievementGallery achievements={achievements} compact />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
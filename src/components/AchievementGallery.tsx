@@ -0,0 +1,62 @@
+import { galleryOf, type Achievement } from '../achievements'
+import type { AchievementUnlock } from '../types'
+
+interface AchievementGalleryProps {
+  achievements: Achievement[];
+  unlocked?: AchievementUnlock[];
+  /** Only the unlocked ones, as a row of small icons */
+  compact?: boolean;
+}
+
+function formatDay(ts: number) {
+  return new Date(ts).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+function tooltip(achievement: Achievement, unlockedAt: number | null) {
+  const earned = unlockedAt !== null ? `Unlocked ${formatDay(unlockedAt)}` : 'Locked'
+  return `${achievement.name} — ${achievement.description} (${earned})`
+}
+
+/**
+ * Achievements an agent unlocked, with the ones still locked greyed
+ * out. Hover a tile for what it takes and when it was earned.
+ */
+export function AchievementGallery({ achievements, unlocked = [], compact }: AchievementGalleryProps) {
+  const gallery = galleryOf(achievements, unlocked)
+
+  if (compact) {
+    const earned = gallery.filter(g => g.unlockedAt !== null)
+    if (earned.length === 0) return null
+    return (
+      <div className="flex flex-wrap gap-0.5" aria-label="Achievements">
+        {earned.map(({ achievement, unlockedAt }) => (
+          <span key={achievement.id} className="text-[11px]" title={tooltip(achievement, unlockedAt)}>
+            {achievement.icon}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-6 gap-1" role="list" aria-label="Achievements">
+      {gallery.map(({ achievement, unlockedAt }) => (
+        <div
+          key={achievement.id}
+          role="listitem"
+          aria-label={`${achievement.name}${unlockedAt !== null ? '' : ' (locked)'}`}
+          title={tooltip(achievement, unlockedAt)}
+          className="aspect-square rounded-md flex items-center justify-center text-[16px]"
+          style={{
+            background: unlockedAt !== null ? 'rgba(251,191,36,0.12)' : 'rgba(255,255,255,0.03)',
+            border: `1px solid ${unlockedAt !== null ? 'rgba(251,191,36,0.35)' : 'rgba(255,255,255,0.06)'}`,
+            filter: unlockedAt !== null ? undefined : 'grayscale(1)',
+            opacity: unlockedAt !== null ? 1 : 0.3,
+          }}
+        >
+          {achievement.icon}
+        </div>
+      ))}
+    </div>
+  )
+}
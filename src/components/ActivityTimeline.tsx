@@ -16,6 +16,7 @@ interface ActivityTimelineProps {
   visible: boolean
 }
 
+// Custom activities (from the bridge's classification rules) render grey
 const activityColors: Record<ActivityType, string> = {
   planning: '#3b82f6',
   coding: '#f97316',
@@ -90,7 +91,7 @@ export function ActivityTimeline({ entries, visible }: ActivityTimelineProps) {
                   />
                   <div
                     className="w-[2px] h-4 mx-auto mt-[1px] rounded-full"
-                    style={{ backgroundColor: activityColors[entry.activity] }}
+                    style={{ backgroundColor: activityColors[entry.activity] || activityColors.idle }}
                   />
 
                   {/* Hover tooltip */}
@@ -102,7 +103,7 @@ export function ActivityTimeline({ entries, visible }: ActivityTimelineProps) {
                       <div className="font-medium" style={{ color: entry.agentColor }}>
                         {entry.agentName}
                       </div>
-                      <div style={{ color: activityColors[entry.activity] }}>
+                      <div style={{ color: activityColors[entry.activity] || activityColors.idle }}>
                         {entry.activity}
                       </div>
                       <div className="text-white/50 max-w-[180px] truncate">
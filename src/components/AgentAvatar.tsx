@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { ThoughtBubble } from './ThoughtBubble'
-import { getClanColor } from '../types'
+import { getClanColor, getSourceLabel } from '../types'
 import type { AgentState } from '../types'
 
 interface AgentAvatarProps {
@@ -111,17 +111,19 @@ export function AgentAvatar({ agent, targetPosition, centerX, centerY, parentPos
           scale: { duration: 0.3 },
         }}
       >
-        {/* Thought bubble (not for sub-agents — too crowded) */}
-        {!isSub && (
+        {/* Thought bubble (not for sub-agents — too crowded — unless they need approval or are stuck) */}
+        {(!isSub || agent.approval || agent.stuck) && (
           <ThoughtBubble
             detail={agent.detail}
             activity={agent.activity}
             color={agent.color}
             offsetDir={hash > 0 ? 1 : hash < -10 ? -1 : 0}
             waiting={agent.waiting}
+            approval={agent.approval?.detail}
             isIdleAtCampfire={isIdleAtCampfire}
             previousActivity={agent.previousActivity}
             failure={agent.failure}
+            stuck={agent.stuck?.reason}
           />
         )}
 
@@ -184,6 +186,17 @@ export function AgentAvatar({ agent, targetPosition, centerX, centerY, parentPos
               boxShadow: `0 0 10px ${agent.color}44`,
             }}
           >
+            {/* Confused: a question mark circling overhead */}
+            {agent.stuck && (
+              <motion.div
+                className="absolute text-cyan-300 font-bold pointer-events-none"
+                style={{ fontSize: isSub ? 8 : 10, top: isSub ? -10 : -13, left: '50%', marginLeft: -3 }}
+                animate={{ rotate: [-15, 15, -15], y: [0, -2, 0] }}
+                transition={{ duration: 1.4, repeat: Infinity, ease: 'easeInOut' }}
+              >
+                ?
+              </motion.div>
+            )}
             {/* Eye highlight */}
             <div
               className="absolute rounded-full bg-white/60"
@@ -220,7 +233,9 @@ export function AgentAvatar({ agent, targetPosition, centerX, centerY, parentPos
 
         {/* Role / activity label */}
         <div className="text-white/40 mt-0.5 whitespace-nowrap" style={{ fontSize: isSub ? 7 : 8 }}>
-          {agent.status === 'working'
+          {agent.stuck
+            ? '❓ confused'
+            : agent.status === 'working'
             ? (ACTIVITY_LABELS[agent.activity] || agent.activity)
             : (!isSub && agent.title && agent.level > 1)
               ? agent.title
@@ -245,6 +260,16 @@ export function AgentAvatar({ agent, targetPosition, centerX, centerY, parentPos
             </div>
           );
         })()}
+
+        {/* Source badge (agents from other CLIs) */}
+        {agent.source && (
+          <div
+            className="mt-0.5 px-1.5 py-px rounded-full whitespace-nowrap text-white/60"
+            style={{ background: '#ffffff10', border: '1px solid #ffffff22', fontSize: 7 }}
+          >
+            {getSourceLabel(agent.source)}
+          </div>
+        )}
       </motion.div>
     </>
   );
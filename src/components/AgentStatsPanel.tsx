@@ -1,6 +1,11 @@
+import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { getClanColor } from '../types'
+import { getClanColor, getSourceLabel } from '../types'
 import type { AgentState, ActivityType } from '../types'
+import { formatDuration, type Session } from '../sessions'
+import { cacheHitRate, formatCost, formatPercent, formatTokens, tokenUsage } from '../tokens'
+import type { Achievement } from '../achievements'
+import { AchievementGallery } from './AchievementGallery'
 
 export interface ActivityRecord {
   activity: ActivityType;
@@ -11,6 +16,16 @@ export interface ActivityRecord {
 interface AgentStatsPanelProps {
   agent: AgentState | null;
   activityHistory: ActivityRecord[];
+  /** Name of the building the agent is in (from the village config) */
+  buildingName?: string;
+  /** Recent sessions from the bridge (live mode only) */
+  sessions?: Session[];
+  /** Achievement definitions from the bridge, for the gallery (live mode only) */
+  achievements?: Achievement[];
+  /** Dashboard commands, only given while connected over WebSocket */
+  onAcknowledge?: (agentId: string) => Promise<void>;
+  onRename?: (agentId: string, name: string) => Promise<void>;
+  onDecide?: (approvalId: number, decision: 'allow' | 'deny') => Promise<void>;
   onClose: () => void;
 }
 
@@ -24,9 +39,13 @@ const ACTIVITY_COLORS: Record<string, string> = {
   researching: '#a855f7', reviewing: '#eab308',
 }
 
-const BUILDING_NAMES: Record<string, string> = {
-  planning: 'Guild', coding: 'Forge', testing: 'Arena',
-  researching: 'Library', reviewing: 'Watchtower', idle: 'Town Square',
+const OUTCOME_ICONS: Record<Session['outcome'], string> = {
+  active: '🟢', ended: '🏁', timeout: '💤', interrupted: '⚡',
+}
+
+function formatDate(ts: number) {
+  const d = new Date(ts)
+  return `${d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} ${d.toTimeString().slice(0, 5)}`
 }
 
 function formatTime(ts: number) {
@@ -40,19 +59,28 @@ function formatBytes(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
 
-function estimateTokens(bytes: number): string {
-  // Rough estimate: ~4 chars per token
-  const tokens = Math.round(bytes / 4)
-  if (tokens < 1000) return `~${tokens}`
-  if (tokens < 1_000_000) return `~${(tokens / 1000).toFixed(1)}k`
-  return `~${(tokens / 1_000_000).toFixed(1)}M`
-}
-
 function truncate(s: string, max: number) {
   return s.length > max ? s.slice(0, max) + '...' : s
 }
 
-export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsPanelProps) {
+export function AgentStatsPanel({
+  agent, activityHistory, buildingName, sessions = [], achievements = [],
+  onAcknowledge, onRename, onDecide, onClose,
+}: AgentStatsPanelProps) {
+  const [editingName, setEditingName] = useState<string | null>(null)
+  const [commandError, setCommandError] = useState<string | null>(null)
+
+  function runCommand(command: Promise<void>) {
+    setCommandError(null)
+    command.catch((err: Error) => setCommandError(err.message))
+  }
+
+  function submitName() {
+    const name = editingName?.trim()
+    setEditingName(null)
+    if (agent && onRename && name && name !== agent.name) runCommand(onRename(agent.id, name))
+  }
+
   // Build activity distribution
   const distribution = activityHistory.reduce<Record<string, number>>((acc, r) => {
     if (r.activity !== 'idle') {
@@ -62,6 +90,9 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
   }, {})
   const maxCount = Math.max(1, ...Object.values(distribution))
   const recent = activityHistory.slice(-8).reverse()
+  const tokens = agent ? tokenUsage(agent) : null
+  const hitRate = tokens ? cacheHitRate(tokens) : null
+  const unlockedCount = achievements.filter(a => agent?.achievements?.some(u => u.id === a.id)).length
 
   return (
     <AnimatePresence>
@@ -100,9 +131,35 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
                   boxShadow: `0 0 12px ${agent.color}44`,
                 }}
               />
-              <span className="font-bold text-[14px]" style={{ color: agent.color }}>
-                {agent.name}
-              </span>
+              {editingName !== null ? (
+                <input
+                  autoFocus
+                  aria-label="Villager name"
+                  value={editingName}
+                  maxLength={32}
+                  onChange={e => setEditingName(e.target.value)}
+                  onBlur={submitName}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') submitName()
+                    if (e.key === 'Escape') setEditingName(null)
+                  }}
+                  className="font-bold text-[14px] text-center bg-white/5 rounded px-1 outline-none w-40"
+                  style={{ color: agent.color, border: `1px solid ${agent.color}44` }}
+                />
+              ) : (
+                <span className="font-bold text-[14px] flex items-center gap-1" style={{ color: agent.color }}>
+                  {agent.name}
+                  {onRename && (
+                    <button
+                      onClick={() => setEditingName(agent.name)}
+                      className="text-[10px] text-white/30 hover:text-white/60 cursor-pointer"
+                      title="Rename"
+                    >
+                      ✎
+                    </button>
+                  )}
+                </span>
+              )}
               {/* Level badge */}
               <div className="flex items-center gap-1.5 mt-0.5">
                 <span
@@ -146,6 +203,21 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
                   </span>
                 );
               })()}
+              {agent.source && (
+                <span className="text-white/40 text-[9px] mt-0.5">via {getSourceLabel(agent.source)}</span>
+              )}
+              {agent.waiting && onAcknowledge && (
+                <button
+                  onClick={() => runCommand(onAcknowledge(agent.id))}
+                  className="text-[10px] px-2 py-0.5 rounded-full mt-1 cursor-pointer text-amber-300 hover:text-amber-200"
+                  style={{ background: '#f59e0b22', border: '1px solid #f59e0b44' }}
+                >
+                  ✓ Acknowledge
+                </button>
+              )}
+              {commandError && (
+                <span className="text-[9px] text-red-400/80 mt-0.5">{commandError}</span>
+              )}
               {agent.isSubAgent && (
                 <span
                   className="text-[9px] px-1.5 py-0.5 rounded-full mt-0.5"
@@ -156,6 +228,40 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
               )}
             </div>
 
+            {/* Pending approval */}
+            {agent.approval && (
+              <div
+                className="rounded p-2 flex flex-col gap-1.5"
+                style={{ background: '#d946ef14', border: '1px solid #d946ef55' }}
+              >
+                <div className="text-[10px] uppercase tracking-wider text-fuchsia-300/80">🛑 {agent.approval.reason}</div>
+                <code className="text-[10px] text-white/70 break-all">{agent.approval.detail}</code>
+                <div className="text-[9px] text-white/30">
+                  {agent.approval.tool} · until {formatTime(agent.approval.expiresAt)}
+                </div>
+                {onDecide ? (
+                  <div className="flex gap-1.5">
+                    <button
+                      onClick={() => runCommand(onDecide(agent.approval!.id, 'allow'))}
+                      className="flex-1 text-[10px] py-0.5 rounded cursor-pointer text-green-300 hover:text-green-200"
+                      style={{ background: '#22c55e22', border: '1px solid #22c55e44' }}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => runCommand(onDecide(agent.approval!.id, 'deny'))}
+                      className="flex-1 text-[10px] py-0.5 rounded cursor-pointer text-red-300 hover:text-red-200"
+                      style={{ background: '#ef444422', border: '1px solid #ef444444' }}
+                    >
+                      Deny
+                    </button>
+                  </div>
+                ) : (
+                  <div className="text-[9px] text-white/30">Connect over WebSocket to answer from here</div>
+                )}
+              </div>
+            )}
+
             <div className="w-full h-px bg-white/10" />
 
             {/* Activity section */}
@@ -164,7 +270,7 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
               <div className="flex items-center gap-1.5 text-[11px] text-white/60 mb-3">
                 <span>{ACTIVITY_ICONS[agent.activity] || '💤'}</span>
                 <span>{agent.activity}</span>
-                <span className="text-white/30">- {BUILDING_NAMES[agent.activity] || 'Town Square'}</span>
+                <span className="text-white/30">- {buildingName || 'Town Square'}</span>
               </div>
 
               {/* Distribution bars */}
@@ -189,8 +295,8 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
 
             <div className="w-full h-px bg-white/10" />
 
-            {/* Token usage section */}
-            {(agent.totalInputBytes > 0 || agent.totalOutputBytes > 0) && (
+            {/* Token usage section — real counts when the agent reports them, else estimated from bytes */}
+            {tokens && tokens.input + tokens.output > 0 && (
               <>
                 <div>
                   <div className="text-[10px] uppercase tracking-wider text-white/30 mb-2">Token Usage</div>
@@ -198,29 +304,37 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
                     <div className="rounded-lg p-2" style={{ background: 'rgba(255,255,255,0.04)' }}>
                       <div className="text-[9px] text-white/30 mb-0.5">Input</div>
                       <div className="text-[13px] font-mono text-emerald-400/80">
-                        {estimateTokens(agent.totalInputBytes)}
+                        {formatTokens(tokens.input, tokens.exact)}
                       </div>
-                      <div className="text-[8px] text-white/20">{formatBytes(agent.totalInputBytes)}</div>
+                      <div className="text-[8px] text-white/20">{tokens.exact ? 'reported' : formatBytes(agent.totalInputBytes)}</div>
                     </div>
                     <div className="rounded-lg p-2" style={{ background: 'rgba(255,255,255,0.04)' }}>
                       <div className="text-[9px] text-white/30 mb-0.5">Output</div>
                       <div className="text-[13px] font-mono text-amber-400/80">
-                        {estimateTokens(agent.totalOutputBytes)}
+                        {formatTokens(tokens.output, tokens.exact)}
                       </div>
-                      <div className="text-[8px] text-white/20">{formatBytes(agent.totalOutputBytes)}</div>
+                      <div className="text-[8px] text-white/20">{tokens.exact ? 'reported' : formatBytes(agent.totalOutputBytes)}</div>
                     </div>
                   </div>
                   {agent.spawnedAt > 0 && (
                     <div className="mt-1.5 text-[9px] text-white/25 text-center">
-                      {estimateTokens(agent.totalInputBytes + agent.totalOutputBytes)} total
+                      {formatTokens(tokens.input + tokens.output, tokens.exact)} total
                       {' '}
                       ({(() => {
                         const mins = Math.max(1, (Date.now() - agent.spawnedAt) / 60000)
-                        const tokPerMin = Math.round((agent.totalInputBytes + agent.totalOutputBytes) / 4 / mins)
-                        return `~${tokPerMin.toLocaleString()}/min`
+                        const tokPerMin = Math.round((tokens.input + tokens.output) / mins)
+                        return `${tokens.exact ? '' : '~'}${tokPerMin.toLocaleString()}/min`
                       })()})
                     </div>
                   )}
+                  {(hitRate !== null || agent.model) && (
+                    <div className="mt-1 text-[9px] text-white/25 text-center">
+                      {hitRate !== null && <span className="text-sky-300/70">{formatPercent(hitRate)} from cache</span>}
+                      {hitRate !== null && agent.model && ' · '}
+                      {agent.model && <span className="font-mono">{agent.model}</span>}
+                      {(agent.totalCost || 0) > 0 && <span className="text-amber-300/70"> · {formatCost(agent.totalCost!)}</span>}
+                    </div>
+                  )}
                 </div>
                 <div className="w-full h-px bg-white/10" />
               </>
@@ -244,6 +358,66 @@ export function AgentStatsPanel({ agent, activityHistory, onClose }: AgentStatsP
               </>
             )}
 
+            {/* Commits this session, newest first */}
+            {agent.commits && agent.commits.length > 0 && (
+              <>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wider text-white/30 mb-2">Commits This Session</div>
+                  <div className="flex flex-col gap-1">
+                    {[...agent.commits].reverse().map(c => (
+                      <div key={c.sha} className="flex items-center gap-1.5 text-[9px] text-white/40" title={c.branch || undefined}>
+                        <span className="font-mono text-amber-300/70 w-[44px] shrink-0">{c.sha.slice(0, 7)}</span>
+                        <span className="truncate flex-1">{c.message || ''}</span>
+                        <span className="font-mono shrink-0">
+                          <span className="text-green-400/70">+{c.insertions}</span>{' '}
+                          <span className="text-red-400/70">−{c.deletions}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="w-full h-px bg-white/10" />
+              </>
+            )}
+
+            {/* Achievements gallery */}
+            {achievements.length > 0 && (
+              <>
+                <div>
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-[10px] uppercase tracking-wider text-white/30">Achievements</span>
+                    <span className="text-[9px] font-mono text-white/30">
+                      {unlockedCount}/{achievements.length}
+                    </span>
+                  </div>
+                  <AchievementGallery achievements={achievements} unlocked={agent.achievements} />
+                </div>
+                <div className="w-full h-px bg-white/10" />
+              </>
+            )}
+
+            {/* Past sessions section */}
+            {sessions.length > 0 && (
+              <>
+                <div>
+                  <div className="text-[10px] uppercase tracking-wider text-white/30 mb-2">Past Sessions</div>
+                  <div className="flex flex-col gap-1">
+                    {sessions.map(s => (
+                      <div key={s.id} className="flex items-center gap-1.5 text-[9px] text-white/40" title={s.outcome}>
+                        <span className="font-mono text-white/25 w-[76px] shrink-0">{formatDate(s.startedAt)}</span>
+                        <span>{OUTCOME_ICONS[s.outcome] || '🏁'}</span>
+                        <span className="font-mono text-white/60 w-[44px] shrink-0">{formatDuration(s.duration)}</span>
+                        <span className="truncate">
+                          {s.toolCalls} tools{s.subAgents > 0 ? ` · ${s.subAgents} ⛏` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="w-full h-px bg-white/10" />
+              </>
+            )}
+
             {/* Recent section */}
             <div>
               <div className="text-[10px] uppercase tracking-wider text-white/30 mb-2">Recent</div>
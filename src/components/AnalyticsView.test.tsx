@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AnalyticsView } from './AnalyticsView';
+import type { AnalyticsRoute } from '../analytics';
+
+function renderView(route: AnalyticsRoute = { range: '7d', bucket: 'day' }) {
+  const onRouteChange = vi.fn();
+  render(<AnalyticsView route={route} buildings={[]} bridgeUrl="" onRouteChange={onRouteChange} onClose={() => {}} />);
+  return onRouteChange;
+}
+
+describe('AnalyticsView', () => {
+  it('should chart simulated data in demo mode', () => {
+    renderView();
+    expect(screen.getByText('Simulated data (demo mode)')).toBeInTheDocument();
+    for (const title of [
+      'Activity mix over time', 'Tool calls per clan', 'Token usage over time',
+      'Session duration histogram', 'Building XP progression',
+    ]) {
+      expect(screen.getByRole('img', { name: title })).toBeInTheDocument();
+    }
+  });
+
+  it('should switch to a preset with its own bucket size', () => {
+    const onRouteChange = renderView();
+    expect(screen.getByRole('button', { name: '7d' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByRole('button', { name: '24h' }));
+    expect(onRouteChange).toHaveBeenCalledWith({ range: '24h', bucket: 'hour' });
+  });
+
+  it('should pick days and keep hourly buckets only while they fit', () => {
+    const onRouteChange = renderView({ range: null, from: '2026-03-01', to: '2026-03-07', bucket: 'hour' });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2026-03-10' } });
+    expect(onRouteChange).toHaveBeenLastCalledWith({ range: null, from: '2026-03-01', to: '2026-03-10', bucket: 'hour' });
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-12-01' } });
+    expect(onRouteChange).toHaveBeenLastCalledWith({ range: null, from: '2025-12-01', to: '2026-03-07', bucket: 'day' });
+  });
+
+  it('should not offer hourly buckets past a thousand hours', () => {
+    renderView({ range: null, from: '2026-01-01', to: '2026-02-28', bucket: 'day' });
+    expect(screen.getByRole('button', { name: 'Hourly' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,268 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react'
+import { getClanColor, type BuildingState } from '../types'
+import { bridgeHeaders } from '../bridgeAuth'
+import {
+  fetchAnalyticsData, demoAnalyticsData, resolveRange, hoursFit, formatLocalDay, seriesOf, bucketSums,
+  buildingXPSeries, durationHistogram, shortLabel, RANGE_PRESETS,
+  type AnalyticsData, type AnalyticsRoute, type RangePreset,
+} from '../analytics'
+import { formatTokens, formatCost } from '../tokens'
+import { StackedAreaChart, LineChart, BarChart, Histogram, Legend } from './Charts'
+
+interface AnalyticsViewProps {
+  route: AnalyticsRoute
+  /** Building names and colors for the XP chart */
+  buildings: BuildingState[]
+  /** Bridge to read from; without one the view shows simulated data */
+  bridgeUrl: string
+  onRouteChange: (route: AnalyticsRoute) => void
+  onClose: () => void
+}
+
+// Custom activities (from the bridge's classification rules) render grey
+const ACTIVITY_COLORS: Record<string, string> = {
+  planning: '#3b82f6', coding: '#f97316', testing: '#22c55e',
+  researching: '#a855f7', reviewing: '#eab308', idle: '#666',
+}
+const ACTIVITY_ORDER = ['coding', 'researching', 'testing', 'planning', 'reviewing', 'idle']
+
+const MAX_CLANS = 10
+const TOKEN_COLORS = { input: '#38bdf8', output: '#f472b6' }
+
+/**
+ * Usage over time for the whole village: what agents spent their
+ * tool calls on, which clans were busiest, tokens, how long sessions
+ * last and how the buildings grew. The range is in the URL hash.
+ */
+export function AnalyticsView({ route, buildings, bridgeUrl, onRouteChange, onClose }: AnalyticsViewProps) {
+  const [data, setData] = useState<AnalyticsData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState(false)
+
+  // Presets end now, so they're resolved again whenever the route changes
+  const range = useMemo(() => resolveRange(route), [route])
+
+  useEffect(() => {
+    if (!bridgeUrl) {
+      setData(demoAnalyticsData(range))
+      setError(false)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(false)
+    fetchAnalyticsData(bridgeUrl, bridgeHeaders(), range)
+      .then(result => { if (!cancelled) setData(result) })
+      .catch(() => { if (!cancelled) setError(true) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [range, bridgeUrl])
+
+  const selectPreset = (preset: RangePreset) => onRouteChange({ range: preset, bucket: RANGE_PRESETS[preset].bucket })
+  const selectDays = (from: string, to: string) => {
+    if (!from || !to) return
+    const [first, last] = from <= to ? [from, to] : [to, from]
+    const days = resolveRange({ range: null, from: first, to: last, bucket: 'day' })
+    onRouteChange({ range: null, from: first, to: last, bucket: route.bucket === 'hour' && hoursFit(days) ? 'hour' : 'day' })
+  }
+  const fromDay = route.from || formatLocalDay(range.from)
+  const toDay = route.to || formatLocalDay(range.to)
+
+  return (
+    <div className="fixed inset-0 z-40 overflow-y-auto" style={{ background: '#0a0a1a' }}>
+      {/* Header */}
+      <div className="sticky top-0 z-10 px-6 py-4 flex flex-wrap items-center justify-between gap-3"
+        style={{ background: 'rgba(10,10,26,0.97)', borderBottom: '1px solid rgba(255,255,255,0.08)' }}
+      >
+        <div>
+          <h2 className="text-[16px] font-bold text-white/80">Analytics</h2>
+          <span className="text-[10px] text-white/30">
+            {bridgeUrl ? 'Tool calls, tokens and sessions over time' : 'Simulated data (demo mode)'}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {/* Presets */}
+          <div className="flex rounded-full overflow-hidden border border-white/10">
+            {(Object.keys(RANGE_PRESETS) as RangePreset[]).map(preset => (
+              <button
+                key={preset}
+                onClick={() => selectPreset(preset)}
+                aria-pressed={route.range === preset}
+                className={`px-3 py-1 text-[10px] font-medium transition-colors cursor-pointer ${
+                  route.range === preset ? 'bg-sky-500/20 text-sky-300' : 'text-white/30 hover:text-white/50'
+                }`}
+              >
+                {preset}
+              </button>
+            ))}
+          </div>
+
+          {/* Custom days */}
+          <div className="flex items-center gap-1 text-[10px] text-white/40">
+            <input
+              type="date"
+              aria-label="From"
+              value={fromDay}
+              max={toDay}
+              onChange={e => selectDays(e.target.value, toDay)}
+              className="bg-transparent border border-white/10 rounded px-1.5 py-0.5 text-white/60"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              aria-label="To"
+              value={toDay}
+              min={fromDay}
+              onChange={e => selectDays(fromDay, e.target.value)}
+              className="bg-transparent border border-white/10 rounded px-1.5 py-0.5 text-white/60"
+            />
+          </div>
+
+          {/* Bucket size */}
+          <div className="flex rounded-full overflow-hidden border border-white/10">
+            {(['hour', 'day'] as const).map(bucket => (
+              <button
+                key={bucket}
+                onClick={() => onRouteChange({ ...route, bucket })}
+                disabled={bucket === 'hour' && !hoursFit(range)}
+                aria-pressed={route.bucket === bucket}
+                className={`px-3 py-1 text-[10px] font-medium transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-default ${
+                  route.bucket === bucket ? 'bg-amber-500/20 text-amber-300' : 'text-white/30 hover:text-white/50'
+                }`}
+              >
+                {bucket === 'hour' ? 'Hourly' : 'Daily'}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-[10px] font-medium rounded-full border border-white/10 text-white/40 hover:text-white/60 hover:border-white/20 transition-colors cursor-pointer"
+          >
+            Back to village
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-6">
+        {loading && !data && (
+          <div className="text-center text-white/30 text-[11px] py-16">Loading analytics...</div>
+        )}
+
+        {!loading && error && (
+          <div className="text-center text-white/30 text-[11px] py-16">Could not reach the bridge.</div>
+        )}
+
+        {data && !error && <AnalyticsCharts data={data} buildings={buildings} />}
+      </div>
+    </div>
+  )
+}
+
+function AnalyticsCharts({ data, buildings }: { data: AnalyticsData; buildings: BuildingState[] }) {
+  const { activity, clans, buildings: byBuilding, sessions } = data
+  const labels = activity.buckets.map(b => shortLabel(b.label, activity.bucket))
+
+  const activityKeys = activity.groups
+    .map(g => g.key)
+    .sort((a, b) => (ACTIVITY_ORDER.indexOf(a) + 1 || 99) - (ACTIVITY_ORDER.indexOf(b) + 1 || 99))
+  const activitySeries = seriesOf(activity, activityKeys, t => t.toolCalls).map((values, i) => ({
+    key: activityKeys[i],
+    label: activityKeys[i],
+    color: ACTIVITY_COLORS[activityKeys[i]] || '#666',
+    values,
+  }))
+
+  const clanBars = clans.groups.slice(0, MAX_CLANS).map(g => ({
+    key: g.key,
+    label: g.key || 'no clan',
+    value: g.toolCalls,
+    color: g.key ? getClanColor(g.key) : '#666',
+  }))
+
+  const tokenSeries = [
+    { key: 'input', label: 'Input tokens', color: TOKEN_COLORS.input, values: bucketSums(clans, t => t.inputTokens) },
+    { key: 'output', label: 'Output tokens', color: TOKEN_COLORS.output, values: bucketSums(clans, t => t.outputTokens) },
+  ]
+
+  const xpSeries = buildingXPSeries(byBuilding).map(({ key, values }) => {
+    const building = buildings.find(b => b.id === key)
+    return { key, label: building?.name || key, color: building?.glowColor || '#666', values }
+  })
+
+  const totals = clans.groups.reduce(
+    (sum, g) => ({
+      toolCalls: sum.toolCalls + g.toolCalls,
+      tokens: sum.tokens + g.inputTokens + g.outputTokens,
+      cost: sum.cost + g.cost,
+    }),
+    { toolCalls: 0, tokens: 0, cost: 0 },
+  )
+  const finished = sessions.filter(s => s.outcome !== 'active').length
+
+  return (
+    <div className="flex flex-col gap-4 max-w-[1200px] mx-auto">
+      {/* Totals */}
+      <div className="grid grid-cols-4 gap-3">
+        <Tile label="Tool calls" value={totals.toolCalls.toLocaleString('en-US')} />
+        <Tile label="Tokens" value={formatTokens(totals.tokens)} />
+        <Tile label="Cost" value={formatCost(totals.cost)} />
+        <Tile label="Sessions" value={String(sessions.length)} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card title="Activity mix" subtitle="Tool calls per activity">
+          <StackedAreaChart title="Activity mix over time" labels={labels} series={activitySeries} />
+          <Legend series={activitySeries} />
+        </Card>
+
+        <Card title="Tool calls per clan" subtitle={clans.groups.length > MAX_CLANS ? `Top ${MAX_CLANS}` : undefined}>
+          {clanBars.length > 0
+            ? <BarChart title="Tool calls per clan" items={clanBars} />
+            : <Empty />}
+        </Card>
+
+        <Card title="Token usage" subtitle={`${formatTokens(totals.tokens)} tokens · ${formatCost(totals.cost)}`}>
+          <LineChart title="Token usage over time" labels={labels} series={tokenSeries} format={formatTokens} />
+          <Legend series={tokenSeries} />
+        </Card>
+
+        <Card title="Session lengths" subtitle={`${finished} finished session${finished === 1 ? '' : 's'}`}>
+          <Histogram title="Session duration histogram" bins={durationHistogram(sessions)} color="#34d399" />
+        </Card>
+
+        <Card title="Building XP" subtitle="XP earned in this range, from tool calls and bytes">
+          <LineChart title="Building XP progression" labels={labels} series={xpSeries} />
+          <Legend series={xpSeries} />
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function Card({ title, subtitle, children }: { title: string; subtitle?: string; children: ReactNode }) {
+  return (
+    <section className="rounded-xl p-4" style={{ background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.06)' }}>
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-[11px] uppercase tracking-wider text-white/50">{title}</h3>
+        {subtitle && <span className="text-[9px] text-white/30">{subtitle}</span>}
+      </div>
+      {children}
+    </section>
+  )
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg p-3" style={{ background: 'rgba(255,255,255,0.04)' }}>
+      <div className="text-[9px] text-white/30 mb-0.5">{label}</div>
+      <div className="text-[15px] font-mono text-white/70">{value}</div>
+    </div>
+  )
+}
+
+function Empty() {
+  return <div className="text-center text-white/20 text-[10px] py-8">Nothing in this range</div>
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ArenaBanner, testRunSummary } from './ArenaBanner';
+import type { TestBanner } from '../types';
+
+const green: TestBanner = {
+  id: 'test-1',
+  agentId: 'tester',
+  agentName: 'Thorin',
+  run: { runner: 'vitest', command: 'vitest run', passed: 21, failed: 0, skipped: 0, duration: 612 },
+  color: '#60a5fa',
+  createdAt: 0,
+};
+const red: TestBanner = {
+  ...green,
+  id: 'test-2',
+  run: { runner: 'pytest', command: 'pytest', passed: 44, failed: 2, skipped: 1, duration: 2370 },
+};
+
+describe('testRunSummary', () => {
+  it('should list only the counts that are there', () => {
+    expect(testRunSummary(green.run)).toBe('21 passed · 1s');
+    expect(testRunSummary(red.run)).toBe('44 passed · 2 failed · 1 skipped · 2s');
+    expect(testRunSummary({ ...green.run, duration: null })).toBe('21 passed');
+  });
+});
+
+describe('ArenaBanner', () => {
+  it('should raise a victory banner for a green run and a red flag for a red one', () => {
+    render(<ArenaBanner banners={[green, red]} position={{ x: 450, y: 130 }} />);
+    const [newest, older] = screen.getAllByRole('status');
+    expect(newest).toHaveTextContent('🚩');
+    expect(newest).toHaveTextContent('defeated');
+    expect(older).toHaveTextContent('🏆');
+    expect(older).toHaveTextContent('victorious');
+    expect(older).toHaveTextContent('vitest: 21 passed');
+  });
+
+  it('should show at most three banners', () => {
+    const banners = [1, 2, 3, 4].map(i => ({ ...green, id: `test-${i}` }));
+    render(<ArenaBanner banners={banners} position={{ x: 0, y: 0 }} />);
+    expect(screen.getAllByRole('status')).toHaveLength(3);
+  });
+
+  it('should render nothing without an arena', () => {
+    const { container } = render(<ArenaBanner banners={[green]} position={null} />);
+    expect(container.textContent).toBe('');
+  });
+});
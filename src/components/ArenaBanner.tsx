@@ -0,0 +1,64 @@
+import { motion, AnimatePresence } from 'framer-motion'
+import { formatDuration } from '../sessions'
+import type { TestBanner, TestRun } from '../types'
+
+interface ArenaBannerProps {
+  banners: TestBanner[];
+  /** Pixel position of the building where agents test, or null if there's none */
+  position: { x: number; y: number } | null;
+}
+
+const MAX_BANNERS = 3;
+
+/** "24 passed · 2 failed · 1 skipped · 1s" */
+export function testRunSummary(run: TestRun): string {
+  const parts = [`${run.passed} passed`];
+  if (run.failed) parts.push(`${run.failed} failed`);
+  if (run.skipped) parts.push(`${run.skipped} skipped`);
+  if (run.duration !== null) parts.push(formatDuration(run.duration));
+  return parts.join(' · ');
+}
+
+/**
+ * Banners raised over the Arena after each test run: a green
+ * victory when every test passed, a red flag when any failed.
+ * The newest hangs on top.
+ */
+export function ArenaBanner({ banners, position }: ArenaBannerProps) {
+  if (!position) return null;
+  const shown = banners.slice(-MAX_BANNERS).reverse();
+
+  return (
+    <div
+      className="absolute -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+      style={{ left: position.x, top: position.y - 96, zIndex: 18 }}
+    >
+      <AnimatePresence initial={false}>
+        {shown.map(banner => {
+          const red = banner.run.failed > 0;
+          return (
+            <motion.div
+              key={banner.id}
+              role="status"
+              className="flex items-center gap-1.5 rounded-md px-2 py-1 text-[9px] whitespace-nowrap shadow-lg"
+              style={{
+                background: red ? 'rgba(127,29,29,0.9)' : 'rgba(20,83,45,0.9)',
+                border: `1px solid ${red ? '#f87171' : '#4ade80'}66`,
+                color: red ? '#fecaca' : '#bbf7d0',
+              }}
+              initial={{ opacity: 0, y: 10, scaleY: 0.4 }}
+              animate={{ opacity: 1, y: 0, scaleY: 1 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.3 }}
+            >
+              <span className="text-[11px] leading-none">{red ? '🚩' : '🏆'}</span>
+              <span className="font-bold" style={{ color: banner.color }}>{banner.agentName}</span>
+              <span>{red ? 'defeated' : 'victorious'}</span>
+              <span className="opacity-70">{banner.run.runner}: {testRunSummary(banner.run)}</span>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+// ── Charts ──────────────────────────────────────────────
+// Small dependency-free SVG charts for the analytics view. Each one
+// scales to the width of its card; the viewBox is fixed.
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  /** One value per label */
+  values: number[];
+}
+
+interface TimeChartProps {
+  /** What the chart shows, for screen readers */
+  title: string;
+  /** Axis label of each bucket */
+  labels: string[];
+  series: ChartSeries[];
+  format?: (value: number) => string;
+}
+
+const WIDTH = 560;
+const HEIGHT = 170;
+const PAD = { top: 10, right: 10, bottom: 20, left: 44 };
+const PLOT_W = WIDTH - PAD.left - PAD.right;
+const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+const MAX_TICKS = 6;
+
+const AXIS = 'rgba(255,255,255,0.3)';
+const GRID = 'rgba(255,255,255,0.06)';
+
+/** 1, 2 or 5 times a power of ten, at least `value` */
+export function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const n = value / magnitude;
+  return (n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10) * magnitude;
+}
+
+function defaultFormat(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  return String(Math.round(value * 100) / 100);
+}
+
+function xOf(i: number, n: number): number {
+  return PAD.left + (n <= 1 ? PLOT_W / 2 : (i * PLOT_W) / (n - 1));
+}
+
+function yOf(value: number, max: number): number {
+  return PAD.top + PLOT_H - (value / max) * PLOT_H;
+}
+
+// At most MAX_TICKS labels, spread evenly, always the first and last
+function tickIndexes(n: number): number[] {
+  if (n <= MAX_TICKS) return Array.from({ length: n }, (_, i) => i);
+  const step = (n - 1) / (MAX_TICKS - 1);
+  return Array.from({ length: MAX_TICKS }, (_, i) => Math.round(i * step));
+}
+
+function Axes({ labels, max, format }: { labels: string[]; max: number; format: (value: number) => string }) {
+  return (
+    <g fontSize={9} fill={AXIS}>
+      {[0, 0.5, 1].map(share => (
+        <g key={share}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yOf(max * share, max)} y2={yOf(max * share, max)} stroke={GRID} />
+          <text x={PAD.left - 6} y={yOf(max * share, max) + 3} textAnchor="end">{format(max * share)}</text>
+        </g>
+      ))}
+      {tickIndexes(labels.length).map(i => (
+        <text key={i} x={xOf(i, labels.length)} y={HEIGHT - 6} textAnchor="middle">{labels[i]}</text>
+      ))}
+    </g>
+  );
+}
+
+/** Series stacked on top of each other, the first at the bottom */
+export function StackedAreaChart({ title, labels, series, format = defaultFormat }: TimeChartProps) {
+  const n = labels.length;
+  const totals = labels.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] || 0), 0));
+  const max = niceMax(Math.max(0, ...totals));
+  const below = new Array<number>(n).fill(0);
+
+  const areas = series.map(s => {
+    const lower = [...below];
+    const upper = lower.map((base, i) => base + (s.values[i] || 0));
+    upper.forEach((value, i) => { below[i] = value; });
+    const top = upper.map((value, i) => `${xOf(i, n)},${yOf(value, max)}`);
+    const bottom = lower.map((value, i) => `${xOf(i, n)},${yOf(value, max)}`).reverse();
+    return { key: s.key, label: s.label, color: s.color, points: [...top, ...bottom].join(' ') };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <Axes labels={labels} max={max} format={format} />
+      {areas.map(area => (
+        <polygon key={area.key} points={area.points} fill={area.color} fillOpacity={0.7} stroke={area.color} strokeWidth={0.5}>
+          <title>{area.label}</title>
+        </polygon>
+      ))}
+    </svg>
+  );
+}
+
+/** One line per series */
+export function LineChart({ title, labels, series, format = defaultFormat }: TimeChartProps) {
+  const n = labels.length;
+  const max = niceMax(Math.max(0, ...series.flatMap(s => s.values)));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <Axes labels={labels} max={max} format={format} />
+      {series.map(s => (
+        <polyline
+          key={s.key}
+          points={s.values.map((value, i) => `${xOf(i, n)},${yOf(value, max)}`).join(' ')}
+          fill="none"
+          stroke={s.color}
+          strokeWidth={1.8}
+          strokeLinejoin="round"
+        >
+          <title>{s.label}</title>
+        </polyline>
+      ))}
+    </svg>
+  );
+}
+
+export interface BarItem {
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+}
+
+const BAR_ROW = 20;
+const BAR_LABEL_W = 110;
+
+/** Horizontal bars, in the order given */
+export function BarChart({ title, items, format = defaultFormat }: {
+  title: string;
+  items: BarItem[];
+  format?: (value: number) => string;
+}) {
+  const max = Math.max(1, ...items.map(item => item.value));
+  const height = Math.max(BAR_ROW, items.length * BAR_ROW);
+  const barSpace = WIDTH - BAR_LABEL_W - 60;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={title}>
+      {items.map((item, i) => (
+        <g key={item.key} transform={`translate(0, ${i * BAR_ROW})`} fontSize={10}>
+          <text x={BAR_LABEL_W - 8} y={13} textAnchor="end" fill="rgba(255,255,255,0.6)">{item.label}</text>
+          <rect x={BAR_LABEL_W} y={3} width={Math.max(1, (item.value / max) * barSpace)} height={BAR_ROW - 6} rx={2} fill={item.color} fillOpacity={0.8} />
+          <text x={BAR_LABEL_W + (item.value / max) * barSpace + 6} y={13} fill={AXIS}>{format(item.value)}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/** Vertical bars, one per bin */
+export function Histogram({ title, bins, color }: {
+  title: string;
+  bins: { label: string; count: number }[];
+  color: string;
+}) {
+  const max = niceMax(Math.max(0, ...bins.map(bin => bin.count)));
+  const slot = PLOT_W / Math.max(1, bins.length);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <Axes labels={[]} max={max} format={defaultFormat} />
+      {bins.map((bin, i) => {
+        const x = PAD.left + i * slot;
+        const y = yOf(bin.count, max);
+        return (
+          <g key={bin.label} fontSize={9}>
+            <rect x={x + slot * 0.15} y={y} width={slot * 0.7} height={PAD.top + PLOT_H - y} rx={2} fill={color} fillOpacity={0.8}>
+              <title>{`${bin.label}: ${bin.count}`}</title>
+            </rect>
+            <text x={x + slot / 2} y={HEIGHT - 6} textAnchor="middle" fill={AXIS}>{bin.label}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Colored keys for a chart's series */
+export function Legend({ series }: { series: Pick<ChartSeries, 'key' | 'label' | 'color'>[] }) {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+      {series.map(s => (
+        <span key={s.key} className="flex items-center gap-1 text-[9px] text-white/50">
+          <span className="w-2 h-2 rounded-sm" style={{ background: s.color }} />
+          {s.label}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { motion, AnimatePresence } from 'framer-motion'
+import type { FileConflict } from '../types'
+
+interface ConflictLayerProps {
+  conflicts: FileConflict[];
+  /** Pixel position of an agent's avatar, or null while it isn't in the village */
+  positionOf: (agentId: string) => { x: number; y: number } | null;
+}
+
+/**
+ * Crossed swords between two agents editing the same file, usually
+ * side by side at the Forge. Hover one to see the file.
+ */
+export function ConflictLayer({ conflicts, positionOf }: ConflictLayerProps) {
+  return (
+    <AnimatePresence>
+      {conflicts.map(conflict => {
+        const a = positionOf(conflict.agentId);
+        const b = positionOf(conflict.otherId);
+        if (!a || !b) return null;
+
+        return (
+          <motion.div
+            key={conflict.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2"
+            style={{ left: (a.x + b.x) / 2, top: (a.y + b.y) / 2 - 24, zIndex: 17 }}
+            initial={{ opacity: 0, scale: 0.4 }}
+            animate={{ opacity: 1, scale: [1, 1.2, 1] }}
+            exit={{ opacity: 0, scale: 0.4 }}
+            transition={{ scale: { duration: 1.2, repeat: Infinity }, opacity: { duration: 0.3 } }}
+            title={`Both editing ${conflict.file}`}
+            aria-label={`Edit conflict on ${conflict.file}`}
+          >
+            <span
+              className="text-base leading-none"
+              style={{ filter: 'drop-shadow(0 0 4px #f43f5e)' }}
+            >
+              ⚔️
+            </span>
+          </motion.div>
+        );
+      })}
+    </AnimatePresence>
+  );
+}
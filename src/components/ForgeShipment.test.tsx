@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ForgeShipment } from './ForgeShipment';
+import type { Shipment } from '../types';
+
+const shipment: Shipment = {
+  id: 'shipment-1',
+  agentId: 'smith',
+  agentName: 'Thorin',
+  commit: {
+    sha: '5c2f4951d0c4e1b7a9f3',
+    branch: 'main',
+    message: 'Fix coupon rounding',
+    files: 2,
+    insertions: 14,
+    deletions: 3,
+    committedAt: 0,
+  },
+  color: '#60a5fa',
+  createdAt: 0,
+};
+
+describe('ForgeShipment', () => {
+  it('should label each crate with the short sha and message', () => {
+    render(<ForgeShipment shipments={[shipment]} position={{ x: 300, y: 200 }} />);
+    const crate = screen.getByRole('status');
+    expect(crate).toHaveTextContent('📦');
+    expect(crate).toHaveTextContent('5c2f495 Fix coupon rounding');
+    expect(crate).not.toHaveTextContent('5c2f4951');
+  });
+
+  it('should shorten long messages and show at most three crates', () => {
+    const long = { ...shipment.commit, message: 'Refactor the checkout flow to share validation with the cart' };
+    const shipments = [1, 2, 3, 4].map(i => ({ ...shipment, id: `shipment-${i}`, commit: long }));
+    render(<ForgeShipment shipments={shipments} position={{ x: 0, y: 0 }} />);
+    const crates = screen.getAllByRole('status');
+    expect(crates).toHaveLength(3);
+    expect(crates[0]).toHaveTextContent('Refactor the checkout flow to share val…');
+  });
+
+  it('should render nothing without a forge', () => {
+    const { container } = render(<ForgeShipment shipments={[shipment]} position={null} />);
+    expect(container.textContent).toBe('');
+  });
+});
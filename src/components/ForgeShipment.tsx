@@ -0,0 +1,62 @@
+import { motion, AnimatePresence } from 'framer-motion'
+import type { Shipment } from '../types'
+
+interface ForgeShipmentProps {
+  shipments: Shipment[];
+  /** Pixel position of the building where agents code, or null if there's none */
+  position: { x: number; y: number } | null;
+}
+
+const MAX_SHIPMENTS = 3;
+const MAX_MESSAGE = 40;
+
+function shortMessage(message: string | null): string {
+  if (!message) return '';
+  return message.length > MAX_MESSAGE ? `${message.slice(0, MAX_MESSAGE - 1)}…` : message;
+}
+
+/**
+ * A crate rolling out of the Forge for each commit, labeled with its
+ * short sha and message. Several commits in a row leave side by side.
+ */
+export function ForgeShipment({ shipments, position }: ForgeShipmentProps) {
+  if (!position) return null;
+  const shown = shipments.slice(-MAX_SHIPMENTS);
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{ left: position.x, top: position.y, zIndex: 18 }}
+    >
+      <AnimatePresence>
+        {shown.map((shipment, i) => (
+          <motion.div
+            key={shipment.id}
+            role="status"
+            className="absolute flex flex-col items-center whitespace-nowrap"
+            style={{ top: -20 + i * 26 }}
+            initial={{ opacity: 0, x: 0, scale: 0.4 }}
+            animate={{ opacity: [0, 1, 1, 0], x: 110, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 4.5, times: [0, 0.15, 0.8, 1], ease: 'easeOut' }}
+          >
+            <motion.span
+              className="text-[16px] leading-none"
+              animate={{ rotate: [0, -8, 8, -8, 0] }}
+              transition={{ duration: 0.6, repeat: 6 }}
+            >
+              📦
+            </motion.span>
+            <span
+              className="mt-0.5 rounded px-1 text-[8px]"
+              style={{ background: 'rgba(15,23,42,0.85)', border: `1px solid ${shipment.color}66`, color: '#e2e8f0' }}
+            >
+              <span className="font-mono" style={{ color: shipment.color }}>{shipment.commit.sha.slice(0, 7)}</span>
+              {' '}{shortMessage(shipment.commit.message)}
+            </span>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
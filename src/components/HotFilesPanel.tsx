@@ -0,0 +1,169 @@
+import { useState, useEffect, useMemo } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { getClanColor } from '../types'
+import { bridgeHeaders } from '../bridgeAuth'
+import { fetchFiles, hotFilesByProject, shortPath, type FileEntry } from '../files'
+import { formatDuration } from '../sessions'
+
+interface HotFilesPanelProps {
+  open: boolean;
+  onClose: () => void;
+  bridgeUrl: string;
+}
+
+const FILES_PER_PROJECT = 8
+const MAX_FILES = 500
+
+/**
+ * The most edited files of each project, with who edited them last
+ * and who read them lately: where the agents keep going back to.
+ */
+export function HotFilesPanel({ open, onClose, bridgeUrl }: HotFilesPanelProps) {
+  const [files, setFiles] = useState<FileEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    if (!bridgeUrl) {
+      setFiles([])
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(false)
+    fetchFiles(bridgeUrl, bridgeHeaders(), { limit: MAX_FILES })
+      .then(list => { if (!cancelled) setFiles(list) })
+      .catch(() => { if (!cancelled) setError(true) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [open, bridgeUrl])
+
+  const projects = useMemo(() => hotFilesByProject(files, FILES_PER_PROJECT), [files])
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+        >
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          {/* Panel */}
+          <motion.div
+            className="relative w-[580px] max-h-[85vh] overflow-y-auto rounded-xl"
+            style={{
+              background: 'rgba(10,10,30,0.95)',
+              border: '1px solid rgba(255,255,255,0.1)',
+              boxShadow: '0 25px 50px rgba(0,0,0,0.5)',
+            }}
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            transition={{ type: 'tween', duration: 0.2 }}
+          >
+            {/* Header */}
+            <div className="sticky top-0 z-10 px-5 py-4"
+              style={{ background: 'rgba(10,10,30,0.98)', borderBottom: '1px solid rgba(255,255,255,0.08)' }}
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-[14px] font-bold text-white/80">Hot Files</h2>
+                  <span className="text-[10px] text-white/30">
+                    Most edited files per project
+                  </span>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-white/30 hover:text-white/60 text-sm cursor-pointer px-2 py-1"
+                >
+                  x
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="p-4 flex flex-col gap-4">
+              {loading && (
+                <div className="text-center text-white/30 text-[11px] py-8">Loading files...</div>
+              )}
+
+              {!loading && error && (
+                <div className="text-center text-white/30 text-[11px] py-8">Could not reach the bridge.</div>
+              )}
+
+              {!loading && !error && projects.length === 0 && (
+                <div className="text-center text-white/30 text-[11px] py-8">
+                  {bridgeUrl ? 'No files edited yet.' : 'File history is only kept in live mode.'}
+                </div>
+              )}
+
+              {!loading && projects.map(group => (
+                <ProjectFilesView key={group.project} project={group.project} files={group.files} />
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
+function ProjectFilesView({ project, files }: { project: string; files: FileEntry[] }) {
+  const color = getClanColor(project || 'Clanless')
+  const maxEdits = Math.max(...files.map(f => f.edits), 1)
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <span className="inline-block w-2 h-2 rounded-full" style={{ background: color }} />
+        <span className="text-[11px] font-bold" style={{ color }}>{project || 'No project'}</span>
+      </div>
+      <div className="flex flex-col gap-1.5">
+        {files.map(file => (
+          <div
+            key={file.path}
+            className="rounded-md px-3 py-2"
+            style={{ background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.05)' }}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[10px] text-white/70 font-mono truncate" title={file.path}>
+                {shortPath(file.path, project)}
+              </span>
+              <span className="text-[9px] text-white/40 font-mono whitespace-nowrap">
+                {file.edits} edit{file.edits !== 1 ? 's' : ''} · {file.reads} read{file.reads !== 1 ? 's' : ''}
+              </span>
+            </div>
+            <div className="h-1 mt-1.5 rounded-full bg-white/5 overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${(file.edits / maxEdits) * 100}%`, background: `${color}aa` }}
+              />
+            </div>
+            <div className="flex justify-between gap-3 mt-1.5 text-[9px] text-white/30">
+              <span>
+                {file.lastEditor && (
+                  <>Last edited by <span className="text-white/50">{file.lastEditorName || file.lastEditor}</span>
+                  {file.lastEdited && ` ${formatDuration(Date.now() - file.lastEdited)} ago`}</>
+                )}
+              </span>
+              {file.readers.length > 0 && (
+                <span className="truncate">
+                  Read by {file.readers.map(r => r.name || r.agentId).join(', ')}
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
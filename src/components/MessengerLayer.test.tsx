@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MessengerLayer } from './MessengerLayer';
+import type { Messenger } from '../types';
+
+const prompt: Messenger = {
+  id: 'msg-1',
+  fromId: 'orch',
+  toId: 'scout',
+  kind: 'prompt',
+  text: 'Find every caller of renameAgent',
+  color: '#60a5fa',
+  createdAt: 0,
+};
+
+const positions: Record<string, { x: number; y: number }> = {
+  orch: { x: 100, y: 100 },
+  scout: { x: 300, y: 200 },
+};
+
+describe('MessengerLayer', () => {
+  it('should wait until both agents are in the village', () => {
+    const { container } = render(
+      <MessengerLayer messengers={[prompt]} positionOf={(id) => (id === 'orch' ? positions.orch : null)} />
+    );
+    expect(container.textContent).toBe('');
+  });
+
+  it('should show a scroll for prompts and a raven for results', () => {
+    render(
+      <MessengerLayer
+        messengers={[prompt, { ...prompt, id: 'msg-2', fromId: 'scout', toId: 'orch', kind: 'result' }]}
+        positionOf={(id) => positions[id] ?? null}
+      />
+    );
+    expect(screen.getByRole('button', { name: 'Orders message' })).toHaveTextContent('📜');
+    expect(screen.getByRole('button', { name: 'Report message' })).toHaveTextContent('🐦‍⬛');
+  });
+
+  it('should toggle the excerpt on click', () => {
+    render(<MessengerLayer messengers={[prompt]} positionOf={(id) => positions[id] ?? null} />);
+    const scroll = screen.getByRole('button', { name: 'Orders message' });
+
+    fireEvent.click(scroll);
+    expect(screen.getByText('Find every caller of renameAgent')).toBeInTheDocument();
+
+    fireEvent.click(scroll);
+    expect(screen.queryByText('Find every caller of renameAgent')).not.toBeInTheDocument();
+  });
+});
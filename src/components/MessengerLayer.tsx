@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { Messenger } from '../types'
+
+interface MessengerLayerProps {
+  messengers: Messenger[];
+  /** Pixel position of an agent's avatar, or null while it isn't in the village */
+  positionOf: (agentId: string) => { x: number; y: number } | null;
+}
+
+const FLIGHT_SECONDS = 2.5;
+
+const MESSENGER_STYLE = {
+  prompt: { icon: '📜', label: 'Orders' },
+  result: { icon: '🐦‍⬛', label: 'Report' },
+} as const;
+
+/**
+ * Scrolls (Task prompts) and ravens (results) flying between a parent
+ * and its sub-agent. They wait until both avatars are in the village,
+ * fly over, and perch next to the receiver; click one to read it.
+ */
+export function MessengerLayer({ messengers, positionOf }: MessengerLayerProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <AnimatePresence>
+      {messengers.map(messenger => {
+        const from = positionOf(messenger.fromId);
+        const to = positionOf(messenger.toId);
+        if (!from || !to) return null;
+
+        const { icon, label } = MESSENGER_STYLE[messenger.kind];
+        const perch = { x: to.x + 30, y: to.y - 6 };
+        // Arc upwards on the way over
+        const peak = Math.min(from.y, perch.y) - 40;
+        const open = openId === messenger.id;
+
+        return (
+          <motion.div
+            key={messenger.id}
+            className="absolute"
+            style={{ zIndex: open ? 25 : 16 }}
+            initial={{ left: from.x, top: from.y, opacity: 0, scale: 0.5 }}
+            animate={{
+              left: [from.x, (from.x + perch.x) / 2, perch.x],
+              top: [from.y, peak, perch.y],
+              opacity: 1,
+              scale: 1,
+            }}
+            exit={{ opacity: 0, scale: 0.5 }}
+            transition={{
+              left: { duration: FLIGHT_SECONDS, ease: 'easeInOut' },
+              top: { duration: FLIGHT_SECONDS, ease: 'easeInOut' },
+              opacity: { duration: 0.3 },
+              scale: { duration: 0.3 },
+            }}
+          >
+            <button
+              type="button"
+              aria-label={`${label} message`}
+              onClick={() => setOpenId(open ? null : messenger.id)}
+              className="text-base leading-none cursor-pointer"
+              style={{ filter: `drop-shadow(0 0 4px ${messenger.color})` }}
+            >
+              {icon}
+            </button>
+
+            {open && (
+              <div
+                className="absolute left-6 top-0 w-56 rounded-md bg-black/85 border px-2.5 py-2 text-[10px] text-white/80 shadow-lg"
+                style={{ borderColor: messenger.color + '66' }}
+              >
+                <div className="text-[9px] uppercase tracking-wider mb-1" style={{ color: messenger.color }}>
+                  {label}
+                </div>
+                <div className="whitespace-pre-wrap break-words">{messenger.text || '(no text)'}</div>
+              </div>
+            )}
+          </motion.div>
+        );
+      })}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { REPLAY_SPEEDS, type History, type ReplaySpeed, type ReplayState } from '../replayer'
+
+interface ReplayControlsProps {
+  history: History | null
+  state: ReplayState | null
+  error: string | null
+  onLoad: (from: number, to: number) => void
+  onPlay: () => void
+  onPause: () => void
+  onSeek: (time: number) => void
+  onSpeed: (speed: ReplaySpeed) => void
+}
+
+/** Format a timestamp for a datetime-local input (local time, minute precision) */
+function toInputValue(ts: number): string {
+  const d = new Date(ts - new Date(ts).getTimezoneOffset() * 60_000)
+  return d.toISOString().slice(0, 16)
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString('en-US', { hour12: false })
+}
+
+export function ReplayControls({ history, state, error, onLoad, onPlay, onPause, onSeek, onSpeed }: ReplayControlsProps) {
+  const [from, setFrom] = useState(() => toInputValue(Date.now() - 3600_000))
+  const [to, setTo] = useState(() => toInputValue(Date.now()))
+
+  const load = () => {
+    const fromTs = new Date(from).getTime()
+    const toTs = new Date(to).getTime()
+    if (Number.isNaN(fromTs) || Number.isNaN(toTs)) return
+    onLoad(fromTs, toTs)
+  }
+
+  return (
+    <div
+      className="absolute left-1/2 -translate-x-1/2 z-40 flex flex-col gap-2 px-4 py-3 rounded-xl"
+      style={{
+        bottom: 100,
+        width: 460,
+        background: 'rgba(0,0,0,0.6)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(255,255,255,0.08)',
+      }}
+    >
+      {/* Range picker */}
+      <div className="flex items-center gap-2 text-[10px] text-white/40">
+        <input
+          type="datetime-local"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+          className="bg-transparent border border-white/10 rounded px-1.5 py-0.5 text-white/60"
+        />
+        <span>→</span>
+        <input
+          type="datetime-local"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+          className="bg-transparent border border-white/10 rounded px-1.5 py-0.5 text-white/60"
+        />
+        <button
+          onClick={load}
+          className="ml-auto px-3 py-0.5 rounded-full border border-white/10 text-white/50 hover:text-white/70 hover:border-white/20 transition-colors cursor-pointer"
+        >
+          Load
+        </button>
+      </div>
+
+      {error && <div className="text-[10px] text-red-400/70">Could not load history: {error}</div>}
+
+      {history && state && (
+        <>
+          {/* Scrubber */}
+          <input
+            type="range"
+            min={history.from}
+            max={history.to}
+            step={1000}
+            value={state.time}
+            onChange={e => onSeek(Number(e.target.value))}
+            className="w-full accent-sky-400"
+            aria-label="Replay position"
+          />
+
+          {/* Transport */}
+          <div className="flex items-center gap-3 text-[10px]">
+            <button
+              onClick={state.playing ? onPause : onPlay}
+              className="w-6 text-white/60 hover:text-white/80 transition-colors cursor-pointer"
+              title={state.playing ? 'Pause' : 'Play'}
+            >
+              {state.playing ? '⏸' : '▶'}
+            </button>
+            <span className="font-mono text-white/50">{formatTime(state.time)}</span>
+            <span className="text-white/25">
+              {history.events.length} events{history.truncated ? ' (truncated)' : ''}
+            </span>
+            <div className="ml-auto flex rounded-full overflow-hidden border border-white/10">
+              {REPLAY_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => onSpeed(speed)}
+                  className={`px-2 py-0.5 font-medium transition-colors cursor-pointer ${
+                    state.speed === speed
+                      ? 'bg-sky-500/20 text-sky-400'
+                      : 'text-white/30 hover:text-white/50'
+                  }`}
+                >
+                  {speed}x
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,31 +1,28 @@
 import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { getClanColor } from '../types'
-
-interface ResidentProfile {
-  agentId: string;
-  name: string;
-  clan: string | null;
-  toolCalls: number;
-  totalInputBytes: number;
-  totalOutputBytes: number;
-  sessions: number;
-  subAgentsSpawned: number;
-  parentId: string | null;
-  firstSeen: number;
-  lastSeen: number;
-  xp: number;
-  level: number;
-  title: string;
-  nextLevelXP: number | null;
-}
+import { bridgeHeaders } from '../bridgeAuth'
+import { cacheHitRate, formatCost, formatPercent, formatTokens, tokenUsage } from '../tokens'
+import {
+  fetchLeaderboard, LEADERBOARD_PERIODS, LEADERBOARD_METRICS,
+  type Leaderboard, type LeaderboardEntry, type LeaderboardMetric, type LeaderboardPeriod, type ResidentProfile,
+} from '../leaderboard'
+import type { Achievement } from '../achievements'
+import { AchievementGallery } from './AchievementGallery'
 
 interface ResidentDirectoryProps {
   open: boolean;
   onClose: () => void;
   bridgeUrl: string;
+  /** Achievement definitions, for each resident's unlocks */
+  achievements?: Achievement[];
 }
 
+const PAGE_SIZE = 20
+// Enough residents for the clan overview
+const OVERVIEW_LIMIT = 200
+const CLANLESS = 'Clanless'
+
 const LEVEL_COLORS: Record<number, string> = {
   1: '#9ca3af', 2: '#60a5fa', 3: '#34d399', 4: '#f97316',
   5: '#eab308', 6: '#a855f7', 7: '#ec4899', 8: '#f43f5e',
@@ -38,13 +35,6 @@ function formatBytes(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
 
-function estimateTokens(bytes: number): string {
-  const tokens = Math.round(bytes / 4)
-  if (tokens < 1000) return `~${tokens}`
-  if (tokens < 1_000_000) return `~${(tokens / 1000).toFixed(1)}k`
-  return `~${(tokens / 1_000_000).toFixed(1)}M`
-}
-
 function timeAgo(ts: number): string {
   const diff = Date.now() - ts
   const mins = Math.floor(diff / 60000)
@@ -63,14 +53,23 @@ interface ClanStats {
   totalXP: number;
   totalToolCalls: number;
   totalBytes: number;
+  totalCost: number;
   avgLevel: number;
   maxLevel: number;
 }
 
+/** A clan's spend from /api/costs: today against its daily budget, and recent days */
+interface ClanTreasury {
+  clan: string;
+  today: number;
+  budget: number | null;
+  days: { day: string; cost: number }[];
+}
+
 function computeClanStats(residents: ResidentProfile[]): ClanStats[] {
   const clanMap = new Map<string, ResidentProfile[]>()
   for (const r of residents) {
-    const clan = r.clan || 'Clanless'
+    const clan = r.clan || CLANLESS
     const list = clanMap.get(clan) || []
     list.push(r)
     clanMap.set(clan, list)
@@ -81,14 +80,16 @@ function computeClanStats(residents: ResidentProfile[]): ClanStats[] {
       const totalXP = members.reduce((s, m) => s + m.xp, 0)
       const totalToolCalls = members.reduce((s, m) => s + m.toolCalls, 0)
       const totalBytes = members.reduce((s, m) => s + m.totalInputBytes + m.totalOutputBytes, 0)
+      const totalCost = members.reduce((s, m) => s + (m.totalCost || 0), 0)
       const levels = members.map(m => m.level)
       return {
         name,
-        color: name === 'Clanless' ? '#555' : getClanColor(name),
+        color: name === CLANLESS ? '#555' : getClanColor(name),
         members: members.length,
         totalXP,
         totalToolCalls,
         totalBytes,
+        totalCost,
         avgLevel: Math.round(levels.reduce((a, b) => a + b, 0) / levels.length * 10) / 10,
         maxLevel: Math.max(...levels),
       }
@@ -96,49 +97,81 @@ function computeClanStats(residents: ResidentProfile[]): ClanStats[] {
     .sort((a, b) => b.totalXP - a.totalXP)
 }
 
-export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirectoryProps) {
+export function ResidentDirectory({ open, onClose, bridgeUrl, achievements = [] }: ResidentDirectoryProps) {
   const [residents, setResidents] = useState<ResidentProfile[]>([])
+  const [residentCount, setResidentCount] = useState(0)
+  const [board, setBoard] = useState<Leaderboard | null>(null)
+  const [treasuries, setTreasuries] = useState<Map<string, ClanTreasury>>(new Map())
   const [loading, setLoading] = useState(false)
   const [selectedClan, setSelectedClan] = useState<string | null>(null) // null = all
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all')
+  const [metric, setMetric] = useState<LeaderboardMetric>('xp')
+  const [page, setPage] = useState(0)
 
+  // All-time residents, for the clan overview
   useEffect(() => {
     if (!open) return
-    setLoading(true)
-    fetch(`${bridgeUrl}/api/leaderboard`)
+    fetchLeaderboard(bridgeUrl, bridgeHeaders(), { limit: OVERVIEW_LIMIT })
+      .then(data => {
+        setResidents(data.leaderboard)
+        setResidentCount(data.total)
+      })
+      .catch(() => setResidents([]))
+    // Spend per day is optional: an older bridge just has no treasury
+    fetch(`${bridgeUrl}/api/costs`, { headers: bridgeHeaders() })
       .then(r => r.json())
       .then(data => {
-        setResidents(data.leaderboard || [])
-        setLoading(false)
+        const clans: ClanTreasury[] = data.clans || []
+        setTreasuries(new Map(clans.map(c => [c.clan, c])))
       })
-      .catch(() => setLoading(false))
+      .catch(() => setTreasuries(new Map()))
   }, [open, bridgeUrl])
 
+  // The ranked page for the chosen period, metric and clan
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoading(true)
+    fetchLeaderboard(bridgeUrl, bridgeHeaders(), {
+      period,
+      metric,
+      clan: selectedClan === null ? undefined : selectedClan === CLANLESS ? '' : selectedClan,
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+      tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    })
+      .then(data => { if (!cancelled) setBoard(data) })
+      .catch(() => { if (!cancelled) setBoard(null) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [open, bridgeUrl, period, metric, selectedClan, page])
+
   // Reset filter when closing
   useEffect(() => {
-    if (!open) setSelectedClan(null)
+    if (!open) {
+      setSelectedClan(null)
+      setPage(0)
+    }
   }, [open])
 
   const clanStats = useMemo(() => computeClanStats(residents), [residents])
 
-  // Filter residents by selected clan
-  const filteredResidents = useMemo(() => {
-    if (!selectedClan) return residents
-    return residents.filter(r => (r.clan || 'Clanless') === selectedClan)
-  }, [residents, selectedClan])
-
-  // Build parent→children map from filtered residents
-  const childrenMap = new Map<string, ResidentProfile[]>()
-  const rootResidents: ResidentProfile[] = []
-  const filteredIds = new Set(filteredResidents.map(r => r.agentId))
-  for (const r of filteredResidents) {
-    if (r.parentId && filteredIds.has(r.parentId)) {
-      const existing = childrenMap.get(r.parentId) || []
-      existing.push(r)
-      childrenMap.set(r.parentId, existing)
-    } else {
-      rootResidents.push(r)
-    }
+  const selectClan = (clan: string | null) => {
+    setSelectedClan(clan)
+    setPage(0)
   }
+  const selectPeriod = (next: LeaderboardPeriod) => {
+    setPeriod(next)
+    setPage(0)
+  }
+  const selectMetric = (next: LeaderboardMetric) => {
+    setMetric(next)
+    setPage(0)
+  }
+
+  const entries = board?.leaderboard || []
+  const total = board?.total || 0
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE))
 
   return (
     <AnimatePresence>
@@ -177,7 +210,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                 <div>
                   <h2 className="text-[14px] font-bold text-white/80">Resident Directory</h2>
                   <span className="text-[10px] text-white/30">
-                    {residents.length} resident{residents.length !== 1 ? 's' : ''} in {clanStats.length} clan{clanStats.length !== 1 ? 's' : ''}
+                    {residentCount} resident{residentCount !== 1 ? 's' : ''} in {clanStats.length} clan{clanStats.length !== 1 ? 's' : ''}
                   </span>
                 </div>
                 <button
@@ -189,7 +222,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
               </div>
 
               {/* Clan filter pills */}
-              {!loading && clanStats.length > 0 && (
+              {clanStats.length > 0 && (
                 <div className="flex gap-1.5 mt-3 flex-wrap">
                   <button
                     className="text-[9px] px-2.5 py-1 rounded-full cursor-pointer transition-all duration-150"
@@ -198,7 +231,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                       color: selectedClan === null ? 'rgba(255,255,255,0.8)' : 'rgba(255,255,255,0.35)',
                       border: `1px solid ${selectedClan === null ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.06)'}`,
                     }}
-                    onClick={() => setSelectedClan(null)}
+                    onClick={() => selectClan(null)}
                   >
                     All Clans
                   </button>
@@ -211,7 +244,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                         color: selectedClan === clan.name ? clan.color : 'rgba(255,255,255,0.35)',
                         border: `1px solid ${selectedClan === clan.name ? `${clan.color}44` : 'rgba(255,255,255,0.06)'}`,
                       }}
-                      onClick={() => setSelectedClan(selectedClan === clan.name ? null : clan.name)}
+                      onClick={() => selectClan(selectedClan === clan.name ? null : clan.name)}
                     >
                       <span
                         className="inline-block w-1.5 h-1.5 rounded-full"
@@ -223,6 +256,40 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                   ))}
                 </div>
               )}
+
+              {/* Period and metric tabs */}
+              <div className="flex items-center justify-between gap-2 mt-3 flex-wrap">
+                <div className="flex rounded-full overflow-hidden border border-white/10" role="tablist" aria-label="Period">
+                  {(Object.keys(LEADERBOARD_PERIODS) as LeaderboardPeriod[]).map(p => (
+                    <button
+                      key={p}
+                      role="tab"
+                      aria-selected={period === p}
+                      onClick={() => selectPeriod(p)}
+                      className={`px-2.5 py-1 text-[9px] font-medium transition-colors cursor-pointer ${
+                        period === p ? 'bg-amber-500/20 text-amber-300' : 'text-white/30 hover:text-white/50'
+                      }`}
+                    >
+                      {LEADERBOARD_PERIODS[p]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-1 flex-wrap" role="tablist" aria-label="Ranked by">
+                  {(Object.keys(LEADERBOARD_METRICS) as LeaderboardMetric[]).map(m => (
+                    <button
+                      key={m}
+                      role="tab"
+                      aria-selected={metric === m}
+                      onClick={() => selectMetric(m)}
+                      className={`px-2 py-0.5 text-[9px] rounded transition-colors cursor-pointer ${
+                        metric === m ? 'bg-sky-500/20 text-sky-300' : 'text-white/30 hover:text-white/50'
+                      }`}
+                    >
+                      {LEADERBOARD_METRICS[m]}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
 
             {/* Content */}
@@ -238,14 +305,14 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
               )}
 
               {/* Clan summary card when a specific clan is selected */}
-              {!loading && selectedClan && (() => {
+              {selectedClan && (() => {
                 const clan = clanStats.find(c => c.name === selectedClan)
                 if (!clan) return null
-                return <ClanBanner clan={clan} />
+                return <ClanBanner clan={clan} treasury={treasuries.get(clan.name)} />
               })()}
 
               {/* Grouped by clan view (when "All" is selected) */}
-              {!loading && !selectedClan && clanStats.length > 1 && (
+              {!selectedClan && clanStats.length > 1 && (
                 <div className="mb-4 grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.min(clanStats.length, 3)}, 1fr)` }}>
                   {clanStats.map(clan => (
                     <button
@@ -255,7 +322,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                         background: `${clan.color}08`,
                         border: `1px solid ${clan.color}22`,
                       }}
-                      onClick={() => setSelectedClan(clan.name)}
+                      onClick={() => selectClan(clan.name)}
                     >
                       <div className="flex items-center gap-2 mb-2">
                         <div
@@ -284,39 +351,57 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
                           <span className="text-[8px] text-white/25">Top Level</span>
                           <span className="text-[9px] text-white/50 font-mono">Lv.{clan.maxLevel}</span>
                         </div>
+                        {clan.totalCost > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-[8px] text-white/25">Treasury</span>
+                            <span className="text-[9px] text-white/50 font-mono">{formatCost(clan.totalCost)}</span>
+                          </div>
+                        )}
                       </div>
                     </button>
                   ))}
                 </div>
               )}
 
-              {/* Resident list */}
-              {!loading && rootResidents.map(resident => (
+              {/* Ranked residents */}
+              {!loading && entries.map(entry => (
                 <ResidentCard
-                  key={resident.agentId}
-                  resident={resident}
-                  children={childrenMap.get(resident.agentId) || []}
-                  allResidents={filteredResidents}
-                  childrenMap={childrenMap}
+                  key={entry.agentId}
+                  resident={entry}
+                  metric={metric}
                   showClan={!selectedClan}
+                  achievements={achievements}
                 />
               ))}
 
-              {/* Orphan sub-agents (parent not in filtered set) */}
-              {!loading && filteredResidents
-                .filter(r => r.parentId && !filteredIds.has(r.parentId) && !rootResidents.includes(r))
-                .map(resident => (
-                  <ResidentCard
-                    key={resident.agentId}
-                    resident={resident}
-                    children={childrenMap.get(resident.agentId) || []}
-                    allResidents={filteredResidents}
-                    childrenMap={childrenMap}
-                    orphan
-                    showClan={!selectedClan}
-                  />
-                ))
-              }
+              {!loading && board && entries.length === 0 && residents.length > 0 && (
+                <div className="text-center text-white/30 text-[11px] py-8">
+                  Nobody scored {period === 'all' ? 'yet' : LEADERBOARD_PERIODS[period].toLowerCase()}.
+                </div>
+              )}
+
+              {/* Pages */}
+              {!loading && total > PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-3 text-[9px] text-white/40">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 0}
+                    className="px-2 py-1 rounded cursor-pointer hover:text-white/70 disabled:opacity-30 disabled:cursor-default"
+                  >
+                    ‹ Previous
+                  </button>
+                  <span>
+                    {page * PAGE_SIZE + 1}–{Math.min(total, (page + 1) * PAGE_SIZE)} of {total}
+                  </span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pages - 1}
+                    className="px-2 py-1 rounded cursor-pointer hover:text-white/70 disabled:opacity-30 disabled:cursor-default"
+                  >
+                    Next ›
+                  </button>
+                </div>
+              )}
             </div>
           </motion.div>
         </motion.div>
@@ -325,7 +410,7 @@ export function ResidentDirectory({ open, onClose, bridgeUrl }: ResidentDirector
   )
 }
 
-function ClanBanner({ clan }: { clan: ClanStats }) {
+function ClanBanner({ clan, treasury }: { clan: ClanStats; treasury?: ClanTreasury }) {
   return (
     <motion.div
       className="rounded-lg p-4 mb-4"
@@ -366,10 +451,66 @@ function ClanBanner({ clan }: { clan: ClanStats }) {
         <ClanStatBox label="Avg Level" value={String(clan.avgLevel)} color={clan.color} />
         <ClanStatBox label="Data" value={formatBytes(clan.totalBytes)} color={clan.color} />
       </div>
+
+      {(clan.totalCost > 0 || treasury) && (
+        <ClanTreasuryView totalCost={clan.totalCost} treasury={treasury} color={clan.color} />
+      )}
     </motion.div>
   )
 }
 
+// What the clan's tokens cost: all time, today against its daily
+// budget, and a bar per recent day
+function ClanTreasuryView({ totalCost, treasury, color }: { totalCost: number; treasury?: ClanTreasury; color: string }) {
+  const today = treasury?.today || 0
+  const budget = treasury?.budget ?? null
+  const used = budget ? today / budget : 0
+  const barColor = used >= 1 ? '#ef4444' : used >= 0.8 ? '#f59e0b' : color
+  const days = treasury?.days || []
+  const maxDay = Math.max(...days.map(d => d.cost), 0)
+
+  return (
+    <div className="mt-3 pt-3" style={{ borderTop: `1px solid ${color}20` }}>
+      <div className="flex items-baseline justify-between mb-1.5">
+        <span className="text-[9px] font-bold text-white/40">💰 Treasury</span>
+        <span className="text-[8px] text-white/25">
+          {formatCost(totalCost)} spent in all
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-[8px] text-white/25 shrink-0">Today</span>
+        {budget ? (
+          <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+            <div
+              className="h-full rounded-full"
+              style={{ background: barColor, width: `${Math.min(100, used * 100)}%` }}
+            />
+          </div>
+        ) : (
+          <div className="flex-1" />
+        )}
+        <span className="text-[9px] font-mono shrink-0" style={{ color: budget ? barColor : 'rgba(255,255,255,0.5)' }}>
+          {formatCost(today)}{budget ? ` / ${formatCost(budget)}` : ''}
+        </span>
+      </div>
+
+      {days.length > 1 && maxDay > 0 && (
+        <div className="flex items-end gap-1 h-6 mt-2">
+          {days.map(d => (
+            <div
+              key={d.day}
+              className="flex-1 rounded-sm"
+              title={`${d.day}: ${formatCost(d.cost)}`}
+              style={{ height: `${Math.max(8, (d.cost / maxDay) * 100)}%`, background: `${color}66` }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 function ClanStatBox({ label, value, color }: { label: string; value: string; color: string }) {
   return (
     <div className="text-center">
@@ -379,143 +520,152 @@ function ClanStatBox({ label, value, color }: { label: string; value: string; co
   )
 }
 
+function formatScore(metric: LeaderboardMetric, score: number): string {
+  return metric === 'tokens' ? formatTokens(score, true) : score.toLocaleString()
+}
+
 function ResidentCard({
   resident,
-  children,
-  allResidents,
-  childrenMap,
-  orphan,
+  metric,
   showClan,
-  depth = 0,
+  achievements,
 }: {
-  resident: ResidentProfile;
-  children: ResidentProfile[];
-  allResidents: ResidentProfile[];
-  childrenMap: Map<string, ResidentProfile[]>;
-  orphan?: boolean;
+  resident: LeaderboardEntry;
+  metric: LeaderboardMetric;
   showClan?: boolean;
-  depth?: number;
+  achievements: Achievement[];
 }) {
   const color = LEVEL_COLORS[resident.level] || '#9ca3af'
   const totalBytes = resident.totalInputBytes + resident.totalOutputBytes
+  const tokens = tokenUsage(resident)
+  const hitRate = cacheHitRate(tokens)
   const isSubAgent = !!resident.parentId
   const clanColor = resident.clan ? getClanColor(resident.clan) : null
 
   return (
-    <div style={{ marginLeft: depth * 20 }}>
-      <div
-        className="rounded-lg p-3 mb-2"
-        style={{
-          background: `rgba(255,255,255,${depth > 0 ? 0.02 : 0.04})`,
-          border: `1px solid ${color}22`,
-        }}
-      >
-        {/* Top row: avatar + name + level + clan */}
-        <div className="flex items-center gap-2.5">
-          {/* Mini avatar */}
-          <div
-            className="rounded-full shrink-0"
-            style={{
-              width: isSubAgent ? 14 : 20,
-              height: isSubAgent ? 14 : 20,
-              background: `radial-gradient(circle at 35% 35%, ${color}, ${color}77)`,
-              border: `2px solid ${color}88`,
-              boxShadow: `0 0 8px ${color}33`,
-            }}
-          />
+    <div
+      className="rounded-lg p-3 mb-2"
+      style={{
+        background: 'rgba(255,255,255,0.04)',
+        border: `1px solid ${color}22`,
+      }}
+    >
+      {/* Top row: rank + avatar + name + level + clan + score */}
+      <div className="flex items-center gap-2.5">
+        <span className="w-6 text-right text-[11px] font-mono font-bold text-white/30 shrink-0">
+          #{resident.rank}
+        </span>
 
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center gap-2 flex-wrap">
-              <span className="font-bold text-[13px]" style={{ color }}>
-                {resident.name}
-              </span>
+        {/* Mini avatar */}
+        <div
+          className="rounded-full shrink-0"
+          style={{
+            width: isSubAgent ? 14 : 20,
+            height: isSubAgent ? 14 : 20,
+            background: `radial-gradient(circle at 35% 35%, ${color}, ${color}77)`,
+            border: `2px solid ${color}88`,
+            boxShadow: `0 0 8px ${color}33`,
+          }}
+        />
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-bold text-[13px]" style={{ color }}>
+              {resident.name}
+            </span>
+            <span
+              className="text-[9px] px-1.5 py-0.5 rounded-full font-medium"
+              style={{ background: `${color}22`, color, border: `1px solid ${color}33` }}
+            >
+              Lv.{resident.level} {resident.title}
+            </span>
+            {isSubAgent && (
+              <span className="text-[8px] text-white/25">⛏ Sub-Agent</span>
+            )}
+            {/* Clan badge */}
+            {showClan && resident.clan && clanColor && (
               <span
-                className="text-[9px] px-1.5 py-0.5 rounded-full font-medium"
-                style={{ background: `${color}22`, color, border: `1px solid ${color}33` }}
+                className="text-[8px] px-1.5 py-0.5 rounded flex items-center gap-1"
+                style={{
+                  background: `${clanColor}15`,
+                  color: `${clanColor}bb`,
+                  border: `1px solid ${clanColor}25`,
+                }}
               >
-                Lv.{resident.level} {resident.title}
-              </span>
-              {isSubAgent && (
-                <span className="text-[8px] text-white/25">
-                  {orphan ? '⛏ Sub-Agent' : '⛏'}
-                </span>
-              )}
-              {/* Clan badge */}
-              {showClan && resident.clan && clanColor && (
                 <span
-                  className="text-[8px] px-1.5 py-0.5 rounded flex items-center gap-1"
-                  style={{
-                    background: `${clanColor}15`,
-                    color: `${clanColor}bb`,
-                    border: `1px solid ${clanColor}25`,
-                  }}
-                >
-                  <span
-                    className="inline-block w-1 h-1 rounded-full"
-                    style={{ background: clanColor }}
-                  />
-                  {resident.clan}
-                </span>
-              )}
-            </div>
-
-            {/* XP bar */}
-            {resident.nextLevelXP && (
-              <div className="flex items-center gap-2 mt-1">
-                <div className="flex-1 h-1 rounded-full bg-white/5 overflow-hidden">
-                  <div
-                    className="h-full rounded-full"
-                    style={{
-                      background: color,
-                      width: `${Math.min(100, (resident.xp / resident.nextLevelXP) * 100)}%`,
-                    }}
-                  />
-                </div>
-                <span className="text-[8px] text-white/25 shrink-0">
-                  {resident.xp}/{resident.nextLevelXP} XP
-                </span>
-              </div>
-            )}
-            {!resident.nextLevelXP && (
-              <div className="text-[8px] text-white/25 mt-0.5">{resident.xp} XP (max)</div>
+                  className="inline-block w-1 h-1 rounded-full"
+                  style={{ background: clanColor }}
+                />
+                {resident.clan}
+              </span>
             )}
           </div>
-        </div>
 
-        {/* Stats row */}
-        <div className="flex gap-3 mt-2 flex-wrap">
-          <MiniStat label="Tool Calls" value={String(resident.toolCalls)} />
-          <MiniStat label="Sessions" value={String(resident.sessions)} />
-          {totalBytes > 0 && (
-            <MiniStat label="Tokens" value={estimateTokens(totalBytes)} />
-          )}
-          {totalBytes > 0 && (
-            <MiniStat label="Data" value={formatBytes(totalBytes)} />
+          {/* XP bar */}
+          {resident.nextLevelXP && (
+            <div className="flex items-center gap-2 mt-1">
+              <div className="flex-1 h-1 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{
+                    background: color,
+                    width: `${Math.min(100, (resident.xp / resident.nextLevelXP) * 100)}%`,
+                  }}
+                />
+              </div>
+              <span className="text-[8px] text-white/25 shrink-0">
+                {resident.xp}/{resident.nextLevelXP} XP
+              </span>
+            </div>
           )}
-          {resident.subAgentsSpawned > 0 && (
-            <MiniStat label="Sub-Agents" value={String(resident.subAgentsSpawned)} />
+          {!resident.nextLevelXP && (
+            <div className="text-[8px] text-white/25 mt-0.5">{resident.xp} XP (max)</div>
           )}
         </div>
 
-        {/* Time info */}
-        <div className="flex gap-3 mt-1.5 text-[8px] text-white/20">
-          <span>First seen: {timeAgo(resident.firstSeen)}</span>
-          <span>Last active: {timeAgo(resident.lastSeen)}</span>
+        {/* Score on the chosen board */}
+        <div className="text-right shrink-0">
+          <div className="text-[13px] font-mono font-bold text-white/70">{formatScore(metric, resident.score)}</div>
+          <div className="text-[7px] text-white/25">{LEADERBOARD_METRICS[metric]}</div>
         </div>
       </div>
 
-      {/* Children */}
-      {children.map(child => (
-        <ResidentCard
-          key={child.agentId}
-          resident={child}
-          children={childrenMap.get(child.agentId) || []}
-          allResidents={allResidents}
-          childrenMap={childrenMap}
-          showClan={showClan}
-          depth={depth + 1}
-        />
-      ))}
+      {/* Stats row */}
+      <div className="flex gap-3 mt-2 flex-wrap">
+        <MiniStat label="Tool Calls" value={String(resident.toolCalls)} />
+        <MiniStat label="Sessions" value={String(resident.sessions)} />
+        {tokens.input + tokens.output > 0 && (
+          <MiniStat label="Tokens" value={formatTokens(tokens.input + tokens.output, tokens.exact)} />
+        )}
+        {hitRate !== null && (
+          <MiniStat label="Cache" value={formatPercent(hitRate)} />
+        )}
+        {resident.model && (
+          <MiniStat label="Model" value={resident.model} />
+        )}
+        {(resident.totalCost || 0) > 0 && (
+          <MiniStat label="Cost" value={formatCost(resident.totalCost!)} />
+        )}
+        {totalBytes > 0 && (
+          <MiniStat label="Data" value={formatBytes(totalBytes)} />
+        )}
+        {resident.subAgentsSpawned > 0 && (
+          <MiniStat label="Sub-Agents" value={String(resident.subAgentsSpawned)} />
+        )}
+      </div>
+
+      {/* Unlocked achievements */}
+      {achievements.length > 0 && (resident.achievements?.length ?? 0) > 0 && (
+        <div className="mt-1.5">
+          <AchievementGallery achievements={achievements} unlocked={resident.achievements} compact />
+        </div>
+      )}
+
+      {/* Time info */}
+      <div className="flex gap-3 mt-1.5 text-[8px] text-white/20">
+        <span>First seen: {timeAgo(resident.firstSeen)}</span>
+        <span>Last active: {timeAgo(resident.lastSeen)}</span>
+      </div>
     </div>
   )
 }
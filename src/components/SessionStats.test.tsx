@@ -1,18 +1,22 @@
 import { describe, it, expect } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { SessionStats } from './SessionStats';
+import { tokenUsage } from '../tokens';
+
+// Estimated usage for tool bytes
+const bytes = (input: number, output: number) => tokenUsage({ totalInputBytes: input, totalOutputBytes: output });
 
 describe('SessionStats', () => {
   it('should render nothing when totalEvents is 0', () => {
     const { container } = render(
-      <SessionStats agentCount={0} totalEvents={0} totalInputBytes={0} totalOutputBytes={0} />
+      <SessionStats agentCount={0} totalEvents={0} tokens={bytes(0, 0)} cost={0} />
     );
     expect(container.innerHTML).toBe('');
   });
 
   it('should render stats when there are events', () => {
     render(
-      <SessionStats agentCount={3} totalEvents={42} totalInputBytes={0} totalOutputBytes={0} />
+      <SessionStats agentCount={3} totalEvents={42} tokens={bytes(0, 0)} cost={0} />
     );
     expect(screen.getByText('Session')).toBeInTheDocument();
     expect(screen.getByText('Events')).toBeInTheDocument();
@@ -22,7 +26,7 @@ describe('SessionStats', () => {
 
   it('should show token count when bytes are provided', () => {
     render(
-      <SessionStats agentCount={1} totalEvents={10} totalInputBytes={20000} totalOutputBytes={20000} />
+      <SessionStats agentCount={1} totalEvents={10} tokens={bytes(20000, 20000)} cost={0} />
     );
     expect(screen.getByText('Tokens')).toBeInTheDocument();
     // 40000 bytes / 4 = 10000 tokens = 10.0k
@@ -31,14 +35,14 @@ describe('SessionStats', () => {
 
   it('should not show tokens section when bytes are 0', () => {
     render(
-      <SessionStats agentCount={1} totalEvents={10} totalInputBytes={0} totalOutputBytes={0} />
+      <SessionStats agentCount={1} totalEvents={10} tokens={bytes(0, 0)} cost={0} />
     );
     expect(screen.queryByText('Tokens')).not.toBeInTheDocument();
   });
 
   it('should format large token counts with M suffix', () => {
     render(
-      <SessionStats agentCount={1} totalEvents={10} totalInputBytes={2_000_000} totalOutputBytes={2_000_000} />
+      <SessionStats agentCount={1} totalEvents={10} tokens={bytes(2_000_000, 2_000_000)} cost={0} />
     );
     // 4M bytes / 4 = 1M tokens = 1.0M
     expect(screen.getByText('~1.0M')).toBeInTheDocument();
@@ -46,22 +50,45 @@ describe('SessionStats', () => {
 
   it('should format small token counts as plain numbers', () => {
     render(
-      <SessionStats agentCount={1} totalEvents={10} totalInputBytes={200} totalOutputBytes={200} />
+      <SessionStats agentCount={1} totalEvents={10} tokens={bytes(200, 200)} cost={0} />
     );
     // 400 bytes / 4 = 100 tokens
     expect(screen.getByText('~100')).toBeInTheDocument();
   });
 
+  it('should show exact tokens and the cache hit rate when agents report them', () => {
+    const tokens = tokenUsage({
+      totalInputBytes: 400, totalOutputBytes: 400,
+      totalInputTokens: 500, totalOutputTokens: 1500, totalCacheReadTokens: 7500, totalCacheCreationTokens: 2000,
+    });
+    render(<SessionStats agentCount={1} totalEvents={10} tokens={tokens} cost={0} />);
+    expect(screen.getByText('11.5k')).toBeInTheDocument();
+    expect(screen.getByText('Cache')).toBeInTheDocument();
+    expect(screen.getByText('75%')).toBeInTheDocument();
+  });
+
+  it('should show what the reported tokens cost', () => {
+    const tokens = tokenUsage({ totalInputBytes: 0, totalOutputBytes: 0, totalInputTokens: 900, totalOutputTokens: 100 });
+    render(<SessionStats agentCount={1} totalEvents={10} tokens={tokens} cost={1.234} />);
+    expect(screen.getByText('Cost')).toBeInTheDocument();
+    expect(screen.getByText('$1.23')).toBeInTheDocument();
+  });
+
+  it('should not show a cost for unpriced or estimated tokens', () => {
+    render(<SessionStats agentCount={1} totalEvents={10} tokens={bytes(400, 400)} cost={0} />);
+    expect(screen.queryByText('Cost')).not.toBeInTheDocument();
+  });
+
   it('should track peak agents', () => {
     const { rerender } = render(
-      <SessionStats agentCount={5} totalEvents={10} totalInputBytes={0} totalOutputBytes={0} />
+      <SessionStats agentCount={5} totalEvents={10} tokens={bytes(0, 0)} cost={0} />
     );
     // Peak should be 5
     expect(screen.getByText('5')).toBeInTheDocument();
 
     // Reduce agent count — peak should remain 5
     rerender(
-      <SessionStats agentCount={2} totalEvents={15} totalInputBytes={0} totalOutputBytes={0} />
+      <SessionStats agentCount={2} totalEvents={15} tokens={bytes(0, 0)} cost={0} />
     );
     expect(screen.getByText('5')).toBeInTheDocument();
   });
@@ -1,22 +1,17 @@
 import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
+import { cacheHitRate, formatCost, formatPercent, formatTokens, type TokenUsage } from '../tokens'
 
 interface SessionStatsProps {
   agentCount: number;
   totalEvents: number;
-  totalInputBytes: number;
-  totalOutputBytes: number;
+  /** All agents' tokens together */
+  tokens: TokenUsage;
+  /** What the agents' reported tokens cost, in USD */
+  cost: number;
 }
 
-/** Rough estimate: ~4 bytes per token on average */
-function formatTokens(bytes: number): string {
-  const tokens = Math.round(bytes / 4);
-  if (tokens < 1000) return String(tokens);
-  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
-  return `${(tokens / 1_000_000).toFixed(1)}M`;
-}
-
-export function SessionStats({ agentCount, totalEvents, totalInputBytes, totalOutputBytes }: SessionStatsProps) {
+export function SessionStats({ agentCount, totalEvents, tokens, cost }: SessionStatsProps) {
   const [elapsed, setElapsed] = useState(0);
   const [peakAgents, setPeakAgents] = useState(0);
   const startRef = useRef(Date.now());
@@ -40,6 +35,9 @@ export function SessionStats({ agentCount, totalEvents, totalInputBytes, totalOu
 
   if (totalEvents === 0) return null;
 
+  const totalTokens = tokens.input + tokens.output;
+  const hitRate = cacheHitRate(tokens);
+
   return (
     <motion.div
       className="absolute top-[4.2rem] left-6 z-20 flex items-center gap-4"
@@ -50,9 +48,11 @@ export function SessionStats({ agentCount, totalEvents, totalInputBytes, totalOu
       <Stat label="Session" value={timeStr} />
       <Stat label="Events" value={String(totalEvents)} />
       <Stat label="Peak" value={String(peakAgents)} />
-      {(totalInputBytes + totalOutputBytes) > 0 && (
-        <Stat label="Tokens" value={`~${formatTokens(totalInputBytes + totalOutputBytes)}`} />
+      {totalTokens > 0 && (
+        <Stat label="Tokens" value={formatTokens(totalTokens, tokens.exact)} />
       )}
+      {hitRate !== null && <Stat label="Cache" value={formatPercent(hitRate)} />}
+      {cost > 0 && <Stat label="Cost" value={formatCost(cost)} />}
     </motion.div>
   );
 }
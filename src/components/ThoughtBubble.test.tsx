@@ -61,6 +61,37 @@ describe('ThoughtBubble', () => {
     expect(screen.getByText(/VeryLongFile\.tsx/)).toBeInTheDocument();
   });
 
+  it('should show a persistent approval bubble with the command', () => {
+    vi.useFakeTimers();
+    render(
+      <ThoughtBubble detail="" activity="coding" color="#60a5fa" waiting approval="rm -rf dist" />
+    );
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    expect(screen.getByText('🛑')).toBeInTheDocument();
+    expect(screen.getByText(/rm -rf dist/)).toBeInTheDocument();
+  });
+
+  it('should stay confused while the agent is stuck', () => {
+    vi.useFakeTimers();
+    render(
+      <ThoughtBubble detail="npm test" activity="testing" color="#60a5fa" stuck='Repeated "npm test" 10 times in a row' />
+    );
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    expect(screen.getByText('❓')).toBeInTheDocument();
+  });
+
+  it('should put an approval before being stuck', () => {
+    render(
+      <ThoughtBubble detail="" activity="coding" color="#60a5fa" approval="rm -rf dist" stuck="No tool calls for 6 minutes" />
+    );
+    expect(screen.getByText('🛑')).toBeInTheDocument();
+    expect(screen.queryByText('❓')).not.toBeInTheDocument();
+  });
+
   it('should auto-hide after 5 seconds', () => {
     vi.useFakeTimers();
     const { container } = render(
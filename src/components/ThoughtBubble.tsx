@@ -10,12 +10,16 @@ interface ThoughtBubbleProps {
   offsetDir?: number;
   /** Agent is waiting for user input — show persistent bubble */
   waiting?: boolean;
+  /** Command/file of a tool call waiting for approval — persistent, takes precedence over waiting */
+  approval?: string;
   /** Agent is idle at the campfire */
   isIdleAtCampfire?: boolean;
   /** Previous activity (for victory detection after testing) */
   previousActivity?: ActivityType | null;
   /** Transient failure message */
   failure?: string;
+  /** Why the agent seems stuck — persistent until it moves on */
+  stuck?: string;
 }
 
 const ACTIVITY_ICON: Record<string, string> = {
@@ -84,6 +88,13 @@ const DWARF_WAITING = [
   'Standing by for orders!',
 ];
 
+const DWARF_APPROVAL = [
+  'Permission to strike, chief?',
+  'Yer blessing, boss?',
+  'Shall I swing the axe?',
+  'Say the word, chief!',
+];
+
 const CAMPFIRE_STORIES = [
   'Remember that refactor\u2026',
   'The tests were fierce today\u2026',
@@ -107,6 +118,14 @@ const VICTORY_PHRASES = [
   'Battle won!',
 ];
 
+const DWARF_CONFUSED = [
+  'Haven\u2019t I dug here before?',
+  'Round and round we go\u2026',
+  'This tunnel again?!',
+  'Lost in the mine\u2026',
+  'Which way was out?',
+];
+
 const DWARF_FAILURE = [
   'My hammer broke!',
   'Blast! It crumbled!',
@@ -163,7 +182,7 @@ function dwarfSpeak(activity: ActivityType, detail: string): string {
   }
 }
 
-export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting = false, isIdleAtCampfire = false, previousActivity = null, failure }: ThoughtBubbleProps) {
+export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting = false, approval, isIdleAtCampfire = false, previousActivity = null, failure, stuck }: ThoughtBubbleProps) {
   const [visible, setVisible] = useState(false);
   const [currentDetail, setCurrentDetail] = useState('');
   const timerRef = useRef<ReturnType<typeof setTimeout>>(null);
@@ -172,8 +191,8 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
   const [showVictory, setShowVictory] = useState(false);
 
   useEffect(() => {
-    // Waiting mode — always visible, no auto-hide
-    if (waiting) {
+    // Waiting and stuck modes — always visible, no auto-hide
+    if (waiting || approval || stuck) {
       setVisible(true);
       if (timerRef.current) clearTimeout(timerRef.current);
       return;
@@ -188,7 +207,7 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
     timerRef.current = setTimeout(() => setVisible(false), SHOW_DURATION);
 
     return () => { if (timerRef.current) clearTimeout(timerRef.current); };
-  }, [detail, waiting]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [detail, waiting, approval, stuck]); // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => {
     if (!isIdleAtCampfire || waiting) {
@@ -222,10 +241,14 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
 
   const isStoryMode = isIdleAtCampfire && !waiting && storyText;
   const isVictoryMode = showVictory;
-  const isWaiting = waiting;
+  const isApproval = !!approval;
+  const isWaiting = waiting || isApproval;
   const isFailureMode = !!failure;
+  const isConfused = !!stuck && !isApproval;
 
   const icon = isFailureMode ? '💥'
+    : isApproval ? '🛑'
+    : isConfused ? '❓'
     : isVictoryMode ? '⚔️'
     : isStoryMode ? '🔥'
     : isWaiting ? '⏳'
@@ -233,6 +256,10 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
 
   const dwarf = isFailureMode
     ? pick(DWARF_FAILURE, failure || 'fail')
+    : isApproval
+    ? `${pick(DWARF_APPROVAL, approval)} ${shortFile(approval)}`
+    : isConfused
+    ? pick(DWARF_CONFUSED, stuck)
     : isVictoryMode
     ? pick(VICTORY_PHRASES, currentDetail || 'victory')
     : isStoryMode
@@ -243,15 +270,23 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
 
   const text = dwarf.length > 38 ? dwarf.slice(0, 36) + '\u2026' : dwarf;
 
+  // Colors for the alert states; approvals get their own so they stand out from plain waiting
+  const tone = isFailureMode ? { bg: 'rgba(30,0,0,0.92)', border: '#ef4444', text: '#f87171' }
+    : isApproval ? { bg: 'rgba(26,0,30,0.92)', border: '#d946ef', text: '#f0abfc' }
+    : isConfused ? { bg: 'rgba(0,20,30,0.92)', border: '#22d3ee', text: '#67e8f9' }
+    : isWaiting ? { bg: 'rgba(30,10,0,0.92)', border: '#f59e0b', text: '#fbbf24' }
+    : null;
+  const background = tone?.bg ?? 'rgba(0,0,0,0.85)';
+
   // Offset bubble position based on hash direction
   const xShift = offsetDir * 28;
   const yShift = Math.abs(offsetDir) * -4; // slightly higher when offset
 
   return (
     <AnimatePresence>
-      {(visible && (isWaiting || currentDetail) || isStoryMode || isVictoryMode || isFailureMode) && (
+      {(visible && (isWaiting || isConfused || currentDetail) || isStoryMode || isVictoryMode || isFailureMode) && (
         <motion.div
-          key={isWaiting ? 'waiting' : currentDetail}
+          key={isApproval ? `approval:${approval}` : isConfused ? `stuck:${stuck}` : isWaiting ? 'waiting' : currentDetail}
           className="absolute flex flex-col items-center pointer-events-none"
           style={{
             bottom: '100%',
@@ -267,20 +302,20 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
           <motion.div
             className="relative px-1.5 py-0.5 rounded whitespace-nowrap"
             style={{
-              background: isFailureMode ? 'rgba(30,0,0,0.92)' : isWaiting ? 'rgba(30,10,0,0.92)' : 'rgba(0,0,0,0.85)',
-              border: `1px solid ${isFailureMode ? '#ef444488' : isWaiting ? '#f59e0b88' : `${color}33`}`,
+              background,
+              border: `1px solid ${tone ? `${tone.border}88` : `${color}33`}`,
               maxWidth: 220,
             }}
             animate={isWaiting ? {
-              borderColor: ['#f59e0b88', '#f59e0bdd', '#f59e0b88'],
+              borderColor: [`${tone!.border}88`, `${tone!.border}dd`, `${tone!.border}88`],
             } : {}}
             transition={isWaiting ? {
-              duration: 1.5,
+              duration: isApproval ? 0.9 : 1.5,
               repeat: Infinity,
               ease: 'easeInOut',
             } : {}}
           >
-            <span className="text-[7px] leading-tight" style={{ color: isFailureMode ? '#f87171' : isWaiting ? '#fbbf24' : `${color}bb` }}>
+            <span className="text-[7px] leading-tight" style={{ color: tone?.text ?? `${color}bb` }}>
               {icon && <span className="mr-0.5">{icon}</span>}
               <span>{text}</span>
             </span>
@@ -292,7 +327,7 @@ export function ThoughtBubble({ detail, activity, color, offsetDir = 0, waiting
               height: 0,
               borderLeft: '3px solid transparent',
               borderRight: '3px solid transparent',
-              borderTop: `3px solid ${isFailureMode ? 'rgba(30,0,0,0.92)' : isWaiting ? 'rgba(30,10,0,0.92)' : 'rgba(0,0,0,0.85)'}`,
+              borderTop: `3px solid ${background}`,
             }}
           />
         </motion.div>
@@ -3,13 +3,21 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Building } from './Building'
 import { AgentAvatar } from './AgentAvatar'
 import { TrailLayer } from './TrailLayer'
+import { MessengerLayer } from './MessengerLayer'
+import { ConflictLayer } from './ConflictLayer'
+import { ArenaBanner } from './ArenaBanner'
+import { ForgeShipment } from './ForgeShipment'
 import { DayNightCycle } from './DayNightCycle'
-import type { AgentState, BuildingState, Trail } from '../types'
+import type { AgentState, BuildingState, FileConflict, Messenger, Shipment, TestBanner, Trail } from '../types'
 
 interface VillageProps {
   agents: Map<string, AgentState>;
   buildings: BuildingState[];
   trails: Trail[];
+  messengers: Messenger[];
+  conflicts: FileConflict[];
+  testBanners: TestBanner[];
+  shipments: Shipment[];
   agentCount: number;
   activeAgentCount: number;
   onAgentClick: (agentId: string) => void;
@@ -18,7 +26,7 @@ interface VillageProps {
 const MIN_SPREAD = 0.8;
 const MAX_SPREAD = 1.8;
 
-export function Village({ agents, buildings, trails, agentCount, activeAgentCount, onAgentClick }: VillageProps) {
+export function Village({ agents, buildings, trails, messengers, conflicts, testBanners, shipments, agentCount, activeAgentCount, onAgentClick }: VillageProps) {
   const centerX = 450;
   const centerY = 350;
 
@@ -72,6 +80,13 @@ export function Village({ agents, buildings, trails, agentCount, activeAgentCoun
 
   const agentArray = Array.from(agents.values());
 
+  // Where test runs raise their banners (the Arena, unless the layout moved testing)
+  const arena = spreadBuildings.find(b => b.activities.includes('testing'));
+  const arenaPos = arena ? { x: centerX + arena.position.x, y: centerY + arena.position.y } : null;
+  // Where commits ship from (the Forge, unless the layout moved coding)
+  const forge = spreadBuildings.find(b => b.activities.includes('coding'));
+  const forgePos = forge ? { x: centerX + forge.position.x, y: centerY + forge.position.y } : null;
+
   return (
     <div
       className="w-full h-full flex items-center justify-center overflow-hidden"
@@ -161,6 +176,30 @@ export function Village({ agents, buildings, trails, agentCount, activeAgentCoun
           })}
         </AnimatePresence>
 
+        {/* Messages between parents and sub-agents */}
+        <MessengerLayer
+          messengers={messengers}
+          positionOf={(agentId) => {
+            const agent = agents.get(agentId);
+            return agent ? getAgentPixelPos(agent) : null;
+          }}
+        />
+
+        {/* Agents editing the same file */}
+        <ConflictLayer
+          conflicts={conflicts}
+          positionOf={(agentId) => {
+            const agent = agents.get(agentId);
+            return agent ? getAgentPixelPos(agent) : null;
+          }}
+        />
+
+        {/* Win/loss banners over the Arena */}
+        <ArenaBanner banners={testBanners} position={arenaPos} />
+
+        {/* Commits shipped out of the Forge */}
+        <ForgeShipment shipments={shipments} position={forgePos} />
+
         {/* Quiet village overlay when no agents */}
         <AnimatePresence>
           {agents.size === 0 && (
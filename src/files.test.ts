@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchFiles, hotFilesByProject, shortPath, type FileEntry } from './files';
+
+function file(project: string, path: string, edits: number, reads = 0): FileEntry {
+  return {
+    project, path, edits, reads,
+    lastEditor: null, lastEditorName: null, lastEdited: null, lastRead: null, readers: [],
+  };
+}
+
+describe('hotFilesByProject', () => {
+  it('should group the most edited files by project, busiest first', () => {
+    const groups = hotFilesByProject([
+      file('shop', 'a.ts', 2),
+      file('api', 'b.ts', 9),
+      file('shop', 'c.ts', 5),
+      file('shop', 'd.ts', 1),
+    ], 2);
+    expect(groups.map(g => g.project)).toEqual(['api', 'shop']);
+    expect(groups[1].edits).toBe(8);
+    expect(groups[1].files.map(f => f.path)).toEqual(['c.ts', 'a.ts']);
+  });
+
+  it('should leave out files that were only read', () => {
+    expect(hotFilesByProject([file('docs', 'README.md', 0, 12)])).toEqual([]);
+  });
+});
+
+describe('shortPath', () => {
+  it('should strip everything up to the project folder', () => {
+    expect(shortPath('/work/shop/src/cart.ts', 'shop')).toBe('src/cart.ts');
+  });
+
+  it('should keep paths outside the project as they are', () => {
+    expect(shortPath('/etc/hosts', 'shop')).toBe('/etc/hosts');
+    expect(shortPath('/work/shop', 'shop')).toBe('/work/shop');
+    expect(shortPath('src/a.ts', '')).toBe('src/a.ts');
+  });
+});
+
+describe('fetchFiles', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass the filters as query parameters', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ files: [] }) });
+    vi.stubGlobal('fetch', mockFetch);
+
+    await fetchFiles('http://bridge', {}, { project: 'shop', limit: 50 });
+    expect(mockFetch).toHaveBeenCalledWith('http://bridge/api/files?project=shop&limit=50', { headers: {} });
+  });
+
+  it('should reject on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+    await expect(fetchFiles('http://bridge', {})).rejects.toThrow('503');
+  });
+});
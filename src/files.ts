@@ -0,0 +1,80 @@
+// ── Files ───────────────────────────────────────────────
+// The file heatmap from the bridge's /api/files: how often agents
+// edited and read each file, who edited it last and who read it
+// lately. Shown per project in the hot files panel.
+
+export interface FileReader {
+  agentId: string;
+  name: string | null;
+  readAt: number;
+}
+
+export interface FileEntry {
+  /** Project of the agents that touched it; '' when they had none */
+  project: string;
+  /** As the tool call named it, usually absolute */
+  path: string;
+  edits: number;
+  reads: number;
+  lastEditor: string | null;
+  lastEditorName: string | null;
+  lastEdited: number | null;
+  lastRead: number | null;
+  /** Most recent first */
+  readers: FileReader[];
+}
+
+export interface FileQuery {
+  project?: string;
+  limit?: number;
+}
+
+export interface ProjectFiles {
+  project: string;
+  edits: number;
+  files: FileEntry[];
+}
+
+export async function fetchFiles(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  query: FileQuery = {},
+): Promise<FileEntry[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await fetch(`${bridgeUrl}/api/files?${params}`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data: { files: FileEntry[] } = await res.json();
+  return data.files;
+}
+
+/**
+ * The `perProject` most edited files of each project, busiest project
+ * first. Files that were only ever read are left out.
+ */
+export function hotFilesByProject(files: FileEntry[], perProject = 5): ProjectFiles[] {
+  const projects = new Map<string, FileEntry[]>();
+  for (const file of files) {
+    if (file.edits === 0) continue;
+    const list = projects.get(file.project) || [];
+    list.push(file);
+    projects.set(file.project, list);
+  }
+  return [...projects]
+    .map(([project, list]) => ({
+      project,
+      edits: list.reduce((sum, f) => sum + f.edits, 0),
+      files: [...list].sort((a, b) => b.edits - a.edits).slice(0, perProject),
+    }))
+    .sort((a, b) => b.edits - a.edits);
+}
+
+/** Path within the project when it's under a folder of that name: /work/shop/src/a.ts → src/a.ts */
+export function shortPath(path: string, project: string): string {
+  const parts = path.split('/');
+  const at = project ? parts.lastIndexOf(project) : -1;
+  if (at === -1 || at === parts.length - 1) return path;
+  return parts.slice(at + 1).join('/');
+}
@@ -12,8 +12,9 @@ function createMockSSEStream() {
 
   return {
     stream,
-    send(event: object) {
-      controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+    send(event: object, id?: number) {
+      const idLine = id !== undefined ? `id: ${id}\n` : '';
+      controller.enqueue(encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`));
     },
     close() {
       try { controller.close(); } catch { /* already closed */ }
@@ -22,11 +23,13 @@ function createMockSSEStream() {
 }
 
 let mockFetchCalls: string[];
+let mockFetchHeaders: (Record<string, string> | undefined)[];
 let currentStream: ReturnType<typeof createMockSSEStream> | null;
 let nextFetchResult: 'ok' | 'error';
 
-function mockFetch(url: string, opts?: { signal?: AbortSignal }) {
+function mockFetch(url: string, opts?: { signal?: AbortSignal; headers?: Record<string, string> }) {
   mockFetchCalls.push(url);
+  mockFetchHeaders.push(opts?.headers);
 
   if (nextFetchResult === 'error') {
     return Promise.reject(new Error('Network error'));
@@ -48,12 +51,48 @@ function mockFetch(url: string, opts?: { signal?: AbortSignal }) {
   return Promise.resolve(response);
 }
 
+// A WebSocket the tests open, feed and drop by hand
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((msg: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: string) { this.sent.push(data); }
+  close() { this.drop(); }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+  }
+  receive(message: object) { this.onmessage?.({ data: JSON.stringify(message) }); }
+  drop() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+}
+
+// No WebSocket support: the hook goes straight to SSE
+class UnavailableWebSocket {
+  constructor() { throw new Error('WebSocket unavailable'); }
+}
+
 describe('useBridge', () => {
   beforeEach(() => {
     mockFetchCalls = [];
+    mockFetchHeaders = [];
     currentStream = null;
     nextFetchResult = 'ok';
     vi.stubGlobal('fetch', mockFetch);
+    vi.stubGlobal('WebSocket', UnavailableWebSocket);
     vi.useFakeTimers();
   });
 
@@ -81,6 +120,14 @@ describe('useBridge', () => {
     expect(result.current.everConnected).toBe(true);
     expect(mockFetchCalls.length).toBe(1);
     expect(mockFetchCalls[0]).toContain('/events');
+    expect(result.current.transport).toBe('sse');
+  });
+
+  it('should refuse commands over SSE', async () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    await act(async () => { await vi.advanceTimersByTimeAsync(0); });
+
+    await expect(result.current.sendCommand({ command: 'ack', agentId: 'a' })).rejects.toThrow('WebSocket');
   });
 
   it('should forward parsed events to onEvent callback', async () => {
@@ -153,6 +200,46 @@ describe('useBridge', () => {
     expect(result.current.everConnected).toBe(true);
   });
 
+  it('should not send Last-Event-ID on the first connection', async () => {
+    renderHook(() => useBridge(vi.fn(), true));
+    await act(async () => { await vi.advanceTimersByTimeAsync(0); });
+
+    expect(mockFetchHeaders[0]).toEqual({});
+  });
+
+  it('should resume from the last received event id after a reconnect', async () => {
+    const onEvent = vi.fn();
+    renderHook(() => useBridge(onEvent, true));
+    await act(async () => { await vi.advanceTimersByTimeAsync(0); });
+
+    await act(async () => {
+      currentStream!.send({ type: 'agent:spawn', agentId: 'a' }, 41);
+      currentStream!.send({ type: 'agent:work', agentId: 'a' }, 42);
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    // Drop the connection, then let the 3s retry fire
+    currentStream!.close();
+    await act(async () => {
+      for (let i = 0; i < 5; i++) {
+        await vi.advanceTimersByTimeAsync(0);
+      }
+    });
+    await act(async () => { await vi.advanceTimersByTimeAsync(3000); });
+
+    expect(mockFetchCalls.length).toBe(2);
+    expect(mockFetchHeaders[1]).toEqual({ 'Last-Event-ID': '42' });
+  });
+
+  it('should send the stored bridge token', async () => {
+    localStorage.setItem('agentville-token', 'secret');
+    renderHook(() => useBridge(vi.fn(), true));
+    await act(async () => { await vi.advanceTimersByTimeAsync(0); });
+    localStorage.removeItem('agentville-token');
+
+    expect(mockFetchHeaders[0]).toEqual({ Authorization: 'Bearer secret' });
+  });
+
   it('should not connect when disabled', () => {
     const onEvent = vi.fn();
     const { result } = renderHook(() => useBridge(onEvent, false));
@@ -186,3 +273,113 @@ describe('useBridge', () => {
     unmount();
   });
 });
+
+describe('useBridge over WebSocket', () => {
+  beforeEach(() => {
+    MockWebSocket.instances = [];
+    mockFetchCalls = [];
+    mockFetchHeaders = [];
+    currentStream = null;
+    nextFetchResult = 'ok';
+    vi.stubGlobal('fetch', mockFetch);
+    vi.stubGlobal('WebSocket', MockWebSocket);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    currentStream?.close();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function socket() {
+    return MockWebSocket.instances[MockWebSocket.instances.length - 1];
+  }
+
+  it('should prefer the WebSocket over SSE', () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    act(() => socket().open());
+
+    expect(socket().url).toBe('ws://localhost:4242/ws');
+    expect(result.current.connected).toBe(true);
+    expect(result.current.transport).toBe('websocket');
+    expect(mockFetchCalls.length).toBe(0);
+  });
+
+  it('should forward events and resume from the last id after a drop', async () => {
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useBridge(onEvent, true));
+    act(() => {
+      socket().open();
+      socket().receive({ event: { type: 'agent:spawn', agentId: 'a' } });
+      socket().receive({ id: 42 });
+      socket().receive({ id: 43, event: { type: 'agent:work', agentId: 'a' } });
+    });
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(onEvent).toHaveBeenLastCalledWith({ type: 'agent:work', agentId: 'a' });
+
+    act(() => socket().drop());
+    expect(result.current.connected).toBe(false);
+    expect(result.current.everConnected).toBe(true);
+
+    await act(async () => { await vi.advanceTimersByTimeAsync(3000); });
+    expect(MockWebSocket.instances.length).toBe(2);
+    expect(socket().url).toBe('ws://localhost:4242/ws?since=43');
+  });
+
+  it('should fall back to SSE when the WebSocket cannot open', async () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    await act(async () => {
+      socket().drop();
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    expect(mockFetchCalls.length).toBe(1);
+    expect(result.current.transport).toBe('sse');
+  });
+
+  it('should pass the stored bridge token as a query param', () => {
+    localStorage.setItem('agentville-token', 'secret');
+    renderHook(() => useBridge(vi.fn(), true));
+    localStorage.removeItem('agentville-token');
+
+    expect(socket().url).toBe('ws://localhost:4242/ws?token=secret');
+  });
+
+  it('should resolve commands on the bridge reply', async () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    act(() => socket().open());
+
+    const done = result.current.sendCommand({ command: 'rename', agentId: 'a', name: 'Bob' });
+    expect(JSON.parse(socket().sent[0])).toEqual({ command: 'rename', agentId: 'a', name: 'Bob', requestId: 1 });
+    act(() => socket().receive({ reply: 1, ok: true }));
+    await expect(done).resolves.toBeUndefined();
+  });
+
+  it('should reject commands the bridge refuses', async () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    act(() => socket().open());
+
+    const done = result.current.sendCommand({ command: 'ack', agentId: 'ghost' });
+    act(() => socket().receive({ reply: 1, error: 'Unknown agent' }));
+    await expect(done).rejects.toThrow('Unknown agent');
+  });
+
+  it('should reject pending commands when the connection drops', async () => {
+    const { result } = renderHook(() => useBridge(vi.fn(), true));
+    act(() => socket().open());
+
+    const done = result.current.sendCommand({ command: 'ack', agentId: 'a' });
+    act(() => socket().drop());
+    await expect(done).rejects.toThrow('connection lost');
+  });
+
+  it('should close the socket on unmount', () => {
+    const { unmount } = renderHook(() => useBridge(vi.fn(), true));
+    act(() => socket().open());
+    unmount();
+
+    expect(socket().readyState).toBe(3);
+    expect(MockWebSocket.instances.length).toBe(1);
+  });
+});
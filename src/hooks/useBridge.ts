@@ -1,28 +1,133 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import type { AgentEvent } from '../types';
+import { bridgeHeaders, getBridgeToken } from '../bridgeAuth';
 
 const BRIDGE_URL = import.meta.env.VITE_BRIDGE_URL || 'http://localhost:4242';
 
+/** Dashboard → bridge commands (WebSocket only) */
+export type BridgeCommand =
+  | { command: 'ack'; agentId: string }
+  | { command: 'rename'; agentId: string; name: string }
+  | { command: 'decide'; approvalId: number; decision: 'allow' | 'deny' };
+
+export type BridgeTransport = 'websocket' | 'sse';
+
+// Messages from /ws: events as { id, event } (the snapshot sends the
+// events first and the id to resume from last), command replies as
+// { reply, ok } or { reply, error }
+interface SocketMessage {
+  id?: number;
+  event?: AgentEvent;
+  reply?: number | null;
+  ok?: boolean;
+  error?: string;
+}
+
+interface PendingCommand {
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+function socketUrl(lastEventId: string | null): string {
+  const params = new URLSearchParams();
+  const token = getBridgeToken();
+  if (token) params.set('token', token);
+  if (lastEventId) params.set('since', lastEventId);
+  const query = params.toString();
+  return `${BRIDGE_URL.replace(/^http/, 'ws')}/ws${query ? `?${query}` : ''}`;
+}
+
 export function useBridge(
   onEvent: (event: AgentEvent) => void,
   enabled: boolean,
 ) {
   const [connected, setConnected] = useState(false);
   const [everConnected, setEverConnected] = useState(false);
+  const [transport, setTransport] = useState<BridgeTransport | null>(null);
   const onEventRef = useRef(onEvent);
   onEventRef.current = onEvent;
+  const socketRef = useRef<WebSocket | null>(null);
+  const pendingRef = useRef(new Map<number, PendingCommand>());
+  const nextRequestIdRef = useRef(1);
 
   useEffect(() => {
     if (!enabled) {
       setConnected(false);
+      setTransport(null);
       return;
     }
 
     let abortController: AbortController | null = null;
+    let socket: WebSocket | null = null;
     let retryTimeout: number | null = null;
     let disposed = false;
+    // Id of the last event received — sent on reconnect so the bridge
+    // replays what we missed instead of a fresh state dump
+    let lastEventId: string | null = null;
+
+    function rejectPending() {
+      for (const pending of pendingRef.current.values()) {
+        pending.reject(new Error('Bridge connection lost'));
+      }
+      pendingRef.current.clear();
+    }
+
+    function handleSocketMessage(data: string) {
+      let message: SocketMessage;
+      try {
+        message = JSON.parse(data);
+      } catch {
+        return; // ignore parse errors
+      }
+      if ('reply' in message) {
+        const pending = pendingRef.current.get(message.reply ?? -1);
+        if (!pending) return;
+        pendingRef.current.delete(message.reply!);
+        if (message.error) pending.reject(new Error(message.error));
+        else pending.resolve();
+        return;
+      }
+      if (message.id !== undefined) lastEventId = String(message.id);
+      if (message.event) onEventRef.current(message.event);
+    }
 
-    async function connect() {
+    // Prefer the WebSocket; if it can't open (old bridge, proxy that
+    // drops upgrades) fall back to SSE for this attempt
+    function connect() {
+      if (disposed) return;
+
+      let opened = false;
+      try {
+        socket = new WebSocket(socketUrl(lastEventId));
+      } catch {
+        connectSSE();
+        return;
+      }
+
+      socket.onopen = () => {
+        opened = true;
+        socketRef.current = socket;
+        setConnected(true);
+        setEverConnected(true);
+        setTransport('websocket');
+      };
+      socket.onmessage = (msg) => handleSocketMessage(String(msg.data));
+      socket.onclose = () => {
+        socket = null;
+        socketRef.current = null;
+        rejectPending();
+        if (disposed) return;
+        if (!opened) {
+          connectSSE();
+          return;
+        }
+        setConnected(false);
+        setTransport(null);
+        retryTimeout = window.setTimeout(connect, 3000);
+      };
+    }
+
+    async function connectSSE() {
       if (disposed) return;
 
       abortController = new AbortController();
@@ -30,6 +135,10 @@ export function useBridge(
       try {
         const res = await fetch(`${BRIDGE_URL}/events`, {
           signal: abortController.signal,
+          headers: {
+            ...bridgeHeaders(),
+            ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+          },
         });
 
         if (!res.ok || !res.body) {
@@ -38,6 +147,7 @@ export function useBridge(
 
         setConnected(true);
         setEverConnected(true);
+        setTransport('sse');
 
         const reader = res.body.getReader();
         const decoder = new TextDecoder();
@@ -49,12 +159,14 @@ export function useBridge(
 
           buffer += decoder.decode(value, { stream: true });
 
-          // Parse SSE frames: "data: {...}\n\n"
+          // Parse SSE frames: "id: 42\ndata: {...}\n\n"
           const lines = buffer.split('\n');
           buffer = lines.pop() || '';
 
           for (const line of lines) {
-            if (line.startsWith('data: ')) {
+            if (line.startsWith('id: ')) {
+              lastEventId = line.slice(4);
+            } else if (line.startsWith('data: ')) {
               try {
                 const event = JSON.parse(line.slice(6)) as AgentEvent;
                 onEventRef.current(event);
@@ -70,6 +182,7 @@ export function useBridge(
 
       if (!disposed) {
         setConnected(false);
+        setTransport(null);
         retryTimeout = window.setTimeout(connect, 3000);
       }
     }
@@ -79,9 +192,27 @@ export function useBridge(
     return () => {
       disposed = true;
       abortController?.abort();
+      socket?.close();
+      rejectPending();
       if (retryTimeout) clearTimeout(retryTimeout);
     };
   }, [enabled]);
 
-  return { connected, everConnected };
+  /**
+   * Send a command to the bridge. Resolves when the bridge confirms it;
+   * rejects when it refuses, or when connected over SSE (read-only).
+   */
+  const sendCommand = useCallback((command: BridgeCommand): Promise<void> => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Commands need the WebSocket connection'));
+    }
+    const requestId = nextRequestIdRef.current++;
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(requestId, { resolve, reject });
+      socket.send(JSON.stringify({ ...command, requestId }));
+    });
+  }, []);
+
+  return { connected, everConnected, transport, sendCommand };
 }
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchLeaderboard } from './leaderboard';
+
+describe('fetchLeaderboard', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass the period, metric, clan and page as query parameters', async () => {
+    const board = { period: 'week', metric: 'testsPassed', from: 0, total: 0, offset: 20, limit: 20, leaderboard: [] };
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(board) });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const result = await fetchLeaderboard('http://bridge', {}, {
+      period: 'week', metric: 'testsPassed', clan: '', offset: 20, limit: 20,
+    });
+    expect(result).toEqual(board);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://bridge/api/leaderboard?period=week&metric=testsPassed&clan=&offset=20&limit=20',
+      { headers: {} },
+    );
+  });
+
+  it('should reject on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 400 }));
+    await expect(fetchLeaderboard('http://bridge', {}, { metric: 'xp' })).rejects.toThrow('400');
+  });
+});
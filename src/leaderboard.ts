@@ -0,0 +1,96 @@
+// ── Leaderboard ─────────────────────────────────────────
+// Residents ranked from the bridge's /api/leaderboard: by XP or
+// another metric, today, this week, this month or all time. Shown in
+// the resident directory.
+
+import type { AchievementUnlock } from './types';
+
+export interface ResidentProfile {
+  agentId: string;
+  name: string;
+  clan: string | null;
+  toolCalls: number;
+  totalInputBytes: number;
+  totalOutputBytes: number;
+  totalInputTokens?: number;
+  totalOutputTokens?: number;
+  totalCacheReadTokens?: number;
+  totalCacheCreationTokens?: number;
+  model?: string | null;
+  totalCost?: number;
+  sessions: number;
+  subAgentsSpawned: number;
+  parentId: string | null;
+  firstSeen: number;
+  lastSeen: number;
+  /** Achievements unlocked, oldest first */
+  achievements?: AchievementUnlock[];
+  xp: number;
+  level: number;
+  title: string;
+  nextLevelXP: number | null;
+}
+
+export interface LeaderboardEntry extends ResidentProfile {
+  /** The metric in the period; the other fields are all-time */
+  score: number;
+  /** Ties share a rank */
+  rank: number;
+}
+
+export const LEADERBOARD_PERIODS = {
+  today: 'Today',
+  week: 'This week',
+  month: 'This month',
+  all: 'All time',
+} as const;
+
+export const LEADERBOARD_METRICS = {
+  xp: 'XP',
+  toolCalls: 'Tool calls',
+  testsPassed: 'Tests passed',
+  filesTouched: 'Files touched',
+  tokens: 'Tokens',
+  sessions: 'Sessions',
+  subAgents: 'Sub-agents',
+} as const;
+
+export type LeaderboardPeriod = keyof typeof LEADERBOARD_PERIODS;
+export type LeaderboardMetric = keyof typeof LEADERBOARD_METRICS;
+
+export interface LeaderboardQuery {
+  period?: LeaderboardPeriod;
+  metric?: LeaderboardMetric;
+  /** '' for agents without a clan */
+  clan?: string;
+  offset?: number;
+  limit?: number;
+  /** IANA time zone the periods start in; the bridge's own if left out */
+  tz?: string;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  /** Start of the period (epoch ms), 0 for all time */
+  from: number;
+  /** Agents on the whole board, across pages */
+  total: number;
+  offset: number;
+  limit: number;
+  leaderboard: LeaderboardEntry[];
+}
+
+export async function fetchLeaderboard(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  query: LeaderboardQuery = {},
+): Promise<Leaderboard> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await fetch(`${bridgeUrl}/api/leaderboard?${params}`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
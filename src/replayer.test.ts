@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReplayer, type History, type ReplayState } from './replayer';
+import type { AgentEvent } from './types';
+
+const FROM = 1_700_000_000_000;
+
+const history: History = {
+  from: FROM,
+  to: FROM + 10_000,
+  snapshot: [{ type: 'agent:spawn', agentId: 'a1', agentName: 'Thorin' }],
+  events: [
+    { id: 1, timestamp: FROM + 1000, event: { type: 'agent:work', agentId: 'a1', activity: 'coding' } },
+    { id: 2, timestamp: FROM + 5000, event: { type: 'agent:work', agentId: 'a1', activity: 'testing' } },
+    { id: 3, timestamp: FROM + 9000, event: { type: 'agent:despawn', agentId: 'a1' } },
+  ],
+};
+
+function setup() {
+  const events: AgentEvent[] = [];
+  const states: ReplayState[] = [];
+  let resets = 0;
+  const replayer = createReplayer(history, {
+    onEvent: e => events.push(e),
+    onReset: () => { resets++; },
+    onState: s => states.push(s),
+  });
+  return { replayer, events, states, resets: () => resets };
+}
+
+describe('createReplayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should apply the snapshot on start, stamped with the range start', () => {
+    const { replayer, events, resets } = setup();
+    replayer.start();
+
+    expect(resets()).toBe(1);
+    expect(events).toEqual([{ type: 'agent:spawn', agentId: 'a1', agentName: 'Thorin', timestamp: FROM }]);
+  });
+
+  it('should play events in real time at 1x', () => {
+    const { replayer, events } = setup();
+    replayer.start();
+    replayer.play();
+
+    vi.advanceTimersByTime(900);
+    expect(events).toHaveLength(1);
+
+    vi.advanceTimersByTime(200);
+    expect(events).toHaveLength(2);
+    expect(events[1]).toMatchObject({ activity: 'coding', timestamp: FROM + 1000 });
+
+    replayer.stop();
+  });
+
+  it('should play faster at higher speeds', () => {
+    const { replayer, events } = setup();
+    replayer.start();
+    replayer.setSpeed(4);
+    replayer.play();
+
+    vi.advanceTimersByTime(1300); // 5.2s of recorded time
+    expect(events.map(e => e.type)).toEqual(['agent:spawn', 'agent:work', 'agent:work']);
+
+    replayer.stop();
+  });
+
+  it('should not advance while paused', () => {
+    const { replayer, events, states } = setup();
+    replayer.start();
+    replayer.play();
+    vi.advanceTimersByTime(500);
+    replayer.pause();
+
+    const time = states[states.length - 1].time;
+    vi.advanceTimersByTime(5000);
+    expect(events).toHaveLength(1);
+    expect(states[states.length - 1]).toMatchObject({ time, playing: false });
+  });
+
+  it('should stop at the end of the range', () => {
+    const { replayer, events, states } = setup();
+    replayer.start();
+    replayer.setSpeed(16);
+    replayer.play();
+
+    vi.advanceTimersByTime(2000);
+    expect(events).toHaveLength(4);
+    expect(states[states.length - 1]).toMatchObject({ time: FROM + 10_000, playing: false });
+  });
+
+  it('should apply skipped events when seeking forward', () => {
+    const { replayer, events, resets } = setup();
+    replayer.start();
+    replayer.seek(FROM + 6000);
+
+    expect(resets()).toBe(1);
+    expect(events.map(e => e.activity)).toEqual([undefined, 'coding', 'testing']);
+  });
+
+  it('should reset and fast-forward when seeking backward', () => {
+    const { replayer, events, resets } = setup();
+    replayer.start();
+    replayer.seek(FROM + 9500);
+    events.length = 0;
+
+    replayer.seek(FROM + 2000);
+    expect(resets()).toBe(2);
+    expect(events.map(e => e.type)).toEqual(['agent:spawn', 'agent:work']);
+  });
+
+  it('should clamp seeks to the range', () => {
+    const { replayer, states } = setup();
+    replayer.start();
+
+    replayer.seek(FROM + 60_000);
+    expect(states[states.length - 1].time).toBe(FROM + 10_000);
+    replayer.seek(0);
+    expect(states[states.length - 1].time).toBe(FROM);
+  });
+});
@@ -0,0 +1,128 @@
+import type { AgentEvent } from './types'
+
+// ── Replay ──────────────────────────────────────────────
+// Plays a recorded range of bridge events back through the
+// same handler the live stream uses. Seeking backwards resets
+// the village and fast-forwards from the range's snapshot.
+
+export interface HistoryEntry {
+  id: number;
+  timestamp: number;
+  event: AgentEvent;
+}
+
+export interface History {
+  from: number;
+  to: number;
+  snapshot: AgentEvent[];
+  events: HistoryEntry[];
+  truncated?: boolean;
+}
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+export interface ReplayState {
+  time: number;
+  playing: boolean;
+  speed: ReplaySpeed;
+}
+
+interface ReplayHandlers {
+  onEvent: (event: AgentEvent) => void;
+  /** Clear the village before replaying from the start */
+  onReset: () => void;
+  onState: (state: ReplayState) => void;
+}
+
+const TICK_MS = 100;
+
+export function createReplayer(history: History, handlers: ReplayHandlers) {
+  const { from, to, snapshot, events } = history;
+  let time = from;
+  let cursor = 0; // index of the next event to apply
+  let playing = false;
+  let speed: ReplaySpeed = 1;
+  let interval: number | null = null;
+
+  function emitState() {
+    handlers.onState({ time, playing, speed });
+  }
+
+  function restart() {
+    handlers.onReset();
+    cursor = 0;
+    for (const event of snapshot) {
+      handlers.onEvent({ ...event, timestamp: from });
+    }
+  }
+
+  function applyUntil(t: number) {
+    while (cursor < events.length && events[cursor].timestamp <= t) {
+      const entry = events[cursor++];
+      handlers.onEvent({ ...entry.event, timestamp: entry.timestamp });
+    }
+  }
+
+  function stopTimer() {
+    if (interval !== null) {
+      clearInterval(interval);
+      interval = null;
+    }
+  }
+
+  function tick() {
+    time = Math.min(to, time + TICK_MS * speed);
+    applyUntil(time);
+    if (time >= to) {
+      playing = false;
+      stopTimer();
+    }
+    emitState();
+  }
+
+  return {
+    start() {
+      restart();
+      applyUntil(time);
+      emitState();
+    },
+
+    stop() {
+      playing = false;
+      stopTimer();
+    },
+
+    play() {
+      if (playing) return;
+      if (time >= to) {
+        restart();
+        time = from;
+      }
+      playing = true;
+      interval = window.setInterval(tick, TICK_MS);
+      emitState();
+    },
+
+    pause() {
+      playing = false;
+      stopTimer();
+      emitState();
+    },
+
+    seek(target: number) {
+      const t = Math.max(from, Math.min(to, target));
+      if (t < time) restart();
+      time = t;
+      applyUntil(time);
+      emitState();
+    },
+
+    setSpeed(next: ReplaySpeed) {
+      speed = next;
+      emitState();
+    },
+  };
+}
+
+export type Replayer = ReturnType<typeof createReplayer>;
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchSessions, formatDuration } from './sessions';
+
+describe('formatDuration', () => {
+  it('should format seconds, minutes and hours', () => {
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(12 * 60_000 + 10_000)).toBe('12m');
+    expect(formatDuration(65 * 60_000)).toBe('1h 05m');
+  });
+
+  it('should clamp negative durations', () => {
+    expect(formatDuration(-5)).toBe('0s');
+  });
+});
+
+describe('fetchSessions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass the filters as query parameters', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ sessions: [] }) });
+    vi.stubGlobal('fetch', mockFetch);
+
+    await fetchSessions('http://bridge', {}, { agent: 'claude-x', limit: 10, clan: undefined });
+    expect(mockFetch).toHaveBeenCalledWith('http://bridge/api/sessions?agent=claude-x&limit=10', { headers: {} });
+  });
+
+  it('should reject on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+    await expect(fetchSessions('http://bridge', {})).rejects.toThrow('500');
+  });
+});
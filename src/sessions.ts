@@ -0,0 +1,50 @@
+// ── Sessions ────────────────────────────────────────────
+// Past and active agent sessions from the bridge's /api/sessions,
+// shown in the agent stats panel.
+
+export interface Session {
+  id: number;
+  agentId: string;
+  agentName: string | null;
+  clan: string | null;
+  project: string | null;
+  parentId: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  duration: number;
+  toolCalls: number;
+  subAgents: number;
+  outcome: 'active' | 'ended' | 'timeout' | 'interrupted';
+}
+
+export interface SessionQuery {
+  agent?: string;
+  clan?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export async function fetchSessions(
+  bridgeUrl: string,
+  headers: Record<string, string>,
+  query: SessionQuery = {},
+): Promise<Session[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await fetch(`${bridgeUrl}/api/sessions?${params}`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data: { sessions: Session[] } = await res.json();
+  return data.sessions;
+}
+
+/** 45s, 12m, 1h 05m */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -114,6 +114,23 @@ describe('createSimulator', () => {
     sim.stop();
   });
 
+  it('should send messages between the orchestrator and its researcher', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // always spawn the researcher
+    const events: AgentEvent[] = [];
+    const sim = createSimulator((e) => events.push(e));
+    sim.start();
+
+    vi.advanceTimersByTime(14000);
+
+    const messages = events.filter(e => e.type === 'agent:communicate' && e.agentId.startsWith('c0-'));
+    expect(messages.map(e => e.kind)).toEqual(['prompt', 'result']);
+    expect(messages[0]).toMatchObject({ agentId: 'c0-orch', targetAgent: 'c0-research' });
+    expect(messages[1]).toMatchObject({ agentId: 'c0-research', targetAgent: 'c0-orch' });
+
+    sim.stop();
+    vi.restoreAllMocks();
+  });
+
   it('should run multiple workflow cycles over time', () => {
     const events: AgentEvent[] = [];
     const sim = createSimulator((e) => events.push(e));
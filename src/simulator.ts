@@ -31,6 +31,17 @@ const FAKE_PLANS = [
   '5 tasks remaining', 'design review', 'sprint planning',
 ];
 
+const FAKE_FINDINGS = [
+  'handleSubmit is called from 3 places: LoginForm, SignupForm and the retry path in api.ts.',
+  'The session cookie is set in middleware.ts and never refreshed; that explains the logouts.',
+  'Found 2 unused exports in utils.ts and a duplicate date parser in hooks.ts.',
+];
+
+const FAKE_COMMITS = [
+  'Fix coupon rounding', 'Add form validation', 'Refresh the session cookie',
+  'Extract date parsing into utils', 'Handle empty search results',
+];
+
 function pick<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
@@ -56,10 +67,49 @@ function despawnEvent(agentId: string): AgentEvent {
   return { type: 'agent:despawn', agentId };
 }
 
+function messageEvent(from: string, to: string, kind: 'prompt' | 'result', detail: string): AgentEvent {
+  return { type: 'agent:communicate', agentId: from, targetAgent: to, kind, detail };
+}
+
 function workEvent(agentId: string, activity: AgentEvent['activity'], building: string, detail?: string): AgentEvent {
   return { type: 'agent:work', agentId, activity, targetBuilding: building, detail };
 }
 
+// A test run the bridge parsed: mostly green, sometimes a few failures
+function testEvent(agentId: string): AgentEvent {
+  const failed = Math.random() < 0.25 ? 1 + Math.floor(Math.random() * 3) : 0;
+  return {
+    type: 'agent:test',
+    agentId,
+    test: {
+      runner: 'vitest',
+      command: 'vitest run',
+      passed: 40 + Math.floor(Math.random() * 80),
+      failed,
+      skipped: Math.floor(Math.random() * 3),
+      duration: 800 + Math.floor(Math.random() * 4000),
+    },
+  };
+}
+
+// A commit the coder made once the work was done
+function commitEvent(agentId: string): AgentEvent {
+  const files = 1 + Math.floor(Math.random() * 4);
+  return {
+    type: 'agent:commit',
+    agentId,
+    commit: {
+      sha: Array.from({ length: 40 }, () => Math.floor(Math.random() * 16).toString(16)).join(''),
+      branch: 'main',
+      message: pick(FAKE_COMMITS),
+      files,
+      insertions: files * (2 + Math.floor(Math.random() * 30)),
+      deletions: Math.floor(Math.random() * 20),
+      committedAt: Date.now(),
+    },
+  };
+}
+
 export function createSimulator(onEvent: EventHandler) {
   const timeouts = new Set<number>();
   const intervals = new Set<number>();
@@ -119,6 +169,11 @@ export function createSimulator(onEvent: EventHandler) {
 
     // Phase 3: Maybe spawn a researcher (sub-agent)
     if (Math.random() > 0.3) {
+      const search = pick(FAKE_SEARCHES);
+      schedule(
+        messageEvent(p('orch'), p('research'), 'prompt', `Find every use of ${search} and report back`),
+        startDelay + 5800,
+      );
       schedule(
         spawnEvent(p('research'), 'Researcher', p('orch')),
         startDelay + 6000,
@@ -131,7 +186,11 @@ export function createSimulator(onEvent: EventHandler) {
         workEvent(p('research'), 'researching', 'library', pick(FAKE_SEARCHES)),
         startDelay + 9000,
       );
-      // Researcher finishes and leaves
+      // Researcher reports back, finishes and leaves
+      schedule(
+        messageEvent(p('research'), p('orch'), 'result', pick(FAKE_FINDINGS)),
+        startDelay + 13500,
+      );
       schedule(
         workEvent(p('research'), 'idle', 'campfire'),
         startDelay + 14000,
@@ -170,10 +229,24 @@ export function createSimulator(onEvent: EventHandler) {
     );
 
     // Phase 5: Tests pass, review phase
+    // The bridge follows a red run with agent:failure
+    const run = testEvent(p('tester'));
+    schedule(run, startDelay + 17000);
+    const failed = run.test!.failed;
+    if (failed > 0) {
+      schedule(
+        { type: 'agent:failure', agentId: p('tester'), detail: `${failed} test${failed === 1 ? '' : 's'} failed` },
+        startDelay + 17000,
+      );
+    }
     schedule(
       despawnEvent(p('tester')),
       startDelay + 18000,
     );
+    schedule(
+      commitEvent(p('coder-0')),
+      startDelay + 18200,
+    );
     schedule(
       workEvent(p('coder-0'), 'idle', 'campfire'),
       startDelay + 18500,
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { cacheHitRate, estimateTokens, formatCost, formatPercent, formatTokens, sumTokenUsage, tokenUsage } from './tokens';
+
+describe('tokenUsage', () => {
+  it('should estimate from bytes when nothing was reported', () => {
+    expect(tokenUsage({ totalInputBytes: 4000, totalOutputBytes: 400 })).toEqual({
+      input: 1000, output: 100, cacheRead: 0, exact: false,
+    });
+  });
+
+  it('should prefer reported counts, cache included in the input', () => {
+    const usage = tokenUsage({
+      totalInputBytes: 4000, totalOutputBytes: 400,
+      totalInputTokens: 20, totalOutputTokens: 300, totalCacheReadTokens: 9000, totalCacheCreationTokens: 980,
+    });
+    expect(usage).toEqual({ input: 10_000, output: 300, cacheRead: 9000, exact: true });
+    expect(cacheHitRate(usage)).toBe(0.9);
+  });
+
+  it('should have no cache hit rate without cache reads', () => {
+    expect(cacheHitRate(tokenUsage({ totalInputBytes: 0, totalOutputBytes: 0, totalInputTokens: 50 }))).toBeNull();
+  });
+});
+
+describe('sumTokenUsage', () => {
+  it('should add agents up and stay exact only if all of them are', () => {
+    const reported = { totalInputBytes: 0, totalOutputBytes: 0, totalInputTokens: 100, totalCacheReadTokens: 300 };
+    const estimated = { totalInputBytes: 400, totalOutputBytes: 0 };
+    const idle = { totalInputBytes: 0, totalOutputBytes: 0 };
+    expect(sumTokenUsage([reported, idle])).toEqual({ input: 400, output: 0, cacheRead: 300, exact: true });
+    expect(sumTokenUsage([reported, estimated]).exact).toBe(false);
+    expect(sumTokenUsage([reported, estimated]).input).toBe(500);
+  });
+});
+
+describe('formatting', () => {
+  it('should abbreviate and mark estimates', () => {
+    expect(estimateTokens(10)).toBe(3);
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12_345, false)).toBe('~12.3k');
+    expect(formatTokens(2_500_000)).toBe('2.5M');
+    expect(formatPercent(0.756)).toBe('76%');
+  });
+});
+
+describe('formatCost', () => {
+  it('should show dollars to the cent', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0.004)).toBe('<$0.01');
+  });
+
+  it('should round large amounts to whole dollars', () => {
+    expect(formatCost(12_345.67)).toBe('$12,346');
+  });
+});
@@ -0,0 +1,80 @@
+// ── Tokens ──────────────────────────────────────────────
+// Token counts for the dashboard. Agents that report their usage
+// (Claude Code transcripts, OTLP spans, other CLIs) carry exact
+// counts; for the rest they're estimated from tool bytes. Exact
+// counts are priced by model on the bridge (server/pricing.mjs).
+
+/** Byte and token totals, as agents and stored profiles carry them */
+export interface TokenTotals {
+  totalInputBytes: number;
+  totalOutputBytes: number;
+  totalInputTokens?: number;
+  totalOutputTokens?: number;
+  totalCacheReadTokens?: number;
+  totalCacheCreationTokens?: number;
+}
+
+export interface TokenUsage {
+  /** Input tokens, cache reads and writes included */
+  input: number;
+  output: number;
+  /** Input tokens read from the prompt cache */
+  cacheRead: number;
+  /** Reported by the agent rather than estimated from bytes */
+  exact: boolean;
+}
+
+/** Rough estimate: ~4 bytes per token on average */
+export function estimateTokens(bytes: number): number {
+  return Math.round(bytes / 4);
+}
+
+export function tokenUsage(totals: TokenTotals): TokenUsage {
+  const cacheRead = totals.totalCacheReadTokens || 0;
+  const input = (totals.totalInputTokens || 0) + cacheRead + (totals.totalCacheCreationTokens || 0);
+  const output = totals.totalOutputTokens || 0;
+  if (input + output > 0) return { input, output, cacheRead, exact: true };
+  return {
+    input: estimateTokens(totals.totalInputBytes),
+    output: estimateTokens(totals.totalOutputBytes),
+    cacheRead: 0,
+    exact: false,
+  };
+}
+
+/** Usage of several agents together; exact only if every count is */
+export function sumTokenUsage(all: Iterable<TokenTotals>): TokenUsage {
+  const sum: TokenUsage = { input: 0, output: 0, cacheRead: 0, exact: true };
+  for (const totals of all) {
+    const usage = tokenUsage(totals);
+    if (usage.input + usage.output === 0) continue;
+    sum.input += usage.input;
+    sum.output += usage.output;
+    sum.cacheRead += usage.cacheRead;
+    sum.exact &&= usage.exact;
+  }
+  return sum;
+}
+
+/** Share of input tokens read from the prompt cache, or null if none were */
+export function cacheHitRate(usage: TokenUsage): number | null {
+  return usage.cacheRead > 0 && usage.input > 0 ? usage.cacheRead / usage.input : null;
+}
+
+export function formatTokens(tokens: number, exact = true): string {
+  const prefix = exact ? '' : '~';
+  if (tokens < 1000) return `${prefix}${tokens}`;
+  if (tokens < 1_000_000) return `${prefix}${(tokens / 1000).toFixed(1)}k`;
+  return `${prefix}${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** Dollars, to the cent; amounts under a cent aren't shown as $0.00 */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  if (usd < 1000) return `$${usd.toFixed(2)}`;
+  return `$${Math.round(usd).toLocaleString('en-US')}`;
+}
@@ -1,10 +1,12 @@
+// Built-in activities; the village config can add more (deploy, database, …)
 export type ActivityType =
   | 'planning'
   | 'coding'
   | 'testing'
   | 'researching'
   | 'reviewing'
-  | 'idle';
+  | 'idle'
+  | (string & {});
 
 export interface AgentState {
   id: string;
@@ -21,12 +23,31 @@ export interface AgentState {
   clan?: string;
   parentId?: string;
   isSubAgent?: boolean;
+  /** CLI the agent reports from when it isn't Claude Code (gemini, codex, aider, otel) */
+  source?: string;
   previousActivity?: ActivityType;
   waiting?: boolean;
+  /** A risky tool call waiting for Approve/Deny from the dashboard */
+  approval?: ApprovalRequest | null;
+  /** Going in circles, as the bridge's stuck detector sees it */
+  stuck?: StuckState | null;
   failure?: string;
   offline?: boolean;
   totalInputBytes: number;
   totalOutputBytes: number;
+  /** Real token counts, for agents that report them (transcripts, OTLP, other CLIs) */
+  totalInputTokens?: number;
+  totalOutputTokens?: number;
+  totalCacheReadTokens?: number;
+  totalCacheCreationTokens?: number;
+  /** Model of the agent's latest response, when reported */
+  model?: string;
+  /** What the reported tokens cost, in USD (see server/pricing.mjs) */
+  totalCost?: number;
+  /** Commits made this session, oldest first */
+  commits?: CommitInfo[];
+  /** Achievements unlocked so far, oldest first */
+  achievements?: AchievementUnlock[];
   subAgentsSpawned: number;
   spawnedAt: number;
   level: number;
@@ -35,10 +56,28 @@ export interface AgentState {
   nextLevelXP: number | null;
 }
 
+export interface ApprovalRequest {
+  id: number;
+  tool: string;
+  /** The command or file the call would touch */
+  detail: string;
+  reason: string;
+  createdAt: number;
+  /** When the bridge applies its timeout policy */
+  expiresAt: number;
+}
+
+export interface StuckState {
+  /** repeat: same step over and over; oscillate: between two buildings; quiet: busy without tool calls */
+  kind: 'repeat' | 'oscillate' | 'quiet';
+  reason: string;
+}
+
 export interface BuildingState {
   id: string;
   name: string;
-  type: ActivityType;
+  /** Activities that send agents here (see village.ts) */
+  activities: ActivityType[];
   position: { x: number; y: number };
   color: string;
   glowColor: string;
@@ -60,6 +99,89 @@ export interface Trail {
   createdAt: number;
 }
 
+/** What a messenger carries: a Task prompt, or the result coming back */
+export type MessageKind = 'prompt' | 'result';
+
+/** A message flying between two agents (see `agent:communicate`) */
+export interface Messenger {
+  id: string;
+  fromId: string;
+  toId: string;
+  kind: MessageKind;
+  text: string;
+  color: string;
+  createdAt: number;
+}
+
+/** Summary of a test run the bridge parsed (see `agent:test`) */
+export interface TestRun {
+  /** vitest, jest, node, pytest, go or cargo */
+  runner: string;
+  command: string | null;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Milliseconds, when the runner printed it */
+  duration: number | null;
+}
+
+/** Win/loss banner raised over the Arena after a test run */
+export interface TestBanner {
+  id: string;
+  agentId: string;
+  agentName: string;
+  run: TestRun;
+  color: string;
+  createdAt: number;
+}
+
+/** A commit the bridge recorded (see `agent:commit`) */
+export interface CommitInfo {
+  sha: string;
+  /** null on a detached HEAD or when unknown */
+  branch: string | null;
+  message: string | null;
+  files: number;
+  insertions: number;
+  deletions: number;
+  committedAt: number;
+}
+
+/** An achievement an agent unlocked (see `agent:achievement` and achievements.ts) */
+export interface AchievementUnlock {
+  id: string;
+  unlockedAt: number;
+}
+
+/** A push or a new branch (see `agent:git`) */
+export interface GitOperation {
+  kind: 'push' | 'branch';
+  /** push: where to, and the branches it updated */
+  remote?: string;
+  branches?: string[];
+  /** branch: the one the agent switched to */
+  branch?: string;
+}
+
+/** Crate shipped out of the Forge after a commit */
+export interface Shipment {
+  id: string;
+  agentId: string;
+  agentName: string;
+  commit: CommitInfo;
+  color: string;
+  createdAt: number;
+}
+
+/** Two live agents editing the same file (see `agent:conflict`) */
+export interface FileConflict {
+  id: string;
+  agentId: string;
+  otherId: string;
+  file: string;
+  createdAt: number;
+}
+
 export interface AgentEvent {
   type:
     | 'agent:spawn'
@@ -72,8 +194,16 @@ export interface AgentEvent {
     | 'agent:levelup'
     | 'agent:xp'
     | 'agent:waiting'
+    | 'agent:rename'
+    | 'agent:approval'
     | 'agent:achievement'
     | 'agent:failure'
+    | 'agent:budget'
+    | 'agent:stuck'
+    | 'agent:conflict'
+    | 'agent:test'
+    | 'agent:commit'
+    | 'agent:git'
     | 'building:xp'
     | 'building:state';
   agentId: string;
@@ -81,13 +211,38 @@ export interface AgentEvent {
   agentRole?: string;
   activity?: ActivityType;
   targetBuilding?: string;
+  /**
+   * Receiver of an `agent:communicate`, with `kind` and the excerpt in
+   * `detail`; or the other editor in an `agent:conflict`
+   */
   targetAgent?: string;
+  /** File both agents of an `agent:conflict` edited (its name in `detail`) */
+  file?: string;
+  /** Test run of an `agent:test` */
+  test?: TestRun;
+  /** Commit of an `agent:commit`; the session's commits on `agent:spawn` */
+  commit?: CommitInfo;
+  commits?: CommitInfo[];
+  git?: GitOperation;
+  kind?: MessageKind;
   detail?: string;
   project?: string;
   clan?: string;
   parentId?: string;
+  source?: string;
   totalInputBytes?: number;
   totalOutputBytes?: number;
+  totalInputTokens?: number;
+  totalOutputTokens?: number;
+  totalCacheReadTokens?: number;
+  totalCacheCreationTokens?: number;
+  model?: string;
+  totalCost?: number;
+  /** `agent:budget`: percent of the clan's daily budget reached, and the day's spend */
+  threshold?: number;
+  spent?: number;
+  budget?: number;
+  day?: string;
   level?: number;
   title?: string;
   xp?: number;
@@ -95,11 +250,21 @@ export interface AgentEvent {
   subAgentsSpawned?: number;
   recentActivity?: { activity: string; detail: string; timestamp: number }[];
   waiting?: boolean;
+  /** Pending approval (null once settled, with the `decision`) */
+  approval?: ApprovalRequest | null;
+  decision?: 'allow' | 'deny' | 'ask' | 'cancelled';
+  /** `agent:stuck`: why the agent looks stuck, or null once it's moving again */
+  stuck?: StuckState | null;
+  /** `agent:achievement`: banner text and the unlock; the profile's unlocks on `agent:spawn` */
   achievement?: string;
+  unlock?: AchievementUnlock;
+  achievements?: AchievementUnlock[];
   offline?: boolean;
   buildingId?: string;
   toolCalls?: number;
   uniqueVisitors?: number;
+  /** When the event happened (set by replay; live events use receive time) */
+  timestamp?: number;
 }
 
 // ── Clan colors ─────────────────────────────────────────
@@ -127,3 +292,15 @@ export function getClanColor(clan: string): string {
   }
   return CLAN_COLORS[Math.abs(hash) % CLAN_COLORS.length];
 }
+
+// Badge text for agents reporting from other CLIs (bridge adapters)
+const SOURCE_LABELS: Record<string, string> = {
+  gemini: 'Gemini',
+  codex: 'Codex',
+  aider: 'Aider',
+  otel: 'OTel',
+};
+
+export function getSourceLabel(source: string): string {
+  return SOURCE_LABELS[source] || source;
+}
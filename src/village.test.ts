@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_VILLAGE, buildingsFromConfig, buildingForActivity, applyLayout, fetchVillage } from './village';
+
+const CUSTOM = {
+  buildings: [
+    ...DEFAULT_VILLAGE.buildings,
+    {
+      id: 'harbor', name: 'The Harbor', icon: '⚓', color: '#0c4a6e', glowColor: '#38bdf8',
+      position: { x: 260, y: 40 }, activities: ['deploy'],
+    },
+  ],
+};
+
+describe('buildingsFromConfig', () => {
+  it('should build every configured building at level 1', () => {
+    const buildings = buildingsFromConfig(CUSTOM);
+    expect(buildings.map(b => b.id)).toContain('harbor');
+    expect(buildings.every(b => b.level === 1 && b.activeAgents.length === 0)).toBe(true);
+  });
+
+  it('should title settlements like the campfire', () => {
+    const buildings = buildingsFromConfig(DEFAULT_VILLAGE);
+    expect(buildings.find(b => b.id === 'tavern')?.title).toBe('Campsite');
+    expect(buildings.find(b => b.id === 'forge')?.title).toBe('Outpost');
+  });
+});
+
+describe('buildingForActivity', () => {
+  const buildings = buildingsFromConfig(CUSTOM);
+
+  it('should find the building hosting an activity', () => {
+    expect(buildingForActivity(buildings, 'coding')).toBe('forge');
+    expect(buildingForActivity(buildings, 'deploy')).toBe('harbor');
+  });
+
+  it('should send unknown activities to the campfire', () => {
+    expect(buildingForActivity(buildings, 'juggling')).toBe('campfire');
+  });
+});
+
+describe('applyLayout', () => {
+  it('should keep progress of buildings in both layouts and add new ones', () => {
+    const current = buildingsFromConfig(DEFAULT_VILLAGE).map(b =>
+      b.id === 'forge' ? { ...b, level: 4, title: 'Stronghold', xp: 1600, activeAgents: ['a'] } : b,
+    );
+    const next = applyLayout(buildingsFromConfig(CUSTOM), current);
+
+    const forge = next.find(b => b.id === 'forge')!;
+    expect(forge.level).toBe(4);
+    expect(forge.activeAgents).toEqual(['a']);
+    expect(next.find(b => b.id === 'harbor')?.level).toBe(1);
+  });
+});
+
+describe('fetchVillage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch the config with the given headers', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(CUSTOM) });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const config = await fetchVillage('http://bridge', { Authorization: 'Bearer t' });
+    expect(config.buildings).toHaveLength(8);
+    expect(mockFetch).toHaveBeenCalledWith('http://bridge/api/village', { headers: { Authorization: 'Bearer t' } });
+  });
+
+  it('should reject on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
+    await expect(fetchVillage('http://bridge', {})).rejects.toThrow('401');
+  });
+});
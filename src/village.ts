@@ -0,0 +1,68 @@
+import type { ActivityType, BuildingState } from './types'
+import defaultVillage from '../server/village.default.json'
+
+// ── Village layout ──────────────────────────────────────
+// The bridge serves the village config at /api/village (built-in
+// buildings plus the user's server/data/village.json). The
+// dashboard builds its map from it, falling back to the built-in
+// layout in demo mode or when the bridge can't be reached.
+
+export interface BuildingConfig {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  glowColor: string;
+  position: { x: number; y: number };
+  activities: ActivityType[];
+  /** "settlement" buildings use the campfire level titles */
+  ladder?: string;
+}
+
+export interface VillageConfig {
+  buildings: BuildingConfig[];
+}
+
+export const DEFAULT_VILLAGE: VillageConfig = defaultVillage;
+
+/** Fresh level-1 building state for every building in the config */
+export function buildingsFromConfig(config: VillageConfig): BuildingState[] {
+  return config.buildings.map(b => ({
+    id: b.id,
+    name: b.name,
+    icon: b.icon,
+    color: b.color,
+    glowColor: b.glowColor,
+    position: b.position,
+    activities: b.activities,
+    activeAgents: [],
+    level: 1,
+    title: b.ladder === 'settlement' ? 'Campsite' : 'Outpost',
+    xp: 0,
+    nextLevelXP: 100,
+  }));
+}
+
+/** Building hosting an activity; unknown activities gather at the campfire */
+export function buildingForActivity(buildings: BuildingState[], activity: ActivityType): string {
+  return buildings.find(b => b.activities.includes(activity))?.id ?? 'campfire';
+}
+
+/**
+ * Swap in a new layout, keeping the progress (level, XP, occupants)
+ * of buildings that exist in both.
+ */
+export function applyLayout(layout: BuildingState[], current: BuildingState[]): BuildingState[] {
+  return layout.map(b => {
+    const existing = current.find(c => c.id === b.id);
+    if (!existing) return b;
+    const { activeAgents, level, title, xp, nextLevelXP, toolCalls, uniqueVisitors } = existing;
+    return { ...b, activeAgents, level, title, xp, nextLevelXP, toolCalls, uniqueVisitors };
+  });
+}
+
+export async function fetchVillage(bridgeUrl: string, headers: Record<string, string>): Promise<VillageConfig> {
+  const res = await fetch(`${bridgeUrl}/api/village`, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
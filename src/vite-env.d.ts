@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_BRIDGE_URL?: string;
+  readonly VITE_BRIDGE_TOKEN?: string;
 }
 
 interface ImportMeta {